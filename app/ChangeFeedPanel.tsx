@@ -0,0 +1,170 @@
+'use client';
+
+// changeFeedPanel / panneauFluxChangements : URL secrète du flux Atom (projet ou concurrent)
+// Secret Atom feed URL (project or competitor): enable, copy, rotate, disable
+
+import { useState } from 'react';
+import { apiJson } from '@/lib/apiClient';
+
+type ChangeFeedPanelProps = {
+  tokenEndpoint: string; // /api/projects/[id]/feed-token ou / or /api/competitors/[id]/feed-token
+  initialFeedUrl: string | null;
+};
+
+const SMALL_BUTTON_CLASS =
+  'rounded-lg border border-slate-600 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60';
+
+export default function ChangeFeedPanel({
+  tokenEndpoint,
+  initialFeedUrl,
+}: ChangeFeedPanelProps) {
+  // feedUrlState / etatUrlFlux : null = flux désactivé
+  // null = feed disabled
+  const [feedUrl, setFeedUrl] = useState<string | null>(initialFeedUrl);
+
+  // savingState / etatEnregistrement
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // messages / messages : erreur et statut de la section
+  // Error and status messages for this section
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  // runAction / executerAction : états de chargement et messages communs aux actions
+  // Shared loading state and messages for every action
+  async function runAction(action: () => Promise<void>, defaultError: string) {
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+      await action();
+    } catch (error) {
+      console.error('feedActionError / erreurActionFlux', error);
+      setErrorMessage(error instanceof Error ? error.message : defaultError);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  // handleRotate / gererRegeneration : POST, active le flux ou remplace l'URL
+  // POST: enables the feed or replaces its URL
+  async function handleRotate() {
+    if (
+      feedUrl &&
+      !window.confirm(
+        "L'URL actuelle cessera de fonctionner dans les lecteurs de flux. Continuer ? / The current URL will stop working in feed readers. Continue?",
+      )
+    ) {
+      return;
+    }
+
+    await runAction(async () => {
+      const result = await apiJson<{ feedUrl: string | null }>(
+        tokenEndpoint,
+        { method: 'POST' },
+        'Erreur lors de la mise à jour du flux. / Error updating feed.',
+      );
+      setStatusMessage(
+        feedUrl
+          ? 'Nouvelle URL générée. / New URL generated.'
+          : 'Flux activé. / Feed enabled.',
+      );
+      setFeedUrl(result.feedUrl);
+    }, 'Erreur lors de la mise à jour du flux. / Error updating feed.');
+  }
+
+  // handleDisable / gererDesactivation : DELETE
+  async function handleDisable() {
+    if (!window.confirm('Désactiver le flux ? / Disable the feed?')) {
+      return;
+    }
+
+    await runAction(async () => {
+      await apiJson<{ feedUrl: null }>(
+        tokenEndpoint,
+        { method: 'DELETE' },
+        'Erreur lors de la mise à jour du flux. / Error updating feed.',
+      );
+      setFeedUrl(null);
+      setStatusMessage('Flux désactivé. / Feed disabled.');
+    }, 'Erreur lors de la mise à jour du flux. / Error updating feed.');
+  }
+
+  // handleCopy / gererCopie : presse-papiers
+  // Clipboard
+  async function handleCopy() {
+    if (!feedUrl) return;
+
+    await runAction(async () => {
+      await navigator.clipboard.writeText(feedUrl);
+      setStatusMessage('URL copiée. / URL copied.');
+    }, 'Copie impossible, sélectionnez l’URL. / Copy failed, select the URL.');
+  }
+
+  return (
+    <section className="mt-8 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+      <h2 className="text-lg font-semibold">Flux Atom / Atom feed</h2>
+      <p className="mt-1 text-xs text-slate-400">
+        50 derniers changements (hors écartés) pour un lecteur de flux. L’URL
+        contient un jeton secret : ne la partagez qu’avec les personnes
+        autorisées. / Last 50 changes (dismissed excluded) for feed readers.
+        The URL contains a secret token: only share it with authorized people.
+      </p>
+
+      {feedUrl ? (
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            readOnly
+            value={feedUrl}
+            onFocus={(event) => event.target.select()}
+            className="min-w-0 flex-1 rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 font-mono text-xs text-slate-200 outline-none focus:border-sky-500"
+          />
+          <button
+            type="button"
+            onClick={() => void handleCopy()}
+            disabled={isSaving}
+            className={SMALL_BUTTON_CLASS}
+          >
+            Copier / Copy
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleRotate()}
+            disabled={isSaving}
+            className={SMALL_BUTTON_CLASS}
+          >
+            Régénérer / Rotate
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleDisable()}
+            disabled={isSaving}
+            className="rounded-lg border border-red-500/60 px-3 py-1 text-[11px] text-red-300 hover:bg-red-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Désactiver / Disable
+          </button>
+        </div>
+      ) : (
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <p className="text-xs text-slate-400">Flux désactivé. / Feed disabled.</p>
+          <button
+            type="button"
+            onClick={() => void handleRotate()}
+            disabled={isSaving}
+            className="inline-flex items-center rounded-lg border border-sky-500/60 bg-sky-500/10 px-4 py-2 text-sm font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Activer le flux / Enable feed
+          </button>
+        </div>
+      )}
+
+      {errorMessage && (
+        <p className="mt-3 text-sm text-red-400">{errorMessage}</p>
+      )}
+      {statusMessage && (
+        <p className="mt-3 text-xs text-slate-300">{statusMessage}</p>
+      )}
+    </section>
+  );
+}
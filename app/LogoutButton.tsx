@@ -0,0 +1,39 @@
+'use client';
+
+// logoutButton / boutonDeconnexion : POST /api/auth/logout puis retour à /login
+// POST /api/auth/logout then back to /login (full navigation: the header re-reads the session)
+
+import { useState } from 'react';
+import { apiJson } from '@/lib/apiClient';
+
+export default function LogoutButton() {
+  // submittingState / etatEnvoi
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  // handleLogout / gererDeconnexion
+  async function handleLogout() {
+    try {
+      setIsSubmitting(true);
+      await apiJson<{ message: string }>(
+        '/api/auth/logout',
+        { method: 'POST' },
+        'Erreur lors de la déconnexion. / Error logging out.',
+      );
+      window.location.href = '/login';
+    } catch (error) {
+      console.error('logoutError / erreurDeconnexion', error);
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => void handleLogout()}
+      disabled={isSubmitting}
+      className="rounded-lg border border-slate-600 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+    >
+      Déconnexion / Log out
+    </button>
+  );
+}
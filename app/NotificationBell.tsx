@@ -0,0 +1,90 @@
+'use client';
+
+// notificationBell / clocheNotifications : lien vers /notifications avec le nombre de non lues
+// Link to /notifications with the unread count; refreshed on navigation, every minute and
+// when the notifications page marks items as read
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { apiJson } from '@/lib/apiClient';
+
+// notificationsChangedEvent / evenementNotificationsModifiees : detail = nouveau compteur
+// Dispatched on window by the notifications page; detail = new unread count
+export const NOTIFICATIONS_CHANGED_EVENT = 'notifications:changed';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export default function NotificationBell() {
+  const pathname = usePathname();
+
+  // unreadState / etatNonLues : null tant que le premier chargement n'a pas abouti
+  // null until the first load succeeds
+  const [unreadCount, setUnreadCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // refreshCount / rafraichirCompteur : une erreur garde le dernier compteur connu
+    // An error keeps the last known count
+    async function refreshCount() {
+      try {
+        const { unreadCount: count } = await apiJson<{ unreadCount: number }>(
+          '/api/notifications/unread-count',
+          { cache: 'no-store' },
+        );
+        if (!cancelled) setUnreadCount(count);
+      } catch (error) {
+        console.error('unreadCountError / erreurCompteurNonLues', error);
+      }
+    }
+
+    function handleChanged(event: Event) {
+      const count = (event as CustomEvent<number>).detail;
+      if (typeof count === 'number') setUnreadCount(count);
+    }
+
+    void refreshCount();
+    const timer = window.setInterval(() => void refreshCount(), POLL_INTERVAL_MS);
+    window.addEventListener(NOTIFICATIONS_CHANGED_EVENT, handleChanged);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      window.removeEventListener(NOTIFICATIONS_CHANGED_EVENT, handleChanged);
+    };
+  }, [pathname]);
+
+  const label =
+    unreadCount && unreadCount > 0
+      ? `${unreadCount} notification(s) non lue(s) / unread notification(s)`
+      : 'Notifications';
+
+  return (
+    <Link
+      href="/notifications"
+      aria-label={label}
+      title={label}
+      className="relative inline-flex h-9 w-9 items-center justify-center rounded-lg border border-slate-700 text-slate-200 hover:bg-slate-800"
+    >
+      <svg
+        aria-hidden="true"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.8}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        className="h-5 w-5"
+      >
+        <path d="M18 8a6 6 0 0 0-12 0c0 7-3 9-3 9h18s-3-2-3-9" />
+        <path d="M13.73 21a2 2 0 0 1-3.46 0" />
+      </svg>
+      {unreadCount !== null && unreadCount > 0 && (
+        <span className="absolute -right-1.5 -top-1.5 min-w-[1.25rem] rounded-full bg-sky-500 px-1 text-center text-[10px] font-semibold leading-5 text-slate-950">
+          {unreadCount > 99 ? '99+' : unreadCount}
+        </span>
+      )}
+    </Link>
+  );
+}
@@ -0,0 +1,12 @@
+// readOnlyNotice / avisLectureSeule : bandeau des pages projet pour le rôle VIEWER
+// Project page banner for the VIEWER role; the API refuses their changes (403) anyway
+
+export default function ReadOnlyNotice() {
+  return (
+    <p className="mb-6 rounded-xl border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-xs text-amber-200">
+      Accès en lecture seule : vous pouvez consulter les changements et les rapports, mais
+      pas lancer de scrape ni modifier le projet. / Read-only access: you can read changes and
+      reports, but not trigger scrapes or edit the project.
+    </p>
+  );
+}
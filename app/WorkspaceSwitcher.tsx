@@ -0,0 +1,63 @@
+'use client';
+
+// workspaceSwitcher / selecteurEspace : POST /api/workspaces/current puis retour aux projets
+// POST /api/workspaces/current then back to /projects (full navigation: every page re-reads the workspace)
+
+import { useState } from 'react';
+import { apiJson } from '@/lib/apiClient';
+import type { WorkspaceMembershipView } from '@/lib/access';
+
+type WorkspaceSwitcherProps = {
+  workspaces: WorkspaceMembershipView[];
+  currentWorkspaceId: number | null;
+};
+
+export default function WorkspaceSwitcher({
+  workspaces,
+  currentWorkspaceId,
+}: WorkspaceSwitcherProps) {
+  // submittingState / etatEnvoi
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  // handleSwitch / gererChangement
+  async function handleSwitch(workspaceId: number) {
+    try {
+      setIsSubmitting(true);
+      await apiJson<{ workspaceId: number }>(
+        '/api/workspaces/current',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ workspaceId }),
+        },
+        "Erreur lors du changement d'espace. / Error switching workspace.",
+      );
+      window.location.href = '/projects';
+    } catch (error) {
+      console.error('switchWorkspaceError / erreurChangementEspace', error);
+      setIsSubmitting(false);
+    }
+  }
+
+  if (workspaces.length === 0) {
+    return null;
+  }
+
+  return (
+    <select
+      aria-label="Espace de travail / Workspace"
+      value={currentWorkspaceId ?? ''}
+      onChange={(event) => void handleSwitch(Number(event.target.value))}
+      disabled={isSubmitting || workspaces.length === 1}
+      className="max-w-[14rem] rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-[11px] text-slate-200 disabled:opacity-80"
+    >
+      {workspaces.map((workspace) => (
+        <option key={workspace.id} value={workspace.id}>
+          {workspace.name}
+        </option>
+      ))}
+    </select>
+  );
+}
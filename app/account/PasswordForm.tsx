@@ -0,0 +1,111 @@
+'use client';
+
+// passwordForm / formulaireMotDePasse : POST /api/auth/password (ferme les autres sessions)
+// POST /api/auth/password (closes the other sessions)
+
+import { useState } from 'react';
+import { apiJson } from '@/lib/apiClient';
+
+type PasswordFormProps = {
+  minPasswordLength: number; // lib/auth.ts (module serveur / server-only module)
+};
+
+const INPUT_CLASS =
+  'w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-50 outline-none focus:border-sky-500';
+
+export default function PasswordForm({ minPasswordLength }: PasswordFormProps) {
+  // formState / etatFormulaire : champs du formulaire
+  // Form fields
+  const [currentPassword, setCurrentPassword] = useState<string>('');
+  const [newPassword, setNewPassword] = useState<string>('');
+
+  // savingState / etatEnregistrement
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // messages / messages : erreur et statut du formulaire
+  // Error and status messages for the form
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  // handleSubmit / gererEnvoi
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+      await apiJson<{ message: string }>(
+        '/api/auth/password',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ currentPassword, newPassword }),
+        },
+        'Erreur lors du changement de mot de passe. / Error changing password.',
+      );
+      setCurrentPassword('');
+      setNewPassword('');
+      setStatusMessage(
+        'Mot de passe modifié, vos autres sessions sont fermées. / Password changed, your other sessions are closed.',
+      );
+    } catch (error) {
+      console.error('passwordChangeError / erreurChangementMotDePasse', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : 'Erreur lors du changement de mot de passe. / Error changing password.',
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+      <h2 className="text-lg font-semibold">Mon mot de passe / My password</h2>
+      <form
+        onSubmit={(event) => void handleSubmit(event)}
+        className="mt-4 grid gap-4 md:grid-cols-2"
+      >
+        <label className="flex flex-col gap-1 text-xs text-slate-300">
+          Mot de passe actuel / Current password
+          <input
+            type="password"
+            required
+            autoComplete="current-password"
+            value={currentPassword}
+            onChange={(event) => setCurrentPassword(event.target.value)}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-300">
+          Nouveau mot de passe ({minPasswordLength} caractères min.) / New password
+          <input
+            type="password"
+            required
+            minLength={minPasswordLength}
+            autoComplete="new-password"
+            value={newPassword}
+            onChange={(event) => setNewPassword(event.target.value)}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <div className="md:col-span-2">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center rounded-lg border border-sky-500/60 bg-sky-500/10 px-4 py-2 text-sm font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Changer le mot de passe / Change password
+          </button>
+        </div>
+      </form>
+
+      {errorMessage && <p className="mt-3 text-sm text-red-400">{errorMessage}</p>}
+      {statusMessage && <p className="mt-3 text-sm text-emerald-300">{statusMessage}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,33 @@
+// accountPage / pageCompte : compte de l'utilisateur connecté (changement de mot de passe)
+// Logged-in user's account (password change); workspace access is managed on /workspace
+
+import { redirect } from 'next/navigation';
+import { getCurrentUser, MIN_PASSWORD_LENGTH } from '@/lib/auth';
+import PasswordForm from './PasswordForm';
+
+// dynamicRendering / renduDynamique : dépend du cookie de session
+// Depends on the session cookie
+export const dynamic = 'force-dynamic';
+
+export default async function AccountPage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login?next=/account');
+  }
+
+  return (
+    <main className="min-h-screen bg-slate-950 text-slate-50">
+      <div className="mx-auto max-w-2xl px-6 py-10">
+        <header className="mb-6 border-b border-slate-800 pb-4">
+          <h1 className="text-2xl font-semibold">Mon compte / My account</h1>
+          <p className="mt-2 text-sm text-slate-300">
+            {user.name ? `${user.name} · ` : ''}
+            {user.email}
+          </p>
+        </header>
+
+        <PasswordForm minPasswordLength={MIN_PASSWORD_LENGTH} />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,172 @@
+// alertRuleApiRoute / routeApiRegleAlerte : mise à jour et suppression d'une règle d'alerte
+// Alert rule API route: update and delete a rule
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import { competitorBelongsToProject, parseAlertRuleInput } from '@/lib/alertRules';
+import { Prisma } from '@prisma/client';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    ruleId: string;
+  }>;
+};
+
+// parseRuleId / parserIdRegle : convertit et valide l'id
+// Converts and validates the rule id
+function parseRuleId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// PATCH /api/alert-rules/[ruleId]
+// updateAlertRule / mettreAJourRegleAlerte : champs absents conservés (les alertes passées aussi)
+// Missing fields are kept; past alerts are kept as well
+export async function PATCH(request: Request, context: RouteContext) {
+  const { ruleId: rawId } = await context.params;
+  const ruleId = parseRuleId(rawId);
+
+  if (!ruleId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre ruleId invalide. / Invalid ruleId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ alertRuleId: ruleId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = await request.json().catch(() => null);
+
+  try {
+    const existing = await prisma.alertRule.findUnique({
+      where: { id: ruleId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          message:
+            "Règle d'alerte introuvable. / Alert rule not found.",
+        },
+        { status: 404 },
+      );
+    }
+
+    const { input, error } = parseAlertRuleInput(body, existing);
+    if (!input) {
+      return NextResponse.json({ message: error }, { status: 400 });
+    }
+
+    if (!(await competitorBelongsToProject(existing.projectId, input.competitorId))) {
+      return NextResponse.json(
+        {
+          message:
+            'Concurrent introuvable dans ce projet. / Competitor not found in this project.',
+        },
+        { status: 400 },
+      );
+    }
+
+    const updated = await prisma.alertRule.update({
+      where: { id: ruleId },
+      data: { ...input, updatedById: access.user.id },
+    });
+
+    return NextResponse.json(updated, { status: 200 });
+  } catch (error) {
+    console.error('updateAlertRuleError / erreurMajRegleAlerte', error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2025'
+    ) {
+      return NextResponse.json(
+        {
+          message:
+            "Règle d'alerte introuvable. / Alert rule not found.",
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors de la mise à jour de la règle d'alerte. / Error updating alert rule.",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/alert-rules/[ruleId]
+// deleteAlertRule / supprimerRegleAlerte : supprime aussi ses alertes (cascade)
+// Also deletes its alerts (cascade)
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { ruleId: rawId } = await context.params;
+  const ruleId = parseRuleId(rawId);
+
+  if (!ruleId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre ruleId invalide. / Invalid ruleId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ alertRuleId: ruleId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    await prisma.alertRule.delete({
+      where: { id: ruleId },
+    });
+
+    return NextResponse.json(
+      {
+        message:
+          "Règle d'alerte supprimée. / Alert rule deleted.",
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('deleteAlertRuleError / erreurSuppressionRegleAlerte', error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2025'
+    ) {
+      return NextResponse.json(
+        {
+          message:
+            "Règle d'alerte introuvable. / Alert rule not found.",
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors de la suppression de la règle d'alerte. / Error deleting alert rule.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,74 @@
+// loginApiRoute / routeApiConnexion : ouverture de session (cookie httpOnly)
+// Login API route: opens a session (httpOnly cookie)
+
+import { NextResponse } from 'next/server';
+import {
+  createSession,
+  normalizeEmail,
+  sessionCookieOptions,
+  SESSION_COOKIE,
+  verifyAgainstDummy,
+  verifyPassword,
+} from '@/lib/auth';
+import { prisma } from '@/lib/db';
+
+// POST /api/auth/login
+// login / connexion : { email, password } ; même réponse pour un email inconnu ou un mauvais mot de passe
+// { email, password }; same answer for an unknown email or a wrong password
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as
+    | { email?: unknown; password?: unknown }
+    | null;
+
+  const email = normalizeEmail(body?.email);
+  const password = typeof body?.password === 'string' ? body.password : '';
+
+  if (!email || !password) {
+    return NextResponse.json(
+      {
+        message:
+          'Email et mot de passe requis. / Email and password are required.',
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    const valid = user
+      ? await verifyPassword(password, user.passwordHash)
+      : (await verifyAgainstDummy(password), false);
+
+    if (!user || !valid) {
+      return NextResponse.json(
+        {
+          message:
+            'Email ou mot de passe incorrect. / Invalid email or password.',
+        },
+        { status: 401 },
+      );
+    }
+
+    const { token, expiresAt } = await createSession(
+      user.id,
+      request.headers.get('user-agent'),
+    );
+
+    const response = NextResponse.json(
+      { user: { id: user.id, email: user.email, name: user.name } },
+      { status: 200 },
+    );
+    response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions(expiresAt));
+    return response;
+  } catch (error) {
+    console.error('loginError / erreurConnexion', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la connexion. / Error logging in.',
+      },
+      { status: 500 },
+    );
+  }
+}
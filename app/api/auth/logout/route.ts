@@ -0,0 +1,28 @@
+// logoutApiRoute / routeApiDeconnexion : fermeture de la session courante
+// Logout API route: closes the current session
+
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { deleteSession, SESSION_COOKIE } from '@/lib/auth';
+
+// POST /api/auth/logout
+// logout / deconnexion : supprime la session et efface le cookie (même si la session a expiré)
+// Deletes the session and clears the cookie (even when the session has expired)
+export async function POST() {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+
+  try {
+    if (token) {
+      await deleteSession(token);
+    }
+  } catch (error) {
+    console.error('logoutError / erreurDeconnexion', error);
+  }
+
+  const response = NextResponse.json(
+    { message: 'Déconnecté. / Logged out.' },
+    { status: 200 },
+  );
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,76 @@
+// passwordApiRoute / routeApiMotDePasse : changement du mot de passe de l'utilisateur connecté
+// Password API route: changes the logged-in user's password
+
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import {
+  deleteOtherSessions,
+  getCurrentUser,
+  hashPassword,
+  parsePasswordChange,
+  SESSION_COOKIE,
+  verifyPassword,
+} from '@/lib/auth';
+import { prisma } from '@/lib/db';
+
+// POST /api/auth/password
+// changePassword / changerMotDePasse : { currentPassword, newPassword } ; ferme les autres sessions
+// { currentPassword, newPassword }; closes the other sessions of the user
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  const { input, error } = parsePasswordChange(body);
+  if (!input) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  try {
+    const current = await getCurrentUser();
+    const user = current
+      ? await prisma.user.findUnique({ where: { id: current.id } })
+      : null;
+
+    if (!user) {
+      return NextResponse.json(
+        {
+          message:
+            'Authentification requise. / Authentication required.',
+        },
+        { status: 401 },
+      );
+    }
+
+    if (!(await verifyPassword(input.currentPassword, user.passwordHash))) {
+      return NextResponse.json(
+        {
+          message:
+            'Mot de passe actuel incorrect. / Current password is incorrect.',
+        },
+        { status: 400 },
+      );
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { passwordHash: await hashPassword(input.newPassword) },
+    });
+    await deleteOtherSessions(user.id, (await cookies()).get(SESSION_COOKIE)?.value ?? null);
+
+    return NextResponse.json(
+      {
+        message:
+          'Mot de passe modifié ; les autres sessions ont été fermées. / Password changed; other sessions were closed.',
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('changePasswordError / erreurChangementMotDePasse', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors du changement de mot de passe. / Error changing password.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,108 @@
+// setupApiRoute / routeApiPremierCompte : création du premier compte (base sans utilisateur)
+// Setup API route: creates the first account while no user exists, then logs it in
+
+import { NextResponse } from 'next/server';
+import {
+  createSession,
+  hashPassword,
+  parseNewUserInput,
+  sessionCookieOptions,
+  SESSION_COOKIE,
+} from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { Prisma } from '@prisma/client';
+
+// POST /api/auth/setup
+// createFirstUser / creerPremierCompte : { email, name?, password } ; 403 dès qu'un compte existe
+// { email, name?, password }; 403 as soon as an account exists (further accounts: invitations)
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  const { input, error } = parseNewUserInput(body);
+  if (!input) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  try {
+    const passwordHash = await hashPassword(input.password);
+
+    // serializable / serialisable : deux premiers comptes simultanés ne peuvent pas passer tous les deux
+    // Two concurrent first accounts cannot both succeed
+    const user = await prisma.$transaction(
+      async (tx) => {
+        if ((await tx.user.count()) > 0) return null;
+        const created = await tx.user.create({
+          data: { email: input.email, name: input.name, passwordHash },
+        });
+
+        // firstOwner / premierProprietaire : propriétaire des espaces existants (projets d'avant les
+        // comptes), sinon d'un nouvel espace
+        // Owner of the existing workspaces (projects created before accounts), otherwise of a new one
+        const workspaces = await tx.workspace.findMany({ select: { id: true } });
+        if (workspaces.length === 0) {
+          await tx.workspace.create({
+            data: {
+              name: 'Espace principal',
+              members: { create: { userId: created.id, role: 'OWNER' } },
+            },
+          });
+        } else {
+          await tx.workspaceMember.createMany({
+            data: workspaces.map((workspace) => ({
+              workspaceId: workspace.id,
+              userId: created.id,
+              role: 'OWNER' as const,
+            })),
+          });
+        }
+        return created;
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+    );
+
+    if (!user) {
+      return NextResponse.json(
+        {
+          message:
+            'Un compte existe déjà : connectez-vous. / An account already exists: please log in.',
+        },
+        { status: 403 },
+      );
+    }
+
+    const { token, expiresAt } = await createSession(
+      user.id,
+      request.headers.get('user-agent'),
+    );
+
+    const response = NextResponse.json(
+      { user: { id: user.id, email: user.email, name: user.name } },
+      { status: 201 },
+    );
+    response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions(expiresAt));
+    return response;
+  } catch (error) {
+    console.error('setupError / erreurPremierCompte', error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      (error.code === 'P2034' || error.code === 'P2002')
+    ) {
+      return NextResponse.json(
+        {
+          message:
+            'Un compte existe déjà : connectez-vous. / An account already exists: please log in.',
+        },
+        { status: 403 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la création du compte. / Error creating account.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,110 @@
+// changeApiRoute / routeApiChangement : triage d'un changement détecté
+// API route for a single change: triage status, assignee, analyst notes
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import { parseTriageUpdate } from '@/lib/changeTriage';
+import { Prisma } from '@prisma/client';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    changeId: string;
+  }>;
+};
+
+// parseChangeId / parserIdChangement : convertit et valide l'id
+// Converts and validates the change id
+function parseChangeId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// PATCH /api/changes/[changeId]
+// triageChange / trierChangement : met à jour triageStatus, assignee, notes
+// Update triageStatus, assignee, notes
+export async function PATCH(request: Request, context: RouteContext) {
+  const { changeId: rawId } = await context.params;
+  const changeId = parseChangeId(rawId);
+
+  if (!changeId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre changeId invalide. / Invalid changeId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ changeId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = (await request.json().catch(() => null)) as
+    | {
+        triageStatus?: unknown;
+        assignee?: unknown;
+        notes?: unknown;
+      }
+    | null;
+
+  if (!body) {
+    return NextResponse.json(
+      {
+        message:
+          'Corps de requête invalide. / Invalid request body.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { data, error } = parseTriageUpdate(body);
+  if (!data) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  try {
+    const updated = await prisma.change.update({
+      where: { id: changeId },
+      data: { ...data, updatedById: access.user.id },
+      select: {
+        id: true,
+        triageStatus: true,
+        assignee: true,
+        notes: true,
+        triagedAt: true,
+      },
+    });
+
+    return NextResponse.json(updated, { status: 200 });
+  } catch (error) {
+    console.error('triageChangeError / erreurTriageChangement', error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2025'
+    ) {
+      return NextResponse.json(
+        {
+          message: 'Changement introuvable. / Change not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors du triage du changement. / Error triaging change.',
+      },
+      { status: 500 },
+    );
+  }
+}
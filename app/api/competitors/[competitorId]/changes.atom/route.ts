@@ -0,0 +1,99 @@
+// competitorChangesFeedApiRoute / routeApiFluxChangementsConcurrent : flux Atom des changements d'un concurrent
+// Competitor changes Atom feed, protected by the competitor's feed token (?token=…)
+
+import { NextResponse } from 'next/server';
+import { appUrl } from '@/lib/appUrl';
+import {
+  competitorFeedUrl,
+  feedTokenMatches,
+  loadFeedEntries,
+  renderChangesAtom,
+} from '@/lib/changeFeed';
+import { prisma } from '@/lib/db';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    competitorId: string;
+  }>;
+};
+
+// parseCompetitorId / parserIdConcurrent : convertit et valide l'id
+// Converts and validates the competitor id
+function parseCompetitorId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// GET /api/competitors/[competitorId]/changes.atom?token=…
+// competitorChangesFeed / fluxChangementsConcurrent : 50 derniers changements (hors DISMISSED).
+// Jeton absent, invalide ou flux désactivé : 404, sans distinguer du concurrent inconnu
+// Missing or invalid token, or disabled feed: 404, indistinguishable from an unknown competitor
+export async function GET(request: Request, context: RouteContext) {
+  const { competitorId: rawId } = await context.params;
+  const competitorId = parseCompetitorId(rawId);
+  const token = new URL(request.url).searchParams.get('token');
+
+  if (!competitorId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre competitorId invalide. / Invalid competitorId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const competitor = await prisma.competitor.findUnique({
+      where: { id: competitorId },
+      select: {
+        id: true,
+        name: true,
+        projectId: true,
+        feedToken: true,
+        project: { select: { name: true } },
+      },
+    });
+
+    if (!competitor || !feedTokenMatches(competitor.feedToken, token)) {
+      return NextResponse.json(
+        { message: 'Flux introuvable. / Feed not found.' },
+        { status: 404 },
+      );
+    }
+
+    const entries = await loadFeedEntries({ competitorId: competitor.id });
+
+    const xml = renderChangesAtom({
+      id: `urn:competitive-watch:competitor:${competitor.id}:changes`,
+      title: `Changements – ${competitor.name} (${competitor.project.name})`,
+      selfUrl: competitorFeedUrl(competitor.id, competitor.feedToken) ?? '',
+      alternateUrl: appUrl(
+        `/projects/${competitor.projectId}/changes?competitorId=${competitor.id}`,
+      ),
+      entries,
+    });
+
+    return new Response(xml, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/atom+xml; charset=utf-8',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('competitorFeedError / erreurFluxConcurrent', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la génération du flux. / Error generating feed.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,94 @@
+// competitorFeedTokenApiRoute / routeApiJetonFluxConcurrent : activation et régénération du flux Atom d'un concurrent
+// Competitor feed token API route: enable / rotate and disable the competitor's Atom feed
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { generateFeedToken, competitorFeedUrl } from '@/lib/changeFeed';
+import { prisma } from '@/lib/db';
+import { Prisma } from '@prisma/client';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    competitorId: string;
+  }>;
+};
+
+// parseCompetitorId / parserIdConcurrent : convertit et valide l'id
+// Converts and validates the competitor id
+function parseCompetitorId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// updateFeedToken / majJetonFlux : POST (nouveau jeton) et DELETE (null) ; renvoie { feedUrl }
+// POST (new token) and DELETE (null); returns { feedUrl }
+async function updateFeedToken(rawId: string, feedToken: string | null) {
+  const competitorId = parseCompetitorId(rawId);
+
+  if (!competitorId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre competitorId invalide. / Invalid competitorId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ competitorId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    await prisma.competitor.update({
+      where: { id: competitorId },
+      data: { feedToken, updatedById: access.user.id },
+    });
+
+    return NextResponse.json(
+      { feedUrl: competitorFeedUrl(competitorId, feedToken) },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('competitorFeedTokenError / erreurJetonFluxConcurrent', error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2025'
+    ) {
+      return NextResponse.json(
+        { message: 'Concurrent introuvable. / Competitor not found.' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la mise à jour du flux. / Error updating feed.',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/competitors/[competitorId]/feed-token
+// rotateFeedToken / regenererJetonFlux : active le flux ou invalide l'ancienne URL
+// Enables the feed, or invalidates the previous URL
+export async function POST(_request: Request, context: RouteContext) {
+  const { competitorId } = await context.params;
+  return updateFeedToken(competitorId, generateFeedToken());
+}
+
+// DELETE /api/competitors/[competitorId]/feed-token
+// disableFeed / desactiverFlux
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { competitorId } = await context.params;
+  return updateFeedToken(competitorId, null);
+}
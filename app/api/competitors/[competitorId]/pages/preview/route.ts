@@ -0,0 +1,138 @@
+// pagePreviewApiRoute / routeApiApercuPage : aperçu de l'extraction sans enregistrer de snapshot
+// Extraction preview for a page (URL + selectors) without saving any snapshot
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import { parseSelectorList, validateSelectors } from '@/lib/htmlScoping';
+import { scrapePage, ScrapeError } from '@/lib/scraping';
+import { extractSections } from '@/lib/sections';
+
+// RouteContext / contexteRoute : "params" est un Promise en Next 16
+// Route context: "params" is a Promise in Next 16
+type RouteContext = {
+  params: Promise<{
+    competitorId: string;
+  }>;
+};
+
+// parseCompetitorId / parserIdConcurrent : convertit l'id en nombre et le valide
+// Converts competitorId into a number and validates it
+function parseCompetitorId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// maxPreviewLength / longueurMaxApercu : texte renvoyé au formulaire
+// Text length sent back to the form
+const MAX_PREVIEW_LENGTH = 5000;
+
+// POST /api/competitors/[competitorId]/pages/preview
+// previewExtraction / apercuExtraction : scrape + sélecteurs, rien n'est écrit en base
+// Scrape + selectors, nothing is written to the database
+export async function POST(request: Request, context: RouteContext) {
+  const { competitorId: competitorIdRaw } = await context.params;
+  const competitorId = parseCompetitorId(competitorIdRaw);
+
+  if (!competitorId) {
+    return NextResponse.json(
+      { message: 'Paramètre competitorId invalide. / Invalid competitorId parameter.' },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ competitorId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = (await request.json().catch(() => null)) as
+    | {
+        url?: unknown;
+        includeSelectors?: unknown;
+        excludeSelectors?: unknown;
+      }
+    | null;
+
+  if (!body || typeof body.url !== 'string' || body.url.trim().length === 0) {
+    return NextResponse.json(
+      {
+        message:
+          'Le champ "url" est requis pour l\'aperçu. / "url" field is required for the preview.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const includeSelectors = parseSelectorList(body.includeSelectors);
+  const excludeSelectors = parseSelectorList(body.excludeSelectors);
+
+  if (!includeSelectors || !excludeSelectors) {
+    return NextResponse.json(
+      {
+        message:
+          'Les sélecteurs doivent être une liste de chaînes. / Selectors must be a list of strings.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const selectorError = validateSelectors([...includeSelectors, ...excludeSelectors]);
+  if (selectorError) {
+    return NextResponse.json({ message: selectorError }, { status: 400 });
+  }
+
+  try {
+    const competitor = await prisma.competitor.findUnique({
+      where: { id: competitorId },
+      select: { id: true },
+    });
+
+    if (!competitor) {
+      return NextResponse.json(
+        { message: 'Concurrent introuvable. / Competitor not found.' },
+        { status: 404 },
+      );
+    }
+
+    const result = await scrapePage(body.url.trim(), {
+      includeSelectors,
+      excludeSelectors,
+    });
+
+    return NextResponse.json(
+      {
+        extractedText: result.extractedText.slice(0, MAX_PREVIEW_LENGTH),
+        textLength: result.extractedText.length,
+        truncated: result.extractedText.length > MAX_PREVIEW_LENGTH,
+        sections: extractSections(result.scopedHtml).map((section) => section.title),
+        pricing: result.pricing,
+        httpStatus: result.httpStatus,
+        bytes: result.bytes,
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('pagePreviewError / erreurApercuPage', error);
+
+    // remoteFailure / echecDistant : message lisible (DNS, timeout, sélecteurs sans résultat…)
+    // Readable cause (DNS, timeout, include selectors without match…)
+    if (error instanceof ScrapeError) {
+      return NextResponse.json(
+        { message: error.message, httpStatus: error.httpStatus },
+        { status: 502 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors de l'aperçu de l'extraction. / Error previewing extraction.",
+      },
+      { status: 500 },
+    );
+  }
+}
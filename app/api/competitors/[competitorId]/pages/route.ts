@@ -2,7 +2,10 @@
 // API route for monitored pages: manage pages for a given competitor
 
 import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
 import { prisma } from '@/lib/db';
+import { parseSelectorList, validateSelectors } from '@/lib/htmlScoping';
+import { parseNoiseRules } from '@/lib/noiseFilter';
 
 // allowedPageTypes / typesPageAutorises : les types fonctionnels de page possibles
 // Allowed functional page types
@@ -41,6 +44,11 @@ export async function GET(_request: Request, context: RouteContext) {
     );
   }
 
+  const { access, error: accessError } = await checkAccess({ competitorId }, 'VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
   try {
     // ensureCompetitorExists / verifierConcurrentExiste
     // Ensure competitor exists
@@ -88,12 +96,21 @@ export async function POST(request: Request, context: RouteContext) {
     );
   }
 
+  const { access, error: accessError } = await checkAccess({ competitorId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
   try {
     const body = (await request.json().catch(() => null)) as
       | {
           url?: unknown;
           pageType?: unknown;
           note?: unknown;
+          includeSelectors?: unknown;
+          excludeSelectors?: unknown;
+          ignorePatterns?: unknown;
+          ignoreBuiltins?: unknown;
         }
       | null;
 
@@ -133,6 +150,33 @@ export async function POST(request: Request, context: RouteContext) {
         ? body.note.trim()
         : undefined;
 
+    // selectorRules / reglesSelecteurs : tableau ou texte multi-lignes, validés par cheerio
+    // Array or newline-separated text, validated with cheerio
+    const includeSelectors = parseSelectorList(body.includeSelectors);
+    const excludeSelectors = parseSelectorList(body.excludeSelectors);
+
+    if (!includeSelectors || !excludeSelectors) {
+      return NextResponse.json(
+        {
+          message:
+            'Les sélecteurs doivent être une liste de chaînes. / Selectors must be a list of strings.',
+        },
+        { status: 400 },
+      );
+    }
+
+    const selectorError = validateSelectors([...includeSelectors, ...excludeSelectors]);
+    if (selectorError) {
+      return NextResponse.json({ message: selectorError }, { status: 400 });
+    }
+
+    // noiseRules / reglesBruit : motifs ignorés propres à la page
+    // Page-level ignore patterns
+    const { rules: noiseRules, error: noiseError } = parseNoiseRules(body);
+    if (!noiseRules) {
+      return NextResponse.json({ message: noiseError }, { status: 400 });
+    }
+
     // ensureCompetitorExists / verifierConcurrentExiste encore une fois
     // Double check competitor existence
     const competitor = await prisma.competitor.findUnique({
@@ -147,12 +191,19 @@ export async function POST(request: Request, context: RouteContext) {
       );
     }
 
+    const userId = access.user.id;
     const page = await prisma.monitoredPage.create({
       data: {
         competitorId,
+        createdById: userId,
+        updatedById: userId,
         url,
         pageType,
         note,
+        includeSelectors,
+        excludeSelectors,
+        ignorePatterns: noiseRules.ignorePatterns,
+        ignoreBuiltins: noiseRules.ignoreBuiltins,
       },
     });
 
@@ -2,6 +2,8 @@
 // Competitor API route: update and delete a competitor
 
 import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { COMPETITOR_VIEW_SELECT } from '@/lib/changeFeed';
 import { prisma } from '@/lib/db';
 import { Prisma, type CompetitorStatus } from '@prisma/client';
 
@@ -53,11 +55,19 @@ export async function GET(_request: Request, context: RouteContext) {
     );
   }
 
+  const { access, error: accessError } = await checkAccess({ competitorId }, 'VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
   try {
     const competitor = await prisma.competitor.findUnique({
       where: { id: competitorId },
-      include: {
-        project: true,
+      select: {
+        ...COMPETITOR_VIEW_SELECT,
+        // projectSummary / resumeProjet : jamais la ligne complète (llmSettings contient la clé API)
+        // Never the full row (llmSettings holds the API key)
+        project: { select: { id: true, name: true } },
         monitoredPages: true,
       },
     });
@@ -102,6 +112,11 @@ export async function PATCH(request: Request, context: RouteContext) {
     );
   }
 
+  const { access, error: accessError } = await checkAccess({ competitorId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
   const body = (await request.json().catch(() => null)) as
     | {
         name?: string;
@@ -188,7 +203,8 @@ export async function PATCH(request: Request, context: RouteContext) {
   try {
     const updated = await prisma.competitor.update({
       where: { id: competitorId },
-      data,
+      data: { ...data, updatedById: access.user.id },
+      select: COMPETITOR_VIEW_SELECT,
     });
 
     return NextResponse.json(updated, { status: 200 });
@@ -238,6 +254,11 @@ export async function DELETE(
     );
   }
 
+  const { access, error: accessError } = await checkAccess({ competitorId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
   try {
     const deleted = await prisma.competitor.delete({
       where: { id: competitorId },
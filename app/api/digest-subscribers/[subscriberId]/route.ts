@@ -0,0 +1,165 @@
+// digestSubscriberApiRoute / routeApiAbonneDigest : mise à jour et suppression d'un abonné
+// Digest subscriber API route: update and delete a subscriber
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import { parseDigestSubscriberInput, toDigestSubscriberView } from '@/lib/digests';
+import { Prisma } from '@prisma/client';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    subscriberId: string;
+  }>;
+};
+
+// parseSubscriberId / parserIdAbonne : convertit et valide l'id
+// Converts and validates the subscriber id
+function parseSubscriberId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// PATCH /api/digest-subscribers/[subscriberId]
+// updateDigestSubscriber / mettreAJourAbonneDigest : email, name, frequency (champs absents conservés)
+// email, name, frequency (missing fields are kept); a change of frequency takes effect at the next slot
+export async function PATCH(request: Request, context: RouteContext) {
+  const { subscriberId: rawId } = await context.params;
+  const subscriberId = parseSubscriberId(rawId);
+
+  if (!subscriberId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre subscriberId invalide. / Invalid subscriberId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ subscriberId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = await request.json().catch(() => null);
+
+  try {
+    const existing = await prisma.digestSubscriber.findUnique({
+      where: { id: subscriberId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          message: 'Abonné introuvable. / Subscriber not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    const { input, error } = parseDigestSubscriberInput(body, existing);
+    if (!input) {
+      return NextResponse.json({ message: error }, { status: 400 });
+    }
+
+    const updated = await prisma.digestSubscriber.update({
+      where: { id: subscriberId },
+      data: { ...input, updatedById: access.user.id },
+    });
+
+    return NextResponse.json(toDigestSubscriberView(updated), { status: 200 });
+  } catch (error) {
+    console.error('updateDigestSubscriberError / erreurMajAbonneDigest', error);
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === 'P2025') {
+        return NextResponse.json(
+          {
+            message: 'Abonné introuvable. / Subscriber not found.',
+          },
+          { status: 404 },
+        );
+      }
+      if (error.code === 'P2002') {
+        return NextResponse.json(
+          {
+            message:
+              'Cette adresse est déjà abonnée à ce projet. / This address is already subscribed to this project.',
+          },
+          { status: 409 },
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors de la mise à jour de l'abonné. / Error updating subscriber.",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/digest-subscribers/[subscriberId]
+// deleteDigestSubscriber / supprimerAbonneDigest
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { subscriberId: rawId } = await context.params;
+  const subscriberId = parseSubscriberId(rawId);
+
+  if (!subscriberId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre subscriberId invalide. / Invalid subscriberId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ subscriberId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    await prisma.digestSubscriber.delete({
+      where: { id: subscriberId },
+    });
+
+    return NextResponse.json(
+      {
+        message: 'Abonné supprimé. / Subscriber deleted.',
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('deleteDigestSubscriberError / erreurSuppressionAbonneDigest', error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2025'
+    ) {
+      return NextResponse.json(
+        {
+          message: 'Abonné introuvable. / Subscriber not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors de la suppression de l'abonné. / Error deleting subscriber.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,78 @@
+// digestSendApiRoute / routeApiEnvoiDigest : envoi immédiat du digest à un abonné (test SMTP)
+// Immediately sends the digest to one subscriber (SMTP test, e.g. against MailHog)
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { sendDigestNow } from '@/lib/digests';
+import { MailerNotConfiguredError } from '@/lib/mailer';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    subscriberId: string;
+  }>;
+};
+
+// parseSubscriberId / parserIdAbonne : convertit et valide l'id
+// Converts and validates the subscriber id
+function parseSubscriberId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// POST /api/digest-subscribers/[subscriberId]/send
+// sendDigestNow / envoyerDigestMaintenant : dernière période (1 ou 7 jours), même vide ; lastSentAt inchangé
+// Last period (1 or 7 days), even when empty; lastSentAt is left untouched
+export async function POST(_request: Request, context: RouteContext) {
+  const { subscriberId: rawId } = await context.params;
+  const subscriberId = parseSubscriberId(rawId);
+
+  if (!subscriberId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre subscriberId invalide. / Invalid subscriberId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ subscriberId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    const result = await sendDigestNow(subscriberId);
+
+    if (!result) {
+      return NextResponse.json(
+        {
+          message: 'Abonné introuvable. / Subscriber not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('sendDigestError / erreurEnvoiDigest', error);
+
+    if (error instanceof MailerNotConfiguredError) {
+      return NextResponse.json({ message: error.message }, { status: 503 });
+    }
+
+    return NextResponse.json(
+      {
+        message: `Échec de l'envoi SMTP : ${
+          error instanceof Error ? error.message : String(error)
+        } / SMTP send failed.`,
+      },
+      { status: 502 },
+    );
+  }
+}
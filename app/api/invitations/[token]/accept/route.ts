@@ -0,0 +1,112 @@
+// acceptInvitationApiRoute / routeApiAcceptationInvitation : adhésion à un espace par lien d'invitation
+// Accept invitation API route: joins a workspace through an invitation link. Chemin public
+// (proxy.ts) : sans session, le corps crée le compte puis ouvre la session
+// Public path (proxy.ts): without a session, the body creates the account then logs it in
+
+import { NextResponse } from 'next/server';
+import {
+  acceptInvitation,
+  findPendingInvitation,
+  WORKSPACE_COOKIE,
+  workspaceCookieOptions,
+} from '@/lib/access';
+import {
+  createSession,
+  getCurrentUser,
+  hashPassword,
+  parseNewUserInput,
+  sessionCookieOptions,
+  SESSION_COOKIE,
+} from '@/lib/auth';
+import { Prisma } from '@prisma/client';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    token: string;
+  }>;
+};
+
+const INVALID_INVITATION_MESSAGE =
+  'Invitation invalide, expirée ou déjà utilisée. / Invalid, expired or already used invitation.';
+
+// POST /api/invitations/[token]/accept
+// acceptInvitation / accepterInvitation : connecté → corps vide ; sinon { email, name?, password }
+// Logged in → empty body; otherwise { email, name?, password } for a new account
+export async function POST(request: Request, context: RouteContext) {
+  const { token } = await context.params;
+
+  try {
+    const invitation = await findPendingInvitation(token);
+    if (!invitation) {
+      return NextResponse.json({ message: INVALID_INVITATION_MESSAGE }, { status: 404 });
+    }
+
+    const currentUserId = (await getCurrentUser())?.id ?? null;
+    let session: { token: string; expiresAt: Date } | null = null;
+
+    if (currentUserId) {
+      if (!(await acceptInvitation(invitation.id, currentUserId))) {
+        return NextResponse.json({ message: INVALID_INVITATION_MESSAGE }, { status: 404 });
+      }
+    } else {
+      const { input, error } = parseNewUserInput(await request.json().catch(() => null));
+      if (!input) {
+        return NextResponse.json({ message: error }, { status: 400 });
+      }
+
+      // newAccount / nouveauCompte : créé dans la transaction de l'adhésion, session ensuite
+      // Created inside the membership transaction; the session only once the claim succeeded
+      const passwordHash = await hashPassword(input.password);
+      const userId = await acceptInvitation(invitation.id, async (tx) => {
+        const created = await tx.user.create({
+          data: { email: input.email, name: input.name, passwordHash },
+          select: { id: true },
+        });
+        return created.id;
+      });
+      if (!userId) {
+        return NextResponse.json({ message: INVALID_INVITATION_MESSAGE }, { status: 404 });
+      }
+      session = await createSession(userId, request.headers.get('user-agent'));
+    }
+
+    const response = NextResponse.json(
+      { workspaceId: invitation.workspaceId, role: invitation.role },
+      { status: 200 },
+    );
+    response.cookies.set(
+      WORKSPACE_COOKIE,
+      String(invitation.workspaceId),
+      workspaceCookieOptions(),
+    );
+    if (session) {
+      response.cookies.set(SESSION_COOKIE, session.token, sessionCookieOptions(session.expiresAt));
+    }
+    return response;
+  } catch (error) {
+    console.error('acceptInvitationError / erreurAcceptationInvitation', error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      return NextResponse.json(
+        {
+          message:
+            'Un compte existe déjà avec cet email : connectez-vous puis rouvrez le lien. / An account already exists with this email: log in, then open the link again.',
+        },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors de l'acceptation de l'invitation. / Error accepting invitation.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -2,7 +2,9 @@
 // Changes API route: history of changes for a monitored page
 
 import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
 import { prisma } from '@/lib/db';
+import { parseChangePageParams } from '@/lib/changeQueries';
 
 // RouteContext / contexteRoute : params est un Promise en Next 16
 // Route context: params is a Promise in Next 16
@@ -24,8 +26,8 @@ function parsePageId(raw: string): number | null {
 
 // GET /api/monitored-pages/[pageId]/changes
 // listChanges / listerChangements : renvoie les changements récents d'une page surveillée
-// Returns recent changes for a monitored page
-export async function GET(_request: Request, context: RouteContext) {
+// Returns recent changes for a monitored page (?limit= default 20, ?cursor= id of the last change seen)
+export async function GET(request: Request, context: RouteContext) {
   const { pageId: rawPageId } = await context.params;
   const monitoredPageId = parsePageId(rawPageId);
 
@@ -39,6 +41,19 @@ export async function GET(_request: Request, context: RouteContext) {
     );
   }
 
+  const { access, error: accessError } = await checkAccess({ monitoredPageId }, 'VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const { page: pagination, error: pageError } = parseChangePageParams(
+    Object.fromEntries(new URL(request.url).searchParams),
+    20,
+  );
+  if (!pagination) {
+    return NextResponse.json({ message: pageError }, { status: 400 });
+  }
+
   try {
     // ensurePageExists / verifierPageExiste : s'assurer que la page existe
     // Ensure the monitored page exists
@@ -59,8 +74,11 @@ export async function GET(_request: Request, context: RouteContext) {
 
     const changes = await prisma.change.findMany({
       where: { monitoredPageId },
-      orderBy: { createdAt: 'desc' },
-      take: 20, // limitResults / limiterResultats : derniers changements
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: pagination.limit, // limitResults / limiterResultats : derniers changements
+      ...(pagination.cursor
+        ? { cursor: { id: pagination.cursor }, skip: 1 }
+        : {}),
     });
 
     return NextResponse.json(changes, { status: 200 });
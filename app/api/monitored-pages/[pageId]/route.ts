@@ -1,8 +1,12 @@
 // monitoredPageApiRoute / routeApiPageSurveillee : gestion d'une page surveillée
-// API route for a monitored page: delete with cascades
+// API route for a monitored page: update rules, delete with cascades
 
 import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
 import { prisma } from '@/lib/db';
+import { parseSelectorList, validateSelectors } from '@/lib/htmlScoping';
+import { parseNoiseRules } from '@/lib/noiseFilter';
+import { Prisma } from '@prisma/client';
 
 // RouteContext / contexteRoute : params est un Promise (Next 16)
 // Route context: params is a Promise (Next 16)
@@ -22,6 +26,125 @@ function parsePageId(raw: string): number | null {
   return id;
 }
 
+// PATCH /api/monitored-pages/[pageId]
+// updateMonitoredPage / mettreAJourPageSurveillee : sélecteurs et motifs ignorés
+// Update selectors and ignore patterns
+export async function PATCH(request: Request, context: RouteContext) {
+  const { pageId: rawPageId } = await context.params;
+  const monitoredPageId = parsePageId(rawPageId);
+
+  if (!monitoredPageId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre pageId invalide. / Invalid pageId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ monitoredPageId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = (await request.json().catch(() => null)) as
+    | {
+        includeSelectors?: unknown;
+        excludeSelectors?: unknown;
+        ignorePatterns?: unknown;
+        ignoreBuiltins?: unknown;
+      }
+    | null;
+
+  if (!body) {
+    return NextResponse.json(
+      {
+        message:
+          'Corps de requête invalide. / Invalid request body.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const data: Prisma.MonitoredPageUncheckedUpdateInput = {};
+
+  // selectorRules / reglesSelecteurs : seuls les champs fournis sont modifiés
+  // Only provided fields are updated
+  for (const field of ['includeSelectors', 'excludeSelectors'] as const) {
+    if (body[field] === undefined) continue;
+
+    const selectors = parseSelectorList(body[field]);
+    if (!selectors) {
+      return NextResponse.json(
+        {
+          message:
+            'Les sélecteurs doivent être une liste de chaînes. / Selectors must be a list of strings.',
+        },
+        { status: 400 },
+      );
+    }
+
+    const selectorError = validateSelectors(selectors);
+    if (selectorError) {
+      return NextResponse.json({ message: selectorError }, { status: 400 });
+    }
+
+    data[field] = selectors;
+  }
+
+  if (body.ignorePatterns !== undefined || body.ignoreBuiltins !== undefined) {
+    const { rules, error } = parseNoiseRules(body);
+    if (!rules) {
+      return NextResponse.json({ message: error }, { status: 400 });
+    }
+    if (body.ignorePatterns !== undefined) data.ignorePatterns = rules.ignorePatterns;
+    if (body.ignoreBuiltins !== undefined) data.ignoreBuiltins = rules.ignoreBuiltins;
+  }
+
+  if (Object.keys(data).length === 0) {
+    return NextResponse.json(
+      {
+        message:
+          'Aucun champ valide à mettre à jour. / No valid fields to update.',
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const updated = await prisma.monitoredPage.update({
+      where: { id: monitoredPageId },
+      data: { ...data, updatedById: access.user.id },
+    });
+
+    return NextResponse.json(updated, { status: 200 });
+  } catch (error) {
+    console.error('updateMonitoredPageError / erreurMiseAJourPageSurveillee', error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2025'
+    ) {
+      return NextResponse.json(
+        {
+          message:
+            'Page surveillée introuvable. / Monitored page not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la mise à jour de la page surveillée. / Error updating monitored page.',
+      },
+      { status: 500 },
+    );
+  }
+}
+
 // DELETE /api/monitored-pages/[pageId]
 // deleteMonitoredPage / supprimerPageSurveillee : supprime page + snapshots + changements
 // Delete monitored page + snapshots + changes
@@ -39,6 +162,11 @@ export async function DELETE(_request: Request, context: RouteContext) {
     );
   }
 
+  const { access, error: accessError } = await checkAccess({ monitoredPageId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
   try {
     const page = await prisma.monitoredPage.findUnique({
       where: { id: monitoredPageId },
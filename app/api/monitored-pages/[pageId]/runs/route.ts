@@ -0,0 +1,88 @@
+// scrapeRunsApiRoute / routeApiTentativesScraping : historique des tentatives de scraping d'une page
+// Scrape runs API route: attempt history for a monitored page
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+
+// RouteContext / contexteRoute : params est un Promise en Next 16
+// Route context: params is a Promise in Next 16
+type RouteContext = {
+  params: Promise<{
+    pageId: string;
+  }>;
+};
+
+// parsePageId / parserIdPage : convertit et valide l'id
+// Converts and validates the page id
+function parsePageId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// GET /api/monitored-pages/[pageId]/runs
+// listScrapeRuns / listerTentatives : renvoie la santé de la page et ses dernières tentatives
+// Returns page health and its most recent scrape attempts
+export async function GET(_request: Request, context: RouteContext) {
+  const { pageId: rawPageId } = await context.params;
+  const monitoredPageId = parsePageId(rawPageId);
+
+  if (!monitoredPageId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre pageId invalide. / Invalid pageId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ monitoredPageId }, 'VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    // ensurePageExists / verifierPageExiste : s'assurer que la page existe
+    // Ensure the monitored page exists
+    const page = await prisma.monitoredPage.findUnique({
+      where: { id: monitoredPageId },
+      select: {
+        id: true,
+        health: true,
+        consecutiveFailures: true,
+        lastScrapedAt: true,
+      },
+    });
+
+    if (!page) {
+      return NextResponse.json(
+        {
+          message:
+            'Page surveillée introuvable. / Monitored page not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    const runs = await prisma.scrapeRun.findMany({
+      where: { monitoredPageId },
+      orderBy: { startedAt: 'desc' },
+      take: 30, // limitResults / limiterResultats : dernières tentatives
+    });
+
+    return NextResponse.json({ page, runs }, { status: 200 });
+  } catch (error) {
+    console.error('scrapeRunsGetError / erreurGetTentativesScraping', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la récupération des tentatives de scraping. / Error fetching scrape runs.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,118 @@
+// notificationApiRoute / routeApiNotification : état lu / non lu d'une notification
+// Notification API route: read / unread state of one notification
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import {
+  countUnreadNotifications,
+  notificationViewInclude,
+  toNotificationView,
+} from '@/lib/notifications';
+import { Prisma } from '@prisma/client';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    notificationId: string;
+  }>;
+};
+
+// parseNotificationId / parserIdNotification : convertit et valide l'id
+// Converts and validates the notification id
+function parseNotificationId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// PATCH /api/notifications/[notificationId]
+// updateNotification / mettreAJourNotification : { read: boolean } pour l'utilisateur courant
+// { read: boolean } for the current user only
+export async function PATCH(request: Request, context: RouteContext) {
+  const { notificationId: rawId } = await context.params;
+  const notificationId = parseNotificationId(rawId);
+
+  if (!notificationId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre notificationId invalide. / Invalid notificationId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ notificationId }, 'VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = await request.json().catch(() => null);
+  const read = body && typeof body === 'object' ? (body as Record<string, unknown>).read : undefined;
+
+  if (typeof read !== 'boolean') {
+    return NextResponse.json(
+      {
+        message: 'read doit être un booléen. / read must be a boolean.',
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const userId = access.user.id;
+    const key = { notificationId_userId: { notificationId, userId } };
+
+    // readRow / ligneLecture : créée si lue (readAt d'origine conservé), supprimée si non lue
+    // Created when read (original readAt kept), deleted when unread
+    if (read) {
+      await prisma.notificationRead.upsert({
+        where: key,
+        create: { notificationId, userId },
+        update: {},
+      });
+    } else {
+      await prisma.notificationRead.deleteMany({ where: { notificationId, userId } });
+    }
+
+    const updated = await prisma.notification.findUniqueOrThrow({
+      where: { id: notificationId },
+      include: notificationViewInclude(userId),
+    });
+
+    return NextResponse.json(
+      {
+        notification: toNotificationView(updated),
+        unreadCount: await countUnreadNotifications(access.workspaceId, userId),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('updateNotificationError / erreurMajNotification', error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      (error.code === 'P2025' || error.code === 'P2003')
+    ) {
+      // P2025 / P2003 : notification supprimée entre-temps / notification deleted meanwhile
+      return NextResponse.json(
+        {
+          message: 'Notification introuvable. / Notification not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la mise à jour de la notification. / Error updating notification.',
+      },
+      { status: 500 },
+    );
+  }
+}
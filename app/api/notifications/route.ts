@@ -0,0 +1,115 @@
+// notificationsApiRoute / routeApiNotifications : liste et marquage en lot du centre de notifications
+// Notifications API route: list and bulk mark as read
+
+import { NextResponse } from 'next/server';
+import { checkCurrentWorkspaceAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import {
+  countUnreadNotifications,
+  markNotificationsRead,
+  notificationViewInclude,
+  toNotificationView,
+  unreadNotificationWhere,
+} from '@/lib/notifications';
+
+// maxNotifications / nbMaxNotifications : notifications renvoyées, plus récentes d'abord
+// Notifications returned, newest first
+const MAX_NOTIFICATIONS = 100;
+
+// GET /api/notifications?unread=1
+// listNotifications / listerNotifications : 100 dernières (ou non lues par l'utilisateur) de l'espace courant + compteur
+// Last 100 (or unread by the user) notifications of the current workspace + unread count
+export async function GET(request: Request) {
+  const unreadOnly = new URL(request.url).searchParams.get('unread') === '1';
+
+  const { access, error: accessError } = await checkCurrentWorkspaceAccess('VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: {
+          project: { workspaceId: access.workspaceId },
+          ...(unreadOnly ? unreadNotificationWhere(access.user.id) : {}),
+        },
+        orderBy: { createdAt: 'desc' },
+        take: MAX_NOTIFICATIONS,
+        include: notificationViewInclude(access.user.id),
+      }),
+      countUnreadNotifications(access.workspaceId, access.user.id),
+    ]);
+
+    return NextResponse.json(
+      { notifications: notifications.map(toNotificationView), unreadCount },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('notificationsGetError / erreurGetNotifications', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors du chargement des notifications. / Error loading notifications.',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// PATCH /api/notifications
+// markNotificationsRead / marquerNotificationsLues : { ids: number[] } ou { all: true }
+// { ids: number[] } or { all: true }, within the current workspace, for the current user only;
+// already read notifications keep their readAt
+export async function PATCH(request: Request) {
+  const { access, error: accessError } = await checkCurrentWorkspaceAccess('VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = await request.json().catch(() => null);
+  const value = body && typeof body === 'object' ? (body as Record<string, unknown>) : null;
+
+  const all = value?.all === true;
+  const ids = Array.isArray(value?.ids) ? value.ids : null;
+
+  if (
+    !all &&
+    (!ids ||
+      ids.length === 0 ||
+      ids.length > MAX_NOTIFICATIONS ||
+      !ids.every((id) => Number.isInteger(id) && id > 0))
+  ) {
+    return NextResponse.json(
+      {
+        message:
+          `ids doit être une liste de 1 à ${MAX_NOTIFICATIONS} identifiants, ou all: true. / ids must list 1 to ${MAX_NOTIFICATIONS} ids, or all: true.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const count = await markNotificationsRead(access.user.id, {
+      project: { workspaceId: access.workspaceId },
+      ...(all ? {} : { id: { in: ids as number[] } }),
+    });
+
+    return NextResponse.json(
+      {
+        updated: count,
+        unreadCount: await countUnreadNotifications(access.workspaceId, access.user.id),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('markNotificationsError / erreurMarquageNotifications', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la mise à jour des notifications. / Error updating notifications.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,30 @@
+// unreadNotificationsApiRoute / routeApiNotificationsNonLues : badge de la cloche de l'en-tête
+// Unread notifications API route: header bell badge
+
+import { NextResponse } from 'next/server';
+import { checkCurrentWorkspaceAccess } from '@/lib/access';
+import { countUnreadNotifications } from '@/lib/notifications';
+
+// GET /api/notifications/unread-count
+// countUnread / compterNonLues : { unreadCount } de l'espace courant pour l'utilisateur
+// { unreadCount } of the current workspace for the current user
+export async function GET() {
+  const { access, error: accessError } = await checkCurrentWorkspaceAccess('VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    const unreadCount = await countUnreadNotifications(access.workspaceId, access.user.id);
+    return NextResponse.json({ unreadCount }, { status: 200 });
+  } catch (error) {
+    console.error('unreadCountError / erreurCompteurNonLues', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors du comptage des notifications. / Error counting notifications.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,137 @@
+// projectAlertRulesApiRoute / routeApiReglesAlerteProjet : liste et création des règles d'alerte
+// Project alert rules API route: list and create alert rules
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import { competitorBelongsToProject, parseAlertRuleInput } from '@/lib/alertRules';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    projectId: string;
+  }>;
+};
+
+// parseProjectId / parserIdProjet : convertit et valide l'id
+// Converts and validates the project id
+function parseProjectId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// GET /api/projects/[projectId]/alert-rules
+// listAlertRules / listerReglesAlerte : règles du projet, plus anciennes d'abord
+// The project's rules, oldest first
+export async function GET(_request: Request, context: RouteContext) {
+  const { projectId: rawId } = await context.params;
+  const projectId = parseProjectId(rawId);
+
+  if (!projectId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre projectId invalide. / Invalid projectId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ projectId }, 'VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    const rules = await prisma.alertRule.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json(rules, { status: 200 });
+  } catch (error) {
+    console.error('alertRulesGetError / erreurGetReglesAlerte', error);
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors du chargement des règles d'alerte. / Error loading alert rules.",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/projects/[projectId]/alert-rules
+// createAlertRule / creerRegleAlerte : nom, type, périmètre (concurrent, types de page) et seuils
+// Name, kind, scope (competitor, page types) and thresholds
+export async function POST(request: Request, context: RouteContext) {
+  const { projectId: rawId } = await context.params;
+  const projectId = parseProjectId(rawId);
+
+  if (!projectId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre projectId invalide. / Invalid projectId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ projectId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = await request.json().catch(() => null);
+  const { input, error } = parseAlertRuleInput(body, null);
+  if (!input) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        {
+          message: 'Projet introuvable. / Project not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    if (!(await competitorBelongsToProject(projectId, input.competitorId))) {
+      return NextResponse.json(
+        {
+          message:
+            'Concurrent introuvable dans ce projet. / Competitor not found in this project.',
+        },
+        { status: 400 },
+      );
+    }
+
+    const userId = access.user.id;
+    const created = await prisma.alertRule.create({
+      data: { projectId, ...input, createdById: userId, updatedById: userId },
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error('createAlertRuleError / erreurCreationRegleAlerte', error);
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors de la création de la règle d'alerte. / Error creating alert rule.",
+      },
+      { status: 500 },
+    );
+  }
+}
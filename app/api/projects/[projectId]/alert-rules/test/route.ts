@@ -0,0 +1,120 @@
+// alertRuleTestApiRoute / routeApiTestRegleAlerte : rejoue une règle (non enregistrée) sur l'historique
+// Replays a (not yet saved) rule over the project's history; nothing is stored or sent
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import {
+  competitorBelongsToProject,
+  parseAlertRuleInput,
+  testAlertRule,
+} from '@/lib/alertRules';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    projectId: string;
+  }>;
+};
+
+// parseProjectId / parserIdProjet : convertit et valide l'id
+// Converts and validates the project id
+function parseProjectId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// POST /api/projects/[projectId]/alert-rules/test
+// testAlertRule / testerRegleAlerte : même corps que la création (+ days, 30 par défaut, nom facultatif)
+// Same body as creation (+ days, 30 by default; name optional)
+export async function POST(request: Request, context: RouteContext) {
+  const { projectId: rawId } = await context.params;
+  const projectId = parseProjectId(rawId);
+
+  if (!projectId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre projectId invalide. / Invalid projectId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ projectId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = await request.json().catch(() => null);
+  const value =
+    body && typeof body === 'object' && !Array.isArray(body)
+      ? (body as Record<string, unknown>)
+      : null;
+  const { input, error } = parseAlertRuleInput(
+    value
+      ? {
+          ...value,
+          name: typeof value.name === 'string' && value.name.trim() ? value.name : 'Test',
+        }
+      : null,
+    null,
+  );
+  if (!input) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  const days = value?.days === undefined ? 30 : Number(value.days);
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    return NextResponse.json(
+      {
+        message:
+          'days doit être un entier entre 1 et 365. / days must be an integer between 1 and 365.',
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        {
+          message: 'Projet introuvable. / Project not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    if (!(await competitorBelongsToProject(projectId, input.competitorId))) {
+      return NextResponse.json(
+        {
+          message:
+            'Concurrent introuvable dans ce projet. / Competitor not found in this project.',
+        },
+        { status: 400 },
+      );
+    }
+
+    const result = await testAlertRule(projectId, input, days);
+
+    return NextResponse.json({ days, ...result }, { status: 200 });
+  } catch (error) {
+    console.error('testAlertRuleError / erreurTestRegleAlerte', error);
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors du test de la règle d'alerte. / Error testing alert rule.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,81 @@
+// projectAlertsApiRoute / routeApiAlertesProjet : alertes déclenchées récemment
+// Project alerts API route: recently triggered alerts
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+
+// maxAlerts / nbMaxAlertes : alertes renvoyées, plus récentes d'abord
+// Alerts returned, newest first
+const MAX_ALERTS = 100;
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    projectId: string;
+  }>;
+};
+
+// parseProjectId / parserIdProjet : convertit et valide l'id
+// Converts and validates the project id
+function parseProjectId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// GET /api/projects/[projectId]/alerts
+// listAlerts / listerAlertes : 100 dernières alertes avec règle, page et concurrent
+// Last 100 alerts with rule, page and competitor
+export async function GET(_request: Request, context: RouteContext) {
+  const { projectId: rawId } = await context.params;
+  const projectId = parseProjectId(rawId);
+
+  if (!projectId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre projectId invalide. / Invalid projectId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ projectId }, 'VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    const alerts = await prisma.alertEvent.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_ALERTS,
+      include: {
+        rule: { select: { id: true, name: true, kind: true } },
+        monitoredPage: {
+          select: {
+            id: true,
+            url: true,
+            pageType: true,
+            competitor: { select: { id: true, name: true } },
+          },
+        },
+      },
+    });
+
+    return NextResponse.json(alerts, { status: 200 });
+  } catch (error) {
+    console.error('alertsGetError / erreurGetAlertes', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors du chargement des alertes. / Error loading alerts.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,91 @@
+// projectChangesFeedApiRoute / routeApiFluxChangementsProjet : flux Atom des changements d'un projet
+// Project changes Atom feed, protected by the project's feed token (?token=…)
+
+import { NextResponse } from 'next/server';
+import { appUrl } from '@/lib/appUrl';
+import {
+  feedTokenMatches,
+  loadFeedEntries,
+  projectFeedUrl,
+  renderChangesAtom,
+} from '@/lib/changeFeed';
+import { prisma } from '@/lib/db';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    projectId: string;
+  }>;
+};
+
+// parseProjectId / parserIdProjet : convertit et valide l'id
+// Converts and validates the project id
+function parseProjectId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// GET /api/projects/[projectId]/changes.atom?token=…
+// projectChangesFeed / fluxChangementsProjet : 50 derniers changements (hors DISMISSED).
+// Jeton absent, invalide ou flux désactivé : 404, sans distinguer du projet inconnu
+// Missing or invalid token, or disabled feed: 404, indistinguishable from an unknown project
+export async function GET(request: Request, context: RouteContext) {
+  const { projectId: rawId } = await context.params;
+  const projectId = parseProjectId(rawId);
+  const token = new URL(request.url).searchParams.get('token');
+
+  if (!projectId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre projectId invalide. / Invalid projectId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, name: true, feedToken: true },
+    });
+
+    if (!project || !feedTokenMatches(project.feedToken, token)) {
+      return NextResponse.json(
+        { message: 'Flux introuvable. / Feed not found.' },
+        { status: 404 },
+      );
+    }
+
+    const entries = await loadFeedEntries({ competitor: { projectId: project.id } });
+
+    const xml = renderChangesAtom({
+      id: `urn:competitive-watch:project:${project.id}:changes`,
+      title: `Changements – ${project.name}`,
+      selfUrl: projectFeedUrl(project.id, project.feedToken) ?? '',
+      alternateUrl: appUrl(`/projects/${project.id}/changes`),
+      entries,
+    });
+
+    return new Response(xml, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/atom+xml; charset=utf-8',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('projectFeedError / erreurFluxProjet', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la génération du flux. / Error generating feed.',
+      },
+      { status: 500 },
+    );
+  }
+}
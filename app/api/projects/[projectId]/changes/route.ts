@@ -0,0 +1,92 @@
+// projectChangesApiRoute / routeApiChangementsProjet : changements d'un projet, filtrés et paginés
+// Project changes API route: filtered, cursor-paginated list
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import {
+  listProjectChanges,
+  parseChangeFilters,
+  parseChangePageParams,
+} from '@/lib/changeQueries';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    projectId: string;
+  }>;
+};
+
+// parseProjectId / parserIdProjet : convertit et valide l'id
+// Converts and validates the project id
+function parseProjectId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// GET /api/projects/[projectId]/changes
+// listProjectChanges / listerChangementsProjet :
+// ?from=&to=&competitorId=&pageType=&changeType=&triage=&q=&cursor=&limit=
+// Returns { items, nextCursor }; pass nextCursor back as ?cursor= for the next page
+export async function GET(request: Request, context: RouteContext) {
+  const { projectId: rawId } = await context.params;
+  const projectId = parseProjectId(rawId);
+
+  if (!projectId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre projectId invalide. / Invalid projectId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ projectId }, 'VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const searchParams = Object.fromEntries(new URL(request.url).searchParams);
+
+  const { filters, error: filtersError } = parseChangeFilters(searchParams);
+  if (!filters) {
+    return NextResponse.json({ message: filtersError }, { status: 400 });
+  }
+
+  const { page, error: pageError } = parseChangePageParams(searchParams);
+  if (!page) {
+    return NextResponse.json({ message: pageError }, { status: 400 });
+  }
+
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { message: 'Projet introuvable. / Project not found.' },
+        { status: 404 },
+      );
+    }
+
+    const result = await listProjectChanges(projectId, filters, page);
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('projectChangesGetError / erreurGetChangementsProjet', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la récupération des changements. / Error fetching changes.',
+      },
+      { status: 500 },
+    );
+  }
+}
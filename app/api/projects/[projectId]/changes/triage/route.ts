@@ -0,0 +1,134 @@
+// projectChangesTriageApiRoute / routeApiTriageChangementsProjet : triage en masse
+// Bulk triage of a project's changes
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import {
+  MAX_BULK_TRIAGE_CHANGES,
+  parseTriageUpdate,
+} from '@/lib/changeTriage';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    projectId: string;
+  }>;
+};
+
+// parseProjectId / parserIdProjet : convertit et valide l'id
+// Converts and validates the project id
+function parseProjectId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// PATCH /api/projects/[projectId]/changes/triage
+// bulkTriageChanges / trierChangementsEnMasse : { changeIds, triageStatus?, assignee?, notes? }
+// Only changes belonging to the project are updated
+export async function PATCH(request: Request, context: RouteContext) {
+  const { projectId: rawId } = await context.params;
+  const projectId = parseProjectId(rawId);
+
+  if (!projectId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre projectId invalide. / Invalid projectId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ projectId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = (await request.json().catch(() => null)) as
+    | {
+        changeIds?: unknown;
+        triageStatus?: unknown;
+        assignee?: unknown;
+        notes?: unknown;
+      }
+    | null;
+
+  if (!body) {
+    return NextResponse.json(
+      {
+        message:
+          'Corps de requête invalide. / Invalid request body.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const changeIds = Array.isArray(body.changeIds)
+    ? body.changeIds.filter(
+        (id): id is number => typeof id === 'number' && Number.isInteger(id) && id > 0,
+      )
+    : [];
+
+  if (
+    !Array.isArray(body.changeIds) ||
+    changeIds.length === 0 ||
+    changeIds.length !== body.changeIds.length
+  ) {
+    return NextResponse.json(
+      {
+        message:
+          'changeIds doit être une liste non vide d’identifiants. / changeIds must be a non-empty list of ids.',
+      },
+      { status: 400 },
+    );
+  }
+
+  if (changeIds.length > MAX_BULK_TRIAGE_CHANGES) {
+    return NextResponse.json(
+      {
+        message: `${MAX_BULK_TRIAGE_CHANGES} changements maximum par requête. / At most ${MAX_BULK_TRIAGE_CHANGES} changes per request.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  const { data, error } = parseTriageUpdate(body);
+  if (!data) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  try {
+    const result = await prisma.change.updateMany({
+      where: {
+        id: { in: changeIds },
+        monitoredPage: {
+          competitor: {
+            projectId,
+          },
+        },
+      },
+      data: { ...data, updatedById: access.user.id },
+    });
+
+    return NextResponse.json(
+      {
+        updated: result.count,
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('bulkTriageChangesError / erreurTriageChangementsEnMasse', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors du triage des changements. / Error triaging changes.',
+      },
+      { status: 500 },
+    );
+  }
+}
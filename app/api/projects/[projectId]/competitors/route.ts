@@ -3,6 +3,8 @@
 // API route to manage competitors for a given project.
 
 import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { COMPETITOR_VIEW_SELECT } from '@/lib/changeFeed';
 import { prisma } from '@/lib/db';
 
 // RouteContext / contexteRoute : params est un Promise (Next 16)
@@ -40,11 +42,17 @@ export async function GET(_request: Request, context: RouteContext) {
     );
   }
 
+  const { access, error: accessError } = await checkAccess({ projectId }, 'VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
   try {
     const competitors = await prisma.competitor.findMany({
       where: { projectId },
       orderBy: { createdAt: 'desc' },
-      include: {
+      select: {
+        ...COMPETITOR_VIEW_SELECT,
         monitoredPages: true, // utile si on veut afficher le nombre de pages, etc. / useful if we want attached pages
       },
     });
@@ -82,6 +90,11 @@ export async function POST(request: Request, context: RouteContext) {
     );
   }
 
+  const { access, error: accessError } = await checkAccess({ projectId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
   const body = (await request.json().catch(() => null)) as
     | {
         name?: string;
@@ -127,9 +140,12 @@ export async function POST(request: Request, context: RouteContext) {
   try {
     // On pourrait vérifier que le projet existe, mais la FK Prisma le garantit déjà.
     // We could check if the project exists, but Prisma FK will enforce it anyway.
+    const userId = access.user.id;
     const created = await prisma.competitor.create({
       data: {
         projectId,
+        createdById: userId,
+        updatedById: userId,
         name: rawName,
         websiteUrl,
         description,
@@ -137,6 +153,7 @@ export async function POST(request: Request, context: RouteContext) {
         // status utilisera la valeur par défaut (ACTIVE) définie dans le schema Prisma.
         // status will use default value (ACTIVE) from Prisma schema.
       },
+      select: COMPETITOR_VIEW_SELECT,
     });
 
     return NextResponse.json(created, { status: 201 });
@@ -0,0 +1,152 @@
+// projectDigestSubscribersApiRoute / routeApiAbonnesDigestProjet : liste et ajout des abonnés au digest
+// Project digest subscribers API route: list and add email digest recipients
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import {
+  generateUnsubscribeToken,
+  parseDigestSubscriberInput,
+  toDigestSubscriberView,
+} from '@/lib/digests';
+import { Prisma } from '@prisma/client';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    projectId: string;
+  }>;
+};
+
+// parseProjectId / parserIdProjet : convertit et valide l'id
+// Converts and validates the project id
+function parseProjectId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// GET /api/projects/[projectId]/digest-subscribers
+// listDigestSubscribers / listerAbonnesDigest : abonnés du projet (désinscrits inclus, sans jeton)
+// The project's subscribers (unsubscribed ones included, without token)
+export async function GET(_request: Request, context: RouteContext) {
+  const { projectId: rawId } = await context.params;
+  const projectId = parseProjectId(rawId);
+
+  if (!projectId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre projectId invalide. / Invalid projectId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ projectId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    const subscribers = await prisma.digestSubscriber.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json(subscribers.map(toDigestSubscriberView), { status: 200 });
+  } catch (error) {
+    console.error('digestSubscribersGetError / erreurGetAbonnesDigest', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors du chargement des abonnés. / Error loading subscribers.',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/projects/[projectId]/digest-subscribers
+// addDigestSubscriber / ajouterAbonneDigest : { email, name?, frequency? } ; une adresse par projet
+// { email, name?, frequency? }; one address per project
+export async function POST(request: Request, context: RouteContext) {
+  const { projectId: rawId } = await context.params;
+  const projectId = parseProjectId(rawId);
+
+  if (!projectId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre projectId invalide. / Invalid projectId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ projectId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = await request.json().catch(() => null);
+  const { input, error } = parseDigestSubscriberInput(body, null);
+  if (!input) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        {
+          message: 'Projet introuvable. / Project not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    const userId = access.user.id;
+    const created = await prisma.digestSubscriber.create({
+      data: {
+        projectId,
+        ...input,
+        createdById: userId,
+        updatedById: userId,
+        unsubscribeToken: generateUnsubscribeToken(),
+      },
+    });
+
+    return NextResponse.json(toDigestSubscriberView(created), { status: 201 });
+  } catch (error) {
+    console.error('createDigestSubscriberError / erreurCreationAbonneDigest', error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      return NextResponse.json(
+        {
+          message:
+            'Cette adresse est déjà abonnée à ce projet. / This address is already subscribed to this project.',
+        },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors de l'ajout de l'abonné. / Error adding subscriber.",
+      },
+      { status: 500 },
+    );
+  }
+}
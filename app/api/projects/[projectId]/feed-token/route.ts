@@ -0,0 +1,94 @@
+// projectFeedTokenApiRoute / routeApiJetonFluxProjet : activation et régénération du flux Atom d'un projet
+// Project feed token API route: enable / rotate and disable the project's Atom feed
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { generateFeedToken, projectFeedUrl } from '@/lib/changeFeed';
+import { prisma } from '@/lib/db';
+import { Prisma } from '@prisma/client';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    projectId: string;
+  }>;
+};
+
+// parseProjectId / parserIdProjet : convertit et valide l'id
+// Converts and validates the project id
+function parseProjectId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// updateFeedToken / majJetonFlux : POST (nouveau jeton) et DELETE (null) ; renvoie { feedUrl }
+// POST (new token) and DELETE (null); returns { feedUrl }
+async function updateFeedToken(rawId: string, feedToken: string | null) {
+  const projectId = parseProjectId(rawId);
+
+  if (!projectId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre projectId invalide. / Invalid projectId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ projectId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { feedToken, updatedById: access.user.id },
+    });
+
+    return NextResponse.json(
+      { feedUrl: projectFeedUrl(projectId, feedToken) },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('projectFeedTokenError / erreurJetonFluxProjet', error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2025'
+    ) {
+      return NextResponse.json(
+        { message: 'Projet introuvable. / Project not found.' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la mise à jour du flux. / Error updating feed.',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/projects/[projectId]/feed-token
+// rotateFeedToken / regenererJetonFlux : active le flux ou invalide l'ancienne URL
+// Enables the feed, or invalidates the previous URL
+export async function POST(_request: Request, context: RouteContext) {
+  const { projectId } = await context.params;
+  return updateFeedToken(projectId, generateFeedToken());
+}
+
+// DELETE /api/projects/[projectId]/feed-token
+// disableFeed / desactiverFlux
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { projectId } = await context.params;
+  return updateFeedToken(projectId, null);
+}
@@ -0,0 +1,182 @@
+// noiseRulesDryRunApiRoute / routeApiSimulationReglesBruit : rejoue les motifs ignorés sur l'historique
+// Replays candidate ignore patterns on past snapshot pairs, nothing is modified
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import {
+  isSuppressedByRules,
+  mergeNoiseRules,
+  parseNoiseRules,
+} from '@/lib/noiseFilter';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    projectId: string;
+  }>;
+};
+
+// parseProjectId / parserIdProjet : convertit et valide l'id
+// Converts and validates the project id
+function parseProjectId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// maxEvaluated / nbMaxEvalues : changements TEXT les plus récents rejoués
+// Most recent TEXT changes replayed
+const MAX_EVALUATED_CHANGES = 200;
+
+// POST /api/projects/[projectId]/noise-rules/dry-run
+// dryRunNoiseRules / simulerReglesBruit : quels changements passés auraient été supprimés ?
+// Which past changes would the candidate rules have suppressed?
+// Sans pageId, les règles candidates remplacent celles du projet ; avec pageId, celles de la page.
+// Without pageId the candidate replaces the project rules; with pageId, that page's rules.
+export async function POST(request: Request, context: RouteContext) {
+  const { projectId: rawId } = await context.params;
+  const projectId = parseProjectId(rawId);
+
+  if (!projectId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre projectId invalide. / Invalid projectId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ projectId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = (await request.json().catch(() => null)) as
+    | {
+        ignorePatterns?: unknown;
+        ignoreBuiltins?: unknown;
+        pageId?: unknown;
+      }
+    | null;
+
+  if (!body) {
+    return NextResponse.json(
+      {
+        message:
+          'Corps de requête invalide. / Invalid request body.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { rules: candidate, error } = parseNoiseRules(body);
+  if (!candidate) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  // optionalPage / pageOptionnelle : simulation limitée à une page
+  // Dry run limited to one page
+  let pageId: number | null = null;
+  if (body.pageId !== undefined && body.pageId !== null) {
+    pageId =
+      typeof body.pageId === 'number' && Number.isInteger(body.pageId) && body.pageId > 0
+        ? body.pageId
+        : null;
+    if (!pageId) {
+      return NextResponse.json(
+        { message: 'pageId invalide. / Invalid pageId.' },
+        { status: 400 },
+      );
+    }
+  }
+
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, ignorePatterns: true, ignoreBuiltins: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        { message: 'Projet introuvable. / Project not found.' },
+        { status: 404 },
+      );
+    }
+
+    // pastTextChanges / changementsTextePasses : paires de snapshots encore disponibles
+    // Past TEXT changes whose snapshot pair still exists
+    const changes = await prisma.change.findMany({
+      where: {
+        changeType: 'TEXT',
+        oldSnapshotId: { not: null },
+        newSnapshotId: { not: null },
+        monitoredPage: {
+          competitor: { projectId },
+          ...(pageId ? { id: pageId } : {}),
+        },
+      },
+      select: {
+        id: true,
+        createdAt: true,
+        changeSummary: true,
+        oldSnapshot: { select: { extractedText: true } },
+        newSnapshot: { select: { extractedText: true } },
+        monitoredPage: {
+          select: {
+            id: true,
+            url: true,
+            ignorePatterns: true,
+            ignoreBuiltins: true,
+            competitor: { select: { name: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_EVALUATED_CHANGES,
+    });
+
+    const suppressed = changes
+      .filter((change) => {
+        const rules = pageId
+          ? mergeNoiseRules(project, candidate)
+          : mergeNoiseRules(candidate, change.monitoredPage);
+
+        return isSuppressedByRules(
+          change.oldSnapshot?.extractedText ?? '',
+          change.newSnapshot?.extractedText ?? '',
+          rules,
+        );
+      })
+      .map((change) => ({
+        id: change.id,
+        createdAt: change.createdAt,
+        changeSummary: change.changeSummary,
+        pageId: change.monitoredPage.id,
+        url: change.monitoredPage.url,
+        competitorName: change.monitoredPage.competitor.name,
+      }));
+
+    return NextResponse.json(
+      {
+        evaluated: changes.length,
+        suppressedCount: suppressed.length,
+        suppressed,
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('noiseRulesDryRunError / erreurSimulationReglesBruit', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la simulation des motifs ignorés. / Error running the ignore patterns dry run.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,133 @@
+// projectReportSchedulesApiRoute / routeApiPlanificationsRapports : liste et création des planifications
+// Project report schedules API route: list and create recurring report generation
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import { computeNextRunAt, parseReportScheduleInput } from '@/lib/reportSchedules';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    projectId: string;
+  }>;
+};
+
+// parseProjectId / parserIdProjet : convertit et valide l'id
+// Converts and validates the project id
+function parseProjectId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// GET /api/projects/[projectId]/report-schedules
+// listReportSchedules / listerPlanificationsRapports : planifications du projet (statut du dernier essai inclus)
+// The project's schedules, including the last attempt's outcome
+export async function GET(_request: Request, context: RouteContext) {
+  const { projectId: rawId } = await context.params;
+  const projectId = parseProjectId(rawId);
+
+  if (!projectId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre projectId invalide. / Invalid projectId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ projectId }, 'VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    const schedules = await prisma.reportSchedule.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json(schedules, { status: 200 });
+  } catch (error) {
+    console.error('reportSchedulesGetError / erreurGetPlanificationsRapports', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors du chargement des planifications. / Error loading report schedules.',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/projects/[projectId]/report-schedules
+// createReportSchedule / creerPlanificationRapport : cadence, jour, heure UTC, useAi
+// cadence, day, UTC time, useAi; the first occurrence is computed from now
+export async function POST(request: Request, context: RouteContext) {
+  const { projectId: rawId } = await context.params;
+  const projectId = parseProjectId(rawId);
+
+  if (!projectId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre projectId invalide. / Invalid projectId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ projectId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = await request.json().catch(() => null);
+  const { input, error } = parseReportScheduleInput(body, null);
+  if (!input) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        {
+          message: 'Projet introuvable. / Project not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    const userId = access.user.id;
+    const created = await prisma.reportSchedule.create({
+      data: {
+        projectId,
+        ...input,
+        createdById: userId,
+        updatedById: userId,
+        nextRunAt: computeNextRunAt(input, new Date()),
+      },
+    });
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error('createReportScheduleError / erreurCreationPlanificationRapport', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la création de la planification. / Error creating report schedule.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,106 @@
+// reportExportApiRoute / routeApiExportRapport : export Markdown / HTML d'un rapport
+// Markdown / standalone HTML export of a report (?format=md|html)
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { loadReportData } from '@/lib/reportData';
+import {
+  isReportFormat,
+  renderReport,
+  reportContentType,
+} from '@/lib/reportRenderer';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    projectId: string;
+    reportId: string;
+  }>;
+};
+
+// parseId / parserId : convertit et valide un id numérique
+// Converts and validates a numeric id
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// GET /api/projects/[projectId]/reports/[reportId]/export?format=md|html
+// exportReport / exporterRapport : rendu texte, affiché dans le navigateur (inline)
+// Text rendering, displayed inline by the browser
+export async function GET(request: Request, context: RouteContext) {
+  const { projectId: rawProjectId, reportId: rawReportId } = await context.params;
+  const projectId = parseId(rawProjectId);
+  const reportId = parseId(rawReportId);
+
+  if (!projectId || !reportId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètres projectId / reportId invalides. / Invalid projectId / reportId parameters.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ reportId }, 'VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const format = new URL(request.url).searchParams.get('format') ?? 'md';
+  if (!isReportFormat(format)) {
+    return NextResponse.json(
+      {
+        message:
+          'Format invalide (md ou html). / Invalid format (md or html).',
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const data = await loadReportData(reportId);
+
+    // projectScope / perimetreProjet : le rapport doit appartenir au projet de l'URL
+    // The report must belong to the project in the URL
+    if (!data || data.project.id !== projectId) {
+      return NextResponse.json(
+        { message: 'Rapport introuvable. / Report not found.' },
+        { status: 404 },
+      );
+    }
+
+    // fileName / nomFichier : ASCII uniquement pour Content-Disposition
+    // ASCII only for Content-Disposition
+    const slug = data.project.name
+      .normalize('NFD')
+      .replace(/[^\w\s-]/g, '')
+      .trim()
+      .replace(/\s+/g, '-')
+      .toLowerCase();
+    const fileName = `rapport-${slug || 'projet'}-${data.generatedAt.toISOString().slice(0, 10)}.${format}`;
+
+    return new NextResponse(renderReport(data, format), {
+      status: 200,
+      headers: {
+        'Content-Type': reportContentType(format),
+        'Content-Disposition': `inline; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('reportExportError / erreurExportRapport', error);
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors de l'export du rapport. / Error exporting report.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -2,7 +2,11 @@
 // Project API route: update and delete a project
 
 import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { PROJECT_VIEW_SELECT } from '@/lib/changeFeed';
 import { prisma } from '@/lib/db';
+import { parseNoiseRules } from '@/lib/noiseFilter';
+import { parseLlmSettingsUpdate, toPublicLlmSettings } from '@/lib/llmProvider';
 import { Prisma, type Frequency } from '@prisma/client';
 
 // RouteContext / contexteRoute : params est un Promise (Next 16)
@@ -37,8 +41,8 @@ function validateFrequency(
 }
 
 // PATCH /api/projects/[projectId]
-// updateProject / mettreAJourProjet : met à jour nom/description/fréquence
-// Update project name/description/frequency
+// updateProject / mettreAJourProjet : met à jour nom/description/fréquence/motifs ignorés/LLM
+// Update project name/description/frequency/ignore patterns/LLM settings
 export async function PATCH(request: Request, context: RouteContext) {
   const { projectId: rawId } = await context.params;
   console.log('>>> API PATCH /api/projects/[projectId]', rawId); // debugFR/EN
@@ -55,11 +59,19 @@ export async function PATCH(request: Request, context: RouteContext) {
     );
   }
 
+  const { access, error: accessError } = await checkAccess({ projectId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
   const body = (await request.json().catch(() => null)) as
     | {
         name?: string;
         description?: string | null;
         frequency?: string;
+        ignorePatterns?: unknown;
+        ignoreBuiltins?: unknown;
+        llmSettings?: unknown;
       }
     | null;
 
@@ -112,6 +124,35 @@ export async function PATCH(request: Request, context: RouteContext) {
     data.frequency = validatedFrequency;
   }
 
+  // noiseRules / reglesBruit : motifs ignorés lors de la comparaison de texte
+  // Patterns ignored during text comparison
+  if (body.ignorePatterns !== undefined || body.ignoreBuiltins !== undefined) {
+    const { rules, error } = parseNoiseRules(body);
+    if (!rules) {
+      return NextResponse.json({ message: error }, { status: 400 });
+    }
+    if (body.ignorePatterns !== undefined) data.ignorePatterns = rules.ignorePatterns;
+    if (body.ignoreBuiltins !== undefined) data.ignoreBuiltins = rules.ignoreBuiltins;
+  }
+
+  // llmSettings / parametresLlm : surcharge du fournisseur LLM (clé API conservée si absente)
+  // LLM provider override (API key kept when omitted)
+  if (body.llmSettings !== undefined) {
+    const existing = await prisma.project
+      .findUnique({ where: { id: projectId }, select: { llmSettings: true } })
+      .catch(() => null);
+
+    const { settings, error } = parseLlmSettingsUpdate(
+      body.llmSettings,
+      existing?.llmSettings,
+    );
+    if (error) {
+      return NextResponse.json({ message: error }, { status: 400 });
+    }
+    data.llmSettings =
+      settings && Object.keys(settings).length > 0 ? settings : Prisma.DbNull;
+  }
+
   if (Object.keys(data).length === 0) {
     return NextResponse.json(
       {
@@ -125,10 +166,16 @@ export async function PATCH(request: Request, context: RouteContext) {
   try {
     const updated = await prisma.project.update({
       where: { id: projectId },
-      data,
+      data: { ...data, updatedById: access.user.id },
+      select: PROJECT_VIEW_SELECT,
     });
 
-    return NextResponse.json(updated, { status: 200 });
+    // publicLlmSettings / parametresLlmPublics : la clé API n'est jamais renvoyée
+    // The API key is never returned
+    return NextResponse.json(
+      { ...updated, llmSettings: toPublicLlmSettings(updated.llmSettings) },
+      { status: 200 },
+    );
   } catch (error) {
     console.error('updateProjectError / erreurMiseAJourProjet', error);
 
@@ -175,6 +222,11 @@ export async function DELETE(_request: Request, context: RouteContext) {
     );
   }
 
+  const { access, error: accessError } = await checkAccess({ projectId }, 'OWNER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
   try {
     const deleted = await prisma.project.delete({
       where: { id: projectId },
@@ -0,0 +1,137 @@
+// projectWebhooksApiRoute / routeApiWebhooksProjet : liste et création des webhooks sortants
+// Project webhooks API route: list and create outgoing webhook endpoints
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import { parseWebhookInput, toWebhookView } from '@/lib/webhooks';
+import { generateWebhookSecret } from '@/lib/webhookSignature';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    projectId: string;
+  }>;
+};
+
+// parseProjectId / parserIdProjet : convertit et valide l'id
+// Converts and validates the project id
+function parseProjectId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// GET /api/projects/[projectId]/webhooks
+// listWebhooks / listerWebhooks : secrets masqués
+// Secrets are masked
+export async function GET(_request: Request, context: RouteContext) {
+  const { projectId: rawId } = await context.params;
+  const projectId = parseProjectId(rawId);
+
+  if (!projectId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre projectId invalide. / Invalid projectId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ projectId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json(
+      endpoints.map((endpoint) => toWebhookView(endpoint)),
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('webhooksGetError / erreurGetWebhooks', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors du chargement des webhooks. / Error loading webhooks.',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/projects/[projectId]/webhooks
+// createWebhook / creerWebhook : { url, description?, events? } ; le secret n'est renvoyé qu'ici
+// { url, description?, events? }; the full secret is only returned here
+export async function POST(request: Request, context: RouteContext) {
+  const { projectId: rawId } = await context.params;
+  const projectId = parseProjectId(rawId);
+
+  if (!projectId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre projectId invalide. / Invalid projectId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ projectId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = await request.json().catch(() => null);
+  const { input, error } = parseWebhookInput(body, null);
+  if (!input) {
+    return NextResponse.json({ message: error }, { status: 400 });
+  }
+
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true },
+    });
+
+    if (!project) {
+      return NextResponse.json(
+        {
+          message: 'Projet introuvable. / Project not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    const userId = access.user.id;
+    const created = await prisma.webhookEndpoint.create({
+      data: {
+        projectId,
+        ...input,
+        createdById: userId,
+        updatedById: userId,
+        secret: generateWebhookSecret(),
+      },
+    });
+
+    return NextResponse.json(toWebhookView(created, true), { status: 201 });
+  } catch (error) {
+    console.error('createWebhookError / erreurCreationWebhook', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la création du webhook. / Error creating webhook.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -2,6 +2,8 @@
 // Projects API route: list and create projects
 
 import { NextResponse } from 'next/server';
+import { checkCurrentWorkspaceAccess } from '@/lib/access';
+import { PROJECT_VIEW_SELECT } from '@/lib/changeFeed';
 import { prisma } from '@/lib/db';
 import type { Frequency } from '@prisma/client';
 
@@ -19,11 +21,17 @@ function validateFrequency(
 }
 
 // GET /api/projects
-// listProjects / listerProjets : renvoie les projets avec le nombre de concurrents
-// Returns projects with competitor count
+// listProjects / listerProjets : projets de l'espace courant avec le nombre de concurrents
+// Returns the current workspace's projects with competitor count
 export async function GET() {
+  const { access, error: accessError } = await checkCurrentWorkspaceAccess('VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
   try {
     const projects = await prisma.project.findMany({
+      where: { workspaceId: access.workspaceId },
       orderBy: { createdAt: 'desc' },
       include: {
         _count: {
@@ -55,9 +63,14 @@ export async function GET() {
 }
 
 // POST /api/projects
-// createProject / creerProjet : crée un nouveau projet de veille
-// Creates a new watch project
+// createProject / creerProjet : crée un nouveau projet de veille dans l'espace courant
+// Creates a new watch project in the current workspace (EDITOR)
 export async function POST(request: Request) {
+  const { access, error: accessError } = await checkCurrentWorkspaceAccess('EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
   const body = (await request.json().catch(() => null)) as
     | {
         name?: string;
@@ -96,12 +109,17 @@ export async function POST(request: Request) {
     validateFrequency(body.frequency) ?? 'MANUAL';
 
   try {
+    const userId = access.user.id;
     const created = await prisma.project.create({
       data: {
+        workspaceId: access.workspaceId,
         name: rawName,
         description,
         frequency: validatedFrequency,
+        createdById: userId,
+        updatedById: userId,
       },
+      select: PROJECT_VIEW_SELECT,
     });
 
     return NextResponse.json(created, { status: 201 });
@@ -0,0 +1,181 @@
+// reportScheduleApiRoute / routeApiPlanificationRapport : mise à jour et suppression d'une planification
+// Report schedule API route: update and delete a schedule
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import {
+  computeNextRunAt,
+  isSameTiming,
+  parseReportScheduleInput,
+} from '@/lib/reportSchedules';
+import { Prisma } from '@prisma/client';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    scheduleId: string;
+  }>;
+};
+
+// parseScheduleId / parserIdPlanification : convertit et valide l'id
+// Converts and validates the schedule id
+function parseScheduleId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// PATCH /api/report-schedules/[scheduleId]
+// updateReportSchedule / mettreAJourPlanificationRapport : champs absents conservés
+// Missing fields are kept. Un nouvel horaire ou une réactivation repart de maintenant
+// (échéances passées et nouveaux essais en attente abandonnés)
+// A new timing or re-enabling starts over from now (past occurrences and pending retries dropped)
+export async function PATCH(request: Request, context: RouteContext) {
+  const { scheduleId: rawId } = await context.params;
+  const scheduleId = parseScheduleId(rawId);
+
+  if (!scheduleId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre scheduleId invalide. / Invalid scheduleId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ scheduleId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = await request.json().catch(() => null);
+
+  try {
+    const existing = await prisma.reportSchedule.findUnique({
+      where: { id: scheduleId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          message:
+            'Planification introuvable. / Report schedule not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    const { input, error } = parseReportScheduleInput(body, existing);
+    if (!input) {
+      return NextResponse.json({ message: error }, { status: 400 });
+    }
+
+    const restart =
+      !isSameTiming(existing, input) || (input.enabled && !existing.enabled);
+
+    const updated = await prisma.reportSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        ...input,
+        updatedById: access.user.id,
+        ...(restart
+          ? {
+              nextRunAt: computeNextRunAt(input, new Date()),
+              retryAt: null,
+              attempts: 0,
+            }
+          : {}),
+      },
+    });
+
+    return NextResponse.json(updated, { status: 200 });
+  } catch (error) {
+    console.error('updateReportScheduleError / erreurMajPlanificationRapport', error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2025'
+    ) {
+      return NextResponse.json(
+        {
+          message:
+            'Planification introuvable. / Report schedule not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la mise à jour de la planification. / Error updating report schedule.',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/report-schedules/[scheduleId]
+// deleteReportSchedule / supprimerPlanificationRapport : les rapports déjà générés sont conservés
+// Reports already generated are kept (Report.scheduleId set to null)
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { scheduleId: rawId } = await context.params;
+  const scheduleId = parseScheduleId(rawId);
+
+  if (!scheduleId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre scheduleId invalide. / Invalid scheduleId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ scheduleId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    await prisma.reportSchedule.delete({
+      where: { id: scheduleId },
+    });
+
+    return NextResponse.json(
+      {
+        message:
+          'Planification supprimée. / Report schedule deleted.',
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('deleteReportScheduleError / erreurSuppressionPlanificationRapport', error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2025'
+    ) {
+      return NextResponse.json(
+        {
+          message:
+            'Planification introuvable. / Report schedule not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la suppression de la planification. / Error deleting report schedule.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,100 @@
+// reportPdfApiRoute / routeApiPdfRapport : téléchargement du PDF d'un rapport
+// Download route for a report PDF (rendered on first request if missing)
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import { generateReportPdf, readReportPdf } from '@/lib/reportPdf';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    reportId: string;
+  }>;
+};
+
+// parseReportId / parserIdRapport : convertit et valide l'id
+// Converts and validates the report id
+function parseReportId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// GET /api/reports/[reportId]/pdf
+// downloadReportPdf / telechargerPdfRapport : fichier stocké, ou généré à la volée (anciens rapports)
+// Stored file, or generated on the fly (reports created before the PDF export)
+export async function GET(_request: Request, context: RouteContext) {
+  const { reportId: rawId } = await context.params;
+  const reportId = parseReportId(rawId);
+
+  if (!reportId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre reportId invalide. / Invalid reportId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ reportId }, 'VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    const report = await prisma.report.findUnique({
+      where: { id: reportId },
+      select: { id: true, generatedAt: true, project: { select: { name: true } } },
+    });
+
+    if (!report) {
+      return NextResponse.json(
+        { message: 'Rapport introuvable. / Report not found.' },
+        { status: 404 },
+      );
+    }
+
+    let pdf = await readReportPdf(reportId);
+    if (!pdf) {
+      await generateReportPdf(reportId);
+      pdf = await readReportPdf(reportId);
+    }
+
+    if (!pdf) {
+      throw new Error('PDF introuvable après génération. / PDF missing after generation.');
+    }
+
+    // fileName / nomFichier : ASCII uniquement pour Content-Disposition
+    // ASCII only for Content-Disposition
+    const slug = report.project.name
+      .normalize('NFD')
+      .replace(/[^\w\s-]/g, '')
+      .trim()
+      .replace(/\s+/g, '-')
+      .toLowerCase();
+    const fileName = `rapport-${slug || 'projet'}-${report.generatedAt.toISOString().slice(0, 10)}.pdf`;
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('reportPdfError / erreurPdfRapport', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la génération du PDF. / Error generating PDF.',
+      },
+      { status: 500 },
+    );
+  }
+}
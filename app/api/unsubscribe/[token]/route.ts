@@ -0,0 +1,60 @@
+// unsubscribeApiRoute / routeApiDesinscription : désinscription par jeton (page ou one-click)
+// Unsubscribe by token, from the confirmation page or an email client's one-click (RFC 8058)
+
+import { NextResponse } from 'next/server';
+import { unsubscribeByToken } from '@/lib/digests';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    token: string;
+  }>;
+};
+
+// POST /api/unsubscribe/[token]
+// unsubscribe / desinscrire : idempotent ; le corps (List-Unsubscribe=One-Click) est ignoré
+// Idempotent; the body (List-Unsubscribe=One-Click) is ignored
+export async function POST(_request: Request, context: RouteContext) {
+  const { token } = await context.params;
+
+  if (!/^[a-f0-9]{48}$/.test(token)) {
+    return NextResponse.json(
+      {
+        message: 'Lien de désinscription invalide. / Invalid unsubscribe link.',
+      },
+      { status: 404 },
+    );
+  }
+
+  try {
+    const subscriber = await unsubscribeByToken(token);
+
+    if (!subscriber) {
+      return NextResponse.json(
+        {
+          message: 'Lien de désinscription invalide. / Invalid unsubscribe link.',
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message: 'Désinscription enregistrée. / You have been unsubscribed.',
+        email: subscriber.email,
+        project: subscriber.project.name,
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('unsubscribeError / erreurDesinscription', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la désinscription. / Error unsubscribing.',
+      },
+      { status: 500 },
+    );
+  }
+}
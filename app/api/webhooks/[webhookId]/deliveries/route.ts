@@ -0,0 +1,97 @@
+// webhookDeliveriesApiRoute / routeApiLivraisonsWebhook : journal des livraisons d'un webhook
+// Delivery log of a webhook
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    webhookId: string;
+  }>;
+};
+
+// maxDeliveries / nbMaxLivraisons : journal limité aux plus récentes
+// Log limited to the most recent deliveries
+const MAX_DELIVERIES = 50;
+
+// parseWebhookId / parserIdWebhook : convertit et valide l'id
+// Converts and validates the webhook id
+function parseWebhookId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// GET /api/webhooks/[webhookId]/deliveries
+// listDeliveries / listerLivraisons : 50 dernières livraisons, sans le corps envoyé
+// Last 50 deliveries, without the sent payload
+export async function GET(_request: Request, context: RouteContext) {
+  const { webhookId: rawId } = await context.params;
+  const webhookId = parseWebhookId(rawId);
+
+  if (!webhookId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre webhookId invalide. / Invalid webhookId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ webhookId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    const endpoint = await prisma.webhookEndpoint.findUnique({
+      where: { id: webhookId },
+      select: { id: true },
+    });
+
+    if (!endpoint) {
+      return NextResponse.json(
+        {
+          message: 'Webhook introuvable. / Webhook not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { endpointId: webhookId },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_DELIVERIES,
+      select: {
+        id: true,
+        event: true,
+        status: true,
+        attempts: true,
+        nextAttemptAt: true,
+        lastAttemptAt: true,
+        responseStatus: true,
+        responseBody: true,
+        errorMessage: true,
+        durationMs: true,
+        createdAt: true,
+      },
+    });
+
+    return NextResponse.json(deliveries, { status: 200 });
+  } catch (error) {
+    console.error('webhookDeliveriesGetError / erreurGetLivraisonsWebhook', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors du chargement des livraisons. / Error loading deliveries.',
+      },
+      { status: 500 },
+    );
+  }
+}
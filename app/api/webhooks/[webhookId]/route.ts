@@ -0,0 +1,169 @@
+// webhookApiRoute / routeApiWebhook : mise à jour, rotation du secret et suppression d'un webhook
+// Webhook API route: update, secret rotation and deletion
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import { parseWebhookInput, toWebhookView } from '@/lib/webhooks';
+import { generateWebhookSecret } from '@/lib/webhookSignature';
+import { Prisma } from '@prisma/client';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    webhookId: string;
+  }>;
+};
+
+// parseWebhookId / parserIdWebhook : convertit et valide l'id
+// Converts and validates the webhook id
+function parseWebhookId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// PATCH /api/webhooks/[webhookId]
+// updateWebhook / mettreAJourWebhook : champs absents conservés ; rotateSecret: true renvoie le nouveau secret
+// Missing fields are kept; rotateSecret: true returns the new secret once
+export async function PATCH(request: Request, context: RouteContext) {
+  const { webhookId: rawId } = await context.params;
+  const webhookId = parseWebhookId(rawId);
+
+  if (!webhookId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre webhookId invalide. / Invalid webhookId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ webhookId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    rotateSecret?: boolean;
+  } | null;
+
+  try {
+    const existing = await prisma.webhookEndpoint.findUnique({
+      where: { id: webhookId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          message: 'Webhook introuvable. / Webhook not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    const { input, error } = parseWebhookInput(body, existing);
+    if (!input) {
+      return NextResponse.json({ message: error }, { status: 400 });
+    }
+
+    const rotateSecret = body?.rotateSecret === true;
+
+    const updated = await prisma.webhookEndpoint.update({
+      where: { id: webhookId },
+      data: {
+        ...input,
+        updatedById: access.user.id,
+        ...(rotateSecret ? { secret: generateWebhookSecret() } : {}),
+      },
+    });
+
+    return NextResponse.json(toWebhookView(updated, rotateSecret), {
+      status: 200,
+    });
+  } catch (error) {
+    console.error('updateWebhookError / erreurMajWebhook', error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2025'
+    ) {
+      return NextResponse.json(
+        {
+          message: 'Webhook introuvable. / Webhook not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la mise à jour du webhook. / Error updating webhook.',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/webhooks/[webhookId]
+// deleteWebhook / supprimerWebhook : journal des livraisons supprimé en cascade
+// The delivery log is deleted in cascade
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { webhookId: rawId } = await context.params;
+  const webhookId = parseWebhookId(rawId);
+
+  if (!webhookId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre webhookId invalide. / Invalid webhookId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ webhookId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    await prisma.webhookEndpoint.delete({
+      where: { id: webhookId },
+    });
+
+    return NextResponse.json(
+      {
+        message: 'Webhook supprimé. / Webhook deleted.',
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('deleteWebhookError / erreurSuppressionWebhook', error);
+
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2025'
+    ) {
+      return NextResponse.json(
+        {
+          message: 'Webhook introuvable. / Webhook not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la suppression du webhook. / Error deleting webhook.',
+      },
+      { status: 500 },
+    );
+  }
+}
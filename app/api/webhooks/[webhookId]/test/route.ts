@@ -0,0 +1,71 @@
+// webhookTestApiRoute / routeApiTestWebhook : envoi immédiat d'un événement webhook.test
+// Sends a webhook.test event immediately
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { sendTestWebhook } from '@/lib/webhooks';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    webhookId: string;
+  }>;
+};
+
+// parseWebhookId / parserIdWebhook : convertit et valide l'id
+// Converts and validates the webhook id
+function parseWebhookId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// POST /api/webhooks/[webhookId]/test
+// sendTestEvent / envoyerEvenementTest : renvoie la livraison (statut HTTP, extrait de réponse)
+// Returns the delivery (HTTP status, response excerpt); a failed test is retried like any delivery
+export async function POST(_request: Request, context: RouteContext) {
+  const { webhookId: rawId } = await context.params;
+  const webhookId = parseWebhookId(rawId);
+
+  if (!webhookId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre webhookId invalide. / Invalid webhookId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ webhookId }, 'EDITOR');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    const delivery = await sendTestWebhook(webhookId);
+
+    if (!delivery) {
+      return NextResponse.json(
+        {
+          message: 'Webhook introuvable. / Webhook not found.',
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(delivery, { status: 200 });
+  } catch (error) {
+    console.error('testWebhookError / erreurTestWebhook', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de l’envoi du test. / Error sending test event.',
+      },
+      { status: 500 },
+    );
+  }
+}
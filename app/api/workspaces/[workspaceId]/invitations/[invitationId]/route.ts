@@ -0,0 +1,76 @@
+// workspaceInvitationApiRoute / routeApiInvitationEspace : révocation d'un lien d'invitation
+// Workspace invitation API route: revokes an invitation link (owners)
+
+import { NextResponse } from 'next/server';
+import { checkAccess } from '@/lib/access';
+import { prisma } from '@/lib/db';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    workspaceId: string;
+    invitationId: string;
+  }>;
+};
+
+// parseId / parserId : convertit et valide un id
+// Converts and validates an id
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// DELETE /api/workspaces/[workspaceId]/invitations/[invitationId]
+// revokeInvitation / revoquerInvitation : seules les invitations en attente sont supprimées
+// Only pending invitations are deleted (accepted ones stay as history)
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { workspaceId: rawWorkspaceId, invitationId: rawInvitationId } = await context.params;
+  const workspaceId = parseId(rawWorkspaceId);
+  const invitationId = parseId(rawInvitationId);
+
+  if (!workspaceId || !invitationId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètres workspaceId / invitationId invalides. / Invalid workspaceId / invitationId parameters.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ workspaceId }, 'OWNER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    const { count } = await prisma.workspaceInvitation.deleteMany({
+      where: { id: invitationId, workspaceId, acceptedAt: null },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { message: 'Invitation introuvable. / Invitation not found.' },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(
+      { message: 'Invitation révoquée. / Invitation revoked.' },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('revokeInvitationError / erreurRevocationInvitation', error);
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors de la révocation de l'invitation. / Error revoking invitation.",
+      },
+      { status: 500 },
+    );
+  }
+}
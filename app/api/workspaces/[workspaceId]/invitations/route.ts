@@ -0,0 +1,125 @@
+// workspaceInvitationsApiRoute / routeApiInvitationsEspace : liens d'invitation (propriétaires)
+// Workspace invitations API route: invitation links (owners)
+
+import { NextResponse } from 'next/server';
+import {
+  checkAccess,
+  generateInvitationToken,
+  invitationExpiry,
+  listPendingInvitations,
+  parseWorkspaceRole,
+  toInvitationView,
+} from '@/lib/access';
+import { prisma } from '@/lib/db';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    workspaceId: string;
+  }>;
+};
+
+// parseWorkspaceId / parserIdEspace : convertit et valide l'id
+// Converts and validates the workspace id
+function parseWorkspaceId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// GET /api/workspaces/[workspaceId]/invitations
+// listInvitations / listerInvitations : invitations en attente (non acceptées, non expirées)
+// Pending invitations (not accepted, not expired)
+export async function GET(_request: Request, context: RouteContext) {
+  const { workspaceId: rawId } = await context.params;
+  const workspaceId = parseWorkspaceId(rawId);
+
+  if (!workspaceId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre workspaceId invalide. / Invalid workspaceId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ workspaceId }, 'OWNER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    return NextResponse.json(await listPendingInvitations(workspaceId), { status: 200 });
+  } catch (error) {
+    console.error('invitationsGetError / erreurGetInvitations', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors du chargement des invitations. / Error loading invitations.',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/workspaces/[workspaceId]/invitations
+// createInvitation / creerInvitation : { role } ; lien à usage unique valable 7 jours
+// { role }; single-use link valid for 7 days
+export async function POST(request: Request, context: RouteContext) {
+  const { workspaceId: rawId } = await context.params;
+  const workspaceId = parseWorkspaceId(rawId);
+
+  if (!workspaceId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre workspaceId invalide. / Invalid workspaceId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ workspaceId }, 'OWNER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = (await request.json().catch(() => null)) as { role?: unknown } | null;
+  const role = parseWorkspaceRole(body?.role);
+  if (!role) {
+    return NextResponse.json(
+      {
+        message:
+          'role doit valoir OWNER, EDITOR ou VIEWER. / role must be OWNER, EDITOR or VIEWER.',
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const created = await prisma.workspaceInvitation.create({
+      data: {
+        workspaceId,
+        role,
+        token: generateInvitationToken(),
+        expiresAt: invitationExpiry(),
+        invitedById: access.user.id,
+      },
+    });
+
+    return NextResponse.json(toInvitationView(created), { status: 201 });
+  } catch (error) {
+    console.error('createInvitationError / erreurCreationInvitation', error);
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors de la création de l'invitation. / Error creating invitation.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,188 @@
+// workspaceMemberApiRoute / routeApiMembreEspace : changement de rôle et retrait d'un membre
+// Workspace member API route: role change (owners) and removal (owners, or a member leaving)
+
+import { NextResponse } from 'next/server';
+import { checkAccess, parseWorkspaceRole } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import { Prisma, type WorkspaceRole } from '@prisma/client';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    workspaceId: string;
+    userId: string;
+  }>;
+};
+
+// parseId / parserId : convertit et valide un id
+// Converts and validates an id
+function parseId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// lastOwnerError / erreurDernierProprietaire : un espace garde toujours au moins un propriétaire
+// A workspace always keeps at least one owner
+const LAST_OWNER_MESSAGE =
+  "L'espace doit garder au moins un propriétaire. / The workspace must keep at least one owner.";
+
+// changeMembership / modifierAppartenance : null = retrait ; 404 si non membre, 409 pour le dernier propriétaire
+// null = removal; 404 when not a member, 409 for the last owner. Serializable : deux retraits
+// simultanés de propriétaires ne peuvent pas vider l'espace / two concurrent owner removals cannot
+// leave the workspace without owner
+async function changeMembership(
+  workspaceId: number,
+  userId: number,
+  role: WorkspaceRole | null,
+): Promise<{ status: 200 | 404 | 409; role: WorkspaceRole | null }> {
+  return prisma.$transaction(async (tx) => {
+    const member = await tx.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId } },
+      select: { role: true },
+    });
+    if (!member) return { status: 404, role: null };
+
+    if (member.role === 'OWNER' && role !== 'OWNER') {
+      const owners = await tx.workspaceMember.count({ where: { workspaceId, role: 'OWNER' } });
+      if (owners <= 1) return { status: 409, role: member.role };
+    }
+
+    if (role) {
+      await tx.workspaceMember.update({
+        where: { workspaceId_userId: { workspaceId, userId } },
+        data: { role },
+      });
+    } else {
+      await tx.workspaceMember.delete({
+        where: { workspaceId_userId: { workspaceId, userId } },
+      });
+    }
+    return { status: 200, role };
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+}
+
+// PATCH /api/workspaces/[workspaceId]/members/[userId]
+// changeRole / changerRole : { role: OWNER | EDITOR | VIEWER }
+export async function PATCH(request: Request, context: RouteContext) {
+  const { workspaceId: rawWorkspaceId, userId: rawUserId } = await context.params;
+  const workspaceId = parseId(rawWorkspaceId);
+  const userId = parseId(rawUserId);
+
+  if (!workspaceId || !userId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètres workspaceId / userId invalides. / Invalid workspaceId / userId parameters.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ workspaceId }, 'OWNER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = (await request.json().catch(() => null)) as { role?: unknown } | null;
+  const role = parseWorkspaceRole(body?.role);
+  if (!role) {
+    return NextResponse.json(
+      {
+        message:
+          'role doit valoir OWNER, EDITOR ou VIEWER. / role must be OWNER, EDITOR or VIEWER.',
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await changeMembership(workspaceId, userId, role);
+
+    if (result.status === 404) {
+      return NextResponse.json(
+        { message: 'Membre introuvable. / Member not found.' },
+        { status: 404 },
+      );
+    }
+    if (result.status === 409) {
+      return NextResponse.json({ message: LAST_OWNER_MESSAGE }, { status: 409 });
+    }
+
+    return NextResponse.json({ userId, role }, { status: 200 });
+  } catch (error) {
+    console.error('updateMemberError / erreurMajMembre', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors de la mise à jour du membre. / Error updating member.',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/workspaces/[workspaceId]/members/[userId]
+// removeMember / retirerMembre : par un propriétaire, ou par le membre lui-même (quitter l'espace)
+// By an owner, or by the member themself (leaving the workspace)
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { workspaceId: rawWorkspaceId, userId: rawUserId } = await context.params;
+  const workspaceId = parseId(rawWorkspaceId);
+  const userId = parseId(rawUserId);
+
+  if (!workspaceId || !userId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètres workspaceId / userId invalides. / Invalid workspaceId / userId parameters.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ workspaceId }, 'VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  if (access.user.id !== userId && access.role !== 'OWNER') {
+    return NextResponse.json(
+      {
+        message:
+          `Droits insuffisants : rôle OWNER requis (vous êtes ${access.role}). / Insufficient rights: OWNER role required (you are ${access.role}).`,
+      },
+      { status: 403 },
+    );
+  }
+
+  try {
+    const result = await changeMembership(workspaceId, userId, null);
+
+    if (result.status === 404) {
+      return NextResponse.json(
+        { message: 'Membre introuvable. / Member not found.' },
+        { status: 404 },
+      );
+    }
+    if (result.status === 409) {
+      return NextResponse.json({ message: LAST_OWNER_MESSAGE }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { message: 'Membre retiré. / Member removed.' },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('removeMemberError / erreurRetraitMembre', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors du retrait du membre. / Error removing member.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,59 @@
+// workspaceMembersApiRoute / routeApiMembresEspace : membres d'un espace et leurs rôles
+// Workspace members API route: members and their roles (visible to every member)
+
+import { NextResponse } from 'next/server';
+import { checkAccess, listWorkspaceMembers } from '@/lib/access';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    workspaceId: string;
+  }>;
+};
+
+// parseWorkspaceId / parserIdEspace : convertit et valide l'id
+// Converts and validates the workspace id
+function parseWorkspaceId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// GET /api/workspaces/[workspaceId]/members
+// listMembers / listerMembres : par date d'arrivée
+// By join date
+export async function GET(_request: Request, context: RouteContext) {
+  const { workspaceId: rawId } = await context.params;
+  const workspaceId = parseWorkspaceId(rawId);
+
+  if (!workspaceId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre workspaceId invalide. / Invalid workspaceId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ workspaceId }, 'VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  try {
+    return NextResponse.json(await listWorkspaceMembers(workspaceId), { status: 200 });
+  } catch (error) {
+    console.error('workspaceMembersGetError / erreurGetMembresEspace', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors du chargement des membres. / Error loading members.',
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,141 @@
+// workspaceApiRoute / routeApiEspace : renommage et suppression d'un espace (propriétaires)
+// Workspace API route: rename and delete a workspace (owners)
+
+import { NextResponse } from 'next/server';
+import { checkAccess, parseWorkspaceName } from '@/lib/access';
+import { prisma } from '@/lib/db';
+import { Prisma } from '@prisma/client';
+
+// RouteContext / contexteRoute : params est un Promise (Next 16)
+// Route context: params is a Promise (Next 16)
+type RouteContext = {
+  params: Promise<{
+    workspaceId: string;
+  }>;
+};
+
+// parseWorkspaceId / parserIdEspace : convertit et valide l'id
+// Converts and validates the workspace id
+function parseWorkspaceId(raw: string): number | null {
+  const id = Number(raw);
+  if (!Number.isFinite(id) || id <= 0) {
+    return null;
+  }
+  return id;
+}
+
+// PATCH /api/workspaces/[workspaceId]
+// renameWorkspace / renommerEspace : { name }
+export async function PATCH(request: Request, context: RouteContext) {
+  const { workspaceId: rawId } = await context.params;
+  const workspaceId = parseWorkspaceId(rawId);
+
+  if (!workspaceId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre workspaceId invalide. / Invalid workspaceId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ workspaceId }, 'OWNER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const body = (await request.json().catch(() => null)) as { name?: unknown } | null;
+  const name = parseWorkspaceName(body?.name);
+  if (!name) {
+    return NextResponse.json(
+      {
+        message:
+          "Le nom de l'espace est obligatoire (120 caractères max.). / Workspace name is required (120 characters max).",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const updated = await prisma.workspace.update({
+      where: { id: workspaceId },
+      data: { name },
+      select: { id: true, name: true },
+    });
+
+    return NextResponse.json(updated, { status: 200 });
+  } catch (error) {
+    console.error('updateWorkspaceError / erreurMajEspace', error);
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors de la mise à jour de l'espace. / Error updating workspace.",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/workspaces/[workspaceId]
+// deleteWorkspace / supprimerEspace : refusé tant que l'espace possède des projets
+// Refused while the workspace still owns projects (they must be deleted first)
+export async function DELETE(_request: Request, context: RouteContext) {
+  const { workspaceId: rawId } = await context.params;
+  const workspaceId = parseWorkspaceId(rawId);
+
+  if (!workspaceId) {
+    return NextResponse.json(
+      {
+        message:
+          'Paramètre workspaceId invalide. / Invalid workspaceId parameter.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ workspaceId }, 'OWNER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const projectsInUse = NextResponse.json(
+    {
+      message:
+        "L'espace contient encore des projets : supprimez-les d'abord. / The workspace still contains projects: delete them first.",
+    },
+    { status: 409 },
+  );
+
+  try {
+    if ((await prisma.project.count({ where: { workspaceId } })) > 0) {
+      return projectsInUse;
+    }
+
+    await prisma.workspace.delete({ where: { id: workspaceId } });
+
+    return NextResponse.json(
+      { message: 'Espace supprimé. / Workspace deleted.' },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('deleteWorkspaceError / erreurSuppressionEspace', error);
+
+    // foreignKey / cleEtrangere : projet créé entre le comptage et la suppression (Restrict)
+    // Project created between the count and the delete (Restrict)
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2003'
+    ) {
+      return projectsInUse;
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors de la suppression de l'espace. / Error deleting workspace.",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,35 @@
+// currentWorkspaceApiRoute / routeApiEspaceCourant : sélecteur d'espace de l'en-tête
+// Current workspace API route: header workspace switcher
+
+import { NextResponse } from 'next/server';
+import { checkAccess, WORKSPACE_COOKIE, workspaceCookieOptions } from '@/lib/access';
+
+// POST /api/workspaces/current
+// switchWorkspace / changerEspace : { workspaceId } ; réservé aux membres de l'espace
+// { workspaceId }; members of the workspace only
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as { workspaceId?: unknown } | null;
+  const workspaceId = Number(body?.workspaceId);
+
+  if (!Number.isInteger(workspaceId) || workspaceId <= 0) {
+    return NextResponse.json(
+      {
+        message:
+          'workspaceId invalide. / Invalid workspaceId.',
+      },
+      { status: 400 },
+    );
+  }
+
+  const { access, error: accessError } = await checkAccess({ workspaceId }, 'VIEWER');
+  if (!access) {
+    return NextResponse.json({ message: accessError.message }, { status: accessError.status });
+  }
+
+  const response = NextResponse.json(
+    { workspaceId, role: access.role },
+    { status: 200 },
+  );
+  response.cookies.set(WORKSPACE_COOKIE, String(workspaceId), workspaceCookieOptions());
+  return response;
+}
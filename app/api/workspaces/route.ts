@@ -0,0 +1,89 @@
+// workspacesApiRoute / routeApiEspaces : espaces de l'utilisateur et création d'un espace
+// Workspaces API route: the user's workspaces and workspace creation
+
+import { NextResponse } from 'next/server';
+import {
+  listUserWorkspaces,
+  parseWorkspaceName,
+  WORKSPACE_COOKIE,
+  workspaceCookieOptions,
+} from '@/lib/access';
+import { getCurrentUser } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+
+// GET /api/workspaces
+// listWorkspaces / listerEspaces : [{ id, name, role }] par nom
+// [{ id, name, role }] by name
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { message: 'Authentification requise. / Authentication required.' },
+        { status: 401 },
+      );
+    }
+
+    return NextResponse.json(await listUserWorkspaces(user.id), { status: 200 });
+  } catch (error) {
+    console.error('workspacesGetError / erreurGetEspaces', error);
+    return NextResponse.json(
+      {
+        message:
+          'Erreur lors du chargement des espaces. / Error loading workspaces.',
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/workspaces
+// createWorkspace / creerEspace : { name } ; le créateur en devient propriétaire et l'espace devient courant
+// { name }; the creator becomes its owner and it becomes the current workspace
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as { name?: unknown } | null;
+
+  const name = parseWorkspaceName(body?.name);
+  if (!name) {
+    return NextResponse.json(
+      {
+        message:
+          "Le nom de l'espace est obligatoire (120 caractères max.). / Workspace name is required (120 characters max).",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { message: 'Authentification requise. / Authentication required.' },
+        { status: 401 },
+      );
+    }
+
+    const created = await prisma.workspace.create({
+      data: {
+        name,
+        members: { create: { userId: user.id, role: 'OWNER' } },
+      },
+    });
+
+    const response = NextResponse.json(
+      { id: created.id, name: created.name, role: 'OWNER' },
+      { status: 201 },
+    );
+    response.cookies.set(WORKSPACE_COOKIE, String(created.id), workspaceCookieOptions());
+    return response;
+  } catch (error) {
+    console.error('createWorkspaceError / erreurCreationEspace', error);
+    return NextResponse.json(
+      {
+        message:
+          "Erreur lors de la création de l'espace. / Error creating workspace.",
+      },
+      { status: 500 },
+    );
+  }
+}
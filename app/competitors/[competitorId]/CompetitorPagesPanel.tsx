@@ -10,6 +10,13 @@ export type MonitoredPage = {
   url: string;
   pageType: 'PRICING' | 'LANDING' | 'PRODUCT' | 'BLOG' | 'OTHER';
   note: string | null;
+  includeSelectors: string[];
+  excludeSelectors: string[];
+  ignorePatterns: string[];
+  ignoreBuiltins: string[];
+  health: 'UNKNOWN' | 'HEALTHY' | 'DEGRADED' | 'FAILING';
+  consecutiveFailures: number;
+  lastScrapedAt: string | Date | null;
   createdAt: string | Date;
 };
 
@@ -26,6 +33,23 @@ export type PageChange = {
   createdAt: string | Date;
 };
 
+// PageScrapeRun / tentativeScrapingPage : representation côté client d'une tentative de scraping
+// Client-side representation of a scrape attempt
+export type PageScrapeRun = {
+  id: number;
+  monitoredPageId: number;
+  trigger: 'MANUAL' | 'SCHEDULED';
+  status: 'RUNNING' | 'SUCCESS' | 'FAILED';
+  startedAt: string | Date;
+  finishedAt: string | Date | null;
+  durationMs: number | null;
+  httpStatus: number | null;
+  bytes: number | null;
+  errorMessage: string | null;
+  snapshotId: number | null;
+  changeIds: number[];
+};
+
 type CompetitorPagesPanelProps = {
   competitorId: number;
   initialPages: MonitoredPage[];
@@ -51,12 +75,72 @@ const CHANGE_TYPE_LABELS: Record<PageChange['changeType'], string> = {
   OTHER: 'Autre changement',
 };
 
+// labelsHealth / libellesSante : affichage lisible de la santé de scraping
+// Human-readable labels for scrape health
+const HEALTH_LABELS: Record<MonitoredPage['health'], string> = {
+  UNKNOWN: 'Jamais scrapée',
+  HEALTHY: 'OK',
+  DEGRADED: 'Instable',
+  FAILING: 'En échec',
+};
+
+// healthBadgeClasses / classesBadgesSante : classes Tailwind pour le badge de santé
+// Tailwind classes for health badges
+const HEALTH_BADGE_CLASSES: Record<MonitoredPage['health'], string> = {
+  UNKNOWN: 'bg-slate-600/20 text-slate-300 border-slate-500/40',
+  HEALTHY: 'bg-emerald-500/10 text-emerald-300 border-emerald-500/40',
+  DEGRADED: 'bg-amber-500/10 text-amber-300 border-amber-500/40',
+  FAILING: 'bg-red-500/10 text-red-300 border-red-500/40',
+};
+
+// labelsRunStatus / libellesStatutTentative : affichage lisible des statuts de tentative
+// Human-readable labels for attempt statuses
+const RUN_STATUS_LABELS: Record<PageScrapeRun['status'], string> = {
+  RUNNING: 'En cours',
+  SUCCESS: 'Succès',
+  FAILED: 'Échec',
+};
+
 type ChangesState = {
   loading: boolean;
   error: string | null;
   changes: PageChange[] | null;
 };
 
+type RunsState = {
+  loading: boolean;
+  error: string | null;
+  runs: PageScrapeRun[] | null;
+};
+
+// ExtractionPreview / apercuExtraction : réponse de l'endpoint d'aperçu (rien n'est enregistré)
+// Preview endpoint response (nothing is saved)
+type ExtractionPreview = {
+  extractedText: string;
+  textLength: number;
+  truncated: boolean;
+  sections: string[];
+  pricing: { extractor: string; items: unknown[] } | null;
+};
+
+// splitSelectors / decouperSelecteurs : un sélecteur CSS par ligne
+// One CSS selector per line
+function splitSelectors(value: string): string[] {
+  return value
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+// formatBytes / formaterOctets : taille lisible (o, Ko, Mo)
+// Human-readable size (B, KB, MB)
+function formatBytes(bytes: number | null): string {
+  if (bytes === null) return '—';
+  if (bytes < 1024) return `${bytes} o`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} Ko`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} Mo`;
+}
+
 export default function CompetitorPagesPanel({
   competitorId,
   initialPages,
@@ -93,12 +177,31 @@ export default function CompetitorPagesPanel({
   // Page for which we show the history
   const [expandedPageId, setExpandedPageId] = useState<number | null>(null);
 
+  // runsByPage / tentativesParPage : historique des tentatives de scraping par page
+  // Scrape attempt history per page
+  const [runsByPage, setRunsByPage] = useState<Record<number, RunsState>>({});
+
+  // expandedRunsPageId / idPageTentativesDeveloppee : page dont on affiche les tentatives
+  // Page for which we show the scrape attempts
+  const [expandedRunsPageId, setExpandedRunsPageId] = useState<number | null>(
+    null,
+  );
+
   // formState / etatFormulaire : champs pour créer une page
   // Form fields for creating a page
   const [url, setUrl] = useState<string>('');
   const [pageType, setPageType] =
     useState<MonitoredPage['pageType']>('OTHER');
   const [note, setNote] = useState<string>('');
+  const [includeSelectors, setIncludeSelectors] = useState<string>('');
+  const [excludeSelectors, setExcludeSelectors] = useState<string>('');
+  const [ignorePatterns, setIgnorePatterns] = useState<string>('');
+
+  // previewState / etatApercu : aperçu du texte extrait avec les sélecteurs du formulaire
+  // Preview of the extracted text with the form selectors
+  const [preview, setPreview] = useState<ExtractionPreview | null>(null);
+  const [isPreviewLoading, setIsPreviewLoading] = useState<boolean>(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
 
   // syncInitial / synchroniserInitial : si le serveur renvoie de nouvelles pages
   // If the server sends new initial pages, sync them
@@ -162,6 +265,9 @@ export default function CompetitorPagesPanel({
           url: trimmedUrl,
           pageType,
           note: trimmedNote || undefined,
+          includeSelectors: splitSelectors(includeSelectors),
+          excludeSelectors: splitSelectors(excludeSelectors),
+          ignorePatterns: splitSelectors(ignorePatterns),
         }),
       });
 
@@ -186,6 +292,10 @@ export default function CompetitorPagesPanel({
       setUrl('');
       setPageType('OTHER');
       setNote('');
+      setIncludeSelectors('');
+      setExcludeSelectors('');
+      setIgnorePatterns('');
+      setPreview(null);
     } catch (error) {
       console.error('createPageError / erreurCreationPageSurveillee', error);
       setErrorMessage(
@@ -198,6 +308,62 @@ export default function CompetitorPagesPanel({
     }
   }
 
+  // handlePreview / gererApercu : extraction avec les sélecteurs, sans créer de snapshot
+  // Extraction with the selectors, without creating any snapshot
+  async function handlePreview() {
+    const trimmedUrl = url.trim();
+
+    if (!trimmedUrl) {
+      setPreviewError(
+        'Renseignez une URL pour lancer l’aperçu. / Enter a URL to run the preview.',
+      );
+      return;
+    }
+
+    try {
+      setIsPreviewLoading(true);
+      setPreviewError(null);
+      setPreview(null);
+
+      const response = await fetch(
+        `/api/competitors/${competitorId}/pages/preview`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            url: trimmedUrl,
+            includeSelectors: splitSelectors(includeSelectors),
+            excludeSelectors: splitSelectors(excludeSelectors),
+          }),
+        },
+      );
+
+      const body = (await response.json().catch(() => null)) as
+        | (ExtractionPreview & { message?: string })
+        | null;
+
+      if (!response.ok || !body) {
+        throw new Error(
+          body?.message ??
+            'Erreur lors de l’aperçu de l’extraction. / Error previewing extraction.',
+        );
+      }
+
+      setPreview(body);
+    } catch (error) {
+      console.error('previewError / erreurApercu', error);
+      setPreviewError(
+        error instanceof Error
+          ? error.message
+          : 'Erreur lors de l’aperçu de l’extraction. / Error previewing extraction.',
+      );
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  }
+
   // handleRunSnapshot / gererExecutionSnapshot : déclenche un snapshot pour une page
   // Trigger a snapshot for a given monitored page
   async function handleRunSnapshot(pageId: number) {
@@ -211,9 +377,37 @@ export default function CompetitorPagesPanel({
       });
 
       const body = (await response.json().catch(() => null)) as
-        | { message?: string; hasChange?: boolean }
+        | {
+            message?: string;
+            hasChange?: boolean;
+            health?: MonitoredPage['health'] | null;
+            consecutiveFailures?: number | null;
+          }
         | null;
 
+      // syncHealth / synchroniserSante : succès ou échec, la santé de la page a pu changer
+      // Success or failure, the page health may have changed
+      const health = body?.health;
+      const consecutiveFailures = body?.consecutiveFailures;
+      if (health && typeof consecutiveFailures === 'number') {
+        setPages((prev) =>
+          prev.map((page) =>
+            page.id === pageId
+              ? {
+                  ...page,
+                  health,
+                  consecutiveFailures,
+                  lastScrapedAt: new Date().toISOString(),
+                }
+              : page,
+          ),
+        );
+      }
+
+      if (expandedRunsPageId === pageId) {
+        await loadRunsForPage(pageId, { forceReload: true });
+      }
+
       if (!response.ok) {
         throw new Error(
           body?.message ??
@@ -286,10 +480,18 @@ export default function CompetitorPagesPanel({
         delete clone[pageId];
         return clone;
       });
+      setRunsByPage((prev) => {
+        const clone = { ...prev };
+        delete clone[pageId];
+        return clone;
+      });
 
       if (expandedPageId === pageId) {
         setExpandedPageId(null);
       }
+      if (expandedRunsPageId === pageId) {
+        setExpandedRunsPageId(null);
+      }
 
       setStatusMessage(
         body?.message ??
@@ -382,6 +584,77 @@ export default function CompetitorPagesPanel({
     await loadChangesForPage(pageId);
   }
 
+  // loadRunsForPage / chargerTentativesPage : récupère l'historique des tentatives pour une page
+  // Load scrape attempt history for a given page
+  async function loadRunsForPage(
+    pageId: number,
+    options?: { forceReload?: boolean },
+  ) {
+    const current = runsByPage[pageId];
+
+    if (current && current.runs && !options?.forceReload) {
+      return;
+    }
+
+    setRunsByPage((prev) => ({
+      ...prev,
+      [pageId]: {
+        loading: true,
+        error: null,
+        runs: current?.runs ?? null,
+      },
+    }));
+
+    try {
+      const response = await fetch(`/api/monitored-pages/${pageId}/runs`);
+      const body = (await response.json().catch(() => null)) as
+        | { message?: string; runs?: PageScrapeRun[] }
+        | null;
+
+      if (!response.ok || !body || !Array.isArray(body.runs)) {
+        throw new Error(
+          body?.message ??
+            'Erreur lors du chargement des tentatives. / Error loading scrape runs.',
+        );
+      }
+
+      const runs = body.runs;
+      setRunsByPage((prev) => ({
+        ...prev,
+        [pageId]: {
+          loading: false,
+          error: null,
+          runs,
+        },
+      }));
+    } catch (error) {
+      console.error('loadRunsError / erreurChargementTentatives', error);
+      setRunsByPage((prev) => ({
+        ...prev,
+        [pageId]: {
+          loading: false,
+          error:
+            error instanceof Error
+              ? error.message
+              : 'Erreur lors du chargement des tentatives. / Error loading scrape runs.',
+          runs: prev[pageId]?.runs ?? null,
+        },
+      }));
+    }
+  }
+
+  // handleToggleRuns / gererAffichageTentatives : ouvrir/fermer l'historique des tentatives
+  // Toggle scrape attempt history for a given page
+  async function handleToggleRuns(pageId: number) {
+    if (expandedRunsPageId === pageId) {
+      setExpandedRunsPageId(null);
+      return;
+    }
+
+    setExpandedRunsPageId(pageId);
+    await loadRunsForPage(pageId);
+  }
+
   return (
     <section className="grid gap-8 lg:grid-cols-[minmax(0,1.1fr)_minmax(0,1.4fr)]">
       {/* Formulaire de création / creation form */}
@@ -452,13 +725,114 @@ export default function CompetitorPagesPanel({
             />
           </div>
 
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="flex flex-col gap-1.5">
+              <label
+                htmlFor="page-include-selectors"
+                className="text-sm font-medium text-slate-100"
+              >
+                Surveiller seulement (optionnel)
+              </label>
+              <textarea
+                id="page-include-selectors"
+                value={includeSelectors}
+                onChange={(event) => setIncludeSelectors(event.target.value)}
+                placeholder={'#pricing\n.plans'}
+                rows={3}
+                className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 font-mono text-xs outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+              />
+            </div>
+
+            <div className="flex flex-col gap-1.5">
+              <label
+                htmlFor="page-exclude-selectors"
+                className="text-sm font-medium text-slate-100"
+              >
+                Ignorer (optionnel)
+              </label>
+              <textarea
+                id="page-exclude-selectors"
+                value={excludeSelectors}
+                onChange={(event) => setExcludeSelectors(event.target.value)}
+                placeholder={'.testimonials\nfooter\n#cookie-banner'}
+                rows={3}
+                className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 font-mono text-xs outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+              />
+            </div>
+          </div>
+          <p className="-mt-2 text-xs text-slate-400">
+            Un sélecteur CSS par ligne, appliqué avant l’extraction du texte. /
+            One CSS selector per line, applied before text extraction.
+          </p>
+
+          <div className="flex flex-col gap-1.5">
+            <label
+              htmlFor="page-ignore-patterns"
+              className="text-sm font-medium text-slate-100"
+            >
+              Motifs ignorés à la comparaison (optionnel)
+            </label>
+            <textarea
+              id="page-ignore-patterns"
+              value={ignorePatterns}
+              onChange={(event) => setIgnorePatterns(event.target.value)}
+              placeholder={'Mis à jour le .*\nsession=[a-z0-9]+'}
+              rows={2}
+              className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 font-mono text-xs outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+            />
+            <p className="text-xs text-slate-400">
+              Une expression régulière par ligne, en plus des motifs du projet. /
+              One regular expression per line, on top of the project patterns.
+            </p>
+          </div>
+
+          {/* extractionPreview / apercuExtraction : rien n'est enregistré */}
+          {/* Extraction preview: nothing is saved */}
+          {previewError && (
+            <p className="text-xs text-red-400">{previewError}</p>
+          )}
+          {preview && (
+            <div className="rounded-lg border border-slate-800 bg-slate-950/60 p-3 text-xs text-slate-300">
+              <p className="mb-1 text-[11px] text-slate-400">
+                {preview.textLength} caractères / characters
+                {preview.sections.length > 0 &&
+                  ` · ${preview.sections.length} sections`}
+                {preview.pricing &&
+                  ` · ${preview.pricing.items.length} prix / prices (${preview.pricing.extractor})`}
+              </p>
+              {preview.sections.length > 0 && (
+                <p className="mb-2 text-[11px] text-slate-400">
+                  Sections : {preview.sections.slice(0, 12).join(' · ')}
+                </p>
+              )}
+              <div className="max-h-64 overflow-y-auto whitespace-pre-wrap rounded-md border border-slate-800 bg-slate-900/80 p-2 text-[11px] text-slate-200">
+                {preview.extractedText || '—'}
+              </div>
+              {preview.truncated && (
+                <p className="mt-1 text-[10px] text-slate-500">
+                  Aperçu tronqué. / Preview truncated.
+                </p>
+              )}
+            </div>
+          )}
+
           {errorMessage && (
             <p className="text-sm text-red-400">
               {errorMessage}
             </p>
           )}
 
-          <div className="flex justify-end">
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => void handlePreview()}
+              className="inline-flex items-center rounded-lg border border-slate-600 px-4 py-2 text-sm font-medium text-slate-200 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+              disabled={isPreviewLoading}
+            >
+              {isPreviewLoading
+                ? 'Aperçu… / Previewing…'
+                : 'Aperçu de l’extraction'}
+            </button>
             <button
               type="submit"
               className="inline-flex items-center rounded-lg border border-sky-500/60 bg-sky-500/10 px-4 py-2 text-sm font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60"
@@ -511,6 +885,8 @@ export default function CompetitorPagesPanel({
             {pages.map((page) => {
               const changesState = changesByPage[page.id];
               const isExpanded = expandedPageId === page.id;
+              const runsState = runsByPage[page.id];
+              const isRunsExpanded = expandedRunsPageId === page.id;
 
               return (
                 <li
@@ -527,14 +903,58 @@ export default function CompetitorPagesPanel({
                       >
                         {page.url}
                       </a>
-                      <p className="mt-1 text-[11px] text-slate-400">
-                        {PAGE_TYPE_LABELS[page.pageType]}
-                      </p>
+                      <div className="mt-1 flex flex-wrap items-center gap-2">
+                        <p className="text-[11px] text-slate-400">
+                          {PAGE_TYPE_LABELS[page.pageType]}
+                        </p>
+                        <span
+                          className={`inline-flex items-center rounded-full border px-2 py-0.5 text-[10px] font-medium ${HEALTH_BADGE_CLASSES[page.health]}`}
+                          title={
+                            page.lastScrapedAt
+                              ? `Dernière tentative : ${new Date(
+                                  page.lastScrapedAt,
+                                ).toLocaleString('fr-FR', {
+                                  dateStyle: 'short',
+                                  timeStyle: 'short',
+                                })}`
+                              : undefined
+                          }
+                        >
+                          {HEALTH_LABELS[page.health]}
+                          {page.consecutiveFailures > 0 &&
+                            ` · ${page.consecutiveFailures} échec${
+                              page.consecutiveFailures > 1 ? 's' : ''
+                            } consécutif${
+                              page.consecutiveFailures > 1 ? 's' : ''
+                            }`}
+                        </span>
+                      </div>
                       {page.note && (
                         <p className="mt-1 text-xs text-slate-300">
                           {page.note}
                         </p>
                       )}
+                      {(page.includeSelectors.length > 0 ||
+                        page.excludeSelectors.length > 0) && (
+                        <p className="mt-1 font-mono text-[10px] text-slate-400">
+                          {page.includeSelectors.length > 0 &&
+                            `inclure / include : ${page.includeSelectors.join(', ')}`}
+                          {page.includeSelectors.length > 0 &&
+                            page.excludeSelectors.length > 0 &&
+                            ' · '}
+                          {page.excludeSelectors.length > 0 &&
+                            `ignorer / exclude : ${page.excludeSelectors.join(', ')}`}
+                        </p>
+                      )}
+                      {(page.ignorePatterns.length > 0 ||
+                        page.ignoreBuiltins.length > 0) && (
+                        <p className="mt-1 font-mono text-[10px] text-slate-400">
+                          {`motifs ignorés / ignore patterns : ${[
+                            ...page.ignoreBuiltins,
+                            ...page.ignorePatterns,
+                          ].join(', ')}`}
+                        </p>
+                      )}
 
                       <div className="mt-2 flex flex-wrap items-center gap-3">
                         <button
@@ -558,6 +978,16 @@ export default function CompetitorPagesPanel({
                             : 'Voir les changements / View changes'}
                         </button>
 
+                        <button
+                          type="button"
+                          onClick={() => void handleToggleRuns(page.id)}
+                          className="text-[11px] text-slate-300 hover:text-slate-100"
+                        >
+                          {isRunsExpanded
+                            ? 'Masquer les tentatives / Hide runs'
+                            : 'Historique des tentatives / Run history'}
+                        </button>
+
                         <button
                           type="button"
                           onClick={() => void handleDeletePage(page.id)}
@@ -616,6 +1046,77 @@ export default function CompetitorPagesPanel({
                           )}
                         </div>
                       )}
+
+                      {isRunsExpanded && (
+                        <div className="mt-3 rounded-lg border border-slate-800 bg-slate-900/80 px-3 py-2">
+                          {runsState?.loading && !runsState.runs ? (
+                            <p className="text-[11px] text-slate-300">
+                              Chargement des tentatives... / Loading runs...
+                            </p>
+                          ) : runsState?.error ? (
+                            <p className="text-[11px] text-red-400">
+                              {runsState.error}
+                            </p>
+                          ) : !runsState?.runs ||
+                            runsState.runs.length === 0 ? (
+                            <p className="text-[11px] text-slate-300">
+                              Aucune tentative enregistrée pour cette page. / No
+                              scrape runs recorded for this page.
+                            </p>
+                          ) : (
+                            <ul className="flex flex-col gap-2">
+                              {runsState.runs.map((run) => (
+                                <li
+                                  key={run.id}
+                                  className="rounded-md border border-slate-800 bg-slate-950/50 px-2 py-1"
+                                >
+                                  <p
+                                    className={`text-[11px] font-medium ${
+                                      run.status === 'FAILED'
+                                        ? 'text-red-300'
+                                        : run.status === 'SUCCESS'
+                                          ? 'text-emerald-300'
+                                          : 'text-slate-100'
+                                    }`}
+                                  >
+                                    {RUN_STATUS_LABELS[run.status]}
+                                    {' · '}
+                                    {run.trigger === 'SCHEDULED'
+                                      ? 'Planifié'
+                                      : 'Manuel'}
+                                  </p>
+                                  <p className="mt-0.5 text-[10px] text-slate-400">
+                                    HTTP {run.httpStatus ?? '—'} ·{' '}
+                                    {run.durationMs !== null
+                                      ? `${run.durationMs} ms`
+                                      : '—'}{' '}
+                                    · {formatBytes(run.bytes)}
+                                    {run.changeIds.length > 0 &&
+                                      ` · ${run.changeIds.length} changement${
+                                        run.changeIds.length > 1 ? 's' : ''
+                                      }`}
+                                  </p>
+                                  {run.errorMessage && (
+                                    <p className="mt-0.5 text-[11px] text-red-400">
+                                      {run.errorMessage}
+                                    </p>
+                                  )}
+                                  <p className="mt-0.5 text-[10px] text-slate-500">
+                                    Le{' '}
+                                    {new Date(run.startedAt).toLocaleString(
+                                      'fr-FR',
+                                      {
+                                        dateStyle: 'short',
+                                        timeStyle: 'short',
+                                      },
+                                    )}
+                                  </p>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      )}
                     </div>
 
                     <p className="mt-1 text-[11px] text-slate-500">
@@ -4,7 +4,11 @@
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import { prisma } from '@/lib/db';
+import { checkAccess, roleAtLeast } from '@/lib/access';
+import { competitorFeedUrl } from '@/lib/changeFeed';
 import CompetitorPagesPanel from './CompetitorPagesPanel';
+import ChangeFeedPanel from '../../ChangeFeedPanel';
+import ReadOnlyNotice from '../../ReadOnlyNotice';
 
 // parseCompetitorId / parserIdConcurrent : convertit et valide l'id
 // Converts and validates the competitor id
@@ -30,12 +34,20 @@ export default async function CompetitorDetailPage({
     notFound();
   }
 
+  // competitorAccess / accesConcurrent : concurrent absent ou hors des espaces de l'utilisateur -> 404
+  // Missing competitor or outside the user's workspaces -> 404
+  const { access } = await checkAccess({ competitorId }, 'VIEWER');
+  if (!access) {
+    notFound();
+  }
+  const canEdit = roleAtLeast(access.role, 'EDITOR');
+
   // fetchCompetitor / chargerConcurrent : inclut le projet et les pages surveillées
   // Fetch competitor, including project and monitored pages
   const competitor = await prisma.competitor.findUnique({
     where: { id: competitorId },
     include: {
-      project: true,
+      project: { select: { id: true, name: true } },
       monitoredPages: {
         orderBy: { createdAt: 'desc' },
       },
@@ -77,10 +89,21 @@ export default async function CompetitorDetailPage({
           )}
         </header>
 
+        {!canEdit && <ReadOnlyNotice />}
+
         <CompetitorPagesPanel
           competitorId={competitor.id}
           initialPages={competitor.monitoredPages}
         />
+
+        {/* ChangeFeedPanel / panneauFluxChangements : flux Atom du concurrent (jeton secret, EDITOR et OWNER) */}
+        {/* Competitor Atom feed (secret token, EDITOR and OWNER) */}
+        {canEdit && (
+          <ChangeFeedPanel
+            tokenEndpoint={`/api/competitors/${competitor.id}/feed-token`}
+            initialFeedUrl={competitorFeedUrl(competitor.id, competitor.feedToken)}
+          />
+        )}
       </div>
     </main>
   );
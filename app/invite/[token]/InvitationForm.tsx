@@ -0,0 +1,115 @@
+'use client';
+
+// invitationForm / formulaireInvitation : POST /api/invitations/[token]/accept
+// POST /api/invitations/[token]/accept, then full navigation to the workspace projects
+
+import { useState } from 'react';
+import { apiJson } from '@/lib/apiClient';
+
+type InvitationFormProps = {
+  token: string;
+  mode: 'join' | 'signup'; // connecté / logged in, ou / or nouveau compte / new account
+  minPasswordLength: number; // lib/auth.ts (module serveur / server-only module)
+};
+
+const INPUT_CLASS =
+  'w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-50 outline-none focus:border-sky-500';
+
+export default function InvitationForm({ token, mode, minPasswordLength }: InvitationFormProps) {
+  // formState / etatFormulaire : champs du nouveau compte
+  // New account fields
+  const [email, setEmail] = useState<string>('');
+  const [name, setName] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+
+  // submittingState / etatEnvoi
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  // errorState / etatErreur
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // handleSubmit / gererEnvoi : navigation complète pour que l'en-tête relise la session et l'espace
+  // Full navigation so the header reads the session and the workspace
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      setErrorMessage(null);
+      await apiJson<{ workspaceId: number }>(
+        `/api/invitations/${token}/accept`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(mode === 'signup' ? { email, name, password } : {}),
+        },
+        "Erreur lors de l'acceptation de l'invitation. / Error accepting invitation.",
+      );
+      window.location.href = '/projects';
+    } catch (error) {
+      console.error('acceptInvitationError / erreurAcceptationInvitation', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : "Erreur lors de l'acceptation de l'invitation. / Error accepting invitation.",
+      );
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <form onSubmit={(event) => void handleSubmit(event)} className="mt-6 flex flex-col gap-4">
+      {mode === 'signup' && (
+        <>
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            Email
+            <input
+              type="email"
+              required
+              autoComplete="email"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            Nom (optionnel) / Name (optional)
+            <input
+              type="text"
+              autoComplete="name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-300">
+            Mot de passe ({minPasswordLength} caractères min.) / Password
+            <input
+              type="password"
+              required
+              minLength={minPasswordLength}
+              autoComplete="new-password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+        </>
+      )}
+
+      {errorMessage && <p className="text-sm text-red-400">{errorMessage}</p>}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="inline-flex items-center justify-center rounded-lg border border-sky-500/60 bg-sky-500/10 px-4 py-2 text-sm font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {mode === 'signup'
+          ? 'Créer mon compte et rejoindre / Create account and join'
+          : 'Rejoindre l’espace / Join workspace'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,81 @@
+// invitePage / pageInvitation : adhésion à un espace (connecté) ou création du compte invité
+// Joins a workspace (logged in) or creates the invited account; public path in proxy.ts
+
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { findPendingInvitation } from '@/lib/access';
+import { getCurrentUser, MIN_PASSWORD_LENGTH } from '@/lib/auth';
+import InvitationForm from './InvitationForm';
+
+// dynamicRendering / renduDynamique : dépend du cookie de session
+// Depends on the session cookie
+export const dynamic = 'force-dynamic';
+
+// PageProps / propsPage : params contient token sous forme de Promise (Next 16)
+// Page props: params contains token as a Promise (Next 16)
+type PageProps = {
+  params: Promise<{
+    token: string;
+  }>;
+};
+
+// roleLabels / libellesRoles : droits accordés, affichés avant d'accepter
+// Granted rights, shown before accepting
+const ROLE_LABELS = {
+  OWNER: 'Propriétaire : gestion des membres et des projets / Owner: members and projects',
+  EDITOR: 'Éditeur : création, modification, scrapes et rapports / Editor: create, edit, scrape and report',
+  VIEWER: 'Lecteur : lecture des changements et des rapports / Viewer: read changes and reports',
+} as const;
+
+export default async function InvitePage({ params }: PageProps) {
+  const { token } = await params;
+
+  const invitation = await findPendingInvitation(token);
+  if (!invitation) {
+    notFound();
+  }
+
+  const user = await getCurrentUser();
+
+  return (
+    <main className="min-h-screen bg-slate-950 text-slate-50">
+      <div className="mx-auto max-w-md px-6 py-16">
+        <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+          <h1 className="text-lg font-semibold">
+            Invitation : {invitation.workspace.name}
+          </h1>
+          <p className="mt-2 text-sm text-slate-300">{ROLE_LABELS[invitation.role]}</p>
+          <p className="mt-1 text-xs text-slate-500">
+            Valable jusqu’au / Valid until{' '}
+            {invitation.expiresAt.toLocaleString('fr-FR', {
+              dateStyle: 'short',
+              timeStyle: 'short',
+            })}
+          </p>
+
+          {user ? (
+            <p className="mt-4 text-xs text-slate-400">
+              Connecté en tant que / Logged in as {user.email}
+            </p>
+          ) : (
+            <p className="mt-4 text-xs text-slate-400">
+              Déjà un compte ? / Already have an account?{' '}
+              <Link
+                href={`/login?next=${encodeURIComponent(`/invite/${token}`)}`}
+                className="text-sky-300 hover:underline"
+              >
+                Se connecter / Log in
+              </Link>
+            </p>
+          )}
+
+          <InvitationForm
+            token={token}
+            mode={user ? 'join' : 'signup'}
+            minPasswordLength={MIN_PASSWORD_LENGTH}
+          />
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -1,5 +1,11 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import Link from "next/link";
+import { getCurrentWorkspace, listUserWorkspaces } from "@/lib/access";
+import { getCurrentUser } from "@/lib/auth";
+import LogoutButton from "./LogoutButton";
+import NotificationBell from "./NotificationBell";
+import WorkspaceSwitcher from "./WorkspaceSwitcher";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -17,16 +23,45 @@ export const metadata: Metadata = {
   description: "Generated by create next app",
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // currentUser / utilisateurCourant : null sur /login et les pages publiques
+  // null on /login and public pages
+  const currentUser = await getCurrentUser();
+  const workspaces = currentUser ? await listUserWorkspaces(currentUser.id) : [];
+  const currentWorkspace = currentUser ? await getCurrentWorkspace(currentUser.id) : null;
+
   return (
     <html lang="en">
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
+        {/* appHeader / enTeteApplication : projets, espace courant, cloche et compte (si connecté) */}
+        {/* Projects link, current workspace, notification bell and account (when logged in) */}
+        <header className="flex items-center justify-between border-b border-slate-800 bg-slate-950 px-6 py-2 text-slate-50">
+          <Link href="/projects" className="text-sm font-semibold hover:text-sky-300">
+            Veille concurrents
+          </Link>
+          {currentUser && (
+            <div className="flex items-center gap-4 text-xs">
+              <WorkspaceSwitcher
+                workspaces={workspaces}
+                currentWorkspaceId={currentWorkspace?.id ?? null}
+              />
+              {currentWorkspace && <NotificationBell />}
+              <Link href="/workspace" className="text-slate-300 hover:text-sky-300">
+                Espace
+              </Link>
+              <Link href="/account" className="text-slate-400 hover:text-sky-300">
+                {currentUser.name ?? currentUser.email}
+              </Link>
+              <LogoutButton />
+            </div>
+          )}
+        </header>
         {children}
       </body>
     </html>
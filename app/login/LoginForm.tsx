@@ -0,0 +1,117 @@
+'use client';
+
+// loginForm / formulaireConnexion : POST /api/auth/login ou /api/auth/setup
+// POST /api/auth/login or /api/auth/setup, then full navigation to the requested page
+
+import { useState } from 'react';
+import { apiJson } from '@/lib/apiClient';
+
+type LoginFormProps = {
+  mode: 'login' | 'setup';
+  next: string; // chemin local déjà validé / already validated local path
+  minPasswordLength: number; // lib/auth.ts (module serveur / server-only module)
+};
+
+const INPUT_CLASS =
+  'w-full rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-50 outline-none focus:border-sky-500';
+
+export default function LoginForm({ mode, next, minPasswordLength }: LoginFormProps) {
+  // formState / etatFormulaire : champs du formulaire
+  // Form fields
+  const [email, setEmail] = useState<string>('');
+  const [name, setName] = useState<string>('');
+  const [password, setPassword] = useState<string>('');
+
+  // submittingState / etatEnvoi
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  // errorState / etatErreur
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // handleSubmit / gererEnvoi : navigation complète pour que l'en-tête relise la session
+  // Full navigation so the header reads the new session
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      setErrorMessage(null);
+      await apiJson<{ user: { id: number } }>(
+        mode === 'setup' ? '/api/auth/setup' : '/api/auth/login',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(
+            mode === 'setup' ? { email, name, password } : { email, password },
+          ),
+        },
+        'Connexion impossible. / Login failed.',
+      );
+      window.location.href = next;
+    } catch (error) {
+      console.error('loginError / erreurConnexion', error);
+      setErrorMessage(
+        error instanceof Error ? error.message : 'Connexion impossible. / Login failed.',
+      );
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <form onSubmit={(event) => void handleSubmit(event)} className="mt-6 flex flex-col gap-4">
+      <label className="flex flex-col gap-1 text-xs text-slate-300">
+        Email
+        <input
+          type="email"
+          required
+          autoComplete="email"
+          value={email}
+          onChange={(event) => setEmail(event.target.value)}
+          className={INPUT_CLASS}
+        />
+      </label>
+
+      {mode === 'setup' && (
+        <label className="flex flex-col gap-1 text-xs text-slate-300">
+          Nom (optionnel) / Name (optional)
+          <input
+            type="text"
+            autoComplete="name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            className={INPUT_CLASS}
+          />
+        </label>
+      )}
+
+      <label className="flex flex-col gap-1 text-xs text-slate-300">
+        Mot de passe / Password
+        <input
+          type="password"
+          required
+          minLength={mode === 'setup' ? minPasswordLength : undefined}
+          autoComplete={mode === 'setup' ? 'new-password' : 'current-password'}
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          className={INPUT_CLASS}
+        />
+      </label>
+
+      {errorMessage && <p className="text-sm text-red-400">{errorMessage}</p>}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="inline-flex items-center justify-center rounded-lg border border-sky-500/60 bg-sky-500/10 px-4 py-2 text-sm font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {isSubmitting
+          ? 'Connexion… / Logging in…'
+          : mode === 'setup'
+            ? 'Créer le compte / Create account'
+            : 'Se connecter / Log in'}
+      </button>
+    </form>
+  );
+}
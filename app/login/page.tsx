@@ -0,0 +1,53 @@
+// loginPage / pageConnexion : connexion, ou création du premier compte quand la base n'en a aucun
+// Login, or creation of the first account while the database has none
+
+import { redirect } from 'next/navigation';
+import { getCurrentUser, MIN_PASSWORD_LENGTH, safeNextPath } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import LoginForm from './LoginForm';
+
+// dynamicRendering / renduDynamique : dépend du cookie de session et du nombre de comptes
+// Depends on the session cookie and on the number of accounts
+export const dynamic = 'force-dynamic';
+
+// PageProps / propsPage : searchParams est un Promise (Next 16)
+// Page props: searchParams is a Promise (Next 16)
+type PageProps = {
+  searchParams: Promise<{
+    next?: string | string[];
+  }>;
+};
+
+export default async function LoginPage({ searchParams }: PageProps) {
+  const { next: rawNext } = await searchParams;
+  const next = safeNextPath(typeof rawNext === 'string' ? rawNext : null);
+
+  if (await getCurrentUser()) {
+    redirect(next);
+  }
+
+  const isSetup = (await prisma.user.count()) === 0;
+
+  return (
+    <main className="min-h-screen bg-slate-950 text-slate-50">
+      <div className="mx-auto max-w-md px-6 py-16">
+        <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+          <h1 className="text-lg font-semibold">
+            {isSetup ? 'Premier compte / First account' : 'Connexion / Log in'}
+          </h1>
+          <p className="mt-2 text-sm text-slate-300">
+            {isSetup
+              ? 'Aucun compte n’existe encore : créez le vôtre. Les suivants s’ajoutent depuis la page Utilisateurs. / No account exists yet: create yours. Further accounts are added from the Users page.'
+              : 'Connectez-vous pour accéder à la veille. / Log in to access competitive watch.'}
+          </p>
+
+          <LoginForm
+            mode={isSetup ? 'setup' : 'login'}
+            next={next}
+            minPasswordLength={MIN_PASSWORD_LENGTH}
+          />
+        </section>
+      </div>
+    </main>
+  );
+}
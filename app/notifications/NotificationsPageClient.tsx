@@ -0,0 +1,266 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { apiJson } from '@/lib/apiClient';
+import type { NotificationView } from '@/lib/notifications';
+import { NOTIFICATIONS_CHANGED_EVENT } from '../NotificationBell';
+
+type NotificationsPageClientProps = {
+  initialNotifications: NotificationView[];
+  initialUnreadCount: number;
+};
+
+// typeLabels / libellesTypes : badge par type de notification
+// Badge per notification type
+const TYPE_LABELS: Record<NotificationView['type'], { label: string; className: string }> = {
+  CHANGES_DETECTED: {
+    label: 'Changements / Changes',
+    className: 'border-sky-500/60 text-sky-300',
+  },
+  SCRAPE_FAILED: {
+    label: 'Échec / Failure',
+    className: 'border-red-500/60 text-red-300',
+  },
+  REPORT_READY: {
+    label: 'Rapport / Report',
+    className: 'border-emerald-500/60 text-emerald-300',
+  },
+};
+
+const SMALL_BUTTON_CLASS =
+  'rounded-lg border border-slate-600 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60';
+
+// formatDateTime / formaterDateHeure : format date+heure FR
+// Simple FR date+time format
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('fr-FR', {
+    dateStyle: 'short',
+    timeStyle: 'short',
+  });
+}
+
+// publishUnreadCount / publierCompteurNonLues : met à jour la cloche de l'en-tête
+// Updates the header bell
+function publishUnreadCount(count: number) {
+  window.dispatchEvent(new CustomEvent(NOTIFICATIONS_CHANGED_EVENT, { detail: count }));
+}
+
+export default function NotificationsPageClient({
+  initialNotifications,
+  initialUnreadCount,
+}: NotificationsPageClientProps) {
+  // notificationsState / etatNotifications : liste affichée
+  // Displayed list
+  const [notifications, setNotifications] = useState<NotificationView[]>(initialNotifications);
+  const [unreadCount, setUnreadCount] = useState<number>(initialUnreadCount);
+
+  // unreadOnlyState / etatNonLuesSeulement : filtre (rechargé depuis l'API)
+  // Filter (reloaded from the API)
+  const [unreadOnly, setUnreadOnly] = useState<boolean>(false);
+
+  // loadingState / etatChargement : requête en cours
+  // Request in progress
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  // errorState / etatErreur
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // runAction / executerAction : état de chargement et erreur communs aux actions
+  // Shared loading state and error for every action
+  async function runAction(action: () => Promise<void>, defaultError: string) {
+    try {
+      setIsLoading(true);
+      setErrorMessage(null);
+      await action();
+    } catch (error) {
+      console.error('notificationActionError / erreurActionNotification', error);
+      setErrorMessage(error instanceof Error ? error.message : defaultError);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // applyUnreadCount / appliquerCompteurNonLues : page + cloche
+  // Page + bell
+  function applyUnreadCount(count: number) {
+    setUnreadCount(count);
+    publishUnreadCount(count);
+  }
+
+  // handleToggleUnreadOnly / gererFiltreNonLues : GET /api/notifications(?unread=1)
+  async function handleToggleUnreadOnly(next: boolean) {
+    await runAction(async () => {
+      const result = await apiJson<{ notifications: NotificationView[]; unreadCount: number }>(
+        `/api/notifications${next ? '?unread=1' : ''}`,
+        { cache: 'no-store' },
+        'Erreur lors du chargement des notifications. / Error loading notifications.',
+      );
+      setUnreadOnly(next);
+      setNotifications(result.notifications);
+      applyUnreadCount(result.unreadCount);
+    }, 'Erreur lors du chargement des notifications. / Error loading notifications.');
+  }
+
+  // handleSetRead / gererEtatLu : PATCH { read }
+  async function handleSetRead(notification: NotificationView, read: boolean) {
+    await runAction(async () => {
+      const result = await apiJson<{ notification: NotificationView; unreadCount: number }>(
+        `/api/notifications/${notification.id}`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ read }),
+        },
+        'Erreur lors de la mise à jour de la notification. / Error updating notification.',
+      );
+      setNotifications((prev) =>
+        prev.map((item) => (item.id === result.notification.id ? result.notification : item)),
+      );
+      applyUnreadCount(result.unreadCount);
+    }, 'Erreur lors de la mise à jour de la notification. / Error updating notification.');
+  }
+
+  // handleMarkAllRead / gererToutMarquerLu : PATCH { all: true }
+  async function handleMarkAllRead() {
+    await runAction(async () => {
+      const result = await apiJson<{ updated: number; unreadCount: number }>(
+        '/api/notifications',
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ all: true }),
+        },
+        'Erreur lors de la mise à jour des notifications. / Error updating notifications.',
+      );
+      const readAt = new Date().toISOString();
+      setNotifications((prev) =>
+        unreadOnly ? [] : prev.map((item) => (item.readAt ? item : { ...item, readAt })),
+      );
+      applyUnreadCount(result.unreadCount);
+    }, 'Erreur lors de la mise à jour des notifications. / Error updating notifications.');
+  }
+
+  // handleOpen / gererOuverture : marque lue sans retarder la navigation (keepalive)
+  // Marks as read without delaying navigation (keepalive)
+  function handleOpen(notification: NotificationView) {
+    if (notification.readAt) return;
+
+    void fetch(`/api/notifications/${notification.id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ read: true }),
+      keepalive: true,
+    }).catch((error: unknown) => {
+      console.error('notificationActionError / erreurActionNotification', error);
+    });
+    const readAt = new Date().toISOString();
+    setNotifications((prev) =>
+      prev.map((item) => (item.id === notification.id ? { ...item, readAt } : item)),
+    );
+    applyUnreadCount(Math.max(0, unreadCount - 1));
+  }
+
+  return (
+    <section className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-slate-300">
+          {unreadCount} non lue(s) / unread
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={unreadOnly}
+              onChange={(event) => void handleToggleUnreadOnly(event.target.checked)}
+              disabled={isLoading}
+              className="h-4 w-4 rounded border-slate-600 bg-slate-900"
+            />
+            Non lues seulement / Unread only
+          </label>
+          <button
+            type="button"
+            onClick={() => void handleMarkAllRead()}
+            disabled={isLoading || unreadCount === 0}
+            className={SMALL_BUTTON_CLASS}
+          >
+            Tout marquer comme lu / Mark all as read
+          </button>
+        </div>
+      </div>
+
+      {errorMessage && <p className="text-sm text-red-400">{errorMessage}</p>}
+
+      {notifications.length === 0 ? (
+        <p className="rounded-xl border border-slate-800 bg-slate-900/60 px-4 py-6 text-center text-sm text-slate-400">
+          {unreadOnly
+            ? 'Aucune notification non lue. / No unread notification.'
+            : 'Aucune notification pour le moment. / No notification yet.'}
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {notifications.map((notification) => {
+            const type = TYPE_LABELS[notification.type];
+            const isUnread = notification.readAt === null;
+
+            return (
+              <li
+                key={notification.id}
+                className={`flex flex-wrap items-start justify-between gap-3 rounded-xl border px-4 py-3 text-xs ${
+                  isUnread
+                    ? 'border-sky-500/40 bg-slate-900'
+                    : 'border-slate-800 bg-slate-900/50 text-slate-400'
+                }`}
+              >
+                <div className="flex min-w-0 flex-1 flex-col gap-1">
+                  <p className="flex flex-wrap items-center gap-2">
+                    {isUnread && (
+                      <span aria-label="Non lue / Unread" className="h-2 w-2 rounded-full bg-sky-400" />
+                    )}
+                    <span
+                      className={`rounded-full border px-2 py-0.5 text-[10px] font-medium ${type.className}`}
+                    >
+                      {type.label}
+                    </span>
+                    <span className="text-slate-400">
+                      {notification.projectName} · {formatDateTime(notification.createdAt)}
+                    </span>
+                  </p>
+                  <Link
+                    href={notification.link}
+                    onClick={() => handleOpen(notification)}
+                    className={`text-sm font-medium hover:underline ${
+                      isUnread ? 'text-slate-100' : 'text-slate-300'
+                    }`}
+                  >
+                    {notification.title}
+                  </Link>
+                  {notification.body && (
+                    <p className="whitespace-pre-line break-words text-slate-400">
+                      {notification.body}
+                    </p>
+                  )}
+                </div>
+
+                <button
+                  type="button"
+                  onClick={() => void handleSetRead(notification, isUnread)}
+                  disabled={isLoading}
+                  className={SMALL_BUTTON_CLASS}
+                >
+                  {isUnread ? 'Marquer comme lue / Mark read' : 'Marquer non lue / Mark unread'}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,59 @@
+// notificationsPage / pageNotifications : page serveur du centre de notifications
+// Server page of the notification center (new changes, failed scrapes, ready reports)
+
+import { redirect } from 'next/navigation';
+import { getCurrentWorkspace } from '@/lib/access';
+import { getCurrentUser } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import {
+  countUnreadNotifications,
+  notificationViewInclude,
+  toNotificationView,
+} from '@/lib/notifications';
+import NotificationsPageClient from './NotificationsPageClient';
+
+// dynamicRendering / renduDynamique : aucun paramètre de route, à relire à chaque visite
+// No route params: render on every visit instead of prerendering at build time
+export const dynamic = 'force-dynamic';
+
+export default async function NotificationsPage() {
+  // currentWorkspace / espaceCourant : sans espace, /projects explique comment en obtenir un
+  // Without a workspace, /projects explains how to get one
+  const user = await getCurrentUser();
+  const workspace = user ? await getCurrentWorkspace(user.id) : null;
+  if (!user || !workspace) {
+    redirect('/projects');
+  }
+
+  // recentNotifications / notificationsRecentes : mêmes champs que GET /api/notifications
+  // Same fields as GET /api/notifications
+  const [notifications, unreadCount] = await Promise.all([
+    prisma.notification.findMany({
+      where: { project: { workspaceId: workspace.id } },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+      include: notificationViewInclude(user.id),
+    }),
+    countUnreadNotifications(workspace.id, user.id),
+  ]);
+
+  return (
+    <main className="min-h-screen bg-slate-950 text-slate-50">
+      <div className="mx-auto max-w-4xl px-6 py-10">
+        <header className="mb-6 border-b border-slate-800 pb-4">
+          <h1 className="text-2xl font-semibold">Notifications</h1>
+          <p className="mt-2 text-sm text-slate-300">
+            Nouveaux changements, échecs de scrape et rapports prêts des projets
+            de l’espace « {workspace.name} ». / New changes, failed scrapes and
+            ready reports of the workspace projects.
+          </p>
+        </header>
+
+        <NotificationsPageClient
+          initialNotifications={notifications.map(toNotificationView)}
+          initialUnreadCount={unreadCount}
+        />
+      </div>
+    </main>
+  );
+}
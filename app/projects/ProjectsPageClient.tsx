@@ -27,11 +27,18 @@ const FREQUENCY_LABELS: Record<ProjectSummary['frequency'], string> = {
 type ProjectsPageClientProps = {
   projectId?: number; // not used but kept for possible future extension
   initialProjects: ProjectSummary[];
+  role: 'OWNER' | 'EDITOR' | 'VIEWER'; // rôle dans l'espace courant / role in the current workspace
 };
 
 export default function ProjectsPageClient({
   initialProjects,
+  role,
 }: ProjectsPageClientProps) {
+  // rolePermissions / droitsRole : boutons masqués, l'API refuse de toute façon (403)
+  // Hidden buttons; the API refuses anyway (403)
+  const canEdit = role !== 'VIEWER';
+  const canDelete = role === 'OWNER';
+
   // projectsState / etatProjets : liste des projets affichés
   // List of projects displayed
   const [projects, setProjects] =
@@ -325,97 +332,105 @@ export default function ProjectsPageClient({
   return (
     <section className="grid gap-8 lg:grid-cols-[minmax(0,1.1fr)_minmax(0,1.4fr)]">
       {/* Formulaire de création / creation form */}
-      <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
-        <h2 className="mb-4 text-lg font-semibold">
-          Créer un projet de veille
-        </h2>
-
-        <form
-          onSubmit={handleCreateProject}
-          className="flex flex-col gap-4"
-        >
-          <div className="flex flex-col gap-1.5">
-            <label
-              htmlFor="project-name"
-              className="text-sm font-medium text-slate-100"
-            >
-              Nom du projet
-              <span className="text-red-400"> *</span>
-            </label>
-            <input
-              id="project-name"
-              type="text"
-              value={name}
-              onChange={(event) => setName(event.target.value)}
-              placeholder="Ex : Veille pricing SaaS CRM Europe"
-              className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
-            />
-          </div>
-
-          <div className="flex flex-col gap-1.5">
-            <label
-              htmlFor="project-description"
-              className="text-sm font-medium text-slate-100"
-            >
-              Description (optionnel)
-            </label>
-            <textarea
-              id="project-description"
-              value={description}
-              onChange={(event) => setDescription(event.target.value)}
-              placeholder="Ex : Veille des offres et tarifs sur 5 concurrents principaux."
-              rows={3}
-              className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
-            />
-          </div>
-
-          <div className="flex flex-col gap-1.5">
-            <label
-              htmlFor="project-frequency"
-              className="text-sm font-medium text-slate-100"
-            >
-              Fréquence cible (indicatif)
-            </label>
-            <select
-              id="project-frequency"
-              value={frequency}
-              onChange={(event) =>
-                setFrequency(
-                  event.target.value as ProjectSummary['frequency'],
-                )
-              }
-              className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
-            >
-              <option value="MANUAL">
-                {FREQUENCY_LABELS.MANUAL} (MVP)
-              </option>
-              <option value="DAILY">{FREQUENCY_LABELS.DAILY}</option>
-              <option value="WEEKLY">{FREQUENCY_LABELS.WEEKLY}</option>
-              <option value="MONTHLY">{FREQUENCY_LABELS.MONTHLY}</option>
-            </select>
-            <p className="text-[11px] text-slate-400">
-              Sélection utilisée plus tard pour automatiser les runs. / Used
-              later to automate runs.
-            </p>
-          </div>
-
-          {errorMessage && (
-            <p className="text-sm text-red-400">
-              {errorMessage}
-            </p>
-          )}
-
-          <div className="flex justify-end">
-            <button
-              type="submit"
-              className="inline-flex items-center rounded-lg border border-sky-500/60 bg-sky-500/10 px-4 py-2 text-sm font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60"
-              disabled={isLoading}
-            >
-              Créer le projet
-            </button>
-          </div>
-        </form>
-      </div>
+      {canEdit ? (
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+          <h2 className="mb-4 text-lg font-semibold">
+            Créer un projet de veille
+          </h2>
+
+          <form
+            onSubmit={handleCreateProject}
+            className="flex flex-col gap-4"
+          >
+            <div className="flex flex-col gap-1.5">
+              <label
+                htmlFor="project-name"
+                className="text-sm font-medium text-slate-100"
+              >
+                Nom du projet
+                <span className="text-red-400"> *</span>
+              </label>
+              <input
+                id="project-name"
+                type="text"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="Ex : Veille pricing SaaS CRM Europe"
+                className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+              />
+            </div>
+
+            <div className="flex flex-col gap-1.5">
+              <label
+                htmlFor="project-description"
+                className="text-sm font-medium text-slate-100"
+              >
+                Description (optionnel)
+              </label>
+              <textarea
+                id="project-description"
+                value={description}
+                onChange={(event) => setDescription(event.target.value)}
+                placeholder="Ex : Veille des offres et tarifs sur 5 concurrents principaux."
+                rows={3}
+                className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+              />
+            </div>
+
+            <div className="flex flex-col gap-1.5">
+              <label
+                htmlFor="project-frequency"
+                className="text-sm font-medium text-slate-100"
+              >
+                Fréquence des snapshots
+              </label>
+              <select
+                id="project-frequency"
+                value={frequency}
+                onChange={(event) =>
+                  setFrequency(
+                    event.target.value as ProjectSummary['frequency'],
+                  )
+                }
+                className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+              >
+                <option value="MANUAL">
+                  {FREQUENCY_LABELS.MANUAL} (MVP)
+                </option>
+                <option value="DAILY">{FREQUENCY_LABELS.DAILY}</option>
+                <option value="WEEKLY">{FREQUENCY_LABELS.WEEKLY}</option>
+                <option value="MONTHLY">{FREQUENCY_LABELS.MONTHLY}</option>
+              </select>
+              <p className="text-[11px] text-slate-400">
+                Utilisée par le planificateur (pnpm scheduler) pour automatiser
+                les snapshots. / Used by the scheduler to automate snapshots.
+              </p>
+            </div>
+
+            {errorMessage && (
+              <p className="text-sm text-red-400">
+                {errorMessage}
+              </p>
+            )}
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                className="inline-flex items-center rounded-lg border border-sky-500/60 bg-sky-500/10 px-4 py-2 text-sm font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+                disabled={isLoading}
+              >
+                Créer le projet
+              </button>
+            </div>
+          </form>
+        </div>
+      ) : (
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 text-sm text-slate-300 shadow-md">
+          Accès en lecture seule : seuls les éditeurs et propriétaires de
+          l’espace créent des projets. / Read-only access: only workspace
+          editors and owners create projects.
+        </div>
+      )}
 
       {/* Liste des projets / projects list */}
       <div className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
@@ -600,25 +615,29 @@ export default function ProjectsPageClient({
                         </div>
                       </form>
                     ) : (
-                      <div className="mt-2 flex flex-wrap items-center gap-3">
-                        <button
-                          type="button"
-                          onClick={() => handleStartEdit(project)}
-                          className="text-[11px] text-slate-300 hover:text-slate-100"
-                        >
-                          Modifier le projet / Edit project
-                        </button>
-                        <button
-                          type="button"
-                          onClick={() => void handleDeleteProject(project.id)}
-                          className="text-[11px] text-red-400 hover:text-red-300 disabled:opacity-50 disabled:cursor-not-allowed"
-                          disabled={deletingProjectId === project.id}
-                        >
-                          {deletingProjectId === project.id
-                            ? 'Suppression... / Deleting...'
-                            : 'Supprimer le projet / Delete project'}
-                        </button>
-                      </div>
+                      canEdit && (
+                        <div className="mt-2 flex flex-wrap items-center gap-3">
+                          <button
+                            type="button"
+                            onClick={() => handleStartEdit(project)}
+                            className="text-[11px] text-slate-300 hover:text-slate-100"
+                          >
+                            Modifier le projet / Edit project
+                          </button>
+                          {canDelete && (
+                            <button
+                              type="button"
+                              onClick={() => void handleDeleteProject(project.id)}
+                              className="text-[11px] text-red-400 hover:text-red-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                              disabled={deletingProjectId === project.id}
+                            >
+                              {deletingProjectId === project.id
+                                ? 'Suppression... / Deleting...'
+                                : 'Supprimer le projet / Delete project'}
+                            </button>
+                          )}
+                        </div>
+                      )
                     )}
                   </div>
                 </li>
@@ -0,0 +1,311 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { apiJson } from '@/lib/apiClient';
+
+type DigestFrequency = 'DAILY' | 'WEEKLY';
+
+// DigestSubscriberView / vueAbonneDigest : abonné sans jeton de désinscription (dates ISO)
+// Subscriber without its unsubscribe token (ISO dates)
+export type DigestSubscriberView = {
+  id: number;
+  email: string;
+  name: string | null;
+  frequency: DigestFrequency;
+  unsubscribedAt: string | null;
+  lastSentAt: string | null;
+  lastError: string | null;
+};
+
+type ProjectDigestPanelProps = {
+  projectId: number;
+  smtpConfigured: boolean;
+  initialSubscribers: DigestSubscriberView[];
+};
+
+// frequencyLabels / libellesFrequences
+const FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  DAILY: 'Quotidien / Daily',
+  WEEKLY: 'Hebdomadaire (lundi) / Weekly (Monday)',
+};
+
+const INPUT_CLASS =
+  'rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500';
+
+const SMALL_BUTTON_CLASS =
+  'rounded-lg border border-slate-600 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60';
+
+// formatDateTime / formaterDateHeure : format date+heure FR
+// Simple FR date+time format
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('fr-FR', {
+    dateStyle: 'short',
+    timeStyle: 'short',
+  });
+}
+
+export default function ProjectDigestPanel({
+  projectId,
+  smtpConfigured,
+  initialSubscribers,
+}: ProjectDigestPanelProps) {
+  // subscribersState / etatAbonnes : liste affichée
+  // Displayed list
+  const [subscribers, setSubscribers] = useState<DigestSubscriberView[]>(initialSubscribers);
+
+  // formState / etatFormulaire : nouvel abonné
+  // New subscriber
+  const [email, setEmail] = useState<string>('');
+  const [name, setName] = useState<string>('');
+  const [frequency, setFrequency] = useState<DigestFrequency>('WEEKLY');
+
+  // savingState / etatEnregistrement : création ou action sur une ligne
+  // Creation or row action in progress
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // messages / messages : erreur et statut de la section
+  // Error and status messages for this section
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  // runAction / executerAction : états de chargement et messages communs aux actions
+  // Shared loading state and messages for every action
+  async function runAction(action: () => Promise<void>, defaultError: string) {
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+      await action();
+    } catch (error) {
+      console.error('digestActionError / erreurActionDigest', error);
+      setErrorMessage(error instanceof Error ? error.message : defaultError);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  // handleCreate / gererCreation : POST de l'abonné
+  // POST the subscriber
+  async function handleCreate(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    await runAction(async () => {
+      const created = await apiJson<DigestSubscriberView>(
+        `/api/projects/${projectId}/digest-subscribers`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ email, name, frequency }),
+        },
+        "Erreur lors de l'ajout de l'abonné. / Error adding subscriber.",
+      );
+      setSubscribers((prev) => [...prev, created]);
+      setEmail('');
+      setName('');
+      setStatusMessage('Abonné ajouté. / Subscriber added.');
+    }, "Erreur lors de l'ajout de l'abonné. / Error adding subscriber.");
+  }
+
+  // handleChangeFrequency / gererChangementFrequence : PATCH frequency
+  async function handleChangeFrequency(
+    subscriber: DigestSubscriberView,
+    nextFrequency: DigestFrequency,
+  ) {
+    await runAction(async () => {
+      const updated = await apiJson<DigestSubscriberView>(
+        `/api/digest-subscribers/${subscriber.id}`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ frequency: nextFrequency }),
+        },
+        "Erreur lors de la mise à jour de l'abonné. / Error updating subscriber.",
+      );
+      setSubscribers((prev) =>
+        prev.map((item) => (item.id === updated.id ? updated : item)),
+      );
+    }, "Erreur lors de la mise à jour de l'abonné. / Error updating subscriber.");
+  }
+
+  // handleSendNow / gererEnvoiImmediat : envoie la dernière période, même vide (test SMTP)
+  // Sends the last period, even when empty (SMTP test)
+  async function handleSendNow(subscriber: DigestSubscriberView) {
+    await runAction(async () => {
+      const result = await apiJson<{ totalChanges: number }>(
+        `/api/digest-subscribers/${subscriber.id}/send`,
+        { method: 'POST' },
+        "Erreur lors de l'envoi du digest. / Error sending digest.",
+      );
+      setStatusMessage(
+        `Email envoyé à ${subscriber.email} (${result.totalChanges} changement(s)). / Email sent.`,
+      );
+    }, "Erreur lors de l'envoi du digest. / Error sending digest.");
+  }
+
+  // handleDelete / gererSuppression
+  async function handleDelete(subscriber: DigestSubscriberView) {
+    if (
+      !window.confirm(
+        `Retirer ${subscriber.email} des abonnés ? / Remove this subscriber?`,
+      )
+    ) {
+      return;
+    }
+
+    await runAction(async () => {
+      await apiJson<unknown>(
+        `/api/digest-subscribers/${subscriber.id}`,
+        { method: 'DELETE' },
+        "Erreur lors de la suppression de l'abonné. / Error deleting subscriber.",
+      );
+      setSubscribers((prev) => prev.filter((item) => item.id !== subscriber.id));
+    }, "Erreur lors de la suppression de l'abonné. / Error deleting subscriber.");
+  }
+
+  return (
+    <section className="mt-8 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+      <h2 className="text-lg font-semibold">
+        Synthèse par email / Email digest
+      </h2>
+      <p className="mt-1 text-xs text-slate-400">
+        Envoyée par le worker (npm run scheduler) : nouveaux changements
+        groupés par concurrent, écarts de prix, lien de désinscription. Rien
+        n’est envoyé sur une période sans changement. / Sent by the scheduler
+        worker: new changes grouped by competitor, price deltas, unsubscribe
+        link. Nothing is sent for a period without changes.
+      </p>
+
+      {!smtpConfigured && (
+        <p className="mt-3 rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs text-amber-300">
+          SMTP non configuré (SMTP_HOST) : aucun email ne sera envoyé. / SMTP
+          is not configured (SMTP_HOST): no email will be sent.
+        </p>
+      )}
+
+      {subscribers.length === 0 ? (
+        <p className="mt-4 text-xs text-slate-400">
+          Aucun abonné. / No subscriber yet.
+        </p>
+      ) : (
+        <ul className="mt-4 flex flex-col gap-2">
+          {subscribers.map((subscriber) => (
+            <li
+              key={subscriber.id}
+              className="flex flex-wrap items-start justify-between gap-3 rounded-xl border border-slate-800 bg-slate-900/80 px-4 py-3 text-xs"
+            >
+              <div className="flex flex-col gap-1">
+                <p
+                  className={`text-sm font-medium ${
+                    subscriber.unsubscribedAt ? 'text-slate-500 line-through' : 'text-slate-100'
+                  }`}
+                >
+                  {subscriber.name ? `${subscriber.name} · ` : ''}
+                  {subscriber.email}
+                </p>
+                <p className="text-slate-400">
+                  {subscriber.unsubscribedAt
+                    ? `Désinscrit le ${formatDateTime(subscriber.unsubscribedAt)} / Unsubscribed`
+                    : subscriber.lastSentAt
+                      ? `Dernier passage / Last run : ${formatDateTime(subscriber.lastSentAt)}`
+                      : 'Jamais envoyé / Never sent'}
+                </p>
+                {subscriber.lastError && (
+                  <p className="break-words text-red-400">{subscriber.lastError}</p>
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={subscriber.frequency}
+                  onChange={(event) =>
+                    void handleChangeFrequency(subscriber, event.target.value as DigestFrequency)
+                  }
+                  disabled={isSaving || subscriber.unsubscribedAt !== null}
+                  className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-[11px]"
+                >
+                  {(Object.keys(FREQUENCY_LABELS) as DigestFrequency[]).map((value) => (
+                    <option key={value} value={value}>
+                      {FREQUENCY_LABELS[value]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => void handleSendNow(subscriber)}
+                  disabled={isSaving || !smtpConfigured || subscriber.unsubscribedAt !== null}
+                  className={SMALL_BUTTON_CLASS}
+                >
+                  Envoyer maintenant / Send now
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void handleDelete(subscriber)}
+                  disabled={isSaving}
+                  className="rounded-lg border border-red-500/60 px-3 py-1 text-[11px] text-red-300 hover:bg-red-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  Supprimer
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreate} className="mt-4 flex flex-wrap items-end gap-3">
+        <label className="flex flex-1 flex-col gap-1.5 text-sm font-medium text-slate-100">
+          Email
+          <input
+            type="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            placeholder="marketing@example.com"
+            required
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+          Nom (optionnel) / Name
+          <input
+            type="text"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            maxLength={120}
+            className={INPUT_CLASS}
+          />
+        </label>
+        <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+          Fréquence / Frequency
+          <select
+            value={frequency}
+            onChange={(event) => setFrequency(event.target.value as DigestFrequency)}
+            className={INPUT_CLASS}
+          >
+            {(Object.keys(FREQUENCY_LABELS) as DigestFrequency[]).map((value) => (
+              <option key={value} value={value}>
+                {FREQUENCY_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="inline-flex items-center rounded-lg border border-sky-500/60 bg-sky-500/10 px-4 py-2 text-sm font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          Abonner / Subscribe
+        </button>
+      </form>
+
+      {errorMessage && (
+        <p className="mt-3 text-sm text-red-400">{errorMessage}</p>
+      )}
+      {statusMessage && (
+        <p className="mt-3 text-xs text-slate-300">{statusMessage}</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,285 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { apiJson } from '@/lib/apiClient';
+
+// LlmSettingsView / vueParametresLlm : paramètres sans clé API (cf. lib/llmProvider.ts)
+// Settings without the API key (see lib/llmProvider.ts)
+export type LlmSettingsView = {
+  provider?: 'openai' | 'fake';
+  baseUrl?: string | null;
+  model?: string;
+  temperature?: number | null;
+  maxTokens?: number | null;
+  promptTokenBudget?: number | null;
+  hasApiKey: boolean;
+};
+
+type ProjectLlmSettingsPanelProps = {
+  projectId: number;
+  initialSettings: LlmSettingsView;
+  globalDefaults: LlmSettingsView; // envDefaults / valeursEnv : variables LLM_* (affichées en placeholder)
+};
+
+// providerLabels / libellesFournisseurs
+const PROVIDER_LABELS: Record<string, string> = {
+  openai: 'OpenAI / compatible (Ollama, vLLM…)',
+  fake: 'Factice (tests, sans réseau) / Fake (tests, no network)',
+};
+
+const INPUT_CLASS =
+  'rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500';
+
+export default function ProjectLlmSettingsPanel({
+  projectId,
+  initialSettings,
+  globalDefaults,
+}: ProjectLlmSettingsPanelProps) {
+  // formState / etatFormulaire : champ vide = valeur globale
+  // Empty field = global value
+  const [provider, setProvider] = useState<string>(initialSettings.provider ?? '');
+  const [baseUrl, setBaseUrl] = useState<string>(initialSettings.baseUrl ?? '');
+  const [model, setModel] = useState<string>(initialSettings.model ?? '');
+  const [temperature, setTemperature] = useState<string>(
+    initialSettings.temperature != null ? String(initialSettings.temperature) : '',
+  );
+  const [maxTokens, setMaxTokens] = useState<string>(
+    initialSettings.maxTokens != null ? String(initialSettings.maxTokens) : '',
+  );
+  const [promptTokenBudget, setPromptTokenBudget] = useState<string>(
+    initialSettings.promptTokenBudget != null ? String(initialSettings.promptTokenBudget) : '',
+  );
+
+  // apiKeyState / etatCleApi : jamais relue ; vide = clé enregistrée conservée
+  // Never read back; empty = stored key kept
+  const [apiKey, setApiKey] = useState<string>('');
+  const [hasApiKey, setHasApiKey] = useState<boolean>(initialSettings.hasApiKey);
+  const [removeApiKey, setRemoveApiKey] = useState<boolean>(false);
+
+  // savingState / etatEnregistrement
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // messages / messages : erreur et statut de la section
+  // Error and status messages for this section
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  // handleSave / gererEnregistrement : PATCH du projet avec la surcharge LLM
+  // PATCH the project with the LLM override
+  async function handleSave(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+
+      const llmSettings: Record<string, unknown> = {
+        provider: provider || undefined,
+        baseUrl: baseUrl.trim() || undefined,
+        model: model.trim() || undefined,
+        temperature: temperature.trim() || undefined,
+        maxTokens: maxTokens.trim() || undefined,
+        promptTokenBudget: promptTokenBudget.trim() || undefined,
+      };
+      if (removeApiKey) {
+        llmSettings.apiKey = '';
+      } else if (apiKey.trim()) {
+        llmSettings.apiKey = apiKey.trim();
+      }
+
+      const updated = await apiJson<{ llmSettings: LlmSettingsView }>(
+        `/api/projects/${projectId}`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ llmSettings }),
+        },
+        'Erreur lors de l’enregistrement des paramètres IA. / Error saving AI settings.',
+      );
+
+      setHasApiKey(updated.llmSettings.hasApiKey);
+      setApiKey('');
+      setRemoveApiKey(false);
+      setStatusMessage(
+        'Paramètres IA enregistrés (utilisés pour les prochains rapports). / AI settings saved (used for next reports).',
+      );
+    } catch (error) {
+      console.error('saveLlmSettingsError / erreurEnregistrementParametresLlm', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : 'Erreur lors de l’enregistrement des paramètres IA. / Error saving AI settings.',
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <section className="mt-8 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+      <h2 className="text-lg font-semibold">
+        Fournisseur IA des rapports / Report AI provider
+      </h2>
+      <p className="mt-1 text-xs text-slate-400">
+        Champs vides = configuration globale (variables LLM_*). Une URL de base
+        propre au projet (ex : Ollama, vLLM auto-hébergé) n’utilise jamais la
+        clé globale. / Empty fields = global configuration (LLM_* variables). A
+        project-specific base URL never receives the global key.
+      </p>
+
+      <form onSubmit={handleSave} className="mt-4 flex flex-col gap-4">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+            Fournisseur / Provider
+            <select
+              value={provider}
+              onChange={(event) => setProvider(event.target.value)}
+              className={INPUT_CLASS}
+            >
+              <option value="">
+                Global ({PROVIDER_LABELS[globalDefaults.provider ?? 'openai']})
+              </option>
+              {Object.entries(PROVIDER_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+            Modèle / Model
+            <input
+              type="text"
+              value={model}
+              onChange={(event) => setModel(event.target.value)}
+              placeholder={globalDefaults.model ?? ''}
+              className={INPUT_CLASS}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100 sm:col-span-2">
+            URL de base / Base URL
+            <input
+              type="url"
+              value={baseUrl}
+              onChange={(event) => setBaseUrl(event.target.value)}
+              placeholder={globalDefaults.baseUrl || 'https://api.openai.com/v1 (ex : http://localhost:11434/v1)'}
+              className={INPUT_CLASS}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+            Température
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={temperature}
+              onChange={(event) => setTemperature(event.target.value)}
+              placeholder={
+                globalDefaults.temperature != null
+                  ? String(globalDefaults.temperature)
+                  : 'défaut serveur / server default'
+              }
+              className={INPUT_CLASS}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+            Tokens max / Max tokens
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={maxTokens}
+              onChange={(event) => setMaxTokens(event.target.value)}
+              placeholder={
+                globalDefaults.maxTokens != null
+                  ? String(globalDefaults.maxTokens)
+                  : 'défaut serveur / server default'
+              }
+              className={INPUT_CLASS}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100 sm:col-span-2">
+            Budget de prompt (tokens) / Prompt token budget
+            <input
+              type="number"
+              min={1000}
+              step={1000}
+              value={promptTokenBudget}
+              onChange={(event) => setPromptTokenBudget(event.target.value)}
+              placeholder={
+                globalDefaults.promptTokenBudget != null
+                  ? String(globalDefaults.promptTokenBudget)
+                  : '12000'
+              }
+              className={INPUT_CLASS}
+            />
+            <span className="text-xs font-normal text-slate-400">
+              Au-delà, les changements sont résumés par lots puis fusionnés. /
+              Beyond this, changes are summarized in chunks then merged.
+            </span>
+          </label>
+
+          <div className="flex flex-col gap-1.5 sm:col-span-2">
+            <label
+              htmlFor="project-llm-api-key"
+              className="text-sm font-medium text-slate-100"
+            >
+              Clé API du projet / Project API key
+            </label>
+            <input
+              id="project-llm-api-key"
+              type="password"
+              autoComplete="off"
+              value={apiKey}
+              onChange={(event) => setApiKey(event.target.value)}
+              disabled={removeApiKey}
+              placeholder={
+                hasApiKey
+                  ? '•••••••• (enregistrée, laisser vide pour la conserver)'
+                  : 'Optionnelle / Optional'
+              }
+              className={INPUT_CLASS}
+            />
+            {hasApiKey && (
+              <label className="flex items-center gap-2 text-xs text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={removeApiKey}
+                  onChange={(event) => setRemoveApiKey(event.target.checked)}
+                  className="accent-sky-500"
+                />
+                Supprimer la clé enregistrée / Remove stored key
+              </label>
+            )}
+          </div>
+        </div>
+
+        {errorMessage && (
+          <p className="text-sm text-red-400">{errorMessage}</p>
+        )}
+        {statusMessage && (
+          <p className="text-xs text-slate-300">{statusMessage}</p>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center rounded-lg border border-sky-500/60 bg-sky-500/10 px-4 py-2 text-sm font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Enregistrer
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,269 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { apiJson } from '@/lib/apiClient';
+
+// BuiltinNoiseKey / cleBruitIntegre : motifs intégrés (cf. lib/noiseFilter.ts)
+// Built-in patterns (see lib/noiseFilter.ts)
+type BuiltinNoiseKey = 'dates' | 'times' | 'uuids' | 'hexHashes' | 'viewerCounters';
+
+// builtinLabels / libellesIntegres : affichage lisible des motifs intégrés
+// Human-readable labels for built-in patterns
+const BUILTIN_LABELS: Record<BuiltinNoiseKey, string> = {
+  dates: 'Dates (2025-11-15, 15/11/2025, 15 novembre 2025…)',
+  times: 'Heures / Times (14:05, 14:05:59, 14h05)',
+  uuids: 'UUID',
+  hexHashes: 'Hashs hexadécimaux / Hex hashes (16+ caractères)',
+  viewerCounters: 'Compteurs de visiteurs / Viewer counters ("12 personnes consultent…")',
+};
+
+// DryRunResult / resultatSimulation : changements passés qui auraient été supprimés
+// Past changes that would have been suppressed
+type DryRunResult = {
+  evaluated: number;
+  suppressedCount: number;
+  suppressed: {
+    id: number;
+    createdAt: string;
+    changeSummary: string | null;
+    url: string;
+    competitorName: string;
+  }[];
+};
+
+type ProjectNoiseRulesPanelProps = {
+  projectId: number;
+  initialIgnorePatterns: string[];
+  initialIgnoreBuiltins: string[];
+};
+
+// splitPatterns / decouperMotifs : une expression régulière par ligne
+// One regular expression per line
+function splitPatterns(value: string): string[] {
+  return value
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+export default function ProjectNoiseRulesPanel({
+  projectId,
+  initialIgnorePatterns,
+  initialIgnoreBuiltins,
+}: ProjectNoiseRulesPanelProps) {
+  // rulesState / etatRegles : motifs personnalisés (texte) + motifs intégrés cochés
+  // Custom patterns (text) + checked built-in patterns
+  const [patterns, setPatterns] = useState<string>(
+    initialIgnorePatterns.join('\n'),
+  );
+  const [builtins, setBuiltins] = useState<string[]>(initialIgnoreBuiltins);
+
+  // savingState / etatEnregistrement
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // dryRunState / etatSimulation : résultat de la simulation sur l'historique
+  // Result of the dry run on past changes
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
+  const [isDryRunning, setIsDryRunning] = useState<boolean>(false);
+
+  // messages / messages : erreur et statut de la section
+  // Error and status messages for this section
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  // handleToggleBuiltin / gererBasculeIntegre
+  function handleToggleBuiltin(key: BuiltinNoiseKey) {
+    setBuiltins((prev) =>
+      prev.includes(key) ? prev.filter((item) => item !== key) : [...prev, key],
+    );
+  }
+
+  // handleSave / gererEnregistrement : PATCH du projet avec les nouveaux motifs
+  // PATCH the project with the new patterns
+  async function handleSave(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+
+      await apiJson<unknown>(
+        `/api/projects/${projectId}`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            ignorePatterns: splitPatterns(patterns),
+            ignoreBuiltins: builtins,
+          }),
+        },
+        'Erreur lors de l’enregistrement des motifs ignorés. / Error saving ignore patterns.',
+      );
+
+      setStatusMessage(
+        'Motifs ignorés enregistrés (appliqués aux prochains scrapes). / Ignore patterns saved (applied to next scrapes).',
+      );
+    } catch (error) {
+      console.error('saveNoiseRulesError / erreurEnregistrementReglesBruit', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : 'Erreur lors de l’enregistrement des motifs ignorés. / Error saving ignore patterns.',
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  // handleDryRun / gererSimulation : rejoue les motifs sur les changements passés
+  // Replay the patterns on past changes
+  async function handleDryRun() {
+    try {
+      setIsDryRunning(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+
+      const result = await apiJson<DryRunResult>(
+        `/api/projects/${projectId}/noise-rules/dry-run`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            ignorePatterns: splitPatterns(patterns),
+            ignoreBuiltins: builtins,
+          }),
+        },
+        'Erreur lors de la simulation. / Error running the dry run.',
+      );
+
+      setDryRun(result);
+    } catch (error) {
+      console.error('dryRunNoiseRulesError / erreurSimulationReglesBruit', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : 'Erreur lors de la simulation. / Error running the dry run.',
+      );
+    } finally {
+      setIsDryRunning(false);
+    }
+  }
+
+  return (
+    <section className="mt-8 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+      <h2 className="text-lg font-semibold">
+        Motifs ignorés / Ignore patterns
+      </h2>
+      <p className="mt-1 text-xs text-slate-400">
+        Retirés du texte avant comparaison uniquement (le snapshot stocké reste
+        intact). S’ajoutent aux motifs définis sur chaque page. / Removed from
+        the text before comparison only (stored snapshots stay intact). Added
+        to the patterns defined on each page.
+      </p>
+
+      <form onSubmit={handleSave} className="mt-4 flex flex-col gap-4">
+        <div className="grid gap-2 sm:grid-cols-2">
+          {(Object.keys(BUILTIN_LABELS) as BuiltinNoiseKey[]).map((key) => (
+            <label
+              key={key}
+              className="flex items-center gap-2 text-xs text-slate-200"
+            >
+              <input
+                type="checkbox"
+                checked={builtins.includes(key)}
+                onChange={() => handleToggleBuiltin(key)}
+                className="accent-sky-500"
+              />
+              {BUILTIN_LABELS[key]}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex flex-col gap-1.5">
+          <label
+            htmlFor="project-ignore-patterns"
+            className="text-sm font-medium text-slate-100"
+          >
+            Expressions régulières (une par ligne)
+          </label>
+          <textarea
+            id="project-ignore-patterns"
+            value={patterns}
+            onChange={(event) => setPatterns(event.target.value)}
+            placeholder={'csrf_token=\\w+\n\\d+ personnes consultent'}
+            rows={4}
+            className="rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 font-mono text-xs outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500"
+          />
+        </div>
+
+        {errorMessage && (
+          <p className="text-sm text-red-400">{errorMessage}</p>
+        )}
+        {statusMessage && (
+          <p className="text-xs text-slate-300">{statusMessage}</p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => void handleDryRun()}
+            disabled={isDryRunning}
+            className="inline-flex items-center rounded-lg border border-slate-600 px-4 py-2 text-sm font-medium text-slate-200 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isDryRunning
+              ? 'Simulation… / Running…'
+              : 'Tester sur l’historique / Dry run'}
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="inline-flex items-center rounded-lg border border-sky-500/60 bg-sky-500/10 px-4 py-2 text-sm font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Enregistrer
+          </button>
+        </div>
+      </form>
+
+      {/* dryRunResult / resultatSimulation : changements qui auraient disparu */}
+      {/* Changes that would have been suppressed */}
+      {dryRun && (
+        <div className="mt-4 rounded-lg border border-slate-800 bg-slate-950/60 p-3 text-xs text-slate-300">
+          <p className="font-medium text-slate-100">
+            {dryRun.suppressedCount} / {dryRun.evaluated} changements texte
+            auraient été supprimés. / {dryRun.suppressedCount} of{' '}
+            {dryRun.evaluated} text changes would have been suppressed.
+          </p>
+          {dryRun.suppressed.length > 0 && (
+            <ul className="mt-2 flex max-h-64 flex-col gap-1 overflow-y-auto">
+              {dryRun.suppressed.map((change) => (
+                <li
+                  key={change.id}
+                  className="rounded-md border border-slate-800 bg-slate-900/80 px-2 py-1"
+                >
+                  <span className="text-slate-400">
+                    {new Date(change.createdAt).toLocaleString('fr-FR', {
+                      dateStyle: 'short',
+                      timeStyle: 'short',
+                    })}
+                  </span>{' '}
+                  · <span className="font-medium">{change.competitorName}</span>{' '}
+                  · <span className="break-all text-slate-400">{change.url}</span>
+                  {change.changeSummary && (
+                    <p className="text-[11px] text-slate-400">
+                      {change.changeSummary}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,505 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { apiJson } from '@/lib/apiClient';
+
+// WebhookEventType / typeEvenementWebhook : TEST n'est jamais abonné (bouton uniquement)
+// TEST is never subscribed (button only)
+type WebhookEventType = 'CHANGE_CREATED' | 'REPORT_GENERATED' | 'ALERT_TRIGGERED' | 'TEST';
+
+// WebhookKind / formatWebhook : JSON signé ou message Slack / Teams (incoming webhook)
+// Signed JSON or Slack / Teams message (incoming webhook)
+type WebhookKind = 'GENERIC' | 'SLACK' | 'TEAMS';
+
+// WebhookView / vueWebhook : secret masqué (secret renseigné seulement après création / rotation)
+// Masked secret (secret is only set right after creation / rotation)
+export type WebhookView = {
+  id: number;
+  url: string;
+  kind: WebhookKind;
+  description: string | null;
+  events: WebhookEventType[];
+  enabled: boolean;
+  secretPreview: string;
+  secret?: string | null;
+};
+
+// WebhookDeliveryView / vueLivraisonWebhook : une ligne du journal
+// One delivery log row
+type WebhookDeliveryView = {
+  id: number;
+  event: WebhookEventType;
+  status: 'PENDING' | 'SUCCESS' | 'FAILED';
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  errorMessage: string | null;
+  durationMs: number | null;
+  createdAt: string;
+};
+
+type ProjectWebhooksPanelProps = {
+  projectId: number;
+  initialWebhooks: WebhookView[];
+};
+
+// eventLabels / libellesEvenements
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+  CHANGE_CREATED: 'change.created',
+  REPORT_GENERATED: 'report.generated',
+  ALERT_TRIGGERED: 'alert.triggered',
+  TEST: 'webhook.test',
+};
+
+// kindLabels / libellesFormats
+const KIND_LABELS: Record<WebhookKind, string> = {
+  GENERIC: 'JSON signé / Signed JSON',
+  SLACK: 'Slack (Block Kit)',
+  TEAMS: 'Microsoft Teams (MessageCard)',
+};
+
+// urlPlaceholders / exemplesUrl : URL d'incoming webhook attendue selon le format
+// Expected incoming-webhook URL for each format
+const URL_PLACEHOLDERS: Record<WebhookKind, string> = {
+  GENERIC: 'http://localhost:4000/webhook',
+  SLACK: 'https://hooks.slack.com/services/…',
+  TEAMS: 'https://….webhook.office.com/webhookb2/…',
+};
+
+// deliveryStatusClasses / classesStatutLivraison
+const DELIVERY_STATUS_CLASSES: Record<WebhookDeliveryView['status'], string> = {
+  PENDING: 'text-amber-300',
+  SUCCESS: 'text-emerald-300',
+  FAILED: 'text-red-400',
+};
+
+const INPUT_CLASS =
+  'rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500';
+
+const SMALL_BUTTON_CLASS =
+  'rounded-lg border border-slate-600 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60';
+
+// formatDateTime / formaterDateHeure : format date+heure FR
+// Simple FR date+time format
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('fr-FR', {
+    dateStyle: 'short',
+    timeStyle: 'medium',
+  });
+}
+
+export default function ProjectWebhooksPanel({
+  projectId,
+  initialWebhooks,
+}: ProjectWebhooksPanelProps) {
+  // webhooksState / etatWebhooks : liste affichée
+  // Displayed list
+  const [webhooks, setWebhooks] = useState<WebhookView[]>(initialWebhooks);
+
+  // formState / etatFormulaire : nouveau webhook
+  // New webhook
+  const [url, setUrl] = useState<string>('');
+  const [kind, setKind] = useState<WebhookKind>('GENERIC');
+  const [description, setDescription] = useState<string>('');
+  const [events, setEvents] = useState<WebhookEventType[]>([
+    'CHANGE_CREATED',
+    'REPORT_GENERATED',
+    'ALERT_TRIGGERED',
+  ]);
+
+  // revealedSecret / secretAffiche : affiché une seule fois après création / rotation
+  // Shown only once after creation / rotation
+  const [revealedSecret, setRevealedSecret] = useState<{
+    webhookId: number;
+    secret: string;
+  } | null>(null);
+
+  // deliveriesState / etatLivraisons : journal du webhook déplié
+  // Delivery log of the expanded webhook
+  const [openWebhookId, setOpenWebhookId] = useState<number | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryView[]>([]);
+
+  // savingState / etatEnregistrement : création ou action sur une ligne
+  // Creation or row action in progress
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // messages / messages : erreur et statut de la section
+  // Error and status messages for this section
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  // runAction / executerAction : états de chargement et messages communs aux actions
+  // Shared loading state and messages for every action
+  async function runAction(action: () => Promise<void>, defaultError: string) {
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+      await action();
+    } catch (error) {
+      console.error('webhookActionError / erreurActionWebhook', error);
+      setErrorMessage(error instanceof Error ? error.message : defaultError);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  // replaceWebhook / remplacerWebhook : met à jour la ligne et garde le secret révélé
+  // Updates the row and keeps the revealed secret
+  function replaceWebhook(updated: WebhookView) {
+    setWebhooks((prev) =>
+      prev.map((item) => (item.id === updated.id ? updated : item)),
+    );
+    if (updated.secret) {
+      setRevealedSecret({ webhookId: updated.id, secret: updated.secret });
+    }
+  }
+
+  // loadDeliveries / chargerLivraisons
+  async function loadDeliveries(webhookId: number) {
+    const list = await apiJson<WebhookDeliveryView[]>(
+      `/api/webhooks/${webhookId}/deliveries`,
+      undefined,
+      'Erreur lors du chargement des livraisons. / Error loading deliveries.',
+    );
+    setDeliveries(list);
+    setOpenWebhookId(webhookId);
+  }
+
+  // handleToggleEvent / gererBasculeEvenement
+  function handleToggleEvent(event: WebhookEventType) {
+    setEvents((prev) =>
+      prev.includes(event) ? prev.filter((item) => item !== event) : [...prev, event],
+    );
+  }
+
+  // handleCreate / gererCreation : POST du webhook, secret affiché une fois
+  // POST the webhook; the secret is shown once
+  async function handleCreate(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    await runAction(async () => {
+      const created = await apiJson<WebhookView>(
+        `/api/projects/${projectId}/webhooks`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ url, kind, description, events }),
+        },
+        'Erreur lors de la création du webhook. / Error creating webhook.',
+      );
+
+      setWebhooks((prev) => [...prev, created]);
+      // slackTeamsSecret / secretSlackTeams : ignoré par Slack / Teams, inutile de l'afficher
+      // Ignored by Slack / Teams, no need to show it
+      if (created.secret && created.kind === 'GENERIC') {
+        setRevealedSecret({ webhookId: created.id, secret: created.secret });
+      }
+      setUrl('');
+      setDescription('');
+      setStatusMessage('Webhook créé. / Webhook created.');
+    }, 'Erreur lors de la création du webhook. / Error creating webhook.');
+  }
+
+  // handlePatch / gererModification : activation ou rotation du secret
+  // Enable / disable or secret rotation
+  async function handlePatch(webhook: WebhookView, body: Record<string, unknown>) {
+    await runAction(async () => {
+      const updated = await apiJson<WebhookView>(
+        `/api/webhooks/${webhook.id}`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(body),
+        },
+        'Erreur lors de la mise à jour du webhook. / Error updating webhook.',
+      );
+      replaceWebhook(updated);
+    }, 'Erreur lors de la mise à jour du webhook. / Error updating webhook.');
+  }
+
+  // handleTest / gererTest : envoie webhook.test puis affiche le journal
+  // Sends webhook.test, then shows the log
+  async function handleTest(webhook: WebhookView) {
+    await runAction(async () => {
+      const delivery = await apiJson<WebhookDeliveryView>(
+        `/api/webhooks/${webhook.id}/test`,
+        { method: 'POST' },
+        'Erreur lors de l’envoi du test. / Error sending test event.',
+      );
+      setStatusMessage(
+        delivery.status === 'SUCCESS'
+          ? `Test livré (HTTP ${delivery.responseStatus}). / Test delivered.`
+          : `Échec du test : ${delivery.errorMessage ?? ''} / Test failed.`,
+      );
+      await loadDeliveries(webhook.id);
+    }, 'Erreur lors de l’envoi du test. / Error sending test event.');
+  }
+
+  // handleToggleLog / gererJournal : déplie / replie le journal des livraisons
+  // Expands / collapses the delivery log
+  async function handleToggleLog(webhook: WebhookView) {
+    if (openWebhookId === webhook.id) {
+      setOpenWebhookId(null);
+      return;
+    }
+    await runAction(
+      () => loadDeliveries(webhook.id),
+      'Erreur lors du chargement des livraisons. / Error loading deliveries.',
+    );
+  }
+
+  // handleDelete / gererSuppression : supprime aussi le journal
+  // Also deletes the delivery log
+  async function handleDelete(webhook: WebhookView) {
+    const confirmDelete = window.confirm(
+      'Supprimer ce webhook et son journal de livraisons ? / Delete this webhook and its delivery log?',
+    );
+    if (!confirmDelete) return;
+
+    await runAction(async () => {
+      await apiJson<unknown>(
+        `/api/webhooks/${webhook.id}`,
+        { method: 'DELETE' },
+        'Erreur lors de la suppression du webhook. / Error deleting webhook.',
+      );
+      setWebhooks((prev) => prev.filter((item) => item.id !== webhook.id));
+      if (openWebhookId === webhook.id) setOpenWebhookId(null);
+    }, 'Erreur lors de la suppression du webhook. / Error deleting webhook.');
+  }
+
+  return (
+    <section className="mt-8 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+      <h2 className="text-lg font-semibold">
+        Webhooks &amp; canaux Slack / Teams
+      </h2>
+      <p className="mt-1 text-xs text-slate-400">
+        POST à chaque nouveau changement et à chaque rapport : JSON signé par
+        l’en-tête X-Webhook-Signature (HMAC-SHA256 de « timestamp.corps »), ou
+        message Slack / Teams pour une URL d’incoming webhook. Nouveaux essais
+        avec attente exponentielle (6 essais max). / POST on every new change
+        and report: JSON signed with X-Webhook-Signature (HMAC-SHA256 of
+        “timestamp.body”), or a Slack / Teams message for an incoming-webhook
+        URL. Retried with exponential backoff (6 attempts max).
+      </p>
+
+      {revealedSecret && (
+        <div className="mt-4 rounded-lg border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs text-amber-300">
+          <p>
+            Secret du webhook #{revealedSecret.webhookId}, affiché une seule
+            fois : / Webhook secret, shown only once:
+          </p>
+          <p className="mt-1 break-all font-mono text-slate-100">
+            {revealedSecret.secret}
+          </p>
+        </div>
+      )}
+
+      {webhooks.length === 0 ? (
+        <p className="mt-4 text-xs text-slate-400">
+          Aucun webhook. / No webhook yet.
+        </p>
+      ) : (
+        <ul className="mt-4 flex flex-col gap-2">
+          {webhooks.map((webhook) => (
+            <li
+              key={webhook.id}
+              className="rounded-xl border border-slate-800 bg-slate-900/80 px-4 py-3 text-xs"
+            >
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="flex flex-col gap-1">
+                  <p
+                    className={`break-all text-sm font-medium ${
+                      webhook.enabled ? 'text-slate-100' : 'text-slate-500 line-through'
+                    }`}
+                  >
+                    {webhook.url}
+                  </p>
+                  {webhook.description && (
+                    <p className="text-slate-300">{webhook.description}</p>
+                  )}
+                  <p className="text-slate-400">
+                    {KIND_LABELS[webhook.kind]} ·{' '}
+                    {webhook.events.map((event) => EVENT_LABELS[event]).join(', ')}
+                    {webhook.kind === 'GENERIC' && (
+                      <>
+                        {' '}
+                        · secret <span className="font-mono">{webhook.secretPreview}</span>
+                      </>
+                    )}
+                  </p>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => void handleTest(webhook)}
+                    disabled={isSaving}
+                    className="rounded-lg border border-sky-500/60 bg-sky-500/10 px-3 py-1 text-[11px] font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    Envoyer un test / Send test
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleToggleLog(webhook)}
+                    disabled={isSaving}
+                    className={SMALL_BUTTON_CLASS}
+                  >
+                    {openWebhookId === webhook.id ? 'Masquer le journal' : 'Journal / Log'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handlePatch(webhook, { enabled: !webhook.enabled })}
+                    disabled={isSaving}
+                    className={SMALL_BUTTON_CLASS}
+                  >
+                    {webhook.enabled ? 'Suspendre / Pause' : 'Réactiver / Resume'}
+                  </button>
+                  {webhook.kind === 'GENERIC' && (
+                    <button
+                      type="button"
+                      onClick={() => void handlePatch(webhook, { rotateSecret: true })}
+                      disabled={isSaving}
+                      className={SMALL_BUTTON_CLASS}
+                    >
+                      Nouveau secret / Rotate secret
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => void handleDelete(webhook)}
+                    disabled={isSaving}
+                    className="rounded-lg border border-red-500/60 px-3 py-1 text-[11px] text-red-300 hover:bg-red-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    Supprimer
+                  </button>
+                </div>
+              </div>
+
+              {/* deliveryLog / journalLivraisons : 50 dernières livraisons */}
+              {/* Last 50 deliveries */}
+              {openWebhookId === webhook.id && (
+                <div className="mt-3 rounded-lg border border-slate-800 bg-slate-950/60 p-3">
+                  {deliveries.length === 0 ? (
+                    <p className="text-slate-400">
+                      Aucune livraison. / No delivery yet.
+                    </p>
+                  ) : (
+                    <ul className="flex max-h-64 flex-col gap-1 overflow-y-auto">
+                      {deliveries.map((delivery) => (
+                        <li
+                          key={delivery.id}
+                          className="rounded-md border border-slate-800 bg-slate-900/80 px-2 py-1"
+                        >
+                          <span className="text-slate-400">
+                            {formatDateTime(delivery.createdAt)}
+                          </span>{' '}
+                          · <span className="font-mono">{EVENT_LABELS[delivery.event]}</span> ·{' '}
+                          <span className={DELIVERY_STATUS_CLASSES[delivery.status]}>
+                            {delivery.status}
+                            {delivery.responseStatus !== null && ` (HTTP ${delivery.responseStatus})`}
+                          </span>{' '}
+                          · {delivery.attempts} essai(s)
+                          {delivery.durationMs !== null && ` · ${delivery.durationMs} ms`}
+                          {delivery.status === 'PENDING' && delivery.nextAttemptAt && (
+                            <span className="text-slate-400">
+                              {' '}
+                              · prochain essai / next attempt : {formatDateTime(delivery.nextAttemptAt)}
+                            </span>
+                          )}
+                          {delivery.status !== 'SUCCESS' && delivery.errorMessage && (
+                            <p className="text-[11px] text-slate-400">
+                              {delivery.errorMessage}
+                            </p>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreate} className="mt-4 flex flex-col gap-3">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+            Format
+            <select
+              value={kind}
+              onChange={(event) => setKind(event.target.value as WebhookKind)}
+              className={INPUT_CLASS}
+            >
+              {(Object.keys(KIND_LABELS) as WebhookKind[]).map((value) => (
+                <option key={value} value={value}>
+                  {KIND_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+            URL
+            <input
+              type="url"
+              value={url}
+              onChange={(event) => setUrl(event.target.value)}
+              placeholder={URL_PLACEHOLDERS[kind]}
+              required
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+            Description
+            <input
+              type="text"
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap gap-4">
+            {(['CHANGE_CREATED', 'REPORT_GENERATED', 'ALERT_TRIGGERED'] as const).map((event) => (
+              <label
+                key={event}
+                className="flex items-center gap-2 text-xs text-slate-200"
+              >
+                <input
+                  type="checkbox"
+                  checked={events.includes(event)}
+                  onChange={() => handleToggleEvent(event)}
+                  className="accent-sky-500"
+                />
+                {EVENT_LABELS[event]}
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving || events.length === 0}
+            className="inline-flex items-center rounded-lg border border-sky-500/60 bg-sky-500/10 px-4 py-2 text-sm font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Ajouter / Add
+          </button>
+        </div>
+      </form>
+
+      {errorMessage && (
+        <p className="mt-3 text-sm text-red-400">{errorMessage}</p>
+      )}
+      {statusMessage && (
+        <p className="mt-3 text-xs text-slate-300">{statusMessage}</p>
+      )}
+    </section>
+  );
+}
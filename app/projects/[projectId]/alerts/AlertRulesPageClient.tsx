@@ -0,0 +1,711 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import Link from 'next/link';
+import { apiJson } from '@/lib/apiClient';
+
+type AlertRuleKind = 'PRICE_MOVE' | 'CHANGE_TYPE' | 'FETCH_FAILURES' | 'TEXT_DIFF_SIZE';
+type PriceDirection = 'DROP' | 'RISE' | 'ANY';
+type PageType = 'PRICING' | 'LANDING' | 'PRODUCT' | 'BLOG' | 'OTHER';
+type ChangeType = 'TEXT' | 'PRICE' | 'SECTION_ADDED' | 'SECTION_REMOVED' | 'OTHER';
+
+// AlertRuleView / vueRegleAlerte : règle telle que renvoyée par l'API
+// Rule as returned by the API
+export type AlertRuleView = {
+  id: number;
+  name: string;
+  kind: AlertRuleKind;
+  competitorId: number | null;
+  pageTypes: PageType[];
+  changeTypes: ChangeType[];
+  priceDirection: PriceDirection | null;
+  minPriceDeltaPct: number | null;
+  minConsecutiveFailures: number | null;
+  minDiffWords: number | null;
+  notify: boolean;
+  enabled: boolean;
+};
+
+// AlertEventView / vueAlerte : alerte déclenchée (dates ISO)
+// Triggered alert (ISO dates)
+export type AlertEventView = {
+  id: number;
+  changeId: number | null;
+  message: string;
+  createdAt: string;
+  rule: { id: number; name: string; kind: AlertRuleKind };
+  monitoredPage: {
+    id: number;
+    url: string;
+    pageType: PageType;
+    competitor: { id: number; name: string };
+  };
+};
+
+// TestMatch / correspondanceTest : déclenchement simulé (cf. lib/alertRules.ts)
+// Simulated trigger (see lib/alertRules.ts)
+type TestMatch = {
+  changeId: number | null;
+  monitoredPageId: number;
+  pageUrl: string;
+  competitorName: string;
+  occurredAt: string;
+  message: string;
+};
+
+type TestResult = {
+  days: number;
+  evaluated: number;
+  matches: TestMatch[];
+};
+
+type AlertRulesPageClientProps = {
+  projectId: number;
+  competitors: { id: number; name: string }[];
+  initialRules: AlertRuleView[];
+  initialAlerts: AlertEventView[];
+};
+
+// kindLabels / libellesTypes
+const KIND_LABELS: Record<AlertRuleKind, string> = {
+  PRICE_MOVE: 'Variation de prix / Price move',
+  CHANGE_TYPE: 'Type de changement / Change type',
+  FETCH_FAILURES: 'Échecs consécutifs / Failure streak',
+  TEXT_DIFF_SIZE: 'Taille du diff texte / Text diff size',
+};
+
+const DIRECTION_LABELS: Record<PriceDirection, string> = {
+  DROP: 'Baisse / Drop',
+  RISE: 'Hausse / Rise',
+  ANY: 'Hausse ou baisse / Either way',
+};
+
+const PAGE_TYPE_LABELS: Record<PageType, string> = {
+  PRICING: 'Pricing',
+  LANDING: 'Landing',
+  PRODUCT: 'Produit / Product',
+  BLOG: 'Blog',
+  OTHER: 'Autre / Other',
+};
+
+const CHANGE_TYPE_LABELS: Record<ChangeType, string> = {
+  TEXT: 'Texte / Text',
+  PRICE: 'Prix / Price',
+  SECTION_ADDED: 'Section ajoutée / Section added',
+  SECTION_REMOVED: 'Section supprimée / Section removed',
+  OTHER: 'Autre / Other',
+};
+
+const INPUT_CLASS =
+  'rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500';
+
+// formatDateTime / formaterDateHeure : format date+heure FR
+// Simple FR date+time format
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('fr-FR', {
+    dateStyle: 'short',
+    timeStyle: 'short',
+  });
+}
+
+// toggleValue / basculerValeur : ajoute ou retire une valeur d'une liste
+// Adds or removes a value from a list
+function toggleValue<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+}
+
+// describeCondition / decrireCondition : "Baisse ≥ 10 %", "3 échecs consécutifs"…
+// Human-readable condition
+function describeCondition(rule: AlertRuleView): string {
+  if (rule.kind === 'PRICE_MOVE') {
+    return `${DIRECTION_LABELS[rule.priceDirection ?? 'ANY']} ≥ ${rule.minPriceDeltaPct ?? 0} %`;
+  }
+  if (rule.kind === 'CHANGE_TYPE') {
+    return rule.changeTypes.map((type) => CHANGE_TYPE_LABELS[type]).join(', ');
+  }
+  if (rule.kind === 'FETCH_FAILURES') {
+    return `${rule.minConsecutiveFailures ?? 0} échecs consécutifs / consecutive failures`;
+  }
+  return `≥ ${rule.minDiffWords ?? 0} mots modifiés / words changed`;
+}
+
+export default function AlertRulesPageClient({
+  projectId,
+  competitors,
+  initialRules,
+  initialAlerts,
+}: AlertRulesPageClientProps) {
+  // rulesState / etatRegles : règles affichées
+  // Displayed rules
+  const [rules, setRules] = useState<AlertRuleView[]>(initialRules);
+
+  // alertsState / etatAlertes : 100 dernières alertes
+  // Last 100 alerts
+  const [alerts, setAlerts] = useState<AlertEventView[]>(initialAlerts);
+
+  // formState / etatFormulaire : nouvelle règle (champs selon le type)
+  // New rule (fields depend on the kind)
+  const [name, setName] = useState<string>('');
+  const [kind, setKind] = useState<AlertRuleKind>('PRICE_MOVE');
+  const [competitorId, setCompetitorId] = useState<string>('');
+  const [pageTypes, setPageTypes] = useState<PageType[]>([]);
+  const [changeTypes, setChangeTypes] = useState<ChangeType[]>(['SECTION_ADDED']);
+  const [priceDirection, setPriceDirection] = useState<PriceDirection>('DROP');
+  const [minPriceDeltaPct, setMinPriceDeltaPct] = useState<string>('10');
+  const [minConsecutiveFailures, setMinConsecutiveFailures] = useState<string>('3');
+  const [minDiffWords, setMinDiffWords] = useState<string>('50');
+  const [notify, setNotify] = useState<boolean>(false);
+
+  // testState / etatTest : fenêtre rejouée et résultat
+  // Replayed window and result
+  const [testDays, setTestDays] = useState<string>('30');
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+
+  // savingState / etatEnregistrement : création, test ou action sur une ligne
+  // Creation, test or row action in progress
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // messages / messages : erreur et statut de la page
+  // Error and status messages for this page
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  // buildRuleBody / construireCorpsRegle : seuls les champs du type choisi sont envoyés
+  // Only the fields of the selected kind are sent
+  function buildRuleBody(): Record<string, unknown> {
+    return {
+      name: name.trim(),
+      kind,
+      competitorId: competitorId ? Number(competitorId) : null,
+      pageTypes,
+      notify,
+      ...(kind === 'PRICE_MOVE'
+        ? { priceDirection, minPriceDeltaPct: Number(minPriceDeltaPct) }
+        : {}),
+      ...(kind === 'CHANGE_TYPE' ? { changeTypes } : {}),
+      ...(kind === 'FETCH_FAILURES'
+        ? { minConsecutiveFailures: Number(minConsecutiveFailures) }
+        : {}),
+      ...(kind === 'TEXT_DIFF_SIZE' ? { minDiffWords: Number(minDiffWords) } : {}),
+    };
+  }
+
+  // competitorName / nomConcurrent : "Tous" si la règle n'est pas ciblée
+  // "All" when the rule is not scoped to a competitor
+  function competitorName(id: number | null): string {
+    if (id === null) return 'Tous les concurrents / All competitors';
+    return competitors.find((competitor) => competitor.id === id)?.name ?? `#${id}`;
+  }
+
+  // handleCreate / gererCreation : POST de la règle
+  // POST the rule
+  async function handleCreate(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+
+      const created = await apiJson<AlertRuleView>(
+        `/api/projects/${projectId}/alert-rules`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(buildRuleBody()),
+        },
+        "Erreur lors de la création de la règle d'alerte. / Error creating alert rule.",
+      );
+
+      setRules((prev) => [...prev, created]);
+      setName('');
+      setTestResult(null);
+      setStatusMessage('Règle créée. / Rule created.');
+    } catch (error) {
+      console.error('createAlertRuleError / erreurCreationRegleAlerte', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : "Erreur lors de la création de la règle d'alerte. / Error creating alert rule.",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  // handleTest / gererTest : rejoue la règle du formulaire sur l'historique (rien n'est enregistré)
+  // Replays the form's rule over the history (nothing is stored)
+  async function handleTest() {
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+
+      const result = await apiJson<TestResult>(
+        `/api/projects/${projectId}/alert-rules/test`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ ...buildRuleBody(), days: Number(testDays) }),
+        },
+        "Erreur lors du test de la règle d'alerte. / Error testing alert rule.",
+      );
+
+      setTestResult(result);
+    } catch (error) {
+      console.error('testAlertRuleError / erreurTestRegleAlerte', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : "Erreur lors du test de la règle d'alerte. / Error testing alert rule.",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  // handleUpdate / gererMiseAJour : PATCH partiel (activation, webhooks)
+  // Partial PATCH (enabled, webhooks)
+  async function handleUpdate(rule: AlertRuleView, patch: Partial<AlertRuleView>) {
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+
+      const updated = await apiJson<AlertRuleView>(
+        `/api/alert-rules/${rule.id}`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(patch),
+        },
+        "Erreur lors de la mise à jour de la règle d'alerte. / Error updating alert rule.",
+      );
+
+      setRules((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+    } catch (error) {
+      console.error('updateAlertRuleError / erreurMajRegleAlerte', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : "Erreur lors de la mise à jour de la règle d'alerte. / Error updating alert rule.",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  // handleDelete / gererSuppression : ses alertes sont supprimées aussi
+  // Its alerts are deleted as well
+  async function handleDelete(rule: AlertRuleView) {
+    if (
+      !window.confirm(
+        'Supprimer cette règle et ses alertes ? / Delete this rule and its alerts?',
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+
+      await apiJson<unknown>(
+        `/api/alert-rules/${rule.id}`,
+        { method: 'DELETE' },
+        "Erreur lors de la suppression de la règle d'alerte. / Error deleting alert rule.",
+      );
+
+      setRules((prev) => prev.filter((item) => item.id !== rule.id));
+      setAlerts((prev) => prev.filter((alert) => alert.rule.id !== rule.id));
+    } catch (error) {
+      console.error('deleteAlertRuleError / erreurSuppressionRegleAlerte', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : "Erreur lors de la suppression de la règle d'alerte. / Error deleting alert rule.",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  // handleRefreshAlerts / gererRafraichissementAlertes : recharge les 100 dernières alertes
+  // Reloads the last 100 alerts
+  async function handleRefreshAlerts() {
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+
+      const data = await apiJson<AlertEventView[]>(
+        `/api/projects/${projectId}/alerts`,
+        { cache: 'no-store' },
+        'Erreur lors du chargement des alertes. / Error loading alerts.',
+      );
+
+      setAlerts(data);
+    } catch (error) {
+      console.error('alertsGetError / erreurGetAlertes', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : 'Erreur lors du chargement des alertes. / Error loading alerts.',
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <>
+      <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+        <h2 className="text-lg font-semibold">Règles d’alerte / Alert rules</h2>
+        <p className="mt-1 text-xs text-slate-400">
+          Une alerte est enregistrée à chaque correspondance ; avec « Webhooks »,
+          elle est aussi envoyée aux webhooks abonnés à alert.triggered. / An
+          alert is stored for each match; with “Webhooks”, it is also sent to
+          the endpoints subscribed to alert.triggered.
+        </p>
+
+        {rules.length === 0 ? (
+          <p className="mt-4 text-xs text-slate-400">
+            Aucune règle. / No rule yet.
+          </p>
+        ) : (
+          <ul className="mt-4 flex flex-col gap-2">
+            {rules.map((rule) => (
+              <li
+                key={rule.id}
+                className="flex flex-wrap items-start justify-between gap-3 rounded-xl border border-slate-800 bg-slate-900/80 px-4 py-3 text-xs"
+              >
+                <div className="flex flex-col gap-1">
+                  <p
+                    className={`text-sm font-medium ${
+                      rule.enabled ? 'text-slate-100' : 'text-slate-500 line-through'
+                    }`}
+                  >
+                    {rule.name}
+                  </p>
+                  <p className="text-slate-300">
+                    {KIND_LABELS[rule.kind]} · {describeCondition(rule)}
+                  </p>
+                  <p className="text-slate-400">
+                    {competitorName(rule.competitorId)} ·{' '}
+                    {rule.pageTypes.length > 0
+                      ? rule.pageTypes.map((type) => PAGE_TYPE_LABELS[type]).join(', ')
+                      : 'Toutes les pages / All pages'}
+                    {rule.notify && ' · Webhooks'}
+                  </p>
+                </div>
+
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => void handleUpdate(rule, { notify: !rule.notify })}
+                    disabled={isSaving}
+                    className="rounded-lg border border-slate-600 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {rule.notify ? 'Sans webhooks / No webhooks' : 'Webhooks'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleUpdate(rule, { enabled: !rule.enabled })}
+                    disabled={isSaving}
+                    className="rounded-lg border border-slate-600 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {rule.enabled ? 'Suspendre / Pause' : 'Réactiver / Resume'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleDelete(rule)}
+                    disabled={isSaving}
+                    className="rounded-lg border border-red-500/60 px-3 py-1 text-[11px] text-red-300 hover:bg-red-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    Supprimer
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleCreate} className="mt-4 flex flex-col gap-3">
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="flex flex-1 flex-col gap-1.5 text-sm font-medium text-slate-100">
+              Nom / Name
+              <input
+                type="text"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="Baisse de prix > 10 %"
+                maxLength={120}
+                required
+                className={INPUT_CLASS}
+              />
+            </label>
+
+            <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+              Condition
+              <select
+                value={kind}
+                onChange={(event) => setKind(event.target.value as AlertRuleKind)}
+                className={INPUT_CLASS}
+              >
+                {(Object.keys(KIND_LABELS) as AlertRuleKind[]).map((value) => (
+                  <option key={value} value={value}>
+                    {KIND_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+              Concurrent / Competitor
+              <select
+                value={competitorId}
+                onChange={(event) => setCompetitorId(event.target.value)}
+                className={INPUT_CLASS}
+              >
+                <option value="">Tous / All</option>
+                {competitors.map((competitor) => (
+                  <option key={competitor.id} value={competitor.id}>
+                    {competitor.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {/* kindFields / champsType : seuils propres à la condition choisie */}
+          {/* Thresholds for the selected condition */}
+          <div className="flex flex-wrap items-end gap-3">
+            {kind === 'PRICE_MOVE' && (
+              <>
+                <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+                  Sens / Direction
+                  <select
+                    value={priceDirection}
+                    onChange={(event) => setPriceDirection(event.target.value as PriceDirection)}
+                    className={INPUT_CLASS}
+                  >
+                    {(Object.keys(DIRECTION_LABELS) as PriceDirection[]).map((value) => (
+                      <option key={value} value={value}>
+                        {DIRECTION_LABELS[value]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+                  Écart minimal (%) / Minimum delta (%)
+                  <input
+                    type="number"
+                    min={0.01}
+                    max={1000}
+                    step="any"
+                    value={minPriceDeltaPct}
+                    onChange={(event) => setMinPriceDeltaPct(event.target.value)}
+                    required
+                    className={INPUT_CLASS}
+                  />
+                </label>
+              </>
+            )}
+
+            {kind === 'CHANGE_TYPE' && (
+              <div className="flex flex-wrap gap-3">
+                {(Object.keys(CHANGE_TYPE_LABELS) as ChangeType[]).map((value) => (
+                  <label key={value} className="flex items-center gap-2 text-xs text-slate-200">
+                    <input
+                      type="checkbox"
+                      checked={changeTypes.includes(value)}
+                      onChange={() => setChangeTypes((prev) => toggleValue(prev, value))}
+                      className="accent-sky-500"
+                    />
+                    {CHANGE_TYPE_LABELS[value]}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {kind === 'FETCH_FAILURES' && (
+              <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+                Échecs consécutifs / Consecutive failures
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={minConsecutiveFailures}
+                  onChange={(event) => setMinConsecutiveFailures(event.target.value)}
+                  required
+                  className={INPUT_CLASS}
+                />
+              </label>
+            )}
+
+            {kind === 'TEXT_DIFF_SIZE' && (
+              <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+                Mots modifiés (min) / Changed words (min)
+                <input
+                  type="number"
+                  min={1}
+                  max={100000}
+                  value={minDiffWords}
+                  onChange={(event) => setMinDiffWords(event.target.value)}
+                  required
+                  className={INPUT_CLASS}
+                />
+              </label>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-xs text-slate-400">
+              Types de page (aucun = tous) / Page types (none = all) :
+            </span>
+            {(Object.keys(PAGE_TYPE_LABELS) as PageType[]).map((value) => (
+              <label key={value} className="flex items-center gap-2 text-xs text-slate-200">
+                <input
+                  type="checkbox"
+                  checked={pageTypes.includes(value)}
+                  onChange={() => setPageTypes((prev) => toggleValue(prev, value))}
+                  className="accent-sky-500"
+                />
+                {PAGE_TYPE_LABELS[value]}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-end justify-between gap-3">
+            <label className="flex items-center gap-2 text-xs text-slate-200">
+              <input
+                type="checkbox"
+                checked={notify}
+                onChange={(event) => setNotify(event.target.checked)}
+                className="accent-sky-500"
+              />
+              Envoyer aux webhooks (alert.triggered) / Send to webhooks
+            </label>
+
+            <div className="flex flex-wrap items-end gap-2">
+              <label className="flex flex-col gap-1.5 text-xs text-slate-300">
+                Jours testés / Days tested
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={testDays}
+                  onChange={(event) => setTestDays(event.target.value)}
+                  className={`${INPUT_CLASS} w-24`}
+                />
+              </label>
+              <button
+                type="button"
+                onClick={() => void handleTest()}
+                disabled={isSaving}
+                className="inline-flex items-center rounded-lg border border-slate-600 px-4 py-2 text-sm font-medium text-slate-100 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Tester sur l’historique / Test on history
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="inline-flex items-center rounded-lg border border-sky-500/60 bg-sky-500/10 px-4 py-2 text-sm font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Créer la règle / Create rule
+              </button>
+            </div>
+          </div>
+        </form>
+
+        {errorMessage && (
+          <p className="mt-3 text-sm text-red-400">{errorMessage}</p>
+        )}
+        {statusMessage && (
+          <p className="mt-3 text-xs text-slate-300">{statusMessage}</p>
+        )}
+
+        {/* testResult / resultatTest : correspondances simulées, rien n'est enregistré */}
+        {/* Simulated matches, nothing is stored */}
+        {testResult && (
+          <div className="mt-4 rounded-xl border border-slate-800 bg-slate-950/60 p-4 text-xs">
+            <p className="text-slate-300">
+              {testResult.matches.length} correspondance(s) sur {testResult.evaluated}{' '}
+              élément(s) des {testResult.days} derniers jours. /{' '}
+              {testResult.matches.length} match(es) out of {testResult.evaluated} item(s) in
+              the last {testResult.days} days.
+            </p>
+            {testResult.matches.length > 0 && (
+              <ul className="mt-2 flex flex-col gap-1">
+                {testResult.matches.map((match, index) => (
+                  <li
+                    key={`${match.changeId ?? 'run'}-${match.monitoredPageId}-${index}`}
+                    className="text-slate-400"
+                  >
+                    <span className="text-slate-500">{formatDateTime(match.occurredAt)}</span>{' '}
+                    · {match.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold">Alertes récentes / Recent alerts</h2>
+          <button
+            type="button"
+            onClick={() => void handleRefreshAlerts()}
+            disabled={isSaving}
+            className="rounded-lg border border-slate-600 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Rafraîchir / Refresh
+          </button>
+        </div>
+
+        {alerts.length === 0 ? (
+          <p className="mt-4 text-xs text-slate-400">
+            Aucune alerte déclenchée. / No alert triggered yet.
+          </p>
+        ) : (
+          <ul className="mt-4 flex flex-col gap-2">
+            {alerts.map((alert) => (
+              <li
+                key={alert.id}
+                className="flex flex-col gap-1 rounded-xl border border-slate-800 bg-slate-900/80 px-4 py-3 text-xs"
+              >
+                <p className="flex flex-wrap items-center gap-2">
+                  <span className="rounded-full border border-amber-400/60 bg-amber-400/10 px-2 py-0.5 text-[10px] font-medium text-amber-300">
+                    {alert.rule.name}
+                  </span>
+                  <span className="text-slate-500">{formatDateTime(alert.createdAt)}</span>
+                  <span className="text-slate-400">
+                    {alert.monitoredPage.competitor.name} ·{' '}
+                    {PAGE_TYPE_LABELS[alert.monitoredPage.pageType]}
+                  </span>
+                </p>
+                <p className="break-words text-slate-200">{alert.message}</p>
+                {alert.changeId !== null && (
+                  <Link
+                    href={`/projects/${projectId}/changes?ids=${alert.changeId}`}
+                    className="text-sky-300 hover:underline"
+                  >
+                    Voir le changement / View change
+                  </Link>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,131 @@
+// projectAlertsPage / pageAlertesProjet :
+// page serveur pour les règles d'alerte et les alertes déclenchées d'un projet.
+// Server page for a project's alert rules and triggered alerts.
+
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { prisma } from '@/lib/db';
+import { getProjectRole, roleAtLeast } from '@/lib/access';
+import AlertRulesPageClient, {
+  type AlertEventView,
+  type AlertRuleView,
+} from './AlertRulesPageClient';
+import ReadOnlyNotice from '../../../ReadOnlyNotice';
+
+// PageProps / propsPage : params contient projectId sous forme de Promise (Next 16)
+// Page props: params contains projectId as a Promise (Next 16)
+type PageProps = {
+  params: Promise<{
+    projectId: string;
+  }>;
+};
+
+export default async function ProjectAlertsPage({ params }: PageProps) {
+  const { projectId } = await params;
+
+  const id = Number(projectId);
+  if (!Number.isFinite(id) || id <= 0) {
+    notFound();
+  }
+
+  // projectRole / roleProjet : null si le projet est hors des espaces de l'utilisateur
+  // null when the project is outside the user's workspaces
+  const role = await getProjectRole(id);
+  if (!role) {
+    notFound();
+  }
+
+  const project = await prisma.project.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      name: true,
+      competitors: {
+        orderBy: { name: 'asc' },
+        select: { id: true, name: true },
+      },
+    },
+  });
+
+  if (!project) {
+    notFound();
+  }
+
+  const rules = await prisma.alertRule.findMany({
+    where: { projectId: id },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const initialRules: AlertRuleView[] = rules.map((rule) => ({
+    id: rule.id,
+    name: rule.name,
+    kind: rule.kind,
+    competitorId: rule.competitorId,
+    pageTypes: rule.pageTypes,
+    changeTypes: rule.changeTypes,
+    priceDirection: rule.priceDirection,
+    minPriceDeltaPct: rule.minPriceDeltaPct,
+    minConsecutiveFailures: rule.minConsecutiveFailures,
+    minDiffWords: rule.minDiffWords,
+    notify: rule.notify,
+    enabled: rule.enabled,
+  }));
+
+  // recentAlerts / alertesRecentes : mêmes champs que GET /api/projects/[projectId]/alerts
+  // Same fields as GET /api/projects/[projectId]/alerts
+  const alerts = await prisma.alertEvent.findMany({
+    where: { projectId: id },
+    orderBy: { createdAt: 'desc' },
+    take: 100,
+    include: {
+      rule: { select: { id: true, name: true, kind: true } },
+      monitoredPage: {
+        select: {
+          id: true,
+          url: true,
+          pageType: true,
+          competitor: { select: { id: true, name: true } },
+        },
+      },
+    },
+  });
+
+  const initialAlerts: AlertEventView[] = alerts.map((alert) => ({
+    id: alert.id,
+    changeId: alert.changeId,
+    message: alert.message,
+    createdAt: alert.createdAt.toISOString(),
+    rule: alert.rule,
+    monitoredPage: alert.monitoredPage,
+  }));
+
+  return (
+    <main className="mx-auto flex max-w-5xl flex-col gap-6 px-4 py-6">
+      <div>
+        <p className="mb-1 text-xs text-slate-400">
+          <Link href={`/projects/${project.id}`} className="hover:underline">
+            ← Retour au projet / Back to project
+          </Link>
+        </p>
+        <h1 className="text-2xl font-semibold">
+          Alertes – {project.name}
+        </h1>
+        <p className="mt-2 text-sm text-slate-300">
+          Règles évaluées après chaque scrape : variation de prix, type de
+          changement, échecs consécutifs ou diff de texte important. / Rules
+          evaluated after each scrape: price moves, change types, consecutive
+          failures or large text diffs.
+        </p>
+      </div>
+
+      {!roleAtLeast(role, 'EDITOR') && <ReadOnlyNotice />}
+
+      <AlertRulesPageClient
+        projectId={project.id}
+        competitors={project.competitors}
+        initialRules={initialRules}
+        initialAlerts={initialAlerts}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,104 @@
+// changeDiffView / vueDiffChangement : rendu des hunks ligne + mot d'un changement TEXT
+// Renders line + word hunks of a TEXT change (inline red / green)
+
+import type { DiffLine, TextDiff } from '@/lib/textDiff';
+
+type ChangeDiffViewProps = {
+  diff: TextDiff;
+};
+
+// lineClasses / classesLigne : couleur de fond selon le type de ligne
+// Background colour per line kind
+const LINE_CLASSES: Record<DiffLine['kind'], string> = {
+  context: 'text-slate-400',
+  added: 'bg-emerald-500/10 text-emerald-200',
+  removed: 'bg-red-500/10 text-red-200 line-through decoration-red-400/60',
+  modified: 'bg-amber-500/5 text-slate-100',
+};
+
+// linePrefix / prefixeLigne : repère visuel façon diff unifié
+// Unified-diff-like visual marker
+const LINE_PREFIX: Record<DiffLine['kind'], string> = {
+  context: ' ',
+  added: '+',
+  removed: '-',
+  modified: '~',
+};
+
+// renderLineContent / rendreContenuLigne : segments mot à mot pour les lignes modifiées
+// Word-level segments for modified lines
+function renderLineContent(line: DiffLine) {
+  if (line.kind !== 'modified') {
+    return line.text;
+  }
+
+  return line.segments.map((segment, index) => {
+    if (segment.kind === 'added') {
+      return (
+        <span
+          key={index}
+          className="rounded-sm bg-emerald-500/25 text-emerald-100"
+        >
+          {segment.text}
+        </span>
+      );
+    }
+    if (segment.kind === 'removed') {
+      return (
+        <span
+          key={index}
+          className="rounded-sm bg-red-500/25 text-red-200 line-through"
+        >
+          {segment.text}
+        </span>
+      );
+    }
+    return <span key={index}>{segment.text}</span>;
+  });
+}
+
+export default function ChangeDiffView({ diff }: ChangeDiffViewProps) {
+  const { stats } = diff;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-[10px] text-slate-400">
+        <span className="text-emerald-300">+{stats.linesAdded}</span> ·{' '}
+        <span className="text-red-300">-{stats.linesRemoved}</span> ·{' '}
+        <span className="text-amber-300">~{stats.linesModified}</span> lignes
+        / lines · +{stats.wordsAdded} / -{stats.wordsRemoved} mots / words
+      </p>
+
+      {diff.hunks.map((hunk, hunkIndex) => (
+        <div
+          key={hunkIndex}
+          className="overflow-hidden rounded-md border border-slate-800 bg-slate-900/80"
+        >
+          <p className="border-b border-slate-800 bg-slate-950/60 px-2 py-0.5 font-mono text-[10px] text-slate-500">
+            @@ ligne {hunk.oldStart} → ligne {hunk.newStart} @@
+          </p>
+          <div className="font-mono text-[11px]">
+            {hunk.lines.map((line, lineIndex) => (
+              <div
+                key={lineIndex}
+                className={`flex gap-2 whitespace-pre-wrap px-2 py-0.5 ${LINE_CLASSES[line.kind]}`}
+              >
+                <span className="select-none text-slate-500">
+                  {LINE_PREFIX[line.kind]}
+                </span>
+                <span className="break-words">{renderLineContent(line)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {diff.truncated && (
+        <p className="text-[10px] text-slate-500">
+          Diff tronqué (trop de modifications). / Diff truncated (too many
+          changes).
+        </p>
+      )}
+    </div>
+  );
+}
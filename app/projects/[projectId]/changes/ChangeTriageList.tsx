@@ -0,0 +1,370 @@
+'use client';
+
+// changeTriageList / listeTriageChangements : liste des changements avec triage unitaire et en masse
+// Change list with per-change and bulk triage (status, assignee, analyst notes)
+
+import { useState, type ReactNode } from 'react';
+import { apiJson } from '@/lib/apiClient';
+
+// TriageStatus / statutTriage : miroir client de l'enum Prisma
+// Client-side mirror of the Prisma enum
+export type TriageStatus = 'NEW' | 'REVIEWED' | 'IMPORTANT' | 'DISMISSED';
+
+// TriageItem / elementTriage : contenu rendu côté serveur + état de triage
+// Server-rendered content + triage state
+export type TriageItem = {
+  id: number;
+  triageStatus: TriageStatus;
+  assignee: string | null;
+  notes: string | null;
+  content: ReactNode;
+};
+
+type TriageState = {
+  triageStatus: TriageStatus;
+  assignee: string;
+  notes: string;
+};
+
+type ChangeTriageListProps = {
+  projectId: number;
+  items: TriageItem[];
+};
+
+// labelsTriage / libellesTriage : affichage lisible des statuts
+// Human-readable labels for triage statuses
+const TRIAGE_LABELS: Record<TriageStatus, string> = {
+  NEW: 'Non trié / New',
+  REVIEWED: 'Revu / Reviewed',
+  IMPORTANT: 'Important',
+  DISMISSED: 'Écarté / Dismissed',
+};
+
+// triageClasses / classesTriage : couleur du badge par statut
+// Badge colour per status
+const TRIAGE_CLASSES: Record<TriageStatus, string> = {
+  NEW: 'border-slate-600 text-slate-300',
+  REVIEWED: 'border-sky-500/60 text-sky-300',
+  IMPORTANT: 'border-amber-500/60 text-amber-300',
+  DISMISSED: 'border-slate-700 text-slate-500',
+};
+
+const TRIAGE_ORDER: TriageStatus[] = ['NEW', 'REVIEWED', 'IMPORTANT', 'DISMISSED'];
+
+export default function ChangeTriageList({
+  projectId,
+  items,
+}: ChangeTriageListProps) {
+  // triageById / triageParId : état courant (et brouillons assignee / notes) par changement
+  // Current state (and assignee / notes drafts) per change
+  const [triageById, setTriageById] = useState<Record<number, TriageState>>(
+    () =>
+      Object.fromEntries(
+        items.map((item) => [
+          item.id,
+          {
+            triageStatus: item.triageStatus,
+            assignee: item.assignee ?? '',
+            notes: item.notes ?? '',
+          },
+        ]),
+      ),
+  );
+
+  // selection / selection : changements cochés pour les actions en masse
+  // Changes checked for bulk actions
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [bulkAssignee, setBulkAssignee] = useState<string>('');
+  const [isBulkSaving, setIsBulkSaving] = useState<boolean>(false);
+
+  // savingChangeId / idChangementEnregistrement : changement en cours d'enregistrement
+  // Change currently being saved
+  const [savingChangeId, setSavingChangeId] = useState<number | null>(null);
+
+  // messages / messages : erreur et statut de la liste
+  // Error and status messages for the list
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  const allSelected = items.length > 0 && selectedIds.length === items.length;
+
+  // handleToggleSelected / gererBasculeSelection
+  function handleToggleSelected(changeId: number) {
+    setSelectedIds((prev) =>
+      prev.includes(changeId)
+        ? prev.filter((id) => id !== changeId)
+        : [...prev, changeId],
+    );
+  }
+
+  // handleToggleAll / gererBasculeTout
+  function handleToggleAll() {
+    setSelectedIds(allSelected ? [] : items.map((item) => item.id));
+  }
+
+  // updateDraft / majBrouillon : édition locale assignee / notes
+  // Local edit of assignee / notes
+  function updateDraft(changeId: number, patch: Partial<TriageState>) {
+    setTriageById((prev) => ({
+      ...prev,
+      [changeId]: { ...prev[changeId], ...patch },
+    }));
+  }
+
+  // handleSaveChange / gererEnregistrementChangement : PATCH unitaire
+  // Single-change PATCH
+  async function handleSaveChange(
+    changeId: number,
+    patch: Partial<TriageState>,
+  ) {
+    const next = { ...triageById[changeId], ...patch };
+
+    try {
+      setSavingChangeId(changeId);
+      setErrorMessage(null);
+      setStatusMessage(null);
+
+      const updated = await apiJson<{
+        triageStatus: TriageStatus;
+        assignee: string | null;
+        notes: string | null;
+      }>(
+        `/api/changes/${changeId}`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(next),
+        },
+        'Erreur lors du triage du changement. / Error triaging change.',
+      );
+
+      updateDraft(changeId, {
+        triageStatus: updated.triageStatus,
+        assignee: updated.assignee ?? '',
+        notes: updated.notes ?? '',
+      });
+    } catch (error) {
+      console.error('triageChangeError / erreurTriageChangement', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : 'Erreur lors du triage du changement. / Error triaging change.',
+      );
+    } finally {
+      setSavingChangeId(null);
+    }
+  }
+
+  // handleBulkUpdate / gererMiseAJourEnMasse : statut ou responsable pour la sélection
+  // Status or assignee for the selection
+  async function handleBulkUpdate(patch: {
+    triageStatus?: TriageStatus;
+    assignee?: string;
+  }) {
+    if (selectedIds.length === 0) return;
+
+    try {
+      setIsBulkSaving(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+
+      const result = await apiJson<{ updated: number }>(
+        `/api/projects/${projectId}/changes/triage`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ changeIds: selectedIds, ...patch }),
+        },
+        'Erreur lors du triage des changements. / Error triaging changes.',
+      );
+
+      setTriageById((prev) => {
+        const next = { ...prev };
+        for (const id of selectedIds) {
+          next[id] = {
+            ...next[id],
+            ...(patch.triageStatus ? { triageStatus: patch.triageStatus } : {}),
+            ...(patch.assignee !== undefined
+              ? { assignee: patch.assignee.trim() }
+              : {}),
+          };
+        }
+        return next;
+      });
+
+      setSelectedIds([]);
+      setStatusMessage(
+        `${result.updated} changement(s) mis à jour. / ${result.updated} change(s) updated.`,
+      );
+    } catch (error) {
+      console.error('bulkTriageChangesError / erreurTriageChangementsEnMasse', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : 'Erreur lors du triage des changements. / Error triaging changes.',
+      );
+    } finally {
+      setIsBulkSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* bulkBar / barreMasse : actions sur les changements cochés */}
+      {/* Bulk bar: actions on checked changes */}
+      <div className="flex flex-wrap items-center gap-2 rounded-xl border border-slate-800 bg-slate-900/60 px-3 py-2 text-xs">
+        <label className="flex items-center gap-2 text-slate-300">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={handleToggleAll}
+            className="accent-sky-500"
+          />
+          {selectedIds.length > 0
+            ? `${selectedIds.length} sélectionné(s) / selected`
+            : 'Tout sélectionner / Select all'}
+        </label>
+
+        <span className="mx-1 h-4 w-px bg-slate-700" />
+
+        {(['REVIEWED', 'IMPORTANT', 'DISMISSED', 'NEW'] as TriageStatus[]).map(
+          (status) => (
+            <button
+              key={status}
+              type="button"
+              onClick={() => void handleBulkUpdate({ triageStatus: status })}
+              disabled={isBulkSaving || selectedIds.length === 0}
+              className={`rounded-full border px-2 py-0.5 text-[11px] hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50 ${TRIAGE_CLASSES[status]}`}
+            >
+              {TRIAGE_LABELS[status]}
+            </button>
+          ),
+        )}
+
+        <span className="mx-1 h-4 w-px bg-slate-700" />
+
+        <input
+          type="text"
+          value={bulkAssignee}
+          onChange={(event) => setBulkAssignee(event.target.value)}
+          placeholder="Responsable / Assignee"
+          className="w-40 rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-[11px] outline-none focus:border-sky-500"
+        />
+        <button
+          type="button"
+          onClick={() => void handleBulkUpdate({ assignee: bulkAssignee })}
+          disabled={isBulkSaving || selectedIds.length === 0}
+          className="text-[11px] text-sky-400 hover:text-sky-300 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Assigner / Assign
+        </button>
+      </div>
+
+      {errorMessage && (
+        <p className="text-sm text-red-400">{errorMessage}</p>
+      )}
+      {statusMessage && (
+        <p className="text-xs text-slate-300">{statusMessage}</p>
+      )}
+
+      <ul className="flex flex-col gap-3">
+        {items.map((item) => {
+          const triage = triageById[item.id];
+          const isSaving = savingChangeId === item.id;
+
+          return (
+            <li
+              key={item.id}
+              className={`rounded-xl border bg-slate-900/80 px-4 py-3 ${
+                triage.triageStatus === 'IMPORTANT'
+                  ? 'border-amber-500/40'
+                  : 'border-slate-800'
+              } ${triage.triageStatus === 'DISMISSED' ? 'opacity-60' : ''}`}
+            >
+              <div className="flex gap-3">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(item.id)}
+                  onChange={() => handleToggleSelected(item.id)}
+                  className="mt-0.5 accent-sky-500"
+                  aria-label={`Sélectionner le changement ${item.id}`}
+                />
+
+                <div className="flex min-w-0 flex-1 flex-col gap-2">
+                  {item.content}
+
+                  {/* triageControls / controlesTriage : statut, responsable, notes */}
+                  {/* Triage controls: status, assignee, notes */}
+                  <div className="flex flex-wrap items-center gap-2 border-t border-slate-800 pt-2 text-[11px]">
+                    <select
+                      value={triage.triageStatus}
+                      onChange={(event) =>
+                        void handleSaveChange(item.id, {
+                          triageStatus: event.target.value as TriageStatus,
+                        })
+                      }
+                      disabled={isSaving}
+                      className={`rounded-full border bg-slate-950 px-2 py-0.5 outline-none ${TRIAGE_CLASSES[triage.triageStatus]}`}
+                    >
+                      {TRIAGE_ORDER.map((status) => (
+                        <option key={status} value={status}>
+                          {TRIAGE_LABELS[status]}
+                        </option>
+                      ))}
+                    </select>
+                    {triage.assignee && (
+                      <span className="text-slate-400">
+                        Responsable : {triage.assignee}
+                      </span>
+                    )}
+                  </div>
+
+                  <details className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2">
+                    <summary className="cursor-pointer text-[11px] text-slate-200">
+                      Notes d’analyse / Analyst notes
+                      {triage.notes && ' ·'}
+                    </summary>
+                    <div className="mt-2 flex flex-col gap-2">
+                      <input
+                        type="text"
+                        value={triage.assignee}
+                        onChange={(event) =>
+                          updateDraft(item.id, { assignee: event.target.value })
+                        }
+                        placeholder="Responsable / Assignee"
+                        className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs outline-none focus:border-sky-500"
+                      />
+                      <textarea
+                        value={triage.notes}
+                        onChange={(event) =>
+                          updateDraft(item.id, { notes: event.target.value })
+                        }
+                        rows={3}
+                        placeholder="Contexte, impact, suite à donner… / Context, impact, follow-up…"
+                        className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-xs outline-none focus:border-sky-500"
+                      />
+                      <div className="flex justify-end">
+                        <button
+                          type="button"
+                          onClick={() => void handleSaveChange(item.id, {})}
+                          disabled={isSaving}
+                          className="rounded-lg border border-sky-500/60 bg-sky-500/10 px-3 py-1 text-xs font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+                        >
+                          {isSaving ? 'Enregistrement…' : 'Enregistrer'}
+                        </button>
+                      </div>
+                    </div>
+                  </details>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+// changesFilterBar / barreFiltresChangements : filtres de l'historique, conservés dans l'URL
+// Changes history filters, kept in the URL query string (shareable, survives reloads)
+
+import { useState, FormEvent } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+
+// ChangeFilterValues / valeursFiltres : valeurs brutes de la query string
+// Raw query string values
+export type ChangeFilterValues = {
+  from: string;
+  to: string;
+  competitorId: string;
+  pageType: string;
+  changeType: string;
+  triage: string;
+  q: string;
+};
+
+type ChangesFilterBarProps = {
+  competitors: { id: number; name: string }[];
+  initialValues: ChangeFilterValues;
+};
+
+// filterOptions / optionsFiltres : libellés des listes déroulantes
+// Select labels
+const PAGE_TYPE_OPTIONS: Record<string, string> = {
+  PRICING: 'Pricing / Tarifs',
+  LANDING: 'Landing / Page principale',
+  PRODUCT: 'Produit / Offre',
+  BLOG: 'Blog / Contenu',
+  OTHER: 'Autre',
+};
+
+const CHANGE_TYPE_OPTIONS: Record<string, string> = {
+  TEXT: 'Texte',
+  PRICE: 'Prix',
+  SECTION_ADDED: 'Section ajoutée',
+  SECTION_REMOVED: 'Section supprimée',
+  OTHER: 'Autre',
+};
+
+const TRIAGE_OPTIONS: Record<string, string> = {
+  NEW: 'Non triés / Untriaged',
+  REVIEWED: 'Revus / Reviewed',
+  IMPORTANT: 'Importants / Important',
+  DISMISSED: 'Écartés / Dismissed',
+};
+
+const INPUT_CLASS =
+  'rounded-lg border border-slate-700 bg-slate-900 px-2 py-1.5 text-xs outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500';
+
+export default function ChangesFilterBar({
+  competitors,
+  initialValues,
+}: ChangesFilterBarProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+
+  // filterValues / valeursFiltres : état du formulaire, appliqué à la soumission
+  // Form state, applied on submit
+  const [values, setValues] = useState<ChangeFilterValues>(initialValues);
+
+  // updateValue / majValeur
+  function updateValue(key: keyof ChangeFilterValues, value: string) {
+    setValues((prev) => ({ ...prev, [key]: value }));
+  }
+
+  // handleApply / gererApplication : nouvelle query string, sans curseur (retour page 1)
+  // New query string, without cursor (back to the first page)
+  function handleApply(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(values)) {
+      const trimmed = value.trim();
+      if (trimmed) params.set(key, trimmed);
+    }
+
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname);
+  }
+
+  // handleReset / gererReinitialisation
+  function handleReset() {
+    setValues({
+      from: '',
+      to: '',
+      competitorId: '',
+      pageType: '',
+      changeType: '',
+      triage: '',
+      q: '',
+    });
+    router.push(pathname);
+  }
+
+  return (
+    <form
+      onSubmit={handleApply}
+      className="mb-4 flex flex-col gap-3 rounded-xl border border-slate-800 bg-slate-900/60 p-3"
+    >
+      <div className="grid gap-2 sm:grid-cols-3 lg:grid-cols-4">
+        <input
+          type="search"
+          value={values.q}
+          onChange={(event) => updateValue('q', event.target.value)}
+          placeholder="Rechercher… / Search…"
+          className={`${INPUT_CLASS} sm:col-span-2`}
+        />
+        <label className="flex items-center gap-1 text-[11px] text-slate-400">
+          Du
+          <input
+            type="date"
+            value={values.from}
+            onChange={(event) => updateValue('from', event.target.value)}
+            className={`${INPUT_CLASS} flex-1`}
+          />
+        </label>
+        <label className="flex items-center gap-1 text-[11px] text-slate-400">
+          Au
+          <input
+            type="date"
+            value={values.to}
+            onChange={(event) => updateValue('to', event.target.value)}
+            className={`${INPUT_CLASS} flex-1`}
+          />
+        </label>
+
+        <select
+          value={values.competitorId}
+          onChange={(event) => updateValue('competitorId', event.target.value)}
+          className={INPUT_CLASS}
+        >
+          <option value="">Tous les concurrents / All competitors</option>
+          {competitors.map((competitor) => (
+            <option key={competitor.id} value={String(competitor.id)}>
+              {competitor.name}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={values.pageType}
+          onChange={(event) => updateValue('pageType', event.target.value)}
+          className={INPUT_CLASS}
+        >
+          <option value="">Tous les types de page / All page types</option>
+          {Object.entries(PAGE_TYPE_OPTIONS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={values.changeType}
+          onChange={(event) => updateValue('changeType', event.target.value)}
+          className={INPUT_CLASS}
+        >
+          <option value="">Tous les changements / All change types</option>
+          {Object.entries(CHANGE_TYPE_OPTIONS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={values.triage}
+          onChange={(event) => updateValue('triage', event.target.value)}
+          className={INPUT_CLASS}
+        >
+          <option value="">Tous les statuts / All statuses</option>
+          {Object.entries(TRIAGE_OPTIONS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={handleReset}
+          className="rounded-lg border border-slate-600 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-800"
+        >
+          Réinitialiser / Reset
+        </button>
+        <button
+          type="submit"
+          className="rounded-lg border border-sky-500/60 bg-sky-500/10 px-3 py-1.5 text-xs font-medium hover:bg-sky-500/20"
+        >
+          Filtrer / Apply
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -4,7 +4,21 @@
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import { prisma } from '@/lib/db';
-import type { ChangeType, PageType } from '@prisma/client';
+import { getProjectRole, roleAtLeast } from '@/lib/access';
+import { formatPrice, formatPriceDelta } from '@/lib/pricingDiff';
+import { parseTextDiff } from '@/lib/textDiff';
+import {
+  listProjectChanges,
+  parseChangeFilters,
+  parseChangePageParams,
+  serializeChangeFilters,
+  type ChangeFilters,
+} from '@/lib/changeQueries';
+import type { ChangeType, PageType, PriceChangeKind } from '@prisma/client';
+import ChangeDiffView from './ChangeDiffView';
+import ChangeTriageList from './ChangeTriageList';
+import ChangesFilterBar from './ChangesFilterBar';
+import ReadOnlyNotice from '../../../ReadOnlyNotice';
 
 // parseProjectId / parserIdProjet : convertit et valide l'id projet
 // Converts and validates the project id
@@ -36,28 +50,57 @@ const CHANGE_TYPE_LABELS: Record<ChangeType, string> = {
   OTHER: 'Autre changement',
 };
 
+// labelsTypePrix / libellesTypePrix : détail des changements PRICE par produit
+// Labels for item-level PRICE changes
+const PRICE_KIND_LABELS: Record<PriceChangeKind, string> = {
+  PRICE_UPDATED: 'Prix modifié / Price updated',
+  ITEM_ADDED: 'Nouveau produit / Newly listed',
+  ITEM_REMOVED: 'Produit retiré / Delisted',
+};
+
+// priceDeltaClasses / classesEcartPrix : hausse en rouge, baisse en vert (point de vue client)
+// Increase in red, decrease in green (customer point of view)
+function priceDeltaClass(priceDelta: number | null): string {
+  if (priceDelta === null) return 'text-slate-300';
+  return priceDelta > 0 ? 'text-red-300' : 'text-emerald-300';
+}
+
 export default async function ProjectChangesPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ projectId: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
 }) {
   // unwrapParams / recupererParams : Next 16 -> params est un Promise
   // unwrapParams: Next 16 -> params is a Promise
   const { projectId: rawProjectId } = await params;
   const projectId = parseProjectId(rawProjectId);
+  const rawSearchParams = await searchParams;
 
   if (!projectId) {
     notFound();
   }
 
-  // fetchProject / chargerProjet : on récupère juste les métadonnées
-  // Fetch basic project metadata
+  // projectRole / roleProjet : null si le projet est hors des espaces de l'utilisateur
+  // null when the project is outside the user's workspaces
+  const role = await getProjectRole(projectId);
+  if (!role) {
+    notFound();
+  }
+
+  // fetchProject / chargerProjet : métadonnées + concurrents pour le filtre
+  // Fetch project metadata + competitors for the filter bar
   const project = await prisma.project.findUnique({
     where: { id: projectId },
     select: {
       id: true,
       name: true,
       description: true,
+      competitors: {
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' },
+      },
     },
   });
 
@@ -65,44 +108,55 @@ export default async function ProjectChangesPage({
     notFound();
   }
 
-  // computeSinceDate / calculDateDepuis : ici on prend les 7 derniers jours
-  // Compute "since" date: last 7 days
-  const sinceDate = new Date();
-  sinceDate.setDate(sinceDate.getDate() - 7);
+  // parseFilters / parserFiltres : filtres invalides => ignorés avec un message
+  // Invalid filters are ignored and reported
+  const parsedFilters = parseChangeFilters(rawSearchParams);
+  const filters: ChangeFilters = parsedFilters.filters ?? {
+    from: null,
+    to: null,
+    competitorId: null,
+    pageType: null,
+    changeType: null,
+    triageStatus: null,
+    q: null,
+    ids: null,
+  };
+  const parsedPage = parseChangePageParams(rawSearchParams);
+  const pagination = parsedPage.page ?? { cursor: null, limit: 50 };
+  const filterError = parsedFilters.error ?? parsedPage.error;
 
-  // fetchChanges / chargerChangements :
-  // on récupère les changements liés aux pages dont le concurrent appartient au projet
-  // Fetch changes for pages whose competitor belongs to this project
-  const changes = await prisma.change.findMany({
-    where: {
-      createdAt: {
-        gte: sinceDate,
-      },
-      monitoredPage: {
-        competitor: {
-          projectId,
-        },
-      },
-    },
-    include: {
-      monitoredPage: {
-        select: {
-          url: true,
-          pageType: true,
-          competitor: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-        },
-      },
-    },
-    orderBy: {
-      createdAt: 'desc',
-    },
-    take: 100, // maxResults / maxResultats : limite de sécurité
-  });
+  const filterQuery = serializeChangeFilters(filters);
+  const hasFilters = filterQuery.toString().length > 0;
+
+  // fetchChanges / chargerChangements : une page de résultats (curseur = dernier id affiché)
+  // One page of results (cursor = last id shown)
+  const { items: changes, nextCursor } = await listProjectChanges(
+    projectId,
+    filters,
+    pagination,
+  );
+
+  // paginationLinks / liensPagination : les filtres sont conservés
+  // Filters are kept in pagination links
+  const firstPageHref = hasFilters
+    ? `/projects/${project.id}/changes?${filterQuery}`
+    : `/projects/${project.id}/changes`;
+  const nextPageParams = new URLSearchParams(filterQuery);
+  if (nextCursor) nextPageParams.set('cursor', String(nextCursor));
+  const nextPageHref = `/projects/${project.id}/changes?${nextPageParams}`;
+
+  // periodLabel / libellePeriode : résumé de la plage de dates filtrée
+  // Summary of the filtered date range
+  const formatDay = (date: Date) =>
+    date.toLocaleDateString('fr-FR', { timeZone: 'UTC' });
+  const periodLabel =
+    filters.from && filters.to
+      ? `du ${formatDay(filters.from)} au ${formatDay(filters.to)}`
+      : filters.from
+        ? `depuis le ${formatDay(filters.from)}`
+        : filters.to
+          ? `jusqu’au ${formatDay(filters.to)}`
+          : 'toutes dates / all dates';
 
   return (
     <main className="min-h-screen bg-slate-950 text-slate-50">
@@ -130,7 +184,7 @@ export default async function ProjectChangesPage({
             </span>
           </p>
           <p className="mt-1 text-xs text-slate-400">
-            Période couverte : 7 derniers jours. / Covered period: last 7 days.
+            Période : {periodLabel}.
           </p>
           {project.description && (
             <p className="mt-2 text-xs text-slate-400">
@@ -139,33 +193,78 @@ export default async function ProjectChangesPage({
           )}
         </header>
 
+        {!roleAtLeast(role, 'EDITOR') && <ReadOnlyNotice />}
+
+        {/* ChangesFilterBar / barreFiltres : date, concurrent, type de page / changement, triage, texte */}
+        {/* Filters: dates, competitor, page / change type, triage, free text */}
+        <ChangesFilterBar
+          key={filterQuery.toString()}
+          competitors={project.competitors}
+          initialValues={{
+            from: filterQuery.get('from') ?? '',
+            to: filterQuery.get('to') ?? '',
+            competitorId: filterQuery.get('competitorId') ?? '',
+            pageType: filterQuery.get('pageType') ?? '',
+            changeType: filterQuery.get('changeType') ?? '',
+            triage: filterQuery.get('triage') ?? '',
+            q: filterQuery.get('q') ?? '',
+          }}
+        />
+
+        {/* selectedChanges / changementsSelectionnes : sources d'un fait marquant ou notification */}
+        {/* Coming from a report highlight's sources or a notification */}
+        {filters.ids && (
+          <p className="mb-3 text-xs text-slate-300">
+            Changements sélectionnés : {filters.ids.map((id) => `#${id}`).join(', ')}
+            . / Selected changes (report sources or notification).{' '}
+            <Link
+              href={`/projects/${project.id}/changes`}
+              className="text-sky-300 hover:underline"
+            >
+              Voir tout l’historique / Show full history
+            </Link>
+          </p>
+        )}
+
+        {filterError && (
+          <p className="mb-3 text-sm text-red-400">
+            {filterError} Filtre ignoré. / Filter ignored.
+          </p>
+        )}
+
         {changes.length === 0 ? (
           <p className="text-sm text-slate-300">
-            Aucun changement détecté sur les pages surveillées de ce projet
-            sur les 7 derniers jours. / No changes detected on monitored pages
-            for this project in the last 7 days.
+            {hasFilters
+              ? 'Aucun changement ne correspond à ces filtres. / No changes match these filters.'
+              : 'Aucun changement détecté sur les pages surveillées de ce projet. / No changes detected on monitored pages for this project.'}
           </p>
         ) : (
           <section className="space-y-3">
             <p className="text-xs text-slate-400">
               {changes.length}{' '}
               {changes.length <= 1
-                ? 'changement récent'
-                : 'changements récents'}
-              .
+                ? 'changement affiché'
+                : 'changements affichés'}
+              {pagination.cursor ? ' (page suivante)' : ''}.
             </p>
 
-            <ul className="flex flex-col gap-3">
-              {changes.map((change) => {
+            {/* ChangeTriageList / listeTriageChangements : contenu rendu ici, triage côté client */}
+            {/* Content rendered here, triage handled client-side */}
+            <ChangeTriageList
+              key={`${filterQuery}:${pagination.cursor ?? ''}`}
+              projectId={project.id}
+              items={changes.map((change) => {
+                const textDiff = parseTextDiff(change.diff);
                 const oldPreview = (change.oldValue ?? '').slice(0, 600);
                 const newPreview = (change.newValue ?? '').slice(0, 600);
                 const hasContent = oldPreview || newPreview;
 
-                return (
-                  <li
-                    key={change.id}
-                    className="rounded-xl border border-slate-800 bg-slate-900/80 px-4 py-3"
-                  >
+                return {
+                  id: change.id,
+                  triageStatus: change.triageStatus,
+                  assignee: change.assignee,
+                  notes: change.notes,
+                  content: (
                     <div className="flex flex-col gap-2">
                       <div className="flex flex-wrap items-center justify-between gap-2">
                         <div className="flex flex-col">
@@ -213,9 +312,54 @@ export default async function ProjectChangesPage({
                         </p>
                       </div>
 
-                      {/* diffPreview / apercuDiff : affichage Avant / Après du texte */}
-                      {/* Diff preview: Before / After text */}
-                      {hasContent && (
+                      {/* structuredDiff / diffStructure : hunks ligne + mot en rouge / vert */}
+                      {/* Structured diff: line + word hunks in red / green */}
+                      {textDiff && (
+                        <details className="mt-2 rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2">
+                          <summary className="cursor-pointer text-[11px] text-slate-200">
+                            Voir le détail du contenu / View content diff
+                          </summary>
+                          <div className="mt-2">
+                            <ChangeDiffView diff={textDiff} />
+                          </div>
+                        </details>
+                      )}
+
+                      {/* priceDetail / detailPrix : ancien / nouveau prix et écarts par produit */}
+                      {/* Item-level price detail: old / new price and deltas */}
+                      {change.priceChangeKind && (
+                        <div className="mt-2 rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-[11px] text-slate-300">
+                          <p className="font-semibold text-slate-100">
+                            {PRICE_KIND_LABELS[change.priceChangeKind]} ·{' '}
+                            {change.field}
+                          </p>
+                          <p className="mt-1">
+                            Avant / Before :{' '}
+                            <span className="font-medium">
+                              {formatPrice(change.oldPrice, change.oldCurrency ?? change.currency)}
+                            </span>{' '}
+                            → Après / After :{' '}
+                            <span className="font-medium">
+                              {formatPrice(change.newPrice, change.currency)}
+                            </span>
+                            {change.priceDelta !== null && (
+                              <span
+                                className={`ml-2 font-medium ${priceDeltaClass(change.priceDelta)}`}
+                              >
+                                {formatPriceDelta(
+                                  change.priceDelta,
+                                  change.priceDeltaPct,
+                                  change.currency,
+                                )}
+                              </span>
+                            )}
+                          </p>
+                        </div>
+                      )}
+
+                      {/* diffPreview / apercuDiff : affichage Avant / Après (anciens changements, prix JSON) */}
+                      {/* Diff preview: Before / After (older changes, legacy pricing JSON) */}
+                      {!textDiff && !change.priceChangeKind && hasContent && (
                         <details className="mt-2 rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2">
                           <summary className="cursor-pointer text-[11px] text-slate-200">
                             Voir le détail du contenu / View content diff
@@ -245,10 +389,27 @@ export default async function ProjectChangesPage({
                         </details>
                       )}
                     </div>
-                  </li>
-                );
+                  ),
+                };
               })}
-            </ul>
+            />
+
+            {/* cursorPagination / paginationCurseur : plus anciens / retour au début */}
+            {/* Cursor pagination: older changes / back to newest */}
+            <nav className="flex justify-between pt-2 text-xs">
+              {pagination.cursor ? (
+                <Link href={firstPageHref} className="text-sky-400 hover:underline">
+                  ← Plus récents / Newest
+                </Link>
+              ) : (
+                <span />
+              )}
+              {nextCursor && (
+                <Link href={nextPageHref} className="text-sky-400 hover:underline">
+                  Plus anciens / Older →
+                </Link>
+              )}
+            </nav>
           </section>
         )}
       </div>
@@ -3,8 +3,19 @@
 
 import { notFound } from 'next/navigation';
 import { prisma } from '@/lib/db';
+import { getProjectRole, roleAtLeast } from '@/lib/access';
 import Link from 'next/link';
 import ProjectCompetitorsPanel from './ProjectCompetitorsPanel';
+import ProjectNoiseRulesPanel from './ProjectNoiseRulesPanel';
+import ProjectLlmSettingsPanel from './ProjectLlmSettingsPanel';
+import ProjectWebhooksPanel from './ProjectWebhooksPanel';
+import ProjectDigestPanel from './ProjectDigestPanel';
+import ChangeFeedPanel from '../../ChangeFeedPanel';
+import ReadOnlyNotice from '../../ReadOnlyNotice';
+import { getGlobalLlmSettings, toPublicLlmSettings } from '@/lib/llmProvider';
+import { toWebhookView } from '@/lib/webhooks';
+import { getMailerConfig } from '@/lib/mailer';
+import { COMPETITOR_VIEW_SELECT, projectFeedUrl } from '@/lib/changeFeed';
 
 // parseProjectId / parserIdProjet : convertit le paramètre en nombre et le valide
 // Converts the route parameter into a number and validates it
@@ -31,17 +42,32 @@ export default async function ProjectDetailPage({
     notFound();
   }
 
-  // fetchProject / chargerProjet : récupère le projet avec ses concurrents
-  // Fetch the project with its competitors
+  // projectRole / roleProjet : null si le projet est hors des espaces de l'utilisateur
+  // null when the project is outside the user's workspaces
+  const role = await getProjectRole(projectId);
+  if (!role) {
+    notFound();
+  }
+  const canEdit = roleAtLeast(role, 'EDITOR');
+
+  // fetchProject / chargerProjet : récupère le projet avec ses concurrents, webhooks et abonnés
+  // Fetch the project with its competitors, webhooks and digest subscribers
   const project = await prisma.project.findUnique({
     where: { id: projectId },
     include: {
       competitors: {
         orderBy: { createdAt: 'desc' },
-        include: {
+        select: {
+          ...COMPETITOR_VIEW_SELECT,
           monitoredPages: true,
         },
       },
+      webhookEndpoints: {
+        orderBy: { createdAt: 'asc' },
+      },
+      digestSubscribers: {
+        orderBy: { createdAt: 'asc' },
+      },
     },
   });
 
@@ -79,8 +105,8 @@ export default async function ProjectDetailPage({
           </div>
 
           {/* projectActions / actionsProjet :
-              accès rapide aux changements et aux rapports de veille */}
-          {/* Quick access to recent changes and watch reports */}
+              accès rapide aux changements, aux rapports de veille et aux alertes */}
+          {/* Quick access to recent changes, watch reports and alerts */}
           <div className="flex flex-col items-stretch gap-2 sm:items-end">
             <div className="flex flex-wrap justify-start gap-2 sm:justify-end">
               <Link
@@ -95,6 +121,12 @@ export default async function ProjectDetailPage({
               >
                 Rapports de veille / Watch reports
               </Link>
+              <Link
+                href={`/projects/${project.id}/alerts`}
+                className="inline-flex items-center rounded-lg border border-slate-700 px-3 py-1.5 text-xs font-medium text-slate-100 hover:border-sky-500 hover:bg-sky-500/10"
+              >
+                Alertes / Alerts
+              </Link>
             </div>
             <p className="max-w-xs text-[11px] text-slate-400 text-right sm:text-right">
               Cette vue regroupe les changements détectés sur toutes les pages
@@ -107,6 +139,8 @@ export default async function ProjectDetailPage({
           </div>
         </header>
 
+        {!canEdit && <ReadOnlyNotice />}
+
         {/* ProjectCompetitorsPanel / panneauConcurrentsProjet :
             gestion des concurrents pour ce projet */}
         {/* Manage competitors for this project */}
@@ -114,6 +148,65 @@ export default async function ProjectDetailPage({
           projectId={project.id}
           initialCompetitors={project.competitors}
         />
+
+        {/* editorPanels / panneauxEditeur : réglages, secrets et abonnés (EDITOR et OWNER) */}
+        {/* Settings, secrets and subscribers (EDITOR and OWNER) */}
+        {canEdit && (
+          <>
+            {/* ProjectNoiseRulesPanel / panneauReglesBruitProjet :
+                motifs ignorés avant comparaison + simulation */}
+            {/* Project-level ignore patterns + dry run */}
+            <ProjectNoiseRulesPanel
+              projectId={project.id}
+              initialIgnorePatterns={project.ignorePatterns}
+              initialIgnoreBuiltins={project.ignoreBuiltins}
+            />
+
+            {/* ProjectLlmSettingsPanel / panneauParametresLlmProjet :
+                fournisseur IA des rapports (clé API jamais renvoyée au navigateur) */}
+            {/* Report AI provider (the API key never reaches the browser) */}
+            <ProjectLlmSettingsPanel
+              projectId={project.id}
+              initialSettings={toPublicLlmSettings(project.llmSettings)}
+              globalDefaults={toPublicLlmSettings(getGlobalLlmSettings())}
+            />
+
+            {/* ProjectWebhooksPanel / panneauWebhooksProjet :
+                webhooks sortants signés, bouton de test et journal des livraisons */}
+            {/* Signed outgoing webhooks, test button and delivery log */}
+            <ProjectWebhooksPanel
+              projectId={project.id}
+              initialWebhooks={project.webhookEndpoints.map((endpoint) =>
+                toWebhookView(endpoint),
+              )}
+            />
+
+            {/* ProjectDigestPanel / panneauDigestProjet :
+                abonnés à la synthèse email, envoi immédiat pour tester le SMTP */}
+            {/* Email digest subscribers, immediate send to test SMTP */}
+            <ProjectDigestPanel
+              projectId={project.id}
+              smtpConfigured={getMailerConfig() !== null}
+              initialSubscribers={project.digestSubscribers.map((subscriber) => ({
+                id: subscriber.id,
+                email: subscriber.email,
+                name: subscriber.name,
+                frequency: subscriber.frequency,
+                unsubscribedAt: subscriber.unsubscribedAt?.toISOString() ?? null,
+                lastSentAt: subscriber.lastSentAt?.toISOString() ?? null,
+                lastError: subscriber.lastError,
+              }))}
+            />
+
+            {/* ChangeFeedPanel / panneauFluxChangements :
+                URL secrète du flux Atom des changements du projet */}
+            {/* Secret Atom feed URL of the project's changes */}
+            <ChangeFeedPanel
+              tokenEndpoint={`/api/projects/${project.id}/feed-token`}
+              initialFeedUrl={projectFeedUrl(project.id, project.feedToken)}
+            />
+          </>
+        )}
       </div>
     </main>
   );
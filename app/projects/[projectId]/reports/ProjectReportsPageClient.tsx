@@ -1,16 +1,12 @@
 'use client';
 
 import { useState, FormEvent } from 'react';
-
-// AiHighlight / faitMarquantIA : un fait marquant structuré par l'IA
-// AIHighlight: one structured AI highlight item
-export type AiHighlight = {
-  title: string;
-  detail: string;
-  competitor: string;
-  changeType: string;
-  impact: string;
-};
+import Link from 'next/link';
+import {
+  parseReportBaseline,
+  type ReportBaseline,
+} from '@/lib/reportBaseline';
+import { parseHighlights, type ReportHighlight } from '@/lib/reportHighlights';
 
 // ProjectInfo / infoProjet : informations minimales sur le projet
 // Minimal information about the project
@@ -29,7 +25,12 @@ export type ReportSummary = {
   periodEnd: string | null;
   generatedAt: string;
   aiSummary: string | null;
-  highlights: AiHighlight[];
+  highlights: ReportHighlight[];
+  pdfUrl: string | null;
+  baseline: ReportBaseline | null;
+  changesConsidered: number | null; // aiCoverage / couvertureIA (null = sans IA)
+  changesDropped: number | null;
+  trigger: 'MANUAL' | 'SCHEDULED'; // reportTrigger / declencheurRapport
 };
 
 type ProjectReportsPageClientProps = {
@@ -47,6 +48,11 @@ type ApiReport = {
   generatedAt: string;
   aiSummary: string | null;
   highlights?: unknown;
+  pdfUrl: string | null;
+  baseline?: unknown;
+  changesConsidered?: number | null;
+  changesDropped?: number | null;
+  trigger?: 'MANUAL' | 'SCHEDULED';
 };
 
 // formatDate / formaterDate : format simple date FR
@@ -67,28 +73,12 @@ function formatDateTime(value: string): string {
   });
 }
 
-// normalizeHighlights / normaliserFaitsMarquants : sécurise le JSON reçu
-// Safely normalizes JSON into AI highlights
-function normalizeHighlights(raw: unknown): AiHighlight[] {
-  if (!Array.isArray(raw)) return [];
-
-  return raw.map((item) => {
-    const obj = item as any;
-    return {
-      title: typeof obj?.title === 'string' ? obj.title : '',
-      detail: typeof obj?.detail === 'string' ? obj.detail : '',
-      competitor:
-        typeof obj?.competitor === 'string'
-          ? obj.competitor
-          : '',
-      changeType:
-        typeof obj?.changeType === 'string'
-          ? obj.changeType
-          : '',
-      impact:
-        typeof obj?.impact === 'string' ? obj.impact : '',
-    };
-  });
+// formatCounts / formaterCompteurs : "PRICE (4), TEXT (2)"
+function formatCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([key, count]) => `${key} (${count})`)
+    .join(', ');
 }
 
 // mapApiReport / mapperRapportApi : convertit API → client
@@ -101,7 +91,12 @@ function mapApiReport(api: ApiReport): ReportSummary {
     periodEnd: api.periodEnd,
     generatedAt: api.generatedAt,
     aiSummary: api.aiSummary,
-    highlights: normalizeHighlights(api.highlights),
+    highlights: parseHighlights(api.highlights),
+    pdfUrl: api.pdfUrl,
+    baseline: parseReportBaseline(api.baseline),
+    changesConsidered: api.changesConsidered ?? null,
+    changesDropped: api.changesDropped ?? null,
+    trigger: api.trigger ?? 'MANUAL',
   };
 }
 
@@ -120,6 +115,10 @@ export default function ProjectReportsPageClient({
   const [periodStart, setPeriodStart] = useState<string>('');
   const [periodEnd, setPeriodEnd] = useState<string>('');
 
+  // useAiState / etatUtiliserIA : sans IA, rapport déterministe uniquement
+  // Without AI, deterministic report only
+  const [useAi, setUseAi] = useState<boolean>(true);
+
   // loadingState / etatChargement : refresh / génération
   // Loading state for refresh / generation
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -204,7 +203,7 @@ export default function ProjectReportsPageClient({
         periodEnd?: string;
         useAi?: boolean;
       } = {
-        useAi: true, // forcer l’usage de l’IA / force AI usage
+        useAi,
       };
 
       if (periodStart) payload.periodStart = periodStart;
@@ -240,8 +239,8 @@ export default function ProjectReportsPageClient({
       const hasCustomPeriod = periodStart || periodEnd;
       setStatusMessage(
         hasCustomPeriod
-          ? 'Rapport IA généré pour la période sélectionnée. / AI report generated for the selected period.'
-          : 'Rapport IA généré sur les 7 derniers jours. / AI report generated for the last 7 days.',
+          ? 'Rapport généré pour la période sélectionnée. / Report generated for the selected period.'
+          : 'Rapport généré sur les 7 derniers jours. / Report generated for the last 7 days.',
       );
     } catch (error) {
       console.error(
@@ -316,6 +315,21 @@ export default function ProjectReportsPageClient({
             </p>
           </div>
 
+          <label className="flex items-start gap-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={useAi}
+              onChange={(event) => setUseAi(event.target.checked)}
+              className="mt-0.5 accent-sky-500"
+            />
+            <span>
+              Enrichir avec l’IA (si <code>OPENAI_API_KEY</code> est
+              configurée). Sinon, rapport déterministe : statistiques,
+              mouvements de prix, sections, pages en échec. / Enrich with
+              AI; otherwise rule-based report only.
+            </span>
+          </label>
+
           {errorMessage && (
             <p className="text-sm text-red-400">
               {errorMessage}
@@ -338,8 +352,10 @@ export default function ProjectReportsPageClient({
               disabled={isGenerating}
             >
               {isGenerating
-                ? 'Génération du rapport IA...'
-                : 'Générer le rapport IA'}
+                ? 'Génération du rapport...'
+                : useAi
+                  ? 'Générer le rapport IA'
+                  : 'Générer le rapport'}
             </button>
           </div>
 
@@ -398,13 +414,21 @@ export default function ProjectReportsPageClient({
               return (
                 <li
                   key={report.id}
-                  className="rounded-xl border border-slate-800 bg-slate-900/80 px-4 py-3"
+                  id={`report-${report.id}`}
+                  className="scroll-mt-6 rounded-xl border border-slate-800 bg-slate-900/80 px-4 py-3 target:border-sky-500/60"
                 >
                   <div className="flex flex-col gap-2">
                     <div className="flex flex-wrap items-center justify-between gap-2">
                       <div>
-                        <p className="text-sm font-semibold">
+                        <p className="flex items-center gap-2 text-sm font-semibold">
                           {label}
+                          {/* scheduledBadge / badgePlanifie : généré par le worker */}
+                          {/* Generated by the scheduler worker */}
+                          {report.trigger === 'SCHEDULED' && (
+                            <span className="inline-flex items-center rounded-full border border-sky-500/40 bg-sky-500/10 px-2 py-0.5 text-[10px] font-medium text-sky-300">
+                              Planifié / Scheduled
+                            </span>
+                          )}
                         </p>
                         <p className="text-xs text-slate-300">
                           Période :{' '}
@@ -413,9 +437,37 @@ export default function ProjectReportsPageClient({
                           </span>
                         </p>
                       </div>
-                      <p className="text-[11px] text-slate-500">
-                        Généré le {generatedText}
-                      </p>
+                      <div className="flex items-center gap-3">
+                        <p className="text-[11px] text-slate-500">
+                          Généré le {generatedText}
+                        </p>
+                        {/* downloadPdf / telechargerPdf : généré à la volée si absent */}
+                        {/* Generated on the fly when missing */}
+                        <a
+                          href={report.pdfUrl ?? `/api/reports/${report.id}/pdf`}
+                          className="rounded-lg border border-sky-500/60 bg-sky-500/10 px-3 py-1 text-[11px] font-medium hover:bg-sky-500/20"
+                        >
+                          Télécharger le PDF
+                        </a>
+                        {/* textExports / exportsTexte : Markdown / HTML autonome */}
+                        {/* Markdown / standalone HTML */}
+                        <a
+                          href={`/api/projects/${project.id}/reports/${report.id}/export?format=md`}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="rounded-lg border border-slate-600 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800"
+                        >
+                          Markdown
+                        </a>
+                        <a
+                          href={`/api/projects/${project.id}/reports/${report.id}/export?format=html`}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="rounded-lg border border-slate-600 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800"
+                        >
+                          HTML
+                        </a>
+                      </div>
                     </div>
 
                     {/* Résumé IA / AI summary */}
@@ -425,10 +477,65 @@ export default function ProjectReportsPageClient({
                       </p>
                       <p className="whitespace-pre-line">
                         {report.aiSummary ??
+                          report.baseline?.summary ??
                           'Résumé IA non disponible. / AI summary not available.'}
                       </p>
+                      {!report.aiSummary && report.baseline && (
+                        <p className="mt-1 text-[10px] text-slate-500">
+                          Résumé automatique (sans IA). / Rule-based summary (no AI).
+                        </p>
+                      )}
+                      {report.aiSummary && report.changesConsidered !== null && (
+                        <p
+                          className={`mt-1 text-[10px] ${
+                            (report.changesDropped ?? 0) > 0 ? 'text-amber-300' : 'text-slate-500'
+                          }`}
+                        >
+                          Analysé par l’IA : {report.changesConsidered} /{' '}
+                          {report.changesConsidered + (report.changesDropped ?? 0)} changements
+                          {(report.changesDropped ?? 0) > 0 &&
+                            ` (${report.changesDropped} ignorés, volume trop important)`}
+                          . / AI analyzed {report.changesConsidered} of{' '}
+                          {report.changesConsidered + (report.changesDropped ?? 0)} changes.
+                        </p>
+                      )}
                     </div>
 
+                    {/* Statistiques déterministes / rule-based statistics */}
+                    {report.baseline && report.baseline.totalChanges + report.baseline.failedPages.length > 0 && (
+                      <details className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2 text-[11px] text-slate-300">
+                        <summary className="cursor-pointer text-xs font-semibold text-slate-200">
+                          Statistiques / Statistics ({report.baseline.totalChanges}{' '}
+                          changements, {report.baseline.priceMoves.length} prix,{' '}
+                          {report.baseline.failedPages.length} pages en échec)
+                        </summary>
+                        <div className="mt-2 flex flex-col gap-1">
+                          {report.baseline.byCompetitor.length > 0 && (
+                            <p>
+                              Par concurrent :{' '}
+                              {report.baseline.byCompetitor
+                                .map((entry) => `${entry.competitor} (${entry.count})`)
+                                .join(', ')}
+                            </p>
+                          )}
+                          <p>
+                            Par type :{' '}
+                            {formatCounts(report.baseline.byChangeType) || 'N/A'}
+                          </p>
+                          <p>
+                            Par type de page :{' '}
+                            {formatCounts(report.baseline.byPageType) || 'N/A'}
+                          </p>
+                          {report.baseline.failedPages.map((page) => (
+                            <p key={page.pageId} className="text-red-300">
+                              Échec : {page.competitor} · {page.url} ({page.failures}×
+                              {page.lastError ? `, ${page.lastError.slice(0, 120)}` : ''})
+                            </p>
+                          ))}
+                        </div>
+                      </details>
+                    )}
+
                     {/* Faits marquants IA / AI highlights */}
                     {hasHighlights && (
                       <div className="mt-2 rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2">
@@ -461,6 +568,30 @@ export default function ProjectReportsPageClient({
                                   {h.impact || 'N/A'}
                                 </span>
                               </p>
+                              {/* citedChanges / changementsCites : vérification des sources de l'IA */}
+                              {/* Cited changes, so analysts can check the AI's claims */}
+                              {h.sourceChangeIds.length > 0 && (
+                                <p className="mt-1 flex flex-wrap items-center gap-1 text-[10px] text-slate-400">
+                                  Sources :
+                                  {h.sourceChangeIds.map((changeId) => (
+                                    <Link
+                                      key={changeId}
+                                      href={`/projects/${project.id}/changes?ids=${changeId}`}
+                                      className="rounded border border-slate-700 px-1 text-sky-300 hover:bg-slate-800"
+                                    >
+                                      #{changeId}
+                                    </Link>
+                                  ))}
+                                  {h.sourceChangeIds.length > 1 && (
+                                    <Link
+                                      href={`/projects/${project.id}/changes?ids=${h.sourceChangeIds.join(',')}`}
+                                      className="text-sky-300 hover:underline"
+                                    >
+                                      Voir les {h.sourceChangeIds.length} changements / View all
+                                    </Link>
+                                  )}
+                                </p>
+                              )}
                             </li>
                           ))}
                         </ul>
@@ -0,0 +1,379 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { apiJson } from '@/lib/apiClient';
+
+// ReportScheduleView / vuePlanificationRapport : planification sérialisée (dates ISO)
+// Serialized schedule (ISO dates)
+export type ReportScheduleView = {
+  id: number;
+  cadence: 'WEEKLY' | 'MONTHLY';
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  hour: number;
+  minute: number;
+  useAi: boolean;
+  enabled: boolean;
+  nextRunAt: string;
+  retryAt: string | null;
+  attempts: number;
+  lastRunAt: string | null;
+  lastStatus: 'SUCCESS' | 'RETRYING' | 'FAILED' | null;
+  lastError: string | null;
+};
+
+type ReportSchedulesPanelProps = {
+  projectId: number;
+  initialSchedules: ReportScheduleView[];
+};
+
+// weekdayLabels / libellesJours : 1 = lundi … 7 = dimanche (ISO)
+// 1 = Monday … 7 = Sunday (ISO)
+const WEEKDAY_LABELS: Record<number, string> = {
+  1: 'lundi',
+  2: 'mardi',
+  3: 'mercredi',
+  4: 'jeudi',
+  5: 'vendredi',
+  6: 'samedi',
+  7: 'dimanche',
+};
+
+// statusLabels / libellesStatuts : dernier essai
+// Last attempt
+const STATUS_LABELS: Record<NonNullable<ReportScheduleView['lastStatus']>, string> = {
+  SUCCESS: 'Succès / Success',
+  RETRYING: 'Nouvel essai prévu / Retry pending',
+  FAILED: 'Échec / Failed',
+};
+
+const STATUS_CLASSES: Record<NonNullable<ReportScheduleView['lastStatus']>, string> = {
+  SUCCESS: 'text-emerald-300',
+  RETRYING: 'text-amber-300',
+  FAILED: 'text-red-400',
+};
+
+const INPUT_CLASS =
+  'rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:ring-1 focus:ring-sky-500';
+
+// pad2 / completer2 : "8" → "08"
+function pad2(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// describeSchedule / decrirePlanification : "Chaque lundi à 08:00 UTC (semaine écoulée)"
+// Human-readable cadence
+function describeSchedule(schedule: ReportScheduleView): string {
+  const time = `${pad2(schedule.hour)}:${pad2(schedule.minute)} UTC`;
+  if (schedule.cadence === 'MONTHLY') {
+    return `Chaque mois le ${schedule.dayOfMonth ?? 1} à ${time} (mois écoulé) / Monthly`;
+  }
+  return `Chaque ${WEEKDAY_LABELS[schedule.dayOfWeek ?? 1]} à ${time} (7 jours écoulés) / Weekly`;
+}
+
+// formatDateTime / formaterDateHeure : format date+heure FR
+// Simple FR date+time format
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('fr-FR', {
+    dateStyle: 'short',
+    timeStyle: 'short',
+  });
+}
+
+export default function ReportSchedulesPanel({
+  projectId,
+  initialSchedules,
+}: ReportSchedulesPanelProps) {
+  // schedulesState / etatPlanifications : liste affichée
+  // Displayed list
+  const [schedules, setSchedules] = useState<ReportScheduleView[]>(initialSchedules);
+
+  // formState / etatFormulaire : nouvelle planification (heure UTC)
+  // New schedule (UTC time)
+  const [cadence, setCadence] = useState<'WEEKLY' | 'MONTHLY'>('WEEKLY');
+  const [dayOfWeek, setDayOfWeek] = useState<string>('1');
+  const [dayOfMonth, setDayOfMonth] = useState<string>('1');
+  const [time, setTime] = useState<string>('08:00');
+  const [useAi, setUseAi] = useState<boolean>(true);
+
+  // savingState / etatEnregistrement : création ou action sur une ligne
+  // Creation or row action in progress
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // messages / messages : erreur et statut de la section
+  // Error and status messages for this section
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  // handleCreate / gererCreation : POST de la planification
+  // POST the schedule
+  async function handleCreate(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    const [hour, minute] = time.split(':').map(Number);
+
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+
+      const created = await apiJson<ReportScheduleView>(
+        `/api/projects/${projectId}/report-schedules`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            cadence,
+            dayOfWeek: cadence === 'WEEKLY' ? Number(dayOfWeek) : undefined,
+            dayOfMonth: cadence === 'MONTHLY' ? Number(dayOfMonth) : undefined,
+            hour,
+            minute,
+            useAi,
+          }),
+        },
+        'Erreur lors de la création de la planification. / Error creating report schedule.',
+      );
+
+      setSchedules((prev) => [...prev, created]);
+      setStatusMessage(
+        `Planification créée, prochain rapport le ${formatDateTime(created.nextRunAt)}. / Schedule created.`,
+      );
+    } catch (error) {
+      console.error('createReportScheduleError / erreurCreationPlanificationRapport', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : 'Erreur lors de la création de la planification. / Error creating report schedule.',
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  // handleToggleEnabled / gererActivation : PATCH enabled (réactivation = repart de maintenant)
+  // PATCH enabled (re-enabling starts over from now)
+  async function handleToggleEnabled(schedule: ReportScheduleView) {
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+
+      const updated = await apiJson<ReportScheduleView>(
+        `/api/report-schedules/${schedule.id}`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ enabled: !schedule.enabled }),
+        },
+        'Erreur lors de la mise à jour de la planification. / Error updating report schedule.',
+      );
+
+      setSchedules((prev) =>
+        prev.map((item) => (item.id === updated.id ? updated : item)),
+      );
+    } catch (error) {
+      console.error('updateReportScheduleError / erreurMajPlanificationRapport', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : 'Erreur lors de la mise à jour de la planification. / Error updating report schedule.',
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  // handleDelete / gererSuppression : les rapports générés restent
+  // Generated reports are kept
+  async function handleDelete(schedule: ReportScheduleView) {
+    if (
+      !window.confirm(
+        'Supprimer cette planification ? Les rapports déjà générés sont conservés. / Delete this schedule? Generated reports are kept.',
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+
+      await apiJson<unknown>(
+        `/api/report-schedules/${schedule.id}`,
+        { method: 'DELETE' },
+        'Erreur lors de la suppression de la planification. / Error deleting report schedule.',
+      );
+
+      setSchedules((prev) => prev.filter((item) => item.id !== schedule.id));
+    } catch (error) {
+      console.error('deleteReportScheduleError / erreurSuppressionPlanificationRapport', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : 'Erreur lors de la suppression de la planification. / Error deleting report schedule.',
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+      <h2 className="text-lg font-semibold">
+        Rapports planifiés / Scheduled reports
+      </h2>
+      <p className="mt-1 text-xs text-slate-400">
+        Générés par le worker (npm run scheduler) après les scrapes. Heures en
+        UTC ; en cas d’échec, 2 nouveaux essais (15 min puis 1 h). / Generated
+        by the scheduler worker after the scrapes. UTC times; on failure, 2
+        retries (15 min then 1 h).
+      </p>
+
+      {schedules.length === 0 ? (
+        <p className="mt-4 text-xs text-slate-400">
+          Aucune planification. / No schedule yet.
+        </p>
+      ) : (
+        <ul className="mt-4 flex flex-col gap-2">
+          {schedules.map((schedule) => (
+            <li
+              key={schedule.id}
+              className="flex flex-wrap items-start justify-between gap-3 rounded-xl border border-slate-800 bg-slate-900/80 px-4 py-3 text-xs"
+            >
+              <div className="flex flex-col gap-1">
+                <p
+                  className={`text-sm font-medium ${
+                    schedule.enabled ? 'text-slate-100' : 'text-slate-500 line-through'
+                  }`}
+                >
+                  {describeSchedule(schedule)}
+                </p>
+                <p className="text-slate-400">
+                  {schedule.useAi ? 'Avec IA / With AI' : 'Sans IA / No AI'}
+                  {schedule.enabled &&
+                    ` · Prochain / Next : ${formatDateTime(schedule.retryAt ?? schedule.nextRunAt)}`}
+                </p>
+                {schedule.lastRunAt && schedule.lastStatus && (
+                  <p className={STATUS_CLASSES[schedule.lastStatus]}>
+                    Dernier essai / Last attempt : {formatDateTime(schedule.lastRunAt)} ·{' '}
+                    {STATUS_LABELS[schedule.lastStatus]}
+                    {schedule.lastStatus === 'RETRYING' &&
+                      ` (${schedule.attempts} échec(s) / failure(s))`}
+                  </p>
+                )}
+                {schedule.lastStatus !== 'SUCCESS' && schedule.lastError && (
+                  <p className="break-words text-[11px] text-slate-400">
+                    {schedule.lastError}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => void handleToggleEnabled(schedule)}
+                  disabled={isSaving}
+                  className="rounded-lg border border-slate-600 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {schedule.enabled ? 'Suspendre / Pause' : 'Réactiver / Resume'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void handleDelete(schedule)}
+                  disabled={isSaving}
+                  className="rounded-lg border border-red-500/60 px-3 py-1 text-[11px] text-red-300 hover:bg-red-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  Supprimer
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreate} className="mt-4 flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+          Cadence
+          <select
+            value={cadence}
+            onChange={(event) => setCadence(event.target.value as 'WEEKLY' | 'MONTHLY')}
+            className={INPUT_CLASS}
+          >
+            <option value="WEEKLY">Hebdomadaire / Weekly</option>
+            <option value="MONTHLY">Mensuelle / Monthly</option>
+          </select>
+        </label>
+
+        {cadence === 'WEEKLY' ? (
+          <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+            Jour / Day
+            <select
+              value={dayOfWeek}
+              onChange={(event) => setDayOfWeek(event.target.value)}
+              className={INPUT_CLASS}
+            >
+              {Object.entries(WEEKDAY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : (
+          <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+            Jour du mois / Day of month
+            <input
+              type="number"
+              min={1}
+              max={28}
+              value={dayOfMonth}
+              onChange={(event) => setDayOfMonth(event.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+        )}
+
+        <label className="flex flex-col gap-1.5 text-sm font-medium text-slate-100">
+          Heure (UTC) / Time (UTC)
+          <input
+            type="time"
+            value={time}
+            onChange={(event) => setTime(event.target.value)}
+            required
+            className={INPUT_CLASS}
+          />
+        </label>
+
+        <label className="flex items-center gap-2 pb-2 text-xs text-slate-200">
+          <input
+            type="checkbox"
+            checked={useAi}
+            onChange={(event) => setUseAi(event.target.checked)}
+            className="accent-sky-500"
+          />
+          Utiliser l’IA / Use AI
+        </label>
+
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="inline-flex items-center rounded-lg border border-sky-500/60 bg-sky-500/10 px-4 py-2 text-sm font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          Planifier / Schedule
+        </button>
+      </form>
+
+      {errorMessage && (
+        <p className="mt-3 text-sm text-red-400">{errorMessage}</p>
+      )}
+      {statusMessage && (
+        <p className="mt-3 text-xs text-slate-300">{statusMessage}</p>
+      )}
+    </section>
+  );
+}
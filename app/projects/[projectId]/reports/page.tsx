@@ -4,10 +4,17 @@
 
 import { notFound } from 'next/navigation';
 import { prisma } from '@/lib/db';
+import { getProjectRole, roleAtLeast } from '@/lib/access';
+import { parseReportBaseline } from '@/lib/reportBaseline';
+import { parseHighlights } from '@/lib/reportHighlights';
 import ProjectReportsPageClient, {
   type ProjectInfo,
   type ReportSummary,
 } from './ProjectReportsPageClient';
+import ReportSchedulesPanel, {
+  type ReportScheduleView,
+} from './ReportSchedulesPanel';
+import ReadOnlyNotice from '../../../ReadOnlyNotice';
 
 // PageProps / propsPage : params contient projectId sous forme de Promise (Next 16)
 // Page props: params contains projectId as a Promise (Next 16)
@@ -17,33 +24,6 @@ type PageProps = {
   }>;
 };
 
-// normalizeHighlights / normaliserFaitsMarquants :
-// sécurise le JSON stocké en base pour le transformer en faits marquants IA.
-// Safely normalizes stored JSON into AI highlight items.
-function normalizeHighlights(
-  raw: unknown,
-): ReportSummary['highlights'] {
-  if (!Array.isArray(raw)) return [];
-
-  return raw.map((item) => {
-    const obj = item as any;
-    return {
-      title: typeof obj?.title === 'string' ? obj.title : '',
-      detail: typeof obj?.detail === 'string' ? obj.detail : '',
-      competitor:
-        typeof obj?.competitor === 'string'
-          ? obj.competitor
-          : '',
-      changeType:
-        typeof obj?.changeType === 'string'
-          ? obj.changeType
-          : '',
-      impact:
-        typeof obj?.impact === 'string' ? obj.impact : '',
-    };
-  });
-}
-
 export default async function ProjectReportsPage({
   params,
 }: PageProps) {
@@ -54,6 +34,13 @@ export default async function ProjectReportsPage({
     notFound();
   }
 
+  // projectRole / roleProjet : null si le projet est hors des espaces de l'utilisateur
+  // null when the project is outside the user's workspaces
+  const role = await getProjectRole(id);
+  if (!role) {
+    notFound();
+  }
+
   const project = await prisma.project.findUnique({
     where: { id },
     select: {
@@ -83,7 +70,36 @@ export default async function ProjectReportsPage({
       : null,
     generatedAt: report.generatedAt.toISOString(),
     aiSummary: report.aiSummary,
-    highlights: normalizeHighlights(report.highlights as unknown),
+    highlights: parseHighlights(report.highlights),
+    pdfUrl: report.pdfUrl,
+    baseline: parseReportBaseline(report.baseline),
+    changesConsidered: report.changesConsidered,
+    changesDropped: report.changesDropped,
+    trigger: report.trigger,
+  }));
+
+  // reportSchedules / planificationsRapports : dates sérialisées pour le client
+  // Dates serialized for the client
+  const schedules = await prisma.reportSchedule.findMany({
+    where: { projectId: id },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const initialSchedules: ReportScheduleView[] = schedules.map((schedule) => ({
+    id: schedule.id,
+    cadence: schedule.cadence,
+    dayOfWeek: schedule.dayOfWeek,
+    dayOfMonth: schedule.dayOfMonth,
+    hour: schedule.hour,
+    minute: schedule.minute,
+    useAi: schedule.useAi,
+    enabled: schedule.enabled,
+    nextRunAt: schedule.nextRunAt.toISOString(),
+    retryAt: schedule.retryAt ? schedule.retryAt.toISOString() : null,
+    attempts: schedule.attempts,
+    lastRunAt: schedule.lastRunAt ? schedule.lastRunAt.toISOString() : null,
+    lastStatus: schedule.lastStatus,
+    lastError: schedule.lastError,
   }));
 
   const projectInfo: ProjectInfo = {
@@ -103,6 +119,13 @@ export default async function ProjectReportsPage({
         this project.
       </p>
 
+      {!roleAtLeast(role, 'EDITOR') && <ReadOnlyNotice />}
+
+      <ReportSchedulesPanel
+        projectId={project.id}
+        initialSchedules={initialSchedules}
+      />
+
       <ProjectReportsPageClient
         project={projectInfo}
         initialReports={initialReports}
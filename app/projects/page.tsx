@@ -1,15 +1,51 @@
 // projectsPage / pageProjets : vue principale pour gérer les projets de veille
 // Main page to manage watch projects
 
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
 import { prisma } from '@/lib/db';
+import { getCurrentWorkspace } from '@/lib/access';
+import { getCurrentUser } from '@/lib/auth';
 import ProjectsPageClient, {
   ProjectSummary,
 } from './ProjectsPageClient';
 
+// dynamicRendering / renduDynamique : dépend des cookies de session et d'espace
+// Depends on the session and workspace cookies
+export const dynamic = 'force-dynamic';
+
 export default async function ProjectsPage() {
-  // fetchProjects / chargerProjets : charge les projets avec nombre de concurrents
-  // Fetch projects with competitor count
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login?next=/projects');
+  }
+
+  // currentWorkspace / espaceCourant : null tant que l'utilisateur n'appartient à aucun espace
+  // null while the user belongs to no workspace
+  const workspace = await getCurrentWorkspace(user.id);
+  if (!workspace) {
+    return (
+      <main className="min-h-screen bg-slate-950 text-slate-50">
+        <div className="mx-auto max-w-5xl px-6 py-10">
+          <h1 className="text-2xl font-semibold">Projets de veille concurrents</h1>
+          <p className="mt-4 rounded-2xl border border-slate-800 bg-slate-900/60 p-6 text-sm text-slate-300 shadow-md">
+            Vous n’appartenez à aucun espace de travail : ouvrez le lien
+            d’invitation reçu ou{' '}
+            <Link href="/workspace" className="text-sky-300 hover:underline">
+              créez un espace
+            </Link>
+            . / You belong to no workspace: open the invitation link you
+            received or create a workspace.
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  // fetchProjects / chargerProjets : projets de l'espace courant avec nombre de concurrents
+  // Fetch the current workspace's projects with competitor count
   const projects = await prisma.project.findMany({
+    where: { workspaceId: workspace.id },
     orderBy: { createdAt: 'desc' },
     include: {
       _count: {
@@ -36,6 +72,9 @@ export default async function ProjectsPage() {
           <h1 className="text-2xl font-semibold">
             Projets de veille concurrents
           </h1>
+          <p className="mt-1 text-xs text-slate-400">
+            Espace / Workspace : {workspace.name}
+          </p>
           <p className="mt-2 text-sm text-slate-300">
             Gérez vos projets de veille : ajoutez des concurrents, surveillez
             leurs pages et analysez les changements avec des rapports de
@@ -44,7 +83,7 @@ export default async function ProjectsPage() {
           </p>
         </header>
 
-        <ProjectsPageClient initialProjects={initialProjects} />
+        <ProjectsPageClient initialProjects={initialProjects} role={workspace.role} />
       </div>
     </main>
   );
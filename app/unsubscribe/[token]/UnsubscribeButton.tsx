@@ -0,0 +1,70 @@
+'use client';
+
+import { useState } from 'react';
+import { apiJson } from '@/lib/apiClient';
+
+type UnsubscribeButtonProps = {
+  token: string;
+};
+
+export default function UnsubscribeButton({ token }: UnsubscribeButtonProps) {
+  // doneState / etatTermine : désinscription confirmée
+  // Unsubscribe confirmed
+  const [isDone, setIsDone] = useState<boolean>(false);
+
+  // savingState / etatEnvoi : requête en cours
+  // Request in progress
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // handleUnsubscribe / gererDesinscription : POST /api/unsubscribe/[token]
+  async function handleUnsubscribe() {
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+
+      await apiJson<unknown>(
+        `/api/unsubscribe/${token}`,
+        { method: 'POST' },
+        'Erreur lors de la désinscription. / Error unsubscribing.',
+      );
+
+      setIsDone(true);
+    } catch (error) {
+      console.error('unsubscribeError / erreurDesinscription', error);
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : 'Erreur lors de la désinscription. / Error unsubscribing.',
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (isDone) {
+    return (
+      <p className="mt-4 text-sm text-emerald-300">
+        Désinscription enregistrée : vous ne recevrez plus cette synthèse. /
+        You have been unsubscribed.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => void handleUnsubscribe()}
+        disabled={isSaving}
+        className="mt-4 inline-flex items-center rounded-lg border border-red-500/60 px-4 py-2 text-sm font-medium text-red-300 hover:bg-red-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        Se désinscrire / Unsubscribe
+      </button>
+      {errorMessage && (
+        <p className="mt-3 text-sm text-red-400">{errorMessage}</p>
+      )}
+    </>
+  );
+}
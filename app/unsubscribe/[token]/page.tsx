@@ -0,0 +1,59 @@
+// unsubscribePage / pageDesinscription : confirmation avant désinscription du digest
+// Confirmation before unsubscribing from the digest (a GET never unsubscribes: link scanners
+// and previews would otherwise trigger it)
+
+import { notFound } from 'next/navigation';
+import { prisma } from '@/lib/db';
+import UnsubscribeButton from './UnsubscribeButton';
+
+// PageProps / propsPage : params contient token sous forme de Promise (Next 16)
+// Page props: params contains token as a Promise (Next 16)
+type PageProps = {
+  params: Promise<{
+    token: string;
+  }>;
+};
+
+export default async function UnsubscribePage({ params }: PageProps) {
+  const { token } = await params;
+
+  if (!/^[a-f0-9]{48}$/.test(token)) {
+    notFound();
+  }
+
+  const subscriber = await prisma.digestSubscriber.findUnique({
+    where: { unsubscribeToken: token },
+    select: {
+      email: true,
+      unsubscribedAt: true,
+      project: { select: { name: true } },
+    },
+  });
+
+  if (!subscriber) {
+    notFound();
+  }
+
+  return (
+    <main className="min-h-screen bg-slate-950 text-slate-50">
+      <div className="mx-auto max-w-md px-6 py-16">
+        <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+          <h1 className="text-lg font-semibold">
+            Synthèse par email / Email digest
+          </h1>
+          <p className="mt-2 text-sm text-slate-300">
+            {subscriber.email} · {subscriber.project.name}
+          </p>
+
+          {subscriber.unsubscribedAt ? (
+            <p className="mt-4 text-sm text-emerald-300">
+              Vous êtes déjà désinscrit. / You are already unsubscribed.
+            </p>
+          ) : (
+            <UnsubscribeButton token={token} />
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
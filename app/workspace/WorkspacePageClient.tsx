@@ -0,0 +1,493 @@
+'use client';
+
+import { useState } from 'react';
+import { apiJson } from '@/lib/apiClient';
+import type {
+  WorkspaceInvitationView,
+  WorkspaceMemberView,
+  WorkspaceMembershipView,
+} from '@/lib/access';
+
+type WorkspaceRole = WorkspaceMemberView['role'];
+
+type WorkspacePageClientProps = {
+  currentUserId: number;
+  workspace: WorkspaceMembershipView | null; // null = aucun espace / no workspace
+  initialMembers: WorkspaceMemberView[];
+  initialInvitations: WorkspaceInvitationView[]; // vide si non propriétaire / empty unless owner
+};
+
+// roleOptions / optionsRoles : libellés des rôles
+// Role labels
+const ROLE_OPTIONS: { value: WorkspaceRole; label: string }[] = [
+  { value: 'OWNER', label: 'Propriétaire / Owner' },
+  { value: 'EDITOR', label: 'Éditeur / Editor' },
+  { value: 'VIEWER', label: 'Lecteur / Viewer' },
+];
+
+const ROLE_LABELS = Object.fromEntries(
+  ROLE_OPTIONS.map((option) => [option.value, option.label]),
+) as Record<WorkspaceRole, string>;
+
+const INPUT_CLASS =
+  'rounded-lg border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-50 outline-none focus:border-sky-500';
+
+const SMALL_BUTTON_CLASS =
+  'rounded-lg border border-slate-600 px-3 py-1 text-[11px] text-slate-200 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60';
+
+const DANGER_BUTTON_CLASS =
+  'rounded-lg border border-red-500/60 px-3 py-1 text-[11px] text-red-300 hover:bg-red-500/10 disabled:cursor-not-allowed disabled:opacity-60';
+
+const PRIMARY_BUTTON_CLASS =
+  'inline-flex items-center rounded-lg border border-sky-500/60 bg-sky-500/10 px-4 py-2 text-sm font-medium hover:bg-sky-500/20 disabled:cursor-not-allowed disabled:opacity-60';
+
+// formatDateTime / formaterDateHeure : format date+heure FR
+// Simple FR date+time format
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('fr-FR', {
+    dateStyle: 'short',
+    timeStyle: 'short',
+  });
+}
+
+export default function WorkspacePageClient({
+  currentUserId,
+  workspace,
+  initialMembers,
+  initialInvitations,
+}: WorkspacePageClientProps) {
+  const isOwner = workspace?.role === 'OWNER';
+
+  // nameState / etatNom : renommage de l'espace courant
+  // Current workspace rename
+  const [name, setName] = useState<string>(workspace?.name ?? '');
+
+  // membersState / etatMembres
+  const [members, setMembers] = useState<WorkspaceMemberView[]>(initialMembers);
+
+  // invitationsState / etatInvitations : invitations en attente
+  // Pending invitations
+  const [invitations, setInvitations] = useState<WorkspaceInvitationView[]>(initialInvitations);
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('VIEWER');
+
+  // newWorkspaceState / etatNouvelEspace
+  const [newWorkspaceName, setNewWorkspaceName] = useState<string>('');
+
+  // savingState / etatEnregistrement
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  // messages / messages : erreur et statut de la page
+  // Error and status messages for the page
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  // runAction / executerAction : états de chargement et messages communs aux actions
+  // Shared loading state and messages for every action
+  async function runAction(action: () => Promise<void>, defaultError: string) {
+    try {
+      setIsSaving(true);
+      setErrorMessage(null);
+      setStatusMessage(null);
+      await action();
+    } catch (error) {
+      console.error('workspaceActionError / erreurActionEspace', error);
+      setErrorMessage(error instanceof Error ? error.message : defaultError);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  // handleCreateWorkspace / gererCreationEspace : POST /api/workspaces (devient l'espace courant)
+  // POST /api/workspaces (becomes the current workspace); full navigation to refresh the header
+  async function handleCreateWorkspace(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    await runAction(async () => {
+      await apiJson<WorkspaceMembershipView>(
+        '/api/workspaces',
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ name: newWorkspaceName }),
+        },
+        "Erreur lors de la création de l'espace. / Error creating workspace.",
+      );
+      window.location.href = '/workspace';
+    }, "Erreur lors de la création de l'espace. / Error creating workspace.");
+  }
+
+  if (!workspace) {
+    return (
+      <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+        <h2 className="text-lg font-semibold">Créer un espace / Create a workspace</h2>
+        <form
+          onSubmit={(event) => void handleCreateWorkspace(event)}
+          className="mt-4 flex flex-wrap items-center gap-2"
+        >
+          <input
+            type="text"
+            required
+            maxLength={120}
+            placeholder="Nom de l'espace / Workspace name"
+            value={newWorkspaceName}
+            onChange={(event) => setNewWorkspaceName(event.target.value)}
+            className={`${INPUT_CLASS} min-w-0 flex-1`}
+          />
+          <button type="submit" disabled={isSaving} className={PRIMARY_BUTTON_CLASS}>
+            Créer / Create
+          </button>
+        </form>
+        {errorMessage && <p className="mt-3 text-sm text-red-400">{errorMessage}</p>}
+      </section>
+    );
+  }
+
+  const workspaceEndpoint = `/api/workspaces/${workspace.id}`;
+
+  // handleRename / gererRenommage : PATCH { name }
+  async function handleRename(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    await runAction(async () => {
+      const result = await apiJson<{ id: number; name: string }>(
+        workspaceEndpoint,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ name }),
+        },
+        "Erreur lors du renommage de l'espace. / Error renaming workspace.",
+      );
+      setName(result.name);
+      setStatusMessage('Espace renommé. / Workspace renamed.');
+    }, "Erreur lors du renommage de l'espace. / Error renaming workspace.");
+  }
+
+  // handleDeleteWorkspace / gererSuppressionEspace : DELETE (refusé tant qu'il reste des projets)
+  // DELETE (refused while projects remain)
+  async function handleDeleteWorkspace() {
+    if (!window.confirm(`Supprimer l'espace « ${name} » ? / Delete workspace "${name}"?`)) {
+      return;
+    }
+
+    await runAction(async () => {
+      await apiJson<{ message: string }>(
+        workspaceEndpoint,
+        { method: 'DELETE' },
+        "Erreur lors de la suppression de l'espace. / Error deleting workspace.",
+      );
+      window.location.href = '/workspace';
+    }, "Erreur lors de la suppression de l'espace. / Error deleting workspace.");
+  }
+
+  // handleRoleChange / gererChangementRole : PATCH members/[userId] { role }
+  async function handleRoleChange(member: WorkspaceMemberView, role: WorkspaceRole) {
+    await runAction(async () => {
+      const result = await apiJson<{ userId: number; role: WorkspaceRole }>(
+        `${workspaceEndpoint}/members/${member.userId}`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ role }),
+        },
+        'Erreur lors de la mise à jour du membre. / Error updating member.',
+      );
+      setMembers((prev) =>
+        prev.map((item) =>
+          item.userId === result.userId ? { ...item, role: result.role } : item,
+        ),
+      );
+      if (result.userId === currentUserId) {
+        window.location.href = '/workspace';
+        return;
+      }
+      setStatusMessage('Rôle mis à jour. / Role updated.');
+    }, 'Erreur lors de la mise à jour du membre. / Error updating member.');
+  }
+
+  // handleRemoveMember / gererRetraitMembre : DELETE members/[userId] (soi-même = quitter l'espace)
+  // DELETE members/[userId] (oneself = leave the workspace)
+  async function handleRemoveMember(member: WorkspaceMemberView) {
+    const isSelf = member.userId === currentUserId;
+    if (
+      !window.confirm(
+        isSelf
+          ? `Quitter l'espace « ${name} » ? / Leave workspace "${name}"?`
+          : `Retirer ${member.email} de l'espace ? / Remove ${member.email} from the workspace?`,
+      )
+    ) {
+      return;
+    }
+
+    await runAction(async () => {
+      await apiJson<{ message: string }>(
+        `${workspaceEndpoint}/members/${member.userId}`,
+        { method: 'DELETE' },
+        'Erreur lors du retrait du membre. / Error removing member.',
+      );
+      if (isSelf) {
+        window.location.href = '/workspace';
+        return;
+      }
+      setMembers((prev) => prev.filter((item) => item.userId !== member.userId));
+      setStatusMessage('Membre retiré. / Member removed.');
+    }, 'Erreur lors du retrait du membre. / Error removing member.');
+  }
+
+  // handleInvite / gererInvitation : POST invitations { role }, lien valable 7 jours
+  // POST invitations { role }; the link is valid for 7 days
+  async function handleInvite() {
+    await runAction(async () => {
+      const created = await apiJson<WorkspaceInvitationView>(
+        `${workspaceEndpoint}/invitations`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ role: inviteRole }),
+        },
+        "Erreur lors de la création de l'invitation. / Error creating invitation.",
+      );
+      setInvitations((prev) => [created, ...prev]);
+      setStatusMessage(
+        'Invitation créée : copiez le lien et envoyez-le à la personne invitée. / Invitation created: copy the link and send it to the invitee.',
+      );
+    }, "Erreur lors de la création de l'invitation. / Error creating invitation.");
+  }
+
+  // handleCopy / gererCopie : presse-papiers
+  // Clipboard
+  async function handleCopy(invitation: WorkspaceInvitationView) {
+    await runAction(async () => {
+      await navigator.clipboard.writeText(invitation.url);
+      setStatusMessage('Lien copié. / Link copied.');
+    }, 'Copie impossible, sélectionnez le lien. / Copy failed, select the link.');
+  }
+
+  // handleRevoke / gererRevocation : DELETE invitations/[invitationId]
+  async function handleRevoke(invitation: WorkspaceInvitationView) {
+    await runAction(async () => {
+      await apiJson<{ message: string }>(
+        `${workspaceEndpoint}/invitations/${invitation.id}`,
+        { method: 'DELETE' },
+        "Erreur lors de la révocation de l'invitation. / Error revoking invitation.",
+      );
+      setInvitations((prev) => prev.filter((item) => item.id !== invitation.id));
+      setStatusMessage('Invitation révoquée. / Invitation revoked.');
+    }, "Erreur lors de la révocation de l'invitation. / Error revoking invitation.");
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      {errorMessage && <p className="text-sm text-red-400">{errorMessage}</p>}
+      {statusMessage && <p className="text-xs text-emerald-300">{statusMessage}</p>}
+
+      {/* settingsSection / sectionParametres : nom et rôle courant */}
+      {/* Name and current role */}
+      <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+        <h2 className="text-lg font-semibold">{name}</h2>
+        <p className="mt-1 text-xs text-slate-400">
+          Votre rôle / Your role : {ROLE_LABELS[workspace.role]}
+        </p>
+
+        {isOwner && (
+          <form
+            onSubmit={(event) => void handleRename(event)}
+            className="mt-4 flex flex-wrap items-center gap-2"
+          >
+            <input
+              type="text"
+              required
+              maxLength={120}
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              className={`${INPUT_CLASS} min-w-0 flex-1`}
+            />
+            <button type="submit" disabled={isSaving} className={SMALL_BUTTON_CLASS}>
+              Renommer / Rename
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleDeleteWorkspace()}
+              disabled={isSaving}
+              className={DANGER_BUTTON_CLASS}
+            >
+              Supprimer l’espace / Delete workspace
+            </button>
+          </form>
+        )}
+      </section>
+
+      {/* membersSection / sectionMembres */}
+      <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+        <h2 className="text-lg font-semibold">Membres / Members</h2>
+        <ul className="mt-4 flex flex-col gap-2">
+          {members.map((member) => {
+            const isSelf = member.userId === currentUserId;
+
+            return (
+              <li
+                key={member.userId}
+                className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-slate-800 bg-slate-900 px-4 py-3 text-xs"
+              >
+                <div className="flex min-w-0 flex-col gap-0.5">
+                  <span className="text-sm text-slate-100">
+                    {member.name ?? member.email}
+                    {isSelf && <span className="ml-2 text-slate-500">(vous / you)</span>}
+                  </span>
+                  <span className="text-slate-400">
+                    {member.email} · membre depuis / member since {formatDateTime(member.joinedAt)}
+                    {member.lastLoginAt &&
+                      ` · dernière connexion / last login ${formatDateTime(member.lastLoginAt)}`}
+                  </span>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  {isOwner ? (
+                    <select
+                      value={member.role}
+                      onChange={(event) =>
+                        void handleRoleChange(member, event.target.value as WorkspaceRole)
+                      }
+                      disabled={isSaving}
+                      className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 text-[11px] text-slate-200"
+                    >
+                      {ROLE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="rounded-full border border-slate-600 px-2 py-0.5 text-[10px] text-slate-300">
+                      {ROLE_LABELS[member.role]}
+                    </span>
+                  )}
+                  {(isOwner || isSelf) && (
+                    <button
+                      type="button"
+                      onClick={() => void handleRemoveMember(member)}
+                      disabled={isSaving}
+                      className={DANGER_BUTTON_CLASS}
+                    >
+                      {isSelf ? 'Quitter / Leave' : 'Retirer / Remove'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+
+      {/* invitationsSection / sectionInvitations : propriétaires uniquement */}
+      {/* Owners only */}
+      {isOwner && (
+        <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+          <h2 className="text-lg font-semibold">Invitations</h2>
+          <p className="mt-1 text-xs text-slate-400">
+            Lien à usage unique valable 7 jours, à transmettre vous-même. / Single-use link valid
+            for 7 days, to be sent by yourself.
+          </p>
+
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            <select
+              value={inviteRole}
+              onChange={(event) => setInviteRole(event.target.value as WorkspaceRole)}
+              className={INPUT_CLASS}
+            >
+              {ROLE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => void handleInvite()}
+              disabled={isSaving}
+              className={PRIMARY_BUTTON_CLASS}
+            >
+              Créer un lien / Create link
+            </button>
+          </div>
+
+          {invitations.length === 0 ? (
+            <p className="mt-4 text-xs text-slate-400">
+              Aucune invitation en attente. / No pending invitation.
+            </p>
+          ) : (
+            <ul className="mt-4 flex flex-col gap-2">
+              {invitations.map((invitation) => (
+                <li
+                  key={invitation.id}
+                  className="flex flex-wrap items-center gap-2 rounded-xl border border-slate-800 bg-slate-900 px-4 py-3 text-xs"
+                >
+                  <span className="rounded-full border border-slate-600 px-2 py-0.5 text-[10px] text-slate-300">
+                    {ROLE_LABELS[invitation.role]}
+                  </span>
+                  <input
+                    type="text"
+                    readOnly
+                    value={invitation.url}
+                    onFocus={(event) => event.target.select()}
+                    className="min-w-0 flex-1 rounded-lg border border-slate-700 bg-slate-900 px-3 py-1 font-mono text-[11px] text-slate-200 outline-none focus:border-sky-500"
+                  />
+                  <span className="text-slate-500">
+                    expire / expires {formatDateTime(invitation.expiresAt)}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => void handleCopy(invitation)}
+                    disabled={isSaving}
+                    className={SMALL_BUTTON_CLASS}
+                  >
+                    Copier / Copy
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void handleRevoke(invitation)}
+                    disabled={isSaving}
+                    className={DANGER_BUTTON_CLASS}
+                  >
+                    Révoquer / Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+
+      {/* newWorkspaceSection / sectionNouvelEspace : un autre client, par exemple */}
+      {/* Another client, for example */}
+      <section className="rounded-2xl border border-slate-800 bg-slate-900/60 p-6 shadow-md">
+        <h2 className="text-lg font-semibold">Nouvel espace / New workspace</h2>
+        <form
+          onSubmit={(event) => void handleCreateWorkspace(event)}
+          className="mt-4 flex flex-wrap items-center gap-2"
+        >
+          <input
+            type="text"
+            required
+            maxLength={120}
+            placeholder="Nom de l'espace / Workspace name"
+            value={newWorkspaceName}
+            onChange={(event) => setNewWorkspaceName(event.target.value)}
+            className={`${INPUT_CLASS} min-w-0 flex-1`}
+          />
+          <button type="submit" disabled={isSaving} className={PRIMARY_BUTTON_CLASS}>
+            Créer / Create
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+}
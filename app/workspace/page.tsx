@@ -0,0 +1,55 @@
+// workspacePage / pageEspace : espace de travail courant (membres, invitations) et création d'un espace
+// Current workspace (members, invitations) and workspace creation
+
+import { redirect } from 'next/navigation';
+import {
+  getCurrentWorkspace,
+  listPendingInvitations,
+  listWorkspaceMembers,
+} from '@/lib/access';
+import { getCurrentUser } from '@/lib/auth';
+import WorkspacePageClient from './WorkspacePageClient';
+
+// dynamicRendering / renduDynamique : dépend des cookies de session et d'espace
+// Depends on the session and workspace cookies
+export const dynamic = 'force-dynamic';
+
+export default async function WorkspacePage() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect('/login?next=/workspace');
+  }
+
+  const workspace = await getCurrentWorkspace(user.id);
+
+  // ownerData / donneesProprietaire : seuls les propriétaires voient les invitations en attente
+  // Only owners see pending invitations
+  const [members, invitations] = workspace
+    ? await Promise.all([
+        listWorkspaceMembers(workspace.id),
+        workspace.role === 'OWNER' ? listPendingInvitations(workspace.id) : [],
+      ])
+    : [[], []];
+
+  return (
+    <main className="min-h-screen bg-slate-950 text-slate-50">
+      <div className="mx-auto max-w-4xl px-6 py-10">
+        <header className="mb-6 border-b border-slate-800 pb-4">
+          <h1 className="text-2xl font-semibold">Espace de travail / Workspace</h1>
+          <p className="mt-2 text-sm text-slate-300">
+            {workspace
+              ? 'Les propriétaires gèrent les membres et les invitations ; les éditeurs modifient les projets ; les lecteurs consultent changements et rapports. / Owners manage members and invitations; editors change projects; viewers read changes and reports.'
+              : 'Vous n’appartenez à aucun espace : créez-en un ou ouvrez un lien d’invitation. / You belong to no workspace: create one or open an invitation link.'}
+          </p>
+        </header>
+
+        <WorkspacePageClient
+          currentUserId={user.id}
+          workspace={workspace}
+          initialMembers={members}
+          initialInvitations={invitations}
+        />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,446 @@
+// access / acces : espaces de travail (organisations) et rôles de leurs membres
+// Workspaces (organizations) and member roles. Chaque projet appartient à un espace ; toutes
+// les routes API vérifient le rôle de l'utilisateur dans l'espace de la ressource visée
+// Every project belongs to a workspace; every API route checks the user's role in the
+// workspace of the targeted resource (OWNER > EDITOR > VIEWER)
+
+import { randomBytes } from 'node:crypto';
+import { cookies } from 'next/headers';
+import { appUrl } from '@/lib/appUrl';
+import { getCurrentUser, USER_VIEW_SELECT, type SessionUser } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import type { Prisma, WorkspaceInvitation, WorkspaceRole } from '@prisma/client';
+
+// workspaceCookie / cookieEspace : espace courant (sélecteur de l'en-tête) ; il ne donne aucun droit
+// Current workspace (header switcher); it grants no rights, membership is always checked
+export const WORKSPACE_COOKIE = 'cw_workspace';
+
+const WORKSPACE_COOKIE_MAX_AGE_S = 365 * 24 * 60 * 60;
+const INVITATION_DURATION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_WORKSPACE_NAME_LENGTH = 120;
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['OWNER', 'EDITOR', 'VIEWER'];
+
+// roleRank / rangRole : un rôle inclut les droits des rôles inférieurs
+// A role includes the rights of lower roles
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  VIEWER: 0,
+  EDITOR: 1,
+  OWNER: 2,
+};
+
+// roleAtLeast / roleAuMoins
+export function roleAtLeast(role: WorkspaceRole, minRole: WorkspaceRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
+
+// AccessTarget / cibleAcces : ressource dont on cherche l'espace
+// Resource whose workspace is looked up
+export type AccessTarget =
+  | { workspaceId: number }
+  | { projectId: number }
+  | { competitorId: number }
+  | { monitoredPageId: number }
+  | { changeId: number }
+  | { reportId: number }
+  | { scheduleId: number }
+  | { webhookId: number }
+  | { alertRuleId: number }
+  | { subscriberId: number }
+  | { notificationId: number };
+
+// Access / acces : utilisateur autorisé et son rôle dans l'espace de la ressource
+// Authorized user and their role in the resource's workspace
+export type Access = {
+  user: SessionUser;
+  workspaceId: number;
+  role: WorkspaceRole;
+};
+
+// AccessError / erreurAcces : statut HTTP + message bilingue
+// HTTP status + bilingual message
+export type AccessError = {
+  status: 401 | 403 | 404 | 500;
+  message: string;
+};
+
+// WorkspaceMembershipView / vueAppartenance : espace vu par un membre
+// Workspace as seen by a member
+export type WorkspaceMembershipView = {
+  id: number;
+  name: string;
+  role: WorkspaceRole;
+};
+
+// WorkspaceMemberView / vueMembreEspace : forme renvoyée par l'API (dates ISO)
+// Shape returned by the API (ISO dates)
+export type WorkspaceMemberView = {
+  userId: number;
+  email: string;
+  name: string | null;
+  role: WorkspaceRole;
+  lastLoginAt: string | null;
+  joinedAt: string;
+};
+
+// WorkspaceInvitationView / vueInvitationEspace : invitation en attente avec son lien
+// Pending invitation with its link
+export type WorkspaceInvitationView = {
+  id: number;
+  role: WorkspaceRole;
+  url: string;
+  expiresAt: string;
+  createdAt: string;
+};
+
+// projectWorkspace / espaceProjet : sélection Prisma commune aux ressources d'un projet
+// Shared Prisma selection for project-owned resources
+const PROJECT_WORKSPACE = { project: { select: { workspaceId: true } } } as const;
+
+// resolveWorkspaceId / resoudreIdEspace : null si la ressource n'existe pas
+// null when the resource does not exist
+async function resolveWorkspaceId(target: AccessTarget): Promise<number | null> {
+  if ('workspaceId' in target) {
+    return target.workspaceId;
+  }
+  if ('projectId' in target) {
+    const project = await prisma.project.findUnique({
+      where: { id: target.projectId },
+      select: { workspaceId: true },
+    });
+    return project?.workspaceId ?? null;
+  }
+  if ('competitorId' in target) {
+    const competitor = await prisma.competitor.findUnique({
+      where: { id: target.competitorId },
+      select: PROJECT_WORKSPACE,
+    });
+    return competitor?.project.workspaceId ?? null;
+  }
+  if ('monitoredPageId' in target) {
+    const page = await prisma.monitoredPage.findUnique({
+      where: { id: target.monitoredPageId },
+      select: { competitor: { select: PROJECT_WORKSPACE } },
+    });
+    return page?.competitor.project.workspaceId ?? null;
+  }
+  if ('changeId' in target) {
+    const change = await prisma.change.findUnique({
+      where: { id: target.changeId },
+      select: { monitoredPage: { select: { competitor: { select: PROJECT_WORKSPACE } } } },
+    });
+    return change?.monitoredPage.competitor.project.workspaceId ?? null;
+  }
+  if ('reportId' in target) {
+    const report = await prisma.report.findUnique({
+      where: { id: target.reportId },
+      select: PROJECT_WORKSPACE,
+    });
+    return report?.project.workspaceId ?? null;
+  }
+  if ('scheduleId' in target) {
+    const schedule = await prisma.reportSchedule.findUnique({
+      where: { id: target.scheduleId },
+      select: PROJECT_WORKSPACE,
+    });
+    return schedule?.project.workspaceId ?? null;
+  }
+  if ('webhookId' in target) {
+    const webhook = await prisma.webhookEndpoint.findUnique({
+      where: { id: target.webhookId },
+      select: PROJECT_WORKSPACE,
+    });
+    return webhook?.project.workspaceId ?? null;
+  }
+  if ('alertRuleId' in target) {
+    const rule = await prisma.alertRule.findUnique({
+      where: { id: target.alertRuleId },
+      select: PROJECT_WORKSPACE,
+    });
+    return rule?.project.workspaceId ?? null;
+  }
+  if ('subscriberId' in target) {
+    const subscriber = await prisma.digestSubscriber.findUnique({
+      where: { id: target.subscriberId },
+      select: PROJECT_WORKSPACE,
+    });
+    return subscriber?.project.workspaceId ?? null;
+  }
+  const notification = await prisma.notification.findUnique({
+    where: { id: target.notificationId },
+    select: PROJECT_WORKSPACE,
+  });
+  return notification?.project.workspaceId ?? null;
+}
+
+// findRole / trouverRole : null si l'utilisateur n'est pas membre
+// null when the user is not a member
+async function findRole(workspaceId: number, userId: number): Promise<WorkspaceRole | null> {
+  const member = await prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+    select: { role: true },
+  });
+  return member?.role ?? null;
+}
+
+// AccessResult / resultatAcces
+type AccessResult = { access: Access; error: null } | { access: null; error: AccessError };
+
+const UNAUTHENTICATED: AccessError = {
+  status: 401,
+  message: 'Authentification requise. / Authentication required.',
+};
+
+const ACCESS_CHECK_FAILED: AccessError = {
+  status: 500,
+  message: 'Erreur lors de la vérification des droits. / Error checking permissions.',
+};
+
+// grant / accorder : 403 si le rôle est insuffisant
+// 403 when the role is too low
+function grant(
+  user: SessionUser,
+  workspaceId: number,
+  role: WorkspaceRole,
+  minRole: WorkspaceRole,
+): AccessResult {
+  if (!roleAtLeast(role, minRole)) {
+    return {
+      access: null,
+      error: {
+        status: 403,
+        message: `Droits insuffisants : rôle ${minRole} requis (vous êtes ${role}). / Insufficient rights: ${minRole} role required (you are ${role}).`,
+      },
+    };
+  }
+  return { access: { user, workspaceId, role }, error: null };
+}
+
+// checkAccess / verifierAcces : 401 sans session, 404 si la ressource n'existe pas ou si
+// l'utilisateur n'est pas membre (l'existence n'est pas révélée), 403 si le rôle est insuffisant
+// 401 without a session, 404 when the resource does not exist or the user is not a member
+// (existence is not revealed), 403 when the role is too low. Ne lève jamais d'erreur / Never throws
+export async function checkAccess(
+  target: AccessTarget,
+  minRole: WorkspaceRole,
+): Promise<AccessResult> {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { access: null, error: UNAUTHENTICATED };
+    }
+
+    const workspaceId = await resolveWorkspaceId(target);
+    const role = workspaceId ? await findRole(workspaceId, user.id) : null;
+    if (!workspaceId || !role) {
+      return {
+        access: null,
+        error: { status: 404, message: 'Ressource introuvable. / Resource not found.' },
+      };
+    }
+
+    return grant(user, workspaceId, role, minRole);
+  } catch (error) {
+    console.error('checkAccessError / erreurVerificationAcces', error);
+    return { access: null, error: ACCESS_CHECK_FAILED };
+  }
+}
+
+// checkCurrentWorkspaceAccess / verifierAccesEspaceCourant : listes et créations sans ressource parente
+// (projets, notifications) ; 404 si l'utilisateur n'appartient à aucun espace
+// Lists and creations without a parent resource (projects, notifications); 404 without any workspace
+export async function checkCurrentWorkspaceAccess(minRole: WorkspaceRole): Promise<AccessResult> {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return { access: null, error: UNAUTHENTICATED };
+    }
+
+    const workspace = await getCurrentWorkspace(user.id);
+    if (!workspace) {
+      return {
+        access: null,
+        error: {
+          status: 404,
+          message:
+            'Aucun espace de travail : créez-en un ou acceptez une invitation. / No workspace: create one or accept an invitation.',
+        },
+      };
+    }
+
+    return grant(user, workspace.id, workspace.role, minRole);
+  } catch (error) {
+    console.error('checkAccessError / erreurVerificationAcces', error);
+    return { access: null, error: ACCESS_CHECK_FAILED };
+  }
+}
+
+// getProjectRole / lireRoleProjet : pages serveur ; null si non connecté, projet absent ou non membre
+// Server pages; null when logged out, missing project or not a member
+export async function getProjectRole(projectId: number): Promise<WorkspaceRole | null> {
+  const { access } = await checkAccess({ projectId }, 'VIEWER');
+  return access?.role ?? null;
+}
+
+// listUserWorkspaces / listerEspacesUtilisateur : par nom
+// By name
+export async function listUserWorkspaces(userId: number): Promise<WorkspaceMembershipView[]> {
+  const memberships = await prisma.workspaceMember.findMany({
+    where: { userId },
+    orderBy: { workspace: { name: 'asc' } },
+    select: { role: true, workspace: { select: { id: true, name: true } } },
+  });
+  return memberships.map((membership) => ({
+    id: membership.workspace.id,
+    name: membership.workspace.name,
+    role: membership.role,
+  }));
+}
+
+// getCurrentWorkspace / lireEspaceCourant : espace du cookie s'il est encore valide, sinon le premier
+// Cookie workspace while the user is still a member, otherwise the first one; null without membership
+export async function getCurrentWorkspace(userId: number): Promise<WorkspaceMembershipView | null> {
+  const workspaces = await listUserWorkspaces(userId);
+  const selectedId = Number((await cookies()).get(WORKSPACE_COOKIE)?.value);
+  return workspaces.find((workspace) => workspace.id === selectedId) ?? workspaces[0] ?? null;
+}
+
+// workspaceCookieOptions / optionsCookieEspace
+export function workspaceCookieOptions() {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: WORKSPACE_COOKIE_MAX_AGE_S,
+  };
+}
+
+// parseWorkspaceName / parserNomEspace : null si vide ou trop long
+// null when empty or too long
+export function parseWorkspaceName(raw: unknown): string | null {
+  const name = typeof raw === 'string' ? raw.trim() : '';
+  return name && name.length <= MAX_WORKSPACE_NAME_LENGTH ? name : null;
+}
+
+// parseWorkspaceRole / parserRoleEspace
+export function parseWorkspaceRole(raw: unknown): WorkspaceRole | null {
+  return WORKSPACE_ROLES.find((role) => role === raw) ?? null;
+}
+
+// generateInvitationToken / genererJetonInvitation
+export function generateInvitationToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+// invitationExpiry / expirationInvitation : 7 jours
+// 7 days
+export function invitationExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + INVITATION_DURATION_MS);
+}
+
+// invitationUrl / urlInvitation : lien absolu à transmettre (APP_BASE_URL)
+// Absolute link to hand over
+export function invitationUrl(token: string): string {
+  return appUrl(`/invite/${token}`);
+}
+
+// findPendingInvitation / trouverInvitationEnAttente : null si inconnue, acceptée ou expirée
+// null when unknown, accepted or expired
+export async function findPendingInvitation(token: string) {
+  if (!/^[a-f0-9]{48}$/.test(token)) return null;
+
+  const invitation = await prisma.workspaceInvitation.findUnique({
+    where: { token },
+    include: { workspace: { select: { id: true, name: true } } },
+  });
+  if (!invitation || invitation.acceptedAt || invitation.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+  return invitation;
+}
+
+// acceptInvitation / accepterInvitation : adhésion (un membre existant garde le rôle le plus élevé)
+// Membership (an existing member keeps the higher role); null when the invitation was used or
+// expired meanwhile, otherwise the member's user id. `user` = id d'un compte existant, ou création
+// du compte dans la même transaction (annulée si l'invitation n'est plus valable)
+// `user` = id of an existing account, or a callback creating the account in the same transaction,
+// so a lost race never leaves an account outside any workspace
+export async function acceptInvitation(
+  invitationId: number,
+  user: number | ((tx: Prisma.TransactionClient) => Promise<number>),
+): Promise<number | null> {
+  return prisma.$transaction(async (tx) => {
+    // claimInvitation / reserverInvitation : updateMany conditionnel, une seule acceptation possible
+    // Conditional updateMany: only one acceptance can succeed
+    const claimed = await tx.workspaceInvitation.updateMany({
+      where: { id: invitationId, acceptedAt: null, expiresAt: { gt: new Date() } },
+      data: { acceptedAt: new Date() },
+    });
+    if (claimed.count === 0) return null;
+
+    const userId = typeof user === 'number' ? user : await user(tx);
+    const invitation = await tx.workspaceInvitation.update({
+      where: { id: invitationId },
+      data: { acceptedById: userId },
+      select: { workspaceId: true, role: true },
+    });
+    const existing = await tx.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId: invitation.workspaceId, userId } },
+      select: { role: true },
+    });
+
+    if (!existing) {
+      await tx.workspaceMember.create({
+        data: { workspaceId: invitation.workspaceId, userId, role: invitation.role },
+      });
+    } else if (!roleAtLeast(existing.role, invitation.role)) {
+      await tx.workspaceMember.update({
+        where: { workspaceId_userId: { workspaceId: invitation.workspaceId, userId } },
+        data: { role: invitation.role },
+      });
+    }
+    return userId;
+  });
+}
+
+// listWorkspaceMembers / listerMembresEspace : par date d'arrivée
+// By join date
+export async function listWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberView[]> {
+  const members = await prisma.workspaceMember.findMany({
+    where: { workspaceId },
+    orderBy: { createdAt: 'asc' },
+    select: { role: true, createdAt: true, user: { select: USER_VIEW_SELECT } },
+  });
+  return members.map((member) => ({
+    userId: member.user.id,
+    email: member.user.email,
+    name: member.user.name,
+    role: member.role,
+    lastLoginAt: member.user.lastLoginAt?.toISOString() ?? null,
+    joinedAt: member.createdAt.toISOString(),
+  }));
+}
+
+// toInvitationView / versVueInvitation
+export function toInvitationView(invitation: WorkspaceInvitation): WorkspaceInvitationView {
+  return {
+    id: invitation.id,
+    role: invitation.role,
+    url: invitationUrl(invitation.token),
+    expiresAt: invitation.expiresAt.toISOString(),
+    createdAt: invitation.createdAt.toISOString(),
+  };
+}
+
+// listPendingInvitations / listerInvitationsEnAttente : non acceptées et non expirées
+// Not accepted and not expired
+export async function listPendingInvitations(
+  workspaceId: number,
+): Promise<WorkspaceInvitationView[]> {
+  const invitations = await prisma.workspaceInvitation.findMany({
+    where: { workspaceId, acceptedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: 'desc' },
+  });
+  return invitations.map(toInvitationView);
+}
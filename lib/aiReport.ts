@@ -0,0 +1,727 @@
+// aiReport / rapportIA : prompt et analyse IA des changements d'une période
+// Prompt building and AI analysis of a period's changes, independent of the LLM provider.
+// Au-delà du budget de tokens : map-reduce (lots par concurrent, résumés partiels, fusion)
+// Beyond the token budget: map-reduce (per-competitor chunks, partial summaries, merge).
+// Chaque fait marquant cite ses ChangeId (validés, une relance de correction au plus)
+// Each highlight cites its ChangeIds (validated, at most one repair retry)
+
+import type { LlmProvider, LlmRequest } from '@/lib/llmProvider';
+import type { ReportBaseline } from '@/lib/reportBaseline';
+import { validateHighlights, type ReportHighlight } from '@/lib/reportHighlights';
+
+// AiReportResult / resultatRapportIA : résultat de l'analyse IA
+// AI analysis result
+export type AiReportResult = {
+  aiSummary: string;
+  highlights: ReportHighlight[]; // validated / valides (sourceChangeIds présents dans les données)
+  changesConsidered: number; // sentToModel / envoyesAuModele (lots ayant répondu)
+  changesDropped: number;    // notAnalyzed / nonAnalyses (budget dépassé ou lot en échec)
+  chunkCount: number;        // mapCalls / appelsMap (1 = passe unique)
+};
+
+// AiReportChange / changementRapportIA : champs d'un Change lus pour le prompt
+// Change fields read for the prompt
+export type AiReportChange = {
+  id: number;
+  changeType: string;
+  field: string | null;
+  changeSummary: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  priceChangeKind: string | null;
+  oldPrice: number | null;
+  newPrice: number | null;
+  priceDelta: number | null;
+  priceDeltaPct: number | null;
+  currency: string | null;
+  oldCurrency: string | null;
+  triageStatus: string;
+  notes: string | null;
+  createdAt: Date;
+  monitoredPage: {
+    url: string;
+    pageType: string;
+    competitor: {
+      name: string;
+    };
+  };
+};
+
+// ChangeChunk / lotChangements : lignes envoyées dans un même appel (map)
+// Lines sent in one (map) call
+export type ChangeChunk = {
+  competitors: string[];
+  changeIds: number[];
+  lines: string[];
+};
+
+// defaultPromptTokenBudget / budgetTokensPromptParDefaut : taille max estimée d'un prompt
+// Max estimated prompt size (LLM_PROMPT_TOKEN_BUDGET / llmSettings.promptTokenBudget)
+export const DEFAULT_PROMPT_TOKEN_BUDGET = 12000;
+
+// maxAiChunks / nbMaxLots : borne le nombre d'appels map (coût / durée)
+// Caps the number of map calls (cost / duration)
+export const MAX_AI_CHUNKS = 12;
+
+// minLinesBudget / budgetMinLignes : place minimale laissée aux lignes de changements
+// Minimum room left for change lines
+const MIN_LINES_BUDGET = 500;
+
+// maxHighlightsPerChunk / nbMaxFaitsParLot : faits marquants d'un lot transmis à la fusion
+// Highlights of one chunk passed to the merge step
+const MAX_HIGHLIGHTS_PER_CHUNK = 6;
+
+// maxFinalHighlights / nbMaxFaitsFinaux : repli si la fusion échoue
+// Fallback when the merge step fails
+const MAX_FINAL_HIGHLIGHTS = 8;
+
+const MAX_PRICING_JSON_LENGTH = 400;
+const MAX_NOTES_LENGTH = 300;
+const MAX_SUMMARY_LENGTH = 500;
+
+// repairPromptLimits / limitesPromptCorrection : réponse et erreurs rappelées lors de la relance
+// Previous answer and errors echoed in the repair retry
+const MAX_REPAIR_ANSWER_LENGTH = 6000;
+const MAX_REPAIR_ERRORS = 20;
+
+// estimateTokens / estimerTokens : ~3,5 caractères par token (prudent pour le français)
+// ~3.5 characters per token (conservative for French text)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 3.5);
+}
+
+// truncateForPrompt / tronquerPourPrompt : évite d'envoyer des blobs énormes à l'IA
+// Avoid sending huge blobs to the AI
+function truncateForPrompt(
+  value: string | null,
+  maxLength: number,
+): string {
+  if (!value) return 'null';
+  if (value.length <= maxLength) return value;
+  return value.slice(0, maxLength) + '…';
+}
+
+// formatChangeLine / formaterLigneChangement : une ligne de prompt par changement
+// One prompt line per change
+export function formatChangeLine(change: AiReportChange): string {
+  const dateStr = change.createdAt.toISOString();
+  const competitorName = change.monitoredPage.competitor.name;
+  const pageType = change.monitoredPage.pageType;
+  const url = change.monitoredPage.url;
+  const type = change.changeType;
+  const field = change.field ?? 'N/A';
+  const summary = truncateForPrompt(change.changeSummary ?? '', MAX_SUMMARY_LENGTH);
+
+  // analystTriage / triageAnalyste : marqueur IMPORTANT + notes éventuelles
+  // IMPORTANT marker + optional analyst notes
+  const triage =
+    (change.triageStatus === 'IMPORTANT' ? ' | Triage="IMPORTANT"' : '') +
+    (change.notes
+      ? ` | AnalystNotes="${truncateForPrompt(change.notes, MAX_NOTES_LENGTH).replace(/\s+/g, ' ')}"`
+      : '');
+
+  // Changements de prix par produit : champs structurés (ancien / nouveau prix, écarts)
+  // Item-level PRICE changes: structured fields (old / new price, deltas)
+  if (type === 'PRICE' && change.priceChangeKind) {
+    const currency = change.currency ?? 'N/A';
+    const oldCurrency =
+      change.oldCurrency && change.oldCurrency !== change.currency
+        ? ` | OldCurrency="${change.oldCurrency}"`
+        : '';
+    const num = (value: number | null) => (value === null ? 'null' : String(value));
+
+    return `[${dateStr}] ChangeId=${change.id} | Competitor="${competitorName}" | PageType="${pageType}" | ChangeType="${type}" | Field="${field}" | URL="${url}" | Summary="${summary}" | PriceChange="${change.priceChangeKind}" | OldPrice=${num(change.oldPrice)} | NewPrice=${num(change.newPrice)} | Delta=${num(change.priceDelta)} | DeltaPct=${num(change.priceDeltaPct)} | Currency="${currency}"${oldCurrency}${triage}`;
+  }
+
+  // Anciens changements de prix (avant le détail par produit) : aperçu des JSON old/new
+  // Legacy PRICE changes (before item-level detail): short preview of old/new pricing JSON
+  if (type === 'PRICE') {
+    const oldPricingPreview = truncateForPrompt(
+      change.oldValue,
+      MAX_PRICING_JSON_LENGTH,
+    );
+    const newPricingPreview = truncateForPrompt(
+      change.newValue,
+      MAX_PRICING_JSON_LENGTH,
+    );
+
+    return `[${dateStr}] ChangeId=${change.id} | Competitor="${competitorName}" | PageType="${pageType}" | ChangeType="${type}" | Field="${field}" | URL="${url}" | Summary="${summary}" | OldPricingJson=${oldPricingPreview} | NewPricingJson=${newPricingPreview}${triage}`;
+  }
+
+  // Pour les autres changements, on garde le format simple
+  // For other changes, keep simple format
+  return `[${dateStr}] ChangeId=${change.id} | Competitor="${competitorName}" | PageType="${pageType}" | ChangeType="${type}" | Field="${field}" | URL="${url}" | Summary="${summary}"${triage}`;
+}
+
+// importantFirst / importantsEnPremier : les changements IMPORTANT ouvrent chaque groupe
+// IMPORTANT changes open each group, so they land in the first chunk of their competitor
+function importantFirst(changes: AiReportChange[]): AiReportChange[] {
+  return [
+    ...changes.filter((change) => change.triageStatus === 'IMPORTANT'),
+    ...changes.filter((change) => change.triageStatus !== 'IMPORTANT'),
+  ];
+}
+
+// buildChangesPrompt / construirePromptChangements : toutes les lignes (IMPORTANT d'abord)
+// All lines, IMPORTANT first; callers split them with planChangeChunks
+export function buildChangesPrompt(changes: AiReportChange[]): string {
+  if (changes.length === 0) {
+    return 'Aucun changement détecté sur la période. / No changes detected during the period.';
+  }
+
+  return importantFirst(changes).map(formatChangeLine).join('\n');
+}
+
+// planChangeChunks / planifierLots : lots par concurrent, découpés au budget puis regroupés
+// Per-competitor chunks, split to the budget then packed together.
+// Les premiers lots de chaque concurrent passent avant les suites : au-delà de MAX_AI_CHUNKS,
+// ce sont les changements les moins prioritaires des gros concurrents qui sont abandonnés
+// Each competitor's first piece comes before any overflow piece, so beyond MAX_AI_CHUNKS the
+// dropped changes are the lowest-priority ones of the busiest competitors
+export function planChangeChunks(
+  changes: AiReportChange[],
+  linesBudget: number,
+  maxChunks: number = MAX_AI_CHUNKS,
+): { chunks: ChangeChunk[]; dropped: number } {
+  const groups = new Map<string, AiReportChange[]>();
+  for (const change of changes) {
+    const competitor = change.monitoredPage.competitor.name;
+    groups.set(competitor, [...(groups.get(competitor) ?? []), change]);
+  }
+
+  // pieces / morceaux : découpage de chaque concurrent au budget (rang = 0 pour le premier morceau)
+  // Each competitor split to the budget (rank 0 = first piece)
+  const pieces: {
+    competitor: string;
+    rank: number;
+    changeIds: number[];
+    lines: string[];
+    tokens: number;
+  }[] = [];
+  for (const [competitor, group] of groups) {
+    let current: string[] = [];
+    let currentIds: number[] = [];
+    let tokens = 0;
+    let rank = 0;
+
+    for (const change of importantFirst(group)) {
+      let line = formatChangeLine(change);
+      let lineTokens = estimateTokens(line);
+      if (lineTokens > linesBudget) {
+        line = truncateForPrompt(line, Math.floor(linesBudget * 3.5) - 1);
+        lineTokens = estimateTokens(line);
+      }
+
+      if (current.length > 0 && tokens + lineTokens > linesBudget) {
+        pieces.push({ competitor, rank, changeIds: currentIds, lines: current, tokens });
+        current = [];
+        currentIds = [];
+        tokens = 0;
+        rank += 1;
+      }
+      current.push(line);
+      currentIds.push(change.id);
+      tokens += lineTokens;
+    }
+    if (current.length > 0) {
+      pieces.push({ competitor, rank, changeIds: currentIds, lines: current, tokens });
+    }
+  }
+
+  pieces.sort((a, b) => a.rank - b.rank);
+
+  // packing / regroupement : petits concurrents réunis dans un même lot
+  // Small competitors packed into the same chunk
+  const chunks: (ChangeChunk & { tokens: number })[] = [];
+  let dropped = 0;
+  for (const piece of pieces) {
+    const target = chunks.find((chunk) => chunk.tokens + piece.tokens <= linesBudget);
+    if (target) {
+      target.lines.push(...piece.lines);
+      target.changeIds.push(...piece.changeIds);
+      target.tokens += piece.tokens;
+      if (!target.competitors.includes(piece.competitor)) {
+        target.competitors.push(piece.competitor);
+      }
+    } else if (chunks.length < maxChunks) {
+      chunks.push({
+        competitors: [piece.competitor],
+        changeIds: [...piece.changeIds],
+        lines: [...piece.lines],
+        tokens: piece.tokens,
+      });
+    } else {
+      dropped += piece.lines.length;
+    }
+  }
+
+  return {
+    chunks: chunks.map(({ competitors, changeIds, lines }) => ({ competitors, changeIds, lines })),
+    dropped,
+  };
+}
+
+// ParsedAiAnswer / reponseIaParsee : JSON { summary, highlights } d'un appel (highlights non validés)
+// JSON { summary, highlights } of one call (highlights not validated yet)
+type ParsedAiAnswer = {
+  summary: string | null;
+  highlights: unknown;
+};
+
+// parseAiAnswer / parserReponseIa : null si vide ou JSON invalide
+// null when empty or invalid JSON
+function parseAiAnswer(content: string | null): ParsedAiAnswer | null {
+  if (!content) {
+    console.error('[aiReport] Réponse IA vide. / Empty AI response.');
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (parseError) {
+    console.error(
+      '[aiReport] Erreur de parsing JSON IA. / Error parsing AI JSON.',
+      parseError,
+    );
+    return null;
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    console.error('[aiReport] JSON IA inattendu. / Unexpected AI JSON.');
+    return null;
+  }
+
+  const value = parsed as { summary?: unknown; highlights?: unknown };
+  return {
+    summary:
+      typeof value.summary === 'string' && value.summary.trim().length > 0
+        ? value.summary
+        : null,
+    highlights: value.highlights,
+  };
+}
+
+// ValidatedAiAnswer / reponseIaValidee : résumé + faits marquants conformes au schéma
+// Summary + highlights matching the schema
+type ValidatedAiAnswer = {
+  summary: string | null;
+  highlights: ReportHighlight[];
+};
+
+// buildRepairPrompt / construirePromptCorrection : prompt initial + réponse invalide + erreurs
+// Original prompt + invalid answer + validation errors
+function buildRepairPrompt(user: string, previous: string | null, errors: string[]): string {
+  return [
+    user,
+    '',
+    'Ta réponse précédente ne respecte pas le format demandé :',
+    ...errors.slice(0, MAX_REPAIR_ERRORS).map((error) => `- ${error}`),
+    '',
+    'Réponse précédente :',
+    truncateForPrompt(previous, MAX_REPAIR_ANSWER_LENGTH),
+    '',
+    'Renvoie le JSON complet corrigé. Chaque highlight doit citer dans sourceChangeIds uniquement des ChangeId présents dans les données ci-dessus.',
+  ].join('\n');
+}
+
+// completeValidated / completerValide : appel + validation stricte, une relance de correction
+// Call + strict validation, with one repair retry; highlights still invalid after the retry
+// (ex : ChangeId inventé) sont rejetés / are rejected
+async function completeValidated(
+  provider: LlmProvider,
+  request: LlmRequest,
+  allowedChangeIds: ReadonlySet<number>,
+): Promise<ValidatedAiAnswer | null> {
+  const content = await provider.complete(request);
+  const answer = parseAiAnswer(content);
+  const validation = answer ? validateHighlights(answer.highlights, allowedChangeIds) : null;
+
+  if (answer && validation && validation.errors.length === 0) {
+    return { summary: answer.summary, highlights: validation.highlights };
+  }
+
+  const errors = validation?.errors ?? [
+    'La réponse doit être un objet JSON { "summary", "highlights" }. / The answer must be a JSON object { "summary", "highlights" }.',
+  ];
+  console.warn(
+    `[aiReport] Réponse IA invalide (${errors.length} erreur(s)), relance de correction. / Invalid AI answer, repair retry.`,
+  );
+
+  const retryAnswer = parseAiAnswer(
+    await provider.complete({
+      ...request,
+      user: buildRepairPrompt(request.user, content, errors),
+    }),
+  );
+
+  // bestAttempt / meilleureTentative : la relance si elle est lisible, sinon la première réponse
+  // The retry when readable, otherwise the first answer
+  const finalAnswer = retryAnswer ?? answer;
+  if (!finalAnswer) return null;
+
+  const finalValidation = validateHighlights(finalAnswer.highlights, allowedChangeIds);
+  if (finalValidation.errors.length > 0) {
+    console.warn(
+      `[aiReport] ${finalValidation.errors.length} erreur(s) après correction, faits marquants invalides rejetés. / Errors remain after repair, invalid highlights rejected.`,
+      finalValidation.errors.slice(0, MAX_REPAIR_ERRORS),
+    );
+  }
+
+  return { summary: finalAnswer.summary, highlights: finalValidation.highlights };
+}
+
+// impactRank / rangImpact : HIGH d'abord (repli de fusion)
+// HIGH first (merge fallback)
+function impactRank(highlight: ReportHighlight): number {
+  return highlight.impact === 'HIGH' ? 0 : highlight.impact === 'MEDIUM' ? 1 : 2;
+}
+
+// systemPrompt / promptSysteme
+// Rôle : assistant de veille marketing
+// Role: marketing competitive intelligence assistant
+const SYSTEM_PROMPT =
+  'Tu es un assistant de veille concurrentielle pour une équipe marketing B2B. ' +
+  'Tu analyses les changements détectés sur les sites des concurrents (pricing, offres, contenus) ' +
+  'et tu produis un rapport synthétique, exploitable par un décideur marketing francophone. ' +
+  'Tu dois identifier clairement les mouvements de prix, les nouveaux produits/plans, ' +
+  'les changements de message (slogan, titres, sections clés) et les éventuels problèmes techniques.';
+
+// outputFormatLines / lignesFormatSortie : format JSON commun à tous les appels
+// JSON format shared by every call
+const OUTPUT_FORMAT_LINES = [
+  'Format de sortie JSON STRICT (pas de texte hors JSON) :',
+  '{',
+  '  "summary": "string, résumé global en français",',
+  '  "highlights": [',
+  '    {',
+  '      "title": "string, très courte (ex: \\"Hausse du plan de base\\", \\"Nouveau plan intermédiaire\\", \\"Problème sur la page pricing\\")",',
+  '      "detail": "string, 1 à 3 phrases en français expliquant le changement et son sens business",',
+  '      "competitor": "nom du concurrent",',
+  '      "changeType": "TEXT | PRICE | SECTION_ADDED | SECTION_REMOVED | OTHER",',
+  '      "impact": "HIGH | MEDIUM | LOW",',
+  '      "sourceChangeIds": [liste des ChangeId (entiers) des lignes qui justifient ce fait, au moins un]',
+  '    }',
+  '  ]',
+  '}',
+];
+
+// PromptContext / contextePrompt : en-tête commun (projet, période, statistiques)
+// Shared header (project, period, statistics)
+type PromptContext = {
+  projectName: string;
+  projectDescriptionText: string;
+  periodStartStr: string;
+  periodEndStr: string;
+  baselineSummary: string;
+};
+
+function contextLines(context: PromptContext): string[] {
+  return [
+    'Contexte projet :',
+    `- Nom du projet : ${context.projectName}`,
+    `- Description : ${context.projectDescriptionText}`,
+    '',
+    `Période analysée : du ${context.periodStartStr} au ${context.periodEndStr}.`,
+    '',
+    'Statistiques calculées (exactes, à ne pas contredire) :',
+    context.baselineSummary,
+    '',
+  ];
+}
+
+// buildChangesUserPrompt / construirePromptUtilisateur : passe unique ou lot partiel (map)
+// Single pass, or one partial chunk (map step)
+function buildChangesUserPrompt(
+  context: PromptContext,
+  changesText: string,
+  partial: { index: number; total: number; competitors: string[] } | null,
+): string {
+  return [
+    ...contextLines(context),
+    ...(partial
+      ? [
+          `Lot ${partial.index} sur ${partial.total} : ce lot ne contient qu’une partie des changements (concurrents : ${partial.competitors.join(', ')}). Les autres lots sont analysés séparément puis fusionnés.`,
+          '',
+        ]
+      : []),
+    'Données de changements (une ligne par changement) :',
+    'Chaque ligne suit le format : [date] ChangeId=... | Competitor="..." | PageType="..." | ChangeType="..." | Field="..." | URL="..." | Summary="..."',
+    'Les lignes PRICE ajoutent : PriceChange="PRICE_UPDATED | ITEM_ADDED | ITEM_REMOVED" | OldPrice=... | NewPrice=... | Delta=... | DeltaPct=... | Currency="..." [| OldCurrency="..." si la devise a changé, Delta = null] (Field = nom du produit / plan).',
+    'Une ligne peut se terminer par Triage="IMPORTANT" (signalé par un analyste) et/ou AnalystNotes="..." (commentaire de l’analyste).',
+    '',
+    changesText,
+    '',
+    'Tâche :',
+    partial
+      ? '1) Produis un résumé partiel en français (3 à 6 lignes maximum) des évolutions de ce lot uniquement.'
+      : "1) Produis un résumé global en français (5 à 10 lignes maximum) des évolutions concurrentielles sur la période, cohérent avec les statistiques calculées (interprète-les, ne les recopie pas).",
+    partial
+      ? `2) Propose jusqu’à ${MAX_HIGHLIGHTS_PER_CHUNK} faits marquants pour ce lot sous forme d'objets structurés.`
+      : "2) Propose une liste de 3 à 8 faits marquants sous forme d'objets structurés.",
+    '',
+    'Les faits marquants doivent couvrir en priorité :',
+    '- les changements de prix (hausse/baisse, apparition/disparition de plans),',
+    '- les nouveaux produits / nouvelles offres,',
+    '- les modifications importantes de messages (nouveau slogan, nouvelle accroche, réécriture majeure),',
+    "- les problèmes techniques visibles dans les résumés (ex: page indisponible, erreur, contenu vide).",
+    '',
+    ...OUTPUT_FORMAT_LINES,
+    '',
+    'IMPORTANT :',
+    '- Les changements marqués Triage="IMPORTANT" doivent chacun apparaître dans un highlight (impact au moins MEDIUM) ; tiens compte des AnalystNotes pour leur interprétation.',
+    '- Chaque highlight cite dans sourceChangeIds les ChangeId des lignes sur lesquelles il s’appuie ; n’invente jamais de ChangeId.',
+    '- Utilise les informations chiffrées (OldPrice, NewPrice, Delta, DeltaPct) quand elles sont disponibles.',
+    '- ITEM_ADDED = nouveau produit / plan, ITEM_REMOVED = produit / plan retiré.',
+    '- Quand un nouveau produit/plan apparaît clairement, fais un highlight dédié (titre commençant par \\"Nouveau produit\\" ou \\"Nouveau plan\\").',
+    '- Quand une offre disparaît, fais un highlight dédié (titre du type \\"Suppression d’un plan\\").',
+    '- Quand le contenu ou le message principal change beaucoup, fais un highlight de type TEXT (ex: \\"Repositionnement du message marketing\\").',
+    '- Si tu détectes des problèmes (erreur, contenu vide, etc.), ajoute un highlight de type OTHER avec impact HIGH si critique.',
+    '',
+    'Ne commente pas le JSON. Ne mets pas de texte avant ou après le JSON.',
+  ].join('\n');
+}
+
+// ChunkAnswer / reponseLot : résultat d'un appel map
+// Result of one map call
+type ChunkAnswer = {
+  competitors: string[];
+  changeIds: number[];
+  summary: string;
+  highlights: ReportHighlight[];
+};
+
+// buildMergeUserPrompt / construirePromptFusion : résumés partiels -> rapport final (reduce)
+// Partial summaries -> final report (reduce step)
+function buildMergeUserPrompt(
+  context: PromptContext,
+  answers: ChunkAnswer[],
+  highlightsPerChunk: number,
+  droppedChanges: number,
+): string {
+  const partials = answers.flatMap((answer, index) => [
+    `Lot ${index + 1} (${answer.competitors.join(', ')} – ${answer.changeIds.length} changements) :`,
+    `Résumé : ${answer.summary}`,
+    `Faits marquants : ${JSON.stringify(
+      [...answer.highlights]
+        .sort((a, b) => impactRank(a) - impactRank(b))
+        .slice(0, highlightsPerChunk),
+    )}`,
+    '',
+  ]);
+
+  return [
+    ...contextLines(context),
+    `Les changements de la période ont été analysés en ${answers.length} lots (par concurrent).` +
+      (droppedChanges > 0
+        ? ` ${droppedChanges} changements n’ont pas pu être analysés (volume trop important) : appuie-toi sur les statistiques calculées pour les évoquer globalement.`
+        : ''),
+    '',
+    'Résumés partiels :',
+    '',
+    ...partials,
+    'Tâche :',
+    "1) Fusionne ces résumés en un résumé global en français (5 à 10 lignes maximum), cohérent avec les statistiques calculées, sans répéter les lots un par un.",
+    "2) Sélectionne et fusionne 3 à 8 faits marquants (dédoublonne, garde les plus importants, conserve les faits issus de changements signalés IMPORTANT).",
+    '   Un fait fusionné cite l’union des sourceChangeIds des faits partiels dont il est issu ; n’invente jamais de ChangeId.',
+    '',
+    ...OUTPUT_FORMAT_LINES,
+    '',
+    'Ne commente pas le JSON. Ne mets pas de texte avant ou après le JSON.',
+  ].join('\n');
+}
+
+// generateAiReport / genererRapportIA : interroge le fournisseur LLM pour analyser les changements
+// Asks the LLM provider to analyze changes and produce a structured report
+// (null provider, empty or invalid answer => null, the caller keeps the baseline)
+export async function generateAiReport(params: {
+  projectName: string;
+  projectDescription: string | null;
+  periodStart: Date;
+  periodEnd: Date;
+  baseline: ReportBaseline;
+  changes: AiReportChange[];
+  provider: LlmProvider | null;
+  promptTokenBudget?: number | null;
+}): Promise<AiReportResult | null> {
+  const {
+    projectName,
+    projectDescription,
+    periodStart,
+    periodEnd,
+    baseline,
+    changes,
+    provider,
+  } = params;
+
+  // Sans fournisseur (ni clé API ni baseUrl), on ne tente pas d'appel IA
+  // Without a provider (no API key nor base URL), do not attempt an AI call
+  if (!provider) {
+    console.warn(
+      '[aiReport] Aucun fournisseur LLM configuré (OPENAI_API_KEY / LLM_*), génération IA ignorée. / ' +
+        'No LLM provider configured (OPENAI_API_KEY / LLM_*), skipping AI generation.',
+    );
+    return null;
+  }
+
+  // S'il n'y a aucun changement, on renvoie simplement un message statique
+  // If there are no changes, return a static message
+  if (changes.length === 0) {
+    return {
+      aiSummary:
+        'Aucun changement détecté sur les pages surveillées pendant cette période. / No changes detected on monitored pages during this period.',
+      highlights: [], // tableau vide JSON / empty JSON array
+      changesConsidered: 0,
+      changesDropped: 0,
+      chunkCount: 0,
+    };
+  }
+
+  const context: PromptContext = {
+    projectName,
+    projectDescriptionText:
+      projectDescription && projectDescription.trim().length > 0
+        ? projectDescription
+        : 'Pas de description fournie. / No description provided.',
+    periodStartStr: periodStart.toISOString().slice(0, 10),
+    periodEndStr: periodEnd.toISOString().slice(0, 10),
+    baselineSummary: baseline.summary,
+  };
+
+  // tokenGuard / gardeTokens : budget total moins les instructions fixes
+  // Total budget minus the fixed instructions
+  const budget = params.promptTokenBudget ?? DEFAULT_PROMPT_TOKEN_BUDGET;
+  const overhead =
+    estimateTokens(SYSTEM_PROMPT) +
+    estimateTokens(
+      buildChangesUserPrompt(context, '', {
+        index: MAX_AI_CHUNKS,
+        total: MAX_AI_CHUNKS,
+        competitors: [],
+      }),
+    );
+  const linesBudget = Math.max(MIN_LINES_BUDGET, budget - overhead);
+
+  const { chunks, dropped } = planChangeChunks(changes, linesBudget);
+
+  try {
+    // singlePass / passeUnique : tout tient dans un prompt
+    // Everything fits in one prompt
+    if (chunks.length === 1) {
+      // jsonMode / modeJson : response_format JSON pour forcer un JSON valide
+      // JSON response_format to force valid JSON
+      const answer = await completeValidated(
+        provider,
+        {
+          system: SYSTEM_PROMPT,
+          user: buildChangesUserPrompt(context, chunks[0].lines.join('\n'), null),
+          json: true,
+        },
+        new Set(chunks[0].changeIds),
+      );
+      if (!answer) return null;
+
+      return {
+        aiSummary: answer.summary ?? 'Résumé IA indisponible. / AI summary unavailable.',
+        highlights: answer.highlights,
+        changesConsidered: chunks[0].lines.length,
+        changesDropped: dropped,
+        chunkCount: 1,
+      };
+    }
+
+    // map / map : un appel par lot, séquentiel (serveurs auto-hébergés souvent mono-requête)
+    // One call per chunk, sequential (self-hosted servers often serve one request at a time)
+    const answers: ChunkAnswer[] = [];
+    let failedChanges = 0;
+    for (const [index, chunk] of chunks.entries()) {
+      try {
+        const answer = await completeValidated(
+          provider,
+          {
+            system: SYSTEM_PROMPT,
+            user: buildChangesUserPrompt(context, chunk.lines.join('\n'), {
+              index: index + 1,
+              total: chunks.length,
+              competitors: chunk.competitors,
+            }),
+            json: true,
+          },
+          new Set(chunk.changeIds),
+        );
+        if (!answer?.summary) {
+          failedChanges += chunk.lines.length;
+          continue;
+        }
+        answers.push({
+          competitors: chunk.competitors,
+          changeIds: chunk.changeIds,
+          summary: answer.summary,
+          highlights: answer.highlights,
+        });
+      } catch (chunkError) {
+        console.error(
+          `[aiReport] Échec du lot ${index + 1}/${chunks.length}. / Chunk ${index + 1}/${chunks.length} failed.`,
+          chunkError,
+        );
+        failedChanges += chunk.lines.length;
+      }
+    }
+
+    if (answers.length === 0) return null;
+
+    const considered = new Set(answers.flatMap((answer) => answer.changeIds));
+    const changesConsidered = considered.size;
+    const changesDropped = dropped + failedChanges;
+
+    // reduce / reduce : moins de faits marquants par lot tant que le prompt dépasse le budget
+    // Fewer highlights per chunk while the prompt exceeds the budget
+    let highlightsPerChunk = MAX_HIGHLIGHTS_PER_CHUNK;
+    let mergePrompt = buildMergeUserPrompt(context, answers, highlightsPerChunk, changesDropped);
+    while (
+      highlightsPerChunk > 1 &&
+      estimateTokens(SYSTEM_PROMPT) + estimateTokens(mergePrompt) > budget
+    ) {
+      highlightsPerChunk -= 1;
+      mergePrompt = buildMergeUserPrompt(context, answers, highlightsPerChunk, changesDropped);
+    }
+
+    let merged: ValidatedAiAnswer | null = null;
+    try {
+      merged = await completeValidated(
+        provider,
+        {
+          system: SYSTEM_PROMPT,
+          user: mergePrompt,
+          json: true,
+        },
+        considered,
+      );
+    } catch (mergeError) {
+      console.error('[aiReport] Échec de la fusion. / Merge step failed.', mergeError);
+    }
+
+    // mergeFallback / repliFusion : résumés partiels concaténés, faits marquants par impact
+    // Partial summaries concatenated, highlights ranked by impact
+    const fallbackHighlights = answers
+      .flatMap((answer) => answer.highlights)
+      .sort((a, b) => impactRank(a) - impactRank(b))
+      .slice(0, MAX_FINAL_HIGHLIGHTS);
+
+    return {
+      aiSummary:
+        merged?.summary ?? answers.map((answer) => answer.summary.trim()).join('\n'),
+      highlights:
+        merged && merged.highlights.length > 0 ? merged.highlights : fallbackHighlights,
+      changesConsidered,
+      changesDropped,
+      chunkCount: chunks.length,
+    };
+  } catch (error) {
+    console.error(
+      `[aiReport] Erreur lors de l’appel au fournisseur LLM (${provider.kind}, ${provider.model}). / Error calling the LLM provider.`,
+      error,
+    );
+    return null;
+  }
+}
@@ -0,0 +1,523 @@
+// alertRules / reglesAlerte : règles évaluées après chaque scrape (lib/scrapePipeline.ts)
+// Rules evaluated after each scrape: price moves, change types, failure streaks, large text diffs.
+// Une correspondance crée une AlertEvent et, si notify, un webhook alert.triggered
+// A match stores an AlertEvent and, when notify is set, sends an alert.triggered webhook
+
+import { prisma } from '@/lib/db';
+import { formatPrice, formatPriceDelta } from '@/lib/pricingDiff';
+import { parseTextDiff } from '@/lib/textDiff';
+import { notifyAlertTriggered } from '@/lib/webhooks';
+import type {
+  AlertRule,
+  AlertRuleKind,
+  Change,
+  ChangeType,
+  PageType,
+  PriceDirection,
+  Prisma,
+} from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_NAME_LENGTH = 120;
+
+// testLimits / limitesTest : historique rejoué par le mode test
+// History replayed by the test mode
+const DEFAULT_TEST_DAYS = 30;
+const MAX_TEST_DAYS = 365;
+const MAX_TEST_CHANGES = 500;
+const MAX_TEST_RUNS = 5000;
+const MAX_TEST_MATCHES = 100;
+
+export const ALERT_RULE_KINDS: AlertRuleKind[] = [
+  'PRICE_MOVE',
+  'CHANGE_TYPE',
+  'FETCH_FAILURES',
+  'TEXT_DIFF_SIZE',
+];
+export const PRICE_DIRECTIONS: PriceDirection[] = ['DROP', 'RISE', 'ANY'];
+const PAGE_TYPES: PageType[] = ['PRICING', 'LANDING', 'PRODUCT', 'BLOG', 'OTHER'];
+const CHANGE_TYPES: ChangeType[] = ['TEXT', 'PRICE', 'SECTION_ADDED', 'SECTION_REMOVED', 'OTHER'];
+
+// AlertRuleInput / entreeRegleAlerte : création ou mise à jour validée
+// Validated creation or update; parameters unrelated to `kind` are reset
+export type AlertRuleInput = Pick<
+  AlertRule,
+  | 'name'
+  | 'kind'
+  | 'competitorId'
+  | 'pageTypes'
+  | 'changeTypes'
+  | 'priceDirection'
+  | 'minPriceDeltaPct'
+  | 'minConsecutiveFailures'
+  | 'minDiffWords'
+  | 'notify'
+  | 'enabled'
+>;
+
+// RuleCondition / conditionRegle : ce que les fonctions de correspondance lisent
+// What the matching functions read
+type RuleCondition = Omit<AlertRuleInput, 'name' | 'notify' | 'enabled'>;
+
+// PageContext / contextePage : page surveillée et concurrent d'un changement ou d'un échec
+// Monitored page and competitor of a change or failure
+type PageContext = {
+  id: number;
+  url: string;
+  pageType: PageType;
+  competitor: { id: number; name: string; projectId: number };
+};
+
+// AlertRuleTestMatch / correspondanceTestRegle : déclenchement simulé sur l'historique
+// Simulated trigger on the history
+export type AlertRuleTestMatch = {
+  changeId: number | null;
+  monitoredPageId: number;
+  pageUrl: string;
+  competitorName: string;
+  occurredAt: string;
+  message: string;
+};
+
+// parseNumberInRange / parserNombreBorne : accepte aussi les chaînes des formulaires
+// Also accepts form strings
+function parseNumberInRange(
+  value: unknown,
+  min: number,
+  max: number,
+  integer: boolean,
+): number | null {
+  const parsed = typeof value === 'string' && value.trim() ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) return null;
+  if (integer && !Number.isInteger(parsed)) return null;
+  return parsed >= min && parsed <= max ? parsed : null;
+}
+
+// parseEnumList / parserListeEnum : null si une valeur est inconnue
+// null if a value is unknown
+function parseEnumList<T extends string>(value: unknown, allowed: T[]): T[] | null {
+  if (!Array.isArray(value) || value.some((item) => !allowed.includes(item as T))) {
+    return null;
+  }
+  return [...new Set(value as T[])];
+}
+
+// parseAlertRuleInput / parserEntreeRegleAlerte : validation du POST / PATCH
+// Validates POST / PATCH bodies; `existing` supplies the fields missing from a PATCH.
+// Le rattachement du concurrent au projet est vérifié par la route (competitorBelongsToProject)
+// The competitor's project is checked by the route (competitorBelongsToProject)
+export function parseAlertRuleInput(
+  raw: unknown,
+  existing: AlertRuleInput | null,
+):
+  | { input: AlertRuleInput; error: null }
+  | { input: null; error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { input: null, error: 'Corps de requête invalide. / Invalid request body.' };
+  }
+
+  const value = raw as Record<string, unknown>;
+
+  const name = typeof value.name === 'string' ? value.name.trim() : existing?.name;
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return {
+      input: null,
+      error: `name est requis (${MAX_NAME_LENGTH} caractères max). / name is required (${MAX_NAME_LENGTH} characters max).`,
+    };
+  }
+
+  const kind = value.kind ?? existing?.kind;
+  if (!ALERT_RULE_KINDS.includes(kind as AlertRuleKind)) {
+    return {
+      input: null,
+      error: `kind doit valoir ${ALERT_RULE_KINDS.join(', ')}. / kind must be one of ${ALERT_RULE_KINDS.join(', ')}.`,
+    };
+  }
+
+  let competitorId = existing?.competitorId ?? null;
+  if (value.competitorId !== undefined) {
+    competitorId =
+      value.competitorId === null || value.competitorId === ''
+        ? null
+        : parseNumberInRange(value.competitorId, 1, Number.MAX_SAFE_INTEGER, true);
+    if (competitorId === null && value.competitorId !== null && value.competitorId !== '') {
+      return { input: null, error: 'competitorId invalide. / Invalid competitorId.' };
+    }
+  }
+
+  let pageTypes = existing?.pageTypes ?? [];
+  if (value.pageTypes !== undefined) {
+    const parsed = parseEnumList(value.pageTypes, PAGE_TYPES);
+    if (!parsed) {
+      return {
+        input: null,
+        error: `pageTypes doit contenir ${PAGE_TYPES.join(', ')}. / pageTypes must contain ${PAGE_TYPES.join(', ')}.`,
+      };
+    }
+    pageTypes = parsed;
+  }
+
+  const condition: RuleCondition = {
+    kind: kind as AlertRuleKind,
+    competitorId,
+    pageTypes,
+    changeTypes: [],
+    priceDirection: null,
+    minPriceDeltaPct: null,
+    minConsecutiveFailures: null,
+    minDiffWords: null,
+  };
+
+  if (kind === 'PRICE_MOVE') {
+    const direction = value.priceDirection ?? existing?.priceDirection ?? 'ANY';
+    if (!PRICE_DIRECTIONS.includes(direction as PriceDirection)) {
+      return {
+        input: null,
+        error: 'priceDirection doit valoir DROP, RISE ou ANY. / priceDirection must be DROP, RISE or ANY.',
+      };
+    }
+    const minPct = parseNumberInRange(
+      value.minPriceDeltaPct ?? existing?.minPriceDeltaPct ?? 10,
+      0.01,
+      1000,
+      false,
+    );
+    if (minPct === null) {
+      return {
+        input: null,
+        error: 'minPriceDeltaPct doit être entre 0.01 et 1000. / minPriceDeltaPct must be between 0.01 and 1000.',
+      };
+    }
+    condition.priceDirection = direction as PriceDirection;
+    condition.minPriceDeltaPct = minPct;
+  } else if (kind === 'CHANGE_TYPE') {
+    const changeTypes = parseEnumList(value.changeTypes ?? existing?.changeTypes ?? [], CHANGE_TYPES);
+    if (!changeTypes || changeTypes.length === 0) {
+      return {
+        input: null,
+        error: `changeTypes doit contenir au moins un type parmi ${CHANGE_TYPES.join(', ')}. / changeTypes must contain at least one of ${CHANGE_TYPES.join(', ')}.`,
+      };
+    }
+    condition.changeTypes = changeTypes;
+  } else if (kind === 'FETCH_FAILURES') {
+    const minFailures = parseNumberInRange(
+      value.minConsecutiveFailures ?? existing?.minConsecutiveFailures ?? 3,
+      1,
+      100,
+      true,
+    );
+    if (minFailures === null) {
+      return {
+        input: null,
+        error: 'minConsecutiveFailures doit être un entier entre 1 et 100. / minConsecutiveFailures must be an integer between 1 and 100.',
+      };
+    }
+    condition.minConsecutiveFailures = minFailures;
+  } else {
+    const minWords = parseNumberInRange(
+      value.minDiffWords ?? existing?.minDiffWords ?? 50,
+      1,
+      100000,
+      true,
+    );
+    if (minWords === null) {
+      return {
+        input: null,
+        error: 'minDiffWords doit être un entier entre 1 et 100000. / minDiffWords must be an integer between 1 and 100000.',
+      };
+    }
+    condition.minDiffWords = minWords;
+  }
+
+  return {
+    input: {
+      ...condition,
+      name,
+      notify: typeof value.notify === 'boolean' ? value.notify : (existing?.notify ?? false),
+      enabled: typeof value.enabled === 'boolean' ? value.enabled : (existing?.enabled ?? true),
+    },
+    error: null,
+  };
+}
+
+// competitorBelongsToProject / concurrentDuProjet : null (tous les concurrents) est toujours valide
+// null (all competitors) is always valid
+export async function competitorBelongsToProject(
+  projectId: number,
+  competitorId: number | null,
+): Promise<boolean> {
+  if (competitorId === null) return true;
+  const competitor = await prisma.competitor.findFirst({
+    where: { id: competitorId, projectId },
+    select: { id: true },
+  });
+  return competitor !== null;
+}
+
+// matchesScope / dansPerimetre : filtre concurrent + types de page (vide = tous)
+// Competitor + page type filter (empty = all)
+function matchesScope(rule: RuleCondition, page: PageContext): boolean {
+  if (rule.competitorId !== null && rule.competitorId !== page.competitor.id) return false;
+  return rule.pageTypes.length === 0 || rule.pageTypes.includes(page.pageType);
+}
+
+// matchChangeRule / correspondanceChangement : message d'alerte, ou null si la règle ne s'applique pas
+// Alert message, or null when the rule does not apply (FETCH_FAILURES never matches a change)
+export function matchChangeRule(
+  rule: RuleCondition,
+  change: Change,
+  page: PageContext,
+): string | null {
+  if (!matchesScope(rule, page)) return null;
+  const prefix = `${page.competitor.name} : `;
+
+  if (rule.kind === 'PRICE_MOVE') {
+    const pct = change.priceDeltaPct;
+    const threshold = rule.minPriceDeltaPct ?? 0;
+    if (change.changeType !== 'PRICE' || pct === null) return null;
+
+    const matched =
+      rule.priceDirection === 'DROP'
+        ? pct <= -threshold
+        : rule.priceDirection === 'RISE'
+          ? pct >= threshold
+          : Math.abs(pct) >= threshold;
+    if (!matched) return null;
+
+    const delta = formatPriceDelta(change.priceDelta, pct, change.currency);
+    return `${prefix}${formatPrice(change.oldPrice, change.oldCurrency ?? change.currency)} → ${formatPrice(
+      change.newPrice,
+      change.currency,
+    )}${delta ? ` (${delta})` : ''}${change.changeSummary ? ` · ${change.changeSummary}` : ''}`;
+  }
+
+  if (rule.kind === 'CHANGE_TYPE') {
+    if (!rule.changeTypes.includes(change.changeType)) return null;
+    return `${prefix}${change.changeSummary ?? change.changeType} (${change.changeType})`;
+  }
+
+  if (rule.kind === 'TEXT_DIFF_SIZE') {
+    const stats = parseTextDiff(change.diff)?.stats;
+    if (!stats) return null;
+    const words = stats.wordsAdded + stats.wordsRemoved;
+    if (words < (rule.minDiffWords ?? 0)) return null;
+    return `${prefix}${words} mots modifiés (+${stats.wordsAdded} / -${stats.wordsRemoved}) sur ${page.url}. / ${words} words changed (+${stats.wordsAdded} / -${stats.wordsRemoved}) on ${page.url}.`;
+  }
+
+  return null;
+}
+
+// matchFailureRule / correspondanceEchecs : une seule alerte par série (égalité avec le seuil)
+// One alert per streak: fires when the streak reaches the threshold, not on every later failure
+export function matchFailureRule(
+  rule: RuleCondition,
+  consecutiveFailures: number,
+  page: PageContext,
+  errorMessage: string | null,
+): string | null {
+  if (rule.kind !== 'FETCH_FAILURES' || !matchesScope(rule, page)) return null;
+  if (consecutiveFailures !== rule.minConsecutiveFailures) return null;
+
+  return `${page.competitor.name} : ${consecutiveFailures} échecs consécutifs sur ${page.url}. / ${consecutiveFailures} consecutive failures on ${page.url}.${
+    errorMessage ? ` ${errorMessage}` : ''
+  }`;
+}
+
+// loadPageRules / chargerReglesPage : page + règles actives du projet pour ces types
+// Page + active project rules of these kinds
+async function loadPageRules(pageId: number, kinds: AlertRuleKind[]) {
+  const page = await prisma.monitoredPage.findUnique({
+    where: { id: pageId },
+    select: {
+      id: true,
+      url: true,
+      pageType: true,
+      competitor: { select: { id: true, name: true, projectId: true } },
+    },
+  });
+  if (!page) return null;
+
+  const rules = await prisma.alertRule.findMany({
+    where: { projectId: page.competitor.projectId, enabled: true, kind: { in: kinds } },
+    orderBy: { createdAt: 'asc' },
+  });
+  return { page, rules };
+}
+
+// recordAlert / enregistrerAlerte : AlertEvent + webhook alert.triggered si notify
+// AlertEvent + alert.triggered webhook when notify is set
+async function recordAlert(
+  rule: AlertRule,
+  page: PageContext,
+  change: Change | null,
+  message: string,
+): Promise<void> {
+  const event = await prisma.alertEvent.create({
+    data: {
+      ruleId: rule.id,
+      projectId: rule.projectId,
+      monitoredPageId: page.id,
+      changeId: change?.id ?? null,
+      message,
+    },
+  });
+
+  if (!rule.notify) return;
+
+  await notifyAlertTriggered(rule.projectId, {
+    alert: {
+      id: event.id,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      kind: rule.kind,
+      message,
+      createdAt: event.createdAt.toISOString(),
+    },
+    page: { id: page.id, url: page.url, pageType: page.pageType },
+    competitor: { id: page.competitor.id, name: page.competitor.name },
+    change: change
+      ? { id: change.id, changeType: change.changeType, priceDelta: change.priceDelta }
+      : null,
+  });
+}
+
+// evaluateChangeAlerts / evaluerAlertesChangements : après un scrape réussi
+// After a successful scrape. Les erreurs sont journalisées, jamais propagées
+// Errors are logged, never propagated (an alert never fails a scrape)
+export async function evaluateChangeAlerts(pageId: number, changes: Change[]): Promise<number> {
+  if (changes.length === 0) return 0;
+
+  try {
+    const loaded = await loadPageRules(pageId, ['PRICE_MOVE', 'CHANGE_TYPE', 'TEXT_DIFF_SIZE']);
+    if (!loaded) return 0;
+
+    let triggered = 0;
+    for (const rule of loaded.rules) {
+      for (const change of changes) {
+        const message = matchChangeRule(rule, change, loaded.page);
+        if (!message) continue;
+        await recordAlert(rule, loaded.page, change, message);
+        triggered += 1;
+      }
+    }
+    return triggered;
+  } catch (error) {
+    console.error('alertEvaluationError / erreurEvaluationAlertes', error);
+    return 0;
+  }
+}
+
+// evaluateFailureAlerts / evaluerAlertesEchecs : après un scrape en échec (série déjà incrémentée)
+// After a failed scrape (streak already incremented). Never throws
+export async function evaluateFailureAlerts(
+  pageId: number,
+  consecutiveFailures: number,
+  errorMessage: string | null,
+): Promise<number> {
+  try {
+    const loaded = await loadPageRules(pageId, ['FETCH_FAILURES']);
+    if (!loaded) return 0;
+
+    let triggered = 0;
+    for (const rule of loaded.rules) {
+      const message = matchFailureRule(rule, consecutiveFailures, loaded.page, errorMessage);
+      if (!message) continue;
+      await recordAlert(rule, loaded.page, null, message);
+      triggered += 1;
+    }
+    return triggered;
+  } catch (error) {
+    console.error('alertEvaluationError / erreurEvaluationAlertes', error);
+    return 0;
+  }
+}
+
+// scopeWhere / filtrePerimetre : même périmètre que matchesScope, côté requête
+// Same scope as matchesScope, as a query filter
+function scopeWhere(projectId: number, rule: RuleCondition): Prisma.MonitoredPageWhereInput {
+  return {
+    competitor: { projectId, ...(rule.competitorId !== null ? { id: rule.competitorId } : {}) },
+    ...(rule.pageTypes.length > 0 ? { pageType: { in: rule.pageTypes } } : {}),
+  };
+}
+
+// testAlertRule / testerRegleAlerte : rejoue la règle sur les N derniers jours, sans rien enregistrer
+// Replays the rule over the last N days without storing anything.
+// FETCH_FAILURES rejoue les ScrapeRun ; une série commencée avant la fenêtre n'est comptée qu'à partir de celle-ci
+// FETCH_FAILURES replays ScrapeRuns; a streak started before the window is only counted from its start
+export async function testAlertRule(
+  projectId: number,
+  rule: RuleCondition,
+  days: number = DEFAULT_TEST_DAYS,
+  now: Date = new Date(),
+): Promise<{ evaluated: number; matches: AlertRuleTestMatch[] }> {
+  const windowDays = Math.min(Math.max(1, Math.round(days)), MAX_TEST_DAYS);
+  const since = new Date(now.getTime() - windowDays * DAY_MS);
+  const pageSelect = {
+    id: true,
+    url: true,
+    pageType: true,
+    competitor: { select: { id: true, name: true, projectId: true } },
+  } as const;
+
+  const matches: AlertRuleTestMatch[] = [];
+
+  if (rule.kind === 'FETCH_FAILURES') {
+    const runs = await prisma.scrapeRun.findMany({
+      where: {
+        startedAt: { gte: since },
+        status: { in: ['SUCCESS', 'FAILED'] },
+        monitoredPage: scopeWhere(projectId, rule),
+      },
+      orderBy: { startedAt: 'asc' },
+      take: MAX_TEST_RUNS,
+      include: { monitoredPage: { select: pageSelect } },
+    });
+
+    const streaks = new Map<number, number>();
+    for (const run of runs) {
+      const streak = run.status === 'FAILED' ? (streaks.get(run.monitoredPageId) ?? 0) + 1 : 0;
+      streaks.set(run.monitoredPageId, streak);
+
+      const message = matchFailureRule(rule, streak, run.monitoredPage, run.errorMessage);
+      if (message) {
+        matches.push({
+          changeId: null,
+          monitoredPageId: run.monitoredPageId,
+          pageUrl: run.monitoredPage.url,
+          competitorName: run.monitoredPage.competitor.name,
+          occurredAt: (run.finishedAt ?? run.startedAt).toISOString(),
+          message,
+        });
+      }
+    }
+
+    return { evaluated: runs.length, matches: matches.reverse().slice(0, MAX_TEST_MATCHES) };
+  }
+
+  const changes = await prisma.change.findMany({
+    where: {
+      createdAt: { gte: since },
+      monitoredPage: scopeWhere(projectId, rule),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_TEST_CHANGES,
+    include: { monitoredPage: { select: pageSelect } },
+  });
+
+  for (const change of changes) {
+    const message = matchChangeRule(rule, change, change.monitoredPage);
+    if (!message) continue;
+    matches.push({
+      changeId: change.id,
+      monitoredPageId: change.monitoredPageId,
+      pageUrl: change.monitoredPage.url,
+      competitorName: change.monitoredPage.competitor.name,
+      occurredAt: change.createdAt.toISOString(),
+      message,
+    });
+    if (matches.length >= MAX_TEST_MATCHES) break;
+  }
+
+  return { evaluated: changes.length, matches };
+}
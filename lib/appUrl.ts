@@ -0,0 +1,9 @@
+// appUrl / urlApplication : liens absolus vers l'interface (webhooks, emails)
+// Absolute links to the UI (webhooks, emails)
+
+// appUrl / urlApplication : APP_BASE_URL, http://localhost:3000 par défaut
+// APP_BASE_URL, defaults to http://localhost:3000
+export function appUrl(path: string): string {
+  const base = (process.env.APP_BASE_URL?.trim() || 'http://localhost:3000').replace(/\/+$/, '');
+  return `${base}${path}`;
+}
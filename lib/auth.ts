@@ -0,0 +1,282 @@
+// auth / authentification : comptes (email + mot de passe scrypt) et sessions par cookie
+// Accounts (email + scrypt password) and cookie sessions.
+// proxy.ts vérifie la session de chaque requête ; les droits par espace sont dans lib/access.ts
+// proxy.ts checks the session of every request; per-workspace rights live in lib/access.ts
+
+import { createHash, randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'node:crypto';
+import { cookies } from 'next/headers';
+import { prisma } from '@/lib/db';
+import type { Prisma, User } from '@prisma/client';
+
+// sessionCookie / cookieSession : jeton aléatoire, seule son empreinte est en base
+// Random token; only its hash is stored
+export const SESSION_COOKIE = 'cw_session';
+
+const SESSION_DURATION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// scryptParams / parametresScrypt : N = 2^15, r = 8, p = 1 (≈ 32 Mo, recommandation OWASP)
+// N = 2^15, r = 8, p = 1 (≈ 32 MB, OWASP recommendation)
+const SCRYPT_N = 32768;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_KEY_LENGTH = 64;
+const SCRYPT_MAX_MEMORY = 64 * 1024 * 1024;
+
+export const MIN_PASSWORD_LENGTH = 10;
+const MAX_PASSWORD_LENGTH = 200;
+const MAX_NAME_LENGTH = 120;
+
+// SessionUser / utilisateurSession : utilisateur connecté (sans empreinte du mot de passe)
+// Logged-in user (without the password hash)
+export type SessionUser = Pick<User, 'id' | 'email' | 'name'>;
+
+// userViewSelect / selectionVueUtilisateur : champs d'un compte visibles des autres membres (jamais l'empreinte)
+// Account fields visible to other members (never the hash)
+export const USER_VIEW_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  lastLoginAt: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect;
+
+// NewUserInput / entreeNouvelUtilisateur : création d'un compte validée
+// Validated account creation
+export type NewUserInput = {
+  email: string;
+  name: string | null;
+  password: string;
+};
+
+// scryptAsync / scryptAsynchrone : promisify ne conserve pas la surcharge avec options
+// promisify drops the overload with options
+function scryptAsync(
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: ScryptOptions,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, options, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+// hashPassword / hacherMotDePasse : "scrypt$N$r$p$sel$empreinte" (base64)
+// "scrypt$N$r$p$salt$hash" (base64); the parameters are stored to allow raising them later
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, SCRYPT_KEY_LENGTH, {
+    N: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+    maxmem: SCRYPT_MAX_MEMORY,
+  });
+  return [
+    'scrypt',
+    SCRYPT_N,
+    SCRYPT_R,
+    SCRYPT_P,
+    salt.toString('base64'),
+    hash.toString('base64'),
+  ].join('$');
+}
+
+// verifyPassword / verifierMotDePasse : comparaison à temps constant ; false si le format est inconnu
+// Constant-time comparison; false for an unknown format
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, n, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p),
+    maxmem: SCRYPT_MAX_MEMORY,
+  });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// dummyHash / empreinteFactice : vérifiée quand l'email est inconnu (même durée de réponse)
+// Verified when the email is unknown (same response time, no account enumeration)
+let dummyHash: Promise<string> | null = null;
+
+export async function verifyAgainstDummy(password: string): Promise<void> {
+  dummyHash ??= hashPassword(randomBytes(16).toString('hex'));
+  await verifyPassword(password, await dummyHash);
+}
+
+// passwordError / erreurMotDePasse : null si la longueur est acceptable
+// null when the length is acceptable
+function passwordError(password: unknown): string | null {
+  if (
+    typeof password !== 'string' ||
+    password.length < MIN_PASSWORD_LENGTH ||
+    password.length > MAX_PASSWORD_LENGTH
+  ) {
+    return `Le mot de passe doit contenir entre ${MIN_PASSWORD_LENGTH} et ${MAX_PASSWORD_LENGTH} caractères. / Password must be ${MIN_PASSWORD_LENGTH} to ${MAX_PASSWORD_LENGTH} characters long.`;
+  }
+  return null;
+}
+
+// normalizeEmail / normaliserEmail : minuscules, null si invalide
+// Lower-cased, null when invalid
+export function normalizeEmail(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const email = raw.trim().toLowerCase();
+  return email.length <= 254 && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : null;
+}
+
+// parseNewUserInput / parserEntreeNouvelUtilisateur : création de compte (premier compte ou invitation)
+// Account creation (first account or invitation)
+export function parseNewUserInput(
+  raw: unknown,
+): { input: NewUserInput; error: null } | { input: null; error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { input: null, error: 'Corps de requête invalide. / Invalid request body.' };
+  }
+
+  const value = raw as Record<string, unknown>;
+
+  const email = normalizeEmail(value.email);
+  if (!email) {
+    return {
+      input: null,
+      error: 'email doit être une adresse valide. / email must be a valid address.',
+    };
+  }
+
+  const name = typeof value.name === 'string' && value.name.trim() ? value.name.trim() : null;
+  if (name && name.length > MAX_NAME_LENGTH) {
+    return { input: null, error: 'Nom trop long. / Name too long.' };
+  }
+
+  const error = passwordError(value.password);
+  if (error) {
+    return { input: null, error };
+  }
+
+  return { input: { email, name, password: value.password as string }, error: null };
+}
+
+// parsePasswordChange / parserChangementMotDePasse : { currentPassword, newPassword }
+export function parsePasswordChange(
+  raw: unknown,
+):
+  | { input: { currentPassword: string; newPassword: string }; error: null }
+  | { input: null; error: string } {
+  const value =
+    raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : null;
+
+  if (!value || typeof value.currentPassword !== 'string') {
+    return {
+      input: null,
+      error: 'currentPassword est requis. / currentPassword is required.',
+    };
+  }
+
+  const error = passwordError(value.newPassword);
+  if (error) {
+    return { input: null, error };
+  }
+
+  return {
+    input: {
+      currentPassword: value.currentPassword,
+      newPassword: value.newPassword as string,
+    },
+    error: null,
+  };
+}
+
+// hashToken / hacherJeton : SHA-256 hex (le jeton est déjà aléatoire, pas besoin de sel)
+// SHA-256 hex (the token is already random, no salt needed)
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// createSession / creerSession : renvoie le jeton à placer dans le cookie
+// Returns the token to put in the cookie
+export async function createSession(
+  userId: number,
+  userAgent: string | null,
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_DURATION_MS);
+
+  await prisma.session.create({
+    data: {
+      userId,
+      tokenHash: hashToken(token),
+      userAgent: userAgent?.slice(0, 300) ?? null,
+      expiresAt,
+    },
+  });
+  await prisma.user.update({
+    where: { id: userId },
+    data: { lastLoginAt: new Date() },
+  });
+
+  return { token, expiresAt };
+}
+
+// findSessionUser / trouverUtilisateurSession : null si le jeton est inconnu ou expiré
+// null when the token is unknown or expired
+export async function findSessionUser(token: string): Promise<SessionUser | null> {
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: {
+      expiresAt: true,
+      user: { select: { id: true, email: true, name: true } },
+    },
+  });
+  if (!session || session.expiresAt.getTime() <= Date.now()) return null;
+  return session.user;
+}
+
+// deleteSession / supprimerSession : déconnexion (sans erreur si la session n'existe plus)
+// Logout (no error when the session is already gone)
+export async function deleteSession(token: string): Promise<void> {
+  await prisma.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+}
+
+// deleteOtherSessions / supprimerAutresSessions : après un changement de mot de passe
+// After a password change; also purges expired sessions of the user
+export async function deleteOtherSessions(userId: number, keepToken: string | null): Promise<void> {
+  await prisma.session.deleteMany({
+    where: {
+      userId,
+      ...(keepToken ? { tokenHash: { not: hashToken(keepToken) } } : {}),
+    },
+  });
+}
+
+// sessionCookieOptions / optionsCookieSession : httpOnly, SameSite=Lax (pas d'envoi sur un POST inter-sites)
+// httpOnly, SameSite=Lax (not sent on cross-site POSTs); Secure in production
+export function sessionCookieOptions(expiresAt: Date) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  };
+}
+
+// getCurrentUser / lireUtilisateurCourant : pages serveur et routes API
+// Server pages and API routes; null when not logged in
+export async function getCurrentUser(): Promise<SessionUser | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  return token ? findSessionUser(token) : null;
+}
+
+// safeNextPath / cheminSuivantSur : redirection après connexion, limitée aux chemins locaux
+// Post-login redirect, restricted to local paths
+export function safeNextPath(raw: string | null | undefined): string {
+  return raw && raw.startsWith('/') && !raw.startsWith('//') && !raw.startsWith('/\\')
+    ? raw
+    : '/projects';
+}
@@ -0,0 +1,228 @@
+// changeFeed / fluxChangements : flux Atom des changements d'un projet ou d'un concurrent
+// Atom feed of a project's or competitor's changes, for feed readers.
+// Hors session (chemin public de proxy.ts) : chaque flux est protégé par un jeton secret (?token=…), régénérable
+// Outside sessions (public path in proxy.ts): each feed is protected by a secret, rotatable token (?token=…)
+
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { appUrl } from '@/lib/appUrl';
+import { prisma } from '@/lib/db';
+import { formatPrice, formatPriceDelta } from '@/lib/pricingDiff';
+import type { Prisma } from '@prisma/client';
+
+// maxFeedEntries / nbMaxEntreesFlux : changements les plus récents, hors DISMISSED
+// Most recent changes, excluding DISMISSED
+const MAX_FEED_ENTRIES = 50;
+
+// labelsTypeChangement / libellesTypeChangement : titre des entrées
+// Entry titles
+const CHANGE_TYPE_LABELS: Record<string, string> = {
+  TEXT: 'Texte modifié',
+  PRICE: 'Prix',
+  SECTION_ADDED: 'Section ajoutée',
+  SECTION_REMOVED: 'Section supprimée',
+  OTHER: 'Autre changement',
+};
+
+// FeedEntry / entreeFlux : changement aplati pour le gabarit
+// Flattened change for the template
+export type FeedEntry = {
+  id: number;
+  createdAt: Date;
+  changeType: string;
+  changeSummary: string | null;
+  field: string | null;
+  oldPrice: number | null;
+  newPrice: number | null;
+  priceDelta: number | null;
+  priceDeltaPct: number | null;
+  currency: string | null;
+  oldCurrency: string | null;
+  pageUrl: string;
+  pageType: string;
+  competitorName: string;
+  projectId: number;
+};
+
+// ChangeFeed / fluxChangements : contenu d'un flux
+// Content of one feed
+export type ChangeFeed = {
+  id: string;        // urn stable / stable urn
+  title: string;
+  selfUrl: string;   // URL du flux, jeton compris / feed URL, token included
+  alternateUrl: string;
+  entries: FeedEntry[];
+};
+
+// projectViewSelect / selectionVueProjet : colonnes d'un projet renvoyées par l'API, sans feedToken
+// Project columns returned by the API, without feedToken (only the EDITOR feed-token routes expose it)
+export const PROJECT_VIEW_SELECT = {
+  id: true,
+  workspaceId: true,
+  name: true,
+  description: true,
+  frequency: true,
+  ignorePatterns: true,
+  ignoreBuiltins: true,
+  llmSettings: true, // à passer par toPublicLlmSettings / to pass through toPublicLlmSettings
+  createdById: true,
+  updatedById: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ProjectSelect;
+
+// competitorViewSelect / selectionVueConcurrent : colonnes d'un concurrent renvoyées aux pages et à l'API, sans feedToken
+// Competitor columns returned to pages and the API, without feedToken
+export const COMPETITOR_VIEW_SELECT = {
+  id: true,
+  projectId: true,
+  status: true,
+  name: true,
+  websiteUrl: true,
+  description: true,
+  tags: true,
+  createdById: true,
+  updatedById: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.CompetitorSelect;
+
+// generateFeedToken / genererJetonFlux
+export function generateFeedToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+// feedTokenMatches / jetonFluxValide : comparaison à temps constant ; un flux sans jeton est désactivé
+// Constant-time comparison; a feed without a token is disabled
+export function feedTokenMatches(expected: string | null, provided: string | null): boolean {
+  if (!expected || !provided) return false;
+
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// projectFeedUrl / urlFluxProjet : null si le flux est désactivé
+// null when the feed is disabled
+export function projectFeedUrl(projectId: number, feedToken: string | null): string | null {
+  return feedToken ? appUrl(`/api/projects/${projectId}/changes.atom?token=${feedToken}`) : null;
+}
+
+// competitorFeedUrl / urlFluxConcurrent : null si le flux est désactivé
+// null when the feed is disabled
+export function competitorFeedUrl(competitorId: number, feedToken: string | null): string | null {
+  return feedToken
+    ? appUrl(`/api/competitors/${competitorId}/changes.atom?token=${feedToken}`)
+    : null;
+}
+
+// loadFeedEntries / chargerEntreesFlux : 50 derniers changements des pages ciblées
+// Last 50 changes of the targeted pages
+export async function loadFeedEntries(
+  pageWhere: Prisma.MonitoredPageWhereInput,
+): Promise<FeedEntry[]> {
+  const changes = await prisma.change.findMany({
+    where: {
+      triageStatus: { not: 'DISMISSED' },
+      monitoredPage: pageWhere,
+    },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: MAX_FEED_ENTRIES,
+    include: {
+      monitoredPage: {
+        select: {
+          url: true,
+          pageType: true,
+          competitor: { select: { name: true, projectId: true } },
+        },
+      },
+    },
+  });
+
+  return changes.map((change) => ({
+    id: change.id,
+    createdAt: change.createdAt,
+    changeType: change.changeType,
+    changeSummary: change.changeSummary,
+    field: change.field,
+    oldPrice: change.oldPrice,
+    newPrice: change.newPrice,
+    priceDelta: change.priceDelta,
+    priceDeltaPct: change.priceDeltaPct,
+    currency: change.currency,
+    oldCurrency: change.oldCurrency,
+    pageUrl: change.monitoredPage.url,
+    pageType: change.monitoredPage.pageType,
+    competitorName: change.monitoredPage.competitor.name,
+    projectId: change.monitoredPage.competitor.projectId,
+  }));
+}
+
+// escapeXml / echapperXml
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// entrySummary / resumeEntree : résumé + ancien → nouveau prix et écart pour PRICE
+// Summary + old → new price and delta for PRICE
+function entrySummary(entry: FeedEntry): string {
+  const summary =
+    entry.changeSummary ?? entry.field ?? CHANGE_TYPE_LABELS[entry.changeType] ?? entry.changeType;
+  if (entry.changeType !== 'PRICE' || (entry.oldPrice === null && entry.newPrice === null)) {
+    return summary;
+  }
+
+  const delta = formatPriceDelta(entry.priceDelta, entry.priceDeltaPct, entry.currency);
+  return `${summary} — ${formatPrice(entry.oldPrice, entry.oldCurrency ?? entry.currency)} → ${formatPrice(
+    entry.newPrice,
+    entry.currency,
+  )}${delta ? `, ${delta}` : ''}`;
+}
+
+// renderChangesAtom / rendreFluxAtom : document Atom 1.0 (RFC 4287)
+// Atom 1.0 document (RFC 4287); updated = most recent entry, or the epoch for an empty feed
+export function renderChangesAtom(feed: ChangeFeed): string {
+  const updated = feed.entries[0]?.createdAt ?? new Date(0);
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="fr">',
+    `  <id>${escapeXml(feed.id)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <updated>${updated.toISOString()}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.selfUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.alternateUrl)}"/>`,
+    '  <author><name>Competitive Watch</name></author>',
+    '  <generator>Competitive Watch</generator>',
+  ];
+
+  for (const entry of feed.entries) {
+    const label = CHANGE_TYPE_LABELS[entry.changeType] ?? entry.changeType;
+    const summary = entrySummary(entry);
+    const link = appUrl(`/projects/${entry.projectId}/changes?ids=${entry.id}`);
+
+    lines.push(
+      '  <entry>',
+      `    <id>urn:competitive-watch:change:${entry.id}</id>`,
+      `    <title>${escapeXml(`${label} – ${entry.competitorName} (${entry.pageType})`)}</title>`,
+      `    <updated>${entry.createdAt.toISOString()}</updated>`,
+      `    <published>${entry.createdAt.toISOString()}</published>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(link)}"/>`,
+      `    <link rel="related" href="${escapeXml(entry.pageUrl)}"/>`,
+      `    <category term="${escapeXml(entry.changeType)}" label="${escapeXml(label)}"/>`,
+      `    <category term="${escapeXml(entry.pageType)}"/>`,
+      `    <summary type="text">${escapeXml(summary)}</summary>`,
+      `    <content type="text">${escapeXml(
+        `${summary}\n\nConcurrent : ${entry.competitorName}\nPage : ${entry.pageUrl}`,
+      )}</content>`,
+      '  </entry>',
+    );
+  }
+
+  lines.push('</feed>', '');
+  return lines.join('\n');
+}
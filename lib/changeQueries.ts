@@ -0,0 +1,296 @@
+// changeQueries / requetesChangements : filtres + pagination par curseur des changements d'un projet
+// Filters + cursor pagination for a project's changes (API route and changes page)
+
+import { prisma } from '@/lib/db';
+import { isTriageStatus } from '@/lib/changeTriage';
+import {
+  ChangeType,
+  PageType,
+  Prisma,
+  type TriageStatus,
+} from '@prisma/client';
+
+// ChangeFilters / filtresChangements : tous optionnels, combinés en ET
+// All optional, combined with AND
+export type ChangeFilters = {
+  from: Date | null;              // createdAt >= from
+  to: Date | null;                // createdAt <= to (fin de journée si date seule)
+  competitorId: number | null;    // competitorId / idConcurrent
+  pageType: PageType | null;      // pageType / typePage
+  changeType: ChangeType | null;  // changeType / typeChangement
+  triageStatus: TriageStatus | null; // triageStatus / statutTriage
+  q: string | null;               // freeText / texteLibre (résumé, champ, valeurs, URL)
+  ids: number[] | null;           // changeIds / idsChangements (sources citées par un rapport)
+};
+
+// ChangePageParams / parametresPage : curseur = id du dernier changement affiché
+// Cursor = id of the last change already shown
+export type ChangePageParams = {
+  cursor: number | null;
+  limit: number;
+};
+
+// SearchParamsInput / entreeParametres : searchParams Next ou Object.fromEntries(url.searchParams)
+type SearchParamsInput = Record<string, string | string[] | undefined>;
+
+export const DEFAULT_CHANGES_LIMIT = 50;
+export const MAX_CHANGES_LIMIT = 100;
+const MAX_QUERY_LENGTH = 200;
+const MAX_IDS = 50;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// firstValue / premiereValeur : ?a=1&a=2 => "1"
+function firstValue(raw: string | string[] | undefined): string | null {
+  const value = Array.isArray(raw) ? raw[0] : raw;
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+// parsePositiveInt / parserEntierPositif
+function parsePositiveInt(raw: string): number | null {
+  const value = Number(raw);
+  return Number.isInteger(value) && value > 0 ? value : null;
+}
+
+// parseDateParam / parserDate : "YYYY-MM-DD" ou ISO ; endOfDay pour la borne haute
+// "YYYY-MM-DD" or ISO; endOfDay for the upper bound
+function parseDateParam(raw: string, endOfDay: boolean): Date | null {
+  const date = new Date(raw);
+  if (!Number.isFinite(date.getTime())) return null;
+  if (endOfDay && DATE_ONLY.test(raw)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+// parseChangeFilters / parserFiltresChangements : message bilingue si un paramètre est invalide
+// Returns a bilingual error message when a parameter is invalid
+export function parseChangeFilters(
+  params: SearchParamsInput,
+): { filters: ChangeFilters; error: null } | { filters: null; error: string } {
+  const filters: ChangeFilters = {
+    from: null,
+    to: null,
+    competitorId: null,
+    pageType: null,
+    changeType: null,
+    triageStatus: null,
+    q: null,
+    ids: null,
+  };
+
+  const from = firstValue(params.from);
+  if (from) {
+    filters.from = parseDateParam(from, false);
+    if (!filters.from) {
+      return { filters: null, error: 'Paramètre from invalide. / Invalid from parameter.' };
+    }
+  }
+
+  const to = firstValue(params.to);
+  if (to) {
+    filters.to = parseDateParam(to, true);
+    if (!filters.to) {
+      return { filters: null, error: 'Paramètre to invalide. / Invalid to parameter.' };
+    }
+  }
+
+  const competitorId = firstValue(params.competitorId);
+  if (competitorId) {
+    filters.competitorId = parsePositiveInt(competitorId);
+    if (!filters.competitorId) {
+      return {
+        filters: null,
+        error: 'Paramètre competitorId invalide. / Invalid competitorId parameter.',
+      };
+    }
+  }
+
+  const pageType = firstValue(params.pageType);
+  if (pageType) {
+    if (!Object.keys(PageType).includes(pageType)) {
+      return {
+        filters: null,
+        error: `pageType invalide. Valeurs possibles : ${Object.keys(PageType).join(', ')}. / Invalid pageType.`,
+      };
+    }
+    filters.pageType = pageType as PageType;
+  }
+
+  const changeType = firstValue(params.changeType);
+  if (changeType) {
+    if (!Object.keys(ChangeType).includes(changeType)) {
+      return {
+        filters: null,
+        error: `changeType invalide. Valeurs possibles : ${Object.keys(ChangeType).join(', ')}. / Invalid changeType.`,
+      };
+    }
+    filters.changeType = changeType as ChangeType;
+  }
+
+  const triage = firstValue(params.triage);
+  if (triage) {
+    if (!isTriageStatus(triage)) {
+      return { filters: null, error: 'Paramètre triage invalide. / Invalid triage parameter.' };
+    }
+    filters.triageStatus = triage;
+  }
+
+  const q = firstValue(params.q);
+  if (q) {
+    filters.q = q.slice(0, MAX_QUERY_LENGTH);
+  }
+
+  // ids / ids : "12,34" (liens « Sources » des faits marquants)
+  // "12,34" (highlight "Sources" links)
+  const ids = firstValue(params.ids);
+  if (ids) {
+    const parsed = ids.split(',').map((raw) => parsePositiveInt(raw.trim()));
+    if (parsed.length > MAX_IDS || parsed.some((id) => id === null)) {
+      return {
+        filters: null,
+        error: `Paramètre ids invalide (${MAX_IDS} ids au plus). / Invalid ids parameter (at most ${MAX_IDS} ids).`,
+      };
+    }
+    filters.ids = [...new Set(parsed as number[])];
+  }
+
+  return { filters, error: null };
+}
+
+// parseChangePageParams / parserParametresPage : cursor + limit (borné)
+// cursor + clamped limit
+export function parseChangePageParams(
+  params: SearchParamsInput,
+  defaultLimit = DEFAULT_CHANGES_LIMIT,
+): { page: ChangePageParams; error: null } | { page: null; error: string } {
+  const rawCursor = firstValue(params.cursor);
+  const cursor = rawCursor ? parsePositiveInt(rawCursor) : null;
+  if (rawCursor && !cursor) {
+    return { page: null, error: 'Paramètre cursor invalide. / Invalid cursor parameter.' };
+  }
+
+  const rawLimit = firstValue(params.limit);
+  const limit = rawLimit ? parsePositiveInt(rawLimit) : defaultLimit;
+  if (!limit) {
+    return { page: null, error: 'Paramètre limit invalide. / Invalid limit parameter.' };
+  }
+
+  return {
+    page: { cursor, limit: Math.min(limit, MAX_CHANGES_LIMIT) },
+    error: null,
+  };
+}
+
+// serializeChangeFilters / serialiserFiltresChangements : filtres -> query string (liens, pagination)
+// Filters -> query string (links, pagination)
+export function serializeChangeFilters(filters: ChangeFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.from) params.set('from', filters.from.toISOString().slice(0, 10));
+  if (filters.to) params.set('to', filters.to.toISOString().slice(0, 10));
+  if (filters.competitorId) params.set('competitorId', String(filters.competitorId));
+  if (filters.pageType) params.set('pageType', filters.pageType);
+  if (filters.changeType) params.set('changeType', filters.changeType);
+  if (filters.triageStatus) params.set('triage', filters.triageStatus);
+  if (filters.q) params.set('q', filters.q);
+  if (filters.ids) params.set('ids', filters.ids.join(','));
+  return params;
+}
+
+// buildChangeWhere / construireWhereChangements : restreint au projet puis applique les filtres
+// Scoped to the project, then filters applied
+export function buildChangeWhere(
+  projectId: number,
+  filters: ChangeFilters,
+): Prisma.ChangeWhereInput {
+  const where: Prisma.ChangeWhereInput = {
+    monitoredPage: {
+      competitor: { projectId },
+      ...(filters.competitorId ? { competitorId: filters.competitorId } : {}),
+      ...(filters.pageType ? { pageType: filters.pageType } : {}),
+    },
+  };
+
+  if (filters.from || filters.to) {
+    where.createdAt = {
+      ...(filters.from ? { gte: filters.from } : {}),
+      ...(filters.to ? { lte: filters.to } : {}),
+    };
+  }
+
+  if (filters.changeType) where.changeType = filters.changeType;
+  if (filters.triageStatus) where.triageStatus = filters.triageStatus;
+  if (filters.ids) where.id = { in: filters.ids };
+
+  if (filters.q) {
+    const contains = { contains: filters.q, mode: 'insensitive' as const };
+    where.OR = [
+      { changeSummary: contains },
+      { field: contains },
+      { oldValue: contains },
+      { newValue: contains },
+      { notes: contains },
+      { monitoredPage: { url: contains } },
+    ];
+  }
+
+  return where;
+}
+
+// listProjectChanges / listerChangementsProjet : page de résultats + curseur suivant
+// One page of results + next cursor (null on the last page)
+export async function listProjectChanges(
+  projectId: number,
+  filters: ChangeFilters,
+  page: ChangePageParams,
+) {
+  // keysetCursor / curseurKeyset : (createdAt, id) strictement inférieurs au curseur,
+  // même si le changement du curseur ne correspond plus aux filtres (ex : trié entre-temps)
+  // Strictly before the cursor row, even if that row no longer matches the filters
+  let cursorWhere: Prisma.ChangeWhereInput = {};
+  if (page.cursor) {
+    const cursorRow = await prisma.change.findUnique({
+      where: { id: page.cursor },
+      select: { createdAt: true },
+    });
+    if (cursorRow) {
+      cursorWhere = {
+        OR: [
+          { createdAt: { lt: cursorRow.createdAt } },
+          { createdAt: cursorRow.createdAt, id: { lt: page.cursor } },
+        ],
+      };
+    }
+  }
+
+  const rows = await prisma.change.findMany({
+    where: { AND: [buildChangeWhere(projectId, filters), cursorWhere] },
+    include: {
+      monitoredPage: {
+        select: {
+          url: true,
+          pageType: true,
+          competitor: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      },
+    },
+    // stableOrder / ordreStable : id en second critère pour un curseur déterministe
+    // id as tie-breaker so the cursor is deterministic
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: page.limit + 1,
+  });
+
+  const hasMore = rows.length > page.limit;
+  const items = hasMore ? rows.slice(0, page.limit) : rows;
+
+  return {
+    items,
+    nextCursor: hasMore ? items[items.length - 1].id : null,
+  };
+}
@@ -0,0 +1,93 @@
+// changeTriage / triageChangements : validation des mises à jour de triage (unitaire et en masse)
+// Validation of triage updates, shared by the single-change and bulk routes
+
+import type { Prisma, TriageStatus } from '@prisma/client';
+
+// triageStatuses / statutsTriage : ordre d'affichage
+// Display order
+export const TRIAGE_STATUSES: TriageStatus[] = [
+  'NEW',
+  'REVIEWED',
+  'IMPORTANT',
+  'DISMISSED',
+];
+
+// triageLimits / limitesTriage : garde-fous sur la saisie
+// Input guards
+const MAX_ASSIGNEE_LENGTH = 100;
+const MAX_NOTES_LENGTH = 5000;
+export const MAX_BULK_TRIAGE_CHANGES = 500;
+
+// isTriageStatus / estStatutTriage
+export function isTriageStatus(value: unknown): value is TriageStatus {
+  return (
+    typeof value === 'string' &&
+    (TRIAGE_STATUSES as string[]).includes(value)
+  );
+}
+
+// parseOptionalText / parserTexteOptionnel : chaîne vide ou null => effacement
+// Empty string or null clears the field; undefined means "not provided"
+function parseOptionalText(
+  raw: unknown,
+  maxLength: number,
+): { value: string | null | undefined; valid: boolean } {
+  if (raw === undefined) return { value: undefined, valid: true };
+  if (raw === null) return { value: null, valid: true };
+  if (typeof raw !== 'string') return { value: undefined, valid: false };
+
+  const trimmed = raw.trim();
+  if (trimmed.length > maxLength) return { value: undefined, valid: false };
+  return { value: trimmed || null, valid: true };
+}
+
+// parseTriageUpdate / parserMiseAJourTriage : construit le `data` Prisma à partir du corps
+// Builds the Prisma `data` from a request body; returns a bilingual error when invalid
+export function parseTriageUpdate(input: {
+  triageStatus?: unknown;
+  assignee?: unknown;
+  notes?: unknown;
+}):
+  | { data: Prisma.ChangeUpdateManyMutationInput; error: null }
+  | { data: null; error: string } {
+  const data: Prisma.ChangeUpdateManyMutationInput = {};
+
+  if (input.triageStatus !== undefined) {
+    if (!isTriageStatus(input.triageStatus)) {
+      return {
+        data: null,
+        error: `triageStatus invalide. Valeurs possibles : ${TRIAGE_STATUSES.join(', ')}. / Invalid triageStatus.`,
+      };
+    }
+    data.triageStatus = input.triageStatus;
+  }
+
+  const assignee = parseOptionalText(input.assignee, MAX_ASSIGNEE_LENGTH);
+  if (!assignee.valid) {
+    return {
+      data: null,
+      error: `assignee doit être une chaîne de ${MAX_ASSIGNEE_LENGTH} caractères maximum. / assignee must be a string of at most ${MAX_ASSIGNEE_LENGTH} characters.`,
+    };
+  }
+  if (assignee.value !== undefined) data.assignee = assignee.value;
+
+  const notes = parseOptionalText(input.notes, MAX_NOTES_LENGTH);
+  if (!notes.valid) {
+    return {
+      data: null,
+      error: `notes doit être une chaîne de ${MAX_NOTES_LENGTH} caractères maximum. / notes must be a string of at most ${MAX_NOTES_LENGTH} characters.`,
+    };
+  }
+  if (notes.value !== undefined) data.notes = notes.value;
+
+  if (Object.keys(data).length === 0) {
+    return {
+      data: null,
+      error:
+        'Aucun champ valide à mettre à jour. / No valid fields to update.',
+    };
+  }
+
+  data.triagedAt = new Date();
+  return { data, error: null };
+}
@@ -0,0 +1,233 @@
+// digestEmail / emailDigest : gabarits HTML + texte de l'email de synthèse des changements
+// HTML + plain-text templates of the change digest email, grouped by competitor.
+// Fonctions pures (sans accès base) / Pure functions (no database access)
+
+import { formatPrice, formatPriceDelta } from '@/lib/pricingDiff';
+
+// DigestChange / changementDigest : changement aplati pour le gabarit
+// Flattened change for the template
+export type DigestChange = {
+  id: number;
+  createdAt: Date;
+  changeType: string;
+  changeSummary: string | null;
+  field: string | null;
+  oldPrice: number | null;
+  newPrice: number | null;
+  priceDelta: number | null;
+  priceDeltaPct: number | null;
+  currency: string | null;
+  oldCurrency: string | null;
+  pageUrl: string;
+  pageType: string;
+  competitorName: string;
+};
+
+// DigestData / donneesDigest : contenu d'un email
+// Content of one email
+export type DigestData = {
+  project: { id: number; name: string };
+  frequency: 'DAILY' | 'WEEKLY';
+  periodStart: Date;
+  periodEnd: Date;
+  changes: DigestChange[];
+  totalChanges: number; // peut dépasser changes.length / may exceed changes.length
+  links: { changes: string; unsubscribe: string };
+};
+
+// DigestGroup / groupeDigest : changements d'un concurrent
+// Changes of one competitor
+type DigestGroup = {
+  competitor: string;
+  changes: DigestChange[];
+};
+
+// labelsTypeChangement / libellesTypeChangement
+const CHANGE_TYPE_LABELS: Record<string, string> = {
+  TEXT: 'Texte',
+  PRICE: 'Prix',
+  SECTION_ADDED: 'Section ajoutée',
+  SECTION_REMOVED: 'Section supprimée',
+  OTHER: 'Autre',
+};
+
+const FREQUENCY_LABELS: Record<DigestData['frequency'], string> = {
+  DAILY: 'quotidienne',
+  WEEKLY: 'hebdomadaire',
+};
+
+// formatDay / formaterJour : "2025-12-08"
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// groupDigestChanges / grouperChangementsDigest : concurrents par ordre alphabétique, changements du plus récent au plus ancien
+// Competitors alphabetically, changes newest first
+export function groupDigestChanges(changes: DigestChange[]): DigestGroup[] {
+  const groups = new Map<string, DigestChange[]>();
+  for (const change of changes) {
+    const list = groups.get(change.competitorName) ?? [];
+    list.push(change);
+    groups.set(change.competitorName, list);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b, 'fr'))
+    .map(([competitor, list]) => ({
+      competitor,
+      changes: [...list].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+    }));
+}
+
+// describeDigestChange / decrireChangementDigest : résumé + ancien → nouveau prix et écart pour PRICE
+// Summary + old → new price and delta for PRICE
+export function describeDigestChange(change: DigestChange): string {
+  const summary = change.changeSummary ?? change.field ?? CHANGE_TYPE_LABELS[change.changeType] ?? change.changeType;
+  if (change.changeType !== 'PRICE' || (change.oldPrice === null && change.newPrice === null)) {
+    return summary;
+  }
+
+  const delta = formatPriceDelta(change.priceDelta, change.priceDeltaPct, change.currency);
+  return `${summary} — ${formatPrice(change.oldPrice, change.oldCurrency ?? change.currency)} → ${formatPrice(
+    change.newPrice,
+    change.currency,
+  )}${delta ? ` (${delta})` : ''}`;
+}
+
+// digestSubject / sujetDigest : "[Projet] 12 changements – synthèse hebdomadaire"
+// Email subject
+export function digestSubject(data: DigestData): string {
+  return `[${data.project.name}] ${data.totalChanges} changement(s) – synthèse ${FREQUENCY_LABELS[data.frequency]}`;
+}
+
+// periodText / textePeriode
+function periodText(data: DigestData): string {
+  return `du ${formatDay(data.periodStart)} au ${formatDay(data.periodEnd)}`;
+}
+
+// renderDigestText / rendreDigestTexte : version texte brut
+// Plain-text version
+export function renderDigestText(data: DigestData): string {
+  const lines: string[] = [
+    `Synthèse ${FREQUENCY_LABELS[data.frequency]} – ${data.project.name}`,
+    `${data.totalChanges} changement(s) ${periodText(data)}`,
+    '',
+  ];
+
+  for (const group of groupDigestChanges(data.changes)) {
+    lines.push(`${group.competitor} (${group.changes.length})`);
+    for (const change of group.changes) {
+      lines.push(
+        `  - [${CHANGE_TYPE_LABELS[change.changeType] ?? change.changeType}] ${describeDigestChange(change)}`,
+        `    ${change.pageUrl}`,
+      );
+    }
+    lines.push('');
+  }
+
+  const omitted = data.totalChanges - data.changes.length;
+  if (omitted > 0) {
+    lines.push(`… ${omitted} changement(s) supplémentaire(s) non listé(s).`, '');
+  }
+
+  lines.push(
+    `Voir les changements : ${data.links.changes}`,
+    '',
+    '--',
+    `Se désinscrire / Unsubscribe : ${data.links.unsubscribe}`,
+    '',
+  );
+  return lines.join('\n');
+}
+
+// escapeHtml / echapperHtml
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// safeHref / lienSur : seuls http(s) sont rendus cliquables
+// Only http(s) URLs become links
+function safeHref(url: string): string {
+  return /^https?:\/\//i.test(url) ? escapeHtml(url) : '#';
+}
+
+// htmlStyles / stylesHtml : CSS inline (les clients mail ignorent souvent <style>)
+// Inline CSS (mail clients often drop <style> blocks)
+const STYLE = {
+  body: 'margin:0;padding:24px;background:#f8fafc;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#0f172a;',
+  container: 'max-width:680px;margin:0 auto;background:#ffffff;border:1px solid #e2e8f0;border-radius:12px;padding:24px;',
+  h1: 'margin:0 0 4px;font-size:20px;',
+  h2: 'margin:24px 0 8px;font-size:15px;border-bottom:1px solid #e2e8f0;padding-bottom:6px;',
+  muted: 'margin:0;font-size:12px;color:#64748b;',
+  item: 'margin:0 0 8px;font-size:13px;line-height:1.5;',
+  badge: 'display:inline-block;padding:1px 6px;border-radius:4px;background:#e0f2fe;color:#0369a1;font-size:10px;font-weight:bold;margin-right:6px;',
+  up: 'color:#dc2626;',
+  down: 'color:#059669;',
+  link: 'color:#0284c7;text-decoration:none;',
+  button: 'display:inline-block;margin-top:20px;padding:8px 14px;border-radius:8px;background:#0284c7;color:#ffffff;font-size:13px;text-decoration:none;',
+  footer: 'margin:24px 0 0;font-size:11px;color:#94a3b8;',
+};
+
+// renderDigestHtml / rendreDigestHtml : document HTML autonome
+// Standalone HTML document
+export function renderDigestHtml(data: DigestData): string {
+  const title = `Synthèse ${FREQUENCY_LABELS[data.frequency]} – ${data.project.name}`;
+  const parts: string[] = [
+    '<!DOCTYPE html>',
+    '<html lang="fr">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    '</head>',
+    `<body style="${STYLE.body}">`,
+    `<div style="${STYLE.container}">`,
+    `<h1 style="${STYLE.h1}">${escapeHtml(title)}</h1>`,
+    `<p style="${STYLE.muted}">${data.totalChanges} changement(s) ${escapeHtml(periodText(data))}</p>`,
+  ];
+
+  for (const group of groupDigestChanges(data.changes)) {
+    parts.push(
+      `<h2 style="${STYLE.h2}">${escapeHtml(group.competitor)} (${group.changes.length})</h2>`,
+    );
+    for (const change of group.changes) {
+      const priceStyle =
+        change.priceDelta && change.priceDelta > 0
+          ? STYLE.up
+          : change.priceDelta && change.priceDelta < 0
+            ? STYLE.down
+            : '';
+      parts.push(
+        `<p style="${STYLE.item}${priceStyle}">`,
+        `<span style="${STYLE.badge}">${escapeHtml(CHANGE_TYPE_LABELS[change.changeType] ?? change.changeType)}</span>`,
+        escapeHtml(describeDigestChange(change)),
+        ` <a href="${safeHref(change.pageUrl)}" style="${STYLE.link}">${escapeHtml(change.pageType)}</a>`,
+        '</p>',
+      );
+    }
+  }
+
+  const omitted = data.totalChanges - data.changes.length;
+  if (omitted > 0) {
+    parts.push(
+      `<p style="${STYLE.muted}margin-top:8px;">… ${omitted} changement(s) supplémentaire(s) non listé(s).</p>`,
+    );
+  }
+
+  parts.push(
+    `<a href="${safeHref(data.links.changes)}" style="${STYLE.button}">Voir les changements</a>`,
+    `<p style="${STYLE.footer}">Vous recevez cet email car vous êtes abonné à la synthèse du projet ${escapeHtml(
+      data.project.name,
+    )}. <a href="${safeHref(data.links.unsubscribe)}" style="${STYLE.link}">Se désinscrire / Unsubscribe</a></p>`,
+    '</div>',
+    '</body>',
+    '</html>',
+    '',
+  );
+  return parts.join('\n');
+}
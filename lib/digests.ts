@@ -0,0 +1,318 @@
+// digests / digestsEmail : emails de synthèse des nouveaux changements par projet
+// Per-project email digests of new changes, sent by the scheduler worker (lib/scheduler.ts).
+// Quotidien : chaque jour à DIGEST_HOUR_UTC ; hebdomadaire : le lundi à la même heure
+// Daily: every day at DIGEST_HOUR_UTC; weekly: on Mondays at the same hour
+
+import { randomBytes } from 'node:crypto';
+import { appUrl } from '@/lib/appUrl';
+import { prisma } from '@/lib/db';
+import {
+  digestSubject,
+  renderDigestHtml,
+  renderDigestText,
+  type DigestData,
+} from '@/lib/digestEmail';
+import { getMailerConfig, sendMail } from '@/lib/mailer';
+import type { DigestFrequency, DigestSubscriber, Project } from '@prisma/client';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// maxDigestChanges / nbMaxChangementsDigest : au-delà, l'email renvoie vers l'application
+// Beyond this, the email links to the app instead
+const MAX_DIGEST_CHANGES = 200;
+const MAX_NAME_LENGTH = 120;
+const MAX_ERROR_LENGTH = 1000;
+
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['DAILY', 'WEEKLY'];
+
+// periodLengths / dureesPeriode : période couverte par un premier envoi
+// Period covered by a first send
+const PERIOD_MS: Record<DigestFrequency, number> = {
+  DAILY: DAY_MS,
+  WEEKLY: 7 * DAY_MS,
+};
+
+// DigestSubscriberInput / entreeAbonneDigest : création ou mise à jour validée
+// Validated creation or update
+export type DigestSubscriberInput = {
+  email: string;
+  name: string | null;
+  frequency: DigestFrequency;
+};
+
+type SubscriberWithProject = DigestSubscriber & { project: Pick<Project, 'id' | 'name'> };
+
+// digestHourUtc / heureDigestUtc : DIGEST_HOUR_UTC (0–23), 7 par défaut
+// DIGEST_HOUR_UTC (0–23), defaults to 7
+function digestHourUtc(): number {
+  const hour = Number(process.env.DIGEST_HOUR_UTC);
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : 7;
+}
+
+// generateUnsubscribeToken / genererJetonDesinscription
+export function generateUnsubscribeToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+// unsubscribeLinks / liensDesinscription : page de confirmation + URL one-click (RFC 8058)
+// Confirmation page + one-click URL (RFC 8058)
+export function unsubscribeLinks(token: string): { page: string; oneClick: string } {
+  return {
+    page: appUrl(`/unsubscribe/${token}`),
+    oneClick: appUrl(`/api/unsubscribe/${token}`),
+  };
+}
+
+// parseDigestSubscriberInput / parserEntreeAbonneDigest : validation du POST / PATCH
+// Validates POST / PATCH bodies; `existing` supplies the fields missing from a PATCH
+export function parseDigestSubscriberInput(
+  raw: unknown,
+  existing: DigestSubscriberInput | null,
+):
+  | { input: DigestSubscriberInput; error: null }
+  | { input: null; error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { input: null, error: 'Corps de requête invalide. / Invalid request body.' };
+  }
+
+  const value = raw as Record<string, unknown>;
+
+  const email =
+    typeof value.email === 'string' ? value.email.trim().toLowerCase() : existing?.email;
+  if (!email || email.length > 254 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return {
+      input: null,
+      error: 'email doit être une adresse valide. / email must be a valid address.',
+    };
+  }
+
+  let name = existing?.name ?? null;
+  if (value.name !== undefined) {
+    name = typeof value.name === 'string' && value.name.trim() ? value.name.trim() : null;
+  }
+  if (name && name.length > MAX_NAME_LENGTH) {
+    return { input: null, error: 'Nom trop long. / Name too long.' };
+  }
+
+  const frequency = value.frequency ?? existing?.frequency ?? 'WEEKLY';
+  if (!DIGEST_FREQUENCIES.includes(frequency as DigestFrequency)) {
+    return {
+      input: null,
+      error: 'frequency doit valoir DAILY ou WEEKLY. / frequency must be DAILY or WEEKLY.',
+    };
+  }
+
+  return {
+    input: { email, name, frequency: frequency as DigestFrequency },
+    error: null,
+  };
+}
+
+// toDigestSubscriberView / versVueAbonneDigest : sans le jeton (réservé au lien de l'email)
+// Without the token (only meant for the email link)
+export function toDigestSubscriberView(subscriber: DigestSubscriber) {
+  return {
+    id: subscriber.id,
+    projectId: subscriber.projectId,
+    email: subscriber.email,
+    name: subscriber.name,
+    frequency: subscriber.frequency,
+    unsubscribedAt: subscriber.unsubscribedAt,
+    lastSentAt: subscriber.lastSentAt,
+    lastError: subscriber.lastError,
+    createdAt: subscriber.createdAt,
+  };
+}
+
+// previousDigestSlot / creneauDigestPrecedent : dernier créneau d'envoi <= now
+// Last send slot <= now
+export function previousDigestSlot(frequency: DigestFrequency, now: Date): Date {
+  const slot = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), digestHourUtc()),
+  );
+  if (slot.getTime() > now.getTime()) {
+    slot.setUTCDate(slot.getUTCDate() - 1);
+  }
+  if (frequency === 'WEEKLY') {
+    // monday / lundi : getUTCDay 1
+    slot.setUTCDate(slot.getUTCDate() - ((slot.getUTCDay() + 6) % 7));
+  }
+  return slot;
+}
+
+// isDigestDue / digestEchu : un créneau est passé depuis le dernier envoi (ou l'abonnement)
+// A slot has passed since the last send (or the subscription)
+export function isDigestDue(subscriber: DigestSubscriber, now: Date): boolean {
+  const slot = previousDigestSlot(subscriber.frequency, now);
+  return slot.getTime() > (subscriber.lastSentAt ?? subscriber.createdAt).getTime();
+}
+
+// buildDigestData / construireDonneesDigest : changements du projet sur ]since, until], hors DISMISSED
+// Project changes within ]since, until], excluding DISMISSED
+async function buildDigestData(
+  subscriber: SubscriberWithProject,
+  since: Date,
+  until: Date,
+): Promise<DigestData> {
+  const where = {
+    createdAt: { gt: since, lte: until },
+    triageStatus: { not: 'DISMISSED' as const },
+    monitoredPage: { competitor: { projectId: subscriber.projectId } },
+  };
+
+  const [changes, totalChanges] = await Promise.all([
+    prisma.change.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: MAX_DIGEST_CHANGES,
+      include: {
+        monitoredPage: {
+          select: { url: true, pageType: true, competitor: { select: { name: true } } },
+        },
+      },
+    }),
+    prisma.change.count({ where }),
+  ]);
+
+  return {
+    project: subscriber.project,
+    frequency: subscriber.frequency,
+    periodStart: since,
+    periodEnd: until,
+    changes: changes.map((change) => ({
+      id: change.id,
+      createdAt: change.createdAt,
+      changeType: change.changeType,
+      changeSummary: change.changeSummary,
+      field: change.field,
+      oldPrice: change.oldPrice,
+      newPrice: change.newPrice,
+      priceDelta: change.priceDelta,
+      priceDeltaPct: change.priceDeltaPct,
+      currency: change.currency,
+      oldCurrency: change.oldCurrency,
+      pageUrl: change.monitoredPage.url,
+      pageType: change.monitoredPage.pageType,
+      competitorName: change.monitoredPage.competitor.name,
+    })),
+    totalChanges,
+    links: {
+      changes: appUrl(
+        `/projects/${subscriber.projectId}/changes?from=${since.toISOString().slice(0, 10)}`,
+      ),
+      unsubscribe: unsubscribeLinks(subscriber.unsubscribeToken).page,
+    },
+  };
+}
+
+// deliverDigest / livrerDigest : envoi SMTP avec en-têtes List-Unsubscribe
+// SMTP send with List-Unsubscribe headers; an empty period sends nothing unless sendEmpty
+async function deliverDigest(
+  subscriber: SubscriberWithProject,
+  since: Date,
+  until: Date,
+  sendEmpty: boolean,
+): Promise<number> {
+  const data = await buildDigestData(subscriber, since, until);
+  if (data.totalChanges === 0 && !sendEmpty) return 0;
+
+  const links = unsubscribeLinks(subscriber.unsubscribeToken);
+  await sendMail({
+    to: subscriber.name ? `"${subscriber.name.replace(/"/g, '')}" <${subscriber.email}>` : subscriber.email,
+    subject: digestSubject(data),
+    html: renderDigestHtml(data),
+    text: renderDigestText(data),
+    headers: {
+      'List-Unsubscribe': `<${links.oneClick}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  });
+  return data.totalChanges;
+}
+
+// sendDigestNow / envoyerDigestMaintenant : envoi immédiat (bouton de test), même sans changement
+// Immediate send (test button), even without changes; covers the last period and leaves lastSentAt
+// untouched. null si l'abonné n'existe pas / null when the subscriber does not exist
+export async function sendDigestNow(
+  subscriberId: number,
+  now: Date = new Date(),
+): Promise<{ totalChanges: number } | null> {
+  const subscriber = await prisma.digestSubscriber.findUnique({
+    where: { id: subscriberId },
+    include: { project: { select: { id: true, name: true } } },
+  });
+  if (!subscriber) return null;
+
+  const since = new Date(now.getTime() - PERIOD_MS[subscriber.frequency]);
+  const totalChanges = await deliverDigest(subscriber, since, now, true);
+  return { totalChanges };
+}
+
+// sendDueDigests / envoyerDigestsEchus : abonnés actifs dont un créneau est passé
+// Active subscribers with a passed slot. Sans SMTP_HOST, rien n'est fait (les envois restent dus)
+// Without SMTP_HOST nothing happens (sends stay due). Un échec est tracé sur l'abonné et retenté
+// au passage suivant / A failure is recorded on the subscriber and retried on the next pass
+export async function sendDueDigests(
+  now: Date = new Date(),
+): Promise<{ sent: number; failed: number }> {
+  if (!getMailerConfig()) return { sent: 0, failed: 0 };
+
+  const subscribers = await prisma.digestSubscriber.findMany({
+    where: { unsubscribedAt: null },
+    include: { project: { select: { id: true, name: true } } },
+    orderBy: { id: 'asc' },
+  });
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const subscriber of subscribers) {
+    if (!isDigestDue(subscriber, now)) continue;
+
+    const since =
+      subscriber.lastSentAt ?? new Date(now.getTime() - PERIOD_MS[subscriber.frequency]);
+
+    try {
+      const totalChanges = await deliverDigest(subscriber, since, now, false);
+      await prisma.digestSubscriber.update({
+        where: { id: subscriber.id },
+        data: { lastSentAt: now, lastError: null },
+      });
+      if (totalChanges > 0) sent += 1;
+    } catch (error) {
+      console.error('digestSendError / erreurEnvoiDigest', error);
+      failed += 1;
+      await prisma.digestSubscriber.update({
+        where: { id: subscriber.id },
+        data: {
+          lastError: (error instanceof Error ? error.message : String(error)).slice(
+            0,
+            MAX_ERROR_LENGTH,
+          ),
+        },
+      });
+    }
+  }
+
+  return { sent, failed };
+}
+
+// unsubscribeByToken / desinscrireParJeton : idempotent, null si le jeton est inconnu
+// Idempotent; null when the token is unknown
+export async function unsubscribeByToken(
+  token: string,
+): Promise<SubscriberWithProject | null> {
+  const subscriber = await prisma.digestSubscriber.findUnique({
+    where: { unsubscribeToken: token },
+    include: { project: { select: { id: true, name: true } } },
+  });
+  if (!subscriber) return null;
+  if (subscriber.unsubscribedAt) return subscriber;
+
+  return prisma.digestSubscriber.update({
+    where: { id: subscriber.id },
+    data: { unsubscribedAt: new Date() },
+    include: { project: { select: { id: true, name: true } } },
+  });
+}
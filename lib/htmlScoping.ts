@@ -0,0 +1,116 @@
+// htmlScoping / ciblageHtml : sélecteurs CSS d'inclusion / exclusion par page surveillée
+// Per-page CSS include / exclude selectors, applied with a real HTML parser (cheerio)
+
+import * as cheerio from 'cheerio';
+
+// SelectorScope / perimetreSelecteurs : règles d'une page surveillée
+// Rules of a monitored page
+export type SelectorScope = {
+  includeSelectors?: string[]; // onlyWatch / surveillerSeulement (ex: "#pricing")
+  excludeSelectors?: string[]; // ignore / ignorer (ex: ".testimonials", "footer")
+};
+
+// ScopedHtml / htmlCible : HTML restant + nombre d'éléments inclus trouvés
+// Remaining HTML + number of matched include elements
+export type ScopedHtml = {
+  html: string;
+  includeMatches: number | null; // null si aucun sélecteur d'inclusion / null without include selectors
+};
+
+// selectorLimits / limitesSelecteurs : garde-fous sur la saisie
+// Input guards
+const MAX_SELECTORS = 20;
+const MAX_SELECTOR_LENGTH = 200;
+
+// parseSelectorList / parserListeSelecteurs : tableau de chaînes ou texte multi-lignes
+// Accepts a string array or a newline-separated string; null when the shape is invalid
+export function parseSelectorList(raw: unknown): string[] | null {
+  if (raw === undefined || raw === null) return [];
+
+  let values: unknown[];
+  if (typeof raw === 'string') {
+    values = raw.split(/\r?\n/);
+  } else if (Array.isArray(raw)) {
+    values = raw;
+  } else {
+    return null;
+  }
+
+  const selectors: string[] = [];
+  for (const value of values) {
+    if (typeof value !== 'string') return null;
+    const trimmed = value.trim();
+    if (trimmed && !selectors.includes(trimmed)) selectors.push(trimmed);
+  }
+
+  return selectors;
+}
+
+// validateSelectors / validerSelecteurs : message bilingue si un sélecteur est invalide
+// Returns a bilingual error message when a selector is invalid, null otherwise
+export function validateSelectors(selectors: string[]): string | null {
+  if (selectors.length > MAX_SELECTORS) {
+    return `${MAX_SELECTORS} sélecteurs maximum. / At most ${MAX_SELECTORS} selectors.`;
+  }
+
+  const $ = cheerio.load('');
+
+  for (const selector of selectors) {
+    if (selector.length > MAX_SELECTOR_LENGTH) {
+      return `Sélecteur trop long : "${selector.slice(0, 40)}…". / Selector too long.`;
+    }
+    try {
+      $.root().find(selector);
+    } catch {
+      return `Sélecteur CSS invalide : "${selector}". / Invalid CSS selector: "${selector}".`;
+    }
+  }
+
+  return null;
+}
+
+// applySelectorScope / appliquerPerimetre : retire les exclusions puis garde les inclusions
+// Removes excluded elements, then keeps only included ones (in document order)
+export function applySelectorScope(
+  rawHtml: string,
+  scope: SelectorScope,
+): ScopedHtml {
+  const include = scope.includeSelectors ?? [];
+  const exclude = scope.excludeSelectors ?? [];
+
+  if (include.length === 0 && exclude.length === 0) {
+    return { html: rawHtml, includeMatches: null };
+  }
+
+  const $ = cheerio.load(rawHtml);
+
+  for (const selector of exclude) {
+    $(selector).remove();
+  }
+
+  if (include.length === 0) {
+    return { html: $.html(), includeMatches: null };
+  }
+
+  // groupedSelector / selecteurGroupe : un seul passage = ordre du document, pas de doublons
+  // A single grouped query keeps document order and avoids duplicates
+  const matched = $(include.join(', '));
+  const matchedNodes = new Set(matched.toArray());
+
+  // nestedMatches / correspondancesImbriquees : on ne garde que les éléments les plus hauts
+  // Keep only top-most matches so nested ones are not output twice
+  const roots = matched.filter(
+    (_, element) =>
+      !$(element)
+        .parents()
+        .toArray()
+        .some((parent) => matchedNodes.has(parent)),
+  );
+
+  const html = roots
+    .toArray()
+    .map((element) => $.html(element))
+    .join('\n');
+
+  return { html, includeMatches: roots.length };
+}
@@ -0,0 +1,352 @@
+// llmProvider / fournisseurLlm : couche d'abstraction des modèles de langage
+// LLM provider layer: OpenAI or any OpenAI-compatible server (Ollama, vLLM…), plus a fake
+// deterministic provider for tests; configured globally (env) and overridable per project
+
+import OpenAI from 'openai';
+
+// LlmProviderKind / typeFournisseurLlm
+// openai = API OpenAI ou serveur compatible (baseUrl) / OpenAI API or compatible server (baseUrl)
+// fake = réponses déterministes sans réseau / deterministic answers, no network
+export type LlmProviderKind = 'openai' | 'fake';
+
+export const LLM_PROVIDER_KINDS: LlmProviderKind[] = ['openai', 'fake'];
+
+// LlmSettings / parametresLlm : configuration effective (env + surcharge projet)
+// Effective configuration (env + project override)
+export type LlmSettings = {
+  provider: LlmProviderKind;
+  baseUrl: string | null; // null = API OpenAI / OpenAI API
+  model: string;
+  apiKey: string | null;
+  temperature: number | null; // null = valeur par défaut du serveur / server default
+  maxTokens: number | null;
+  promptTokenBudget: number | null; // null = DEFAULT_PROMPT_TOKEN_BUDGET (lib/aiReport.ts)
+};
+
+// ProjectLlmSettings / parametresLlmProjet : surcharge stockée dans Project.llmSettings (JSON)
+// Override stored in Project.llmSettings (JSON); missing fields fall back to the env
+export type ProjectLlmSettings = Partial<LlmSettings>;
+
+// PublicLlmSettings / parametresLlmPublics : renvoyés aux clients (clé API jamais exposée)
+// Returned to clients (the API key is never exposed)
+export type PublicLlmSettings = Omit<ProjectLlmSettings, 'apiKey'> & {
+  hasApiKey: boolean;
+};
+
+// LlmRequest / requeteLlm : un échange system + user
+// One system + user exchange
+export type LlmRequest = {
+  system: string;
+  user: string;
+  json?: boolean; // jsonMode / modeJson : réponse JSON stricte / strict JSON answer
+};
+
+// LlmProvider / fournisseurLlm : interface commune des fournisseurs
+// Common provider interface; complete() throws on transport errors, null = empty answer
+export type LlmProvider = {
+  kind: LlmProviderKind;
+  model: string;
+  complete(request: LlmRequest): Promise<string | null>;
+};
+
+// defaultModel / modeleParDefaut
+export const DEFAULT_LLM_MODEL = 'gpt-4.1-mini';
+
+// limits / limites : bornes de validation
+// Validation bounds
+const MAX_TEMPERATURE = 2;
+const MAX_MAX_TOKENS = 32000;
+const MAX_MODEL_LENGTH = 200;
+const MIN_PROMPT_TOKEN_BUDGET = 1000;
+const MAX_PROMPT_TOKEN_BUDGET = 1000000;
+
+// parseOptionalNumber / parserNombreOptionnel : variable d'environnement numérique
+// Numeric environment variable
+function parseOptionalNumber(raw: string | undefined): number | null {
+  if (!raw || !raw.trim()) return null;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+// normalizeBaseUrl / normaliserBaseUrl : sans slash final, pour comparer les URL
+// Without trailing slash, so URLs can be compared
+function normalizeBaseUrl(raw: string | null | undefined): string | null {
+  const trimmed = raw?.trim();
+  return trimmed ? trimmed.replace(/\/+$/, '') : null;
+}
+
+// getGlobalLlmSettings / parametresLlmGlobaux : LLM_* (OPENAI_API_KEY en repli pour la clé)
+// LLM_* variables (OPENAI_API_KEY as key fallback)
+export function getGlobalLlmSettings(): LlmSettings {
+  const provider = process.env.LLM_PROVIDER?.trim().toLowerCase();
+
+  return {
+    provider: provider === 'fake' ? 'fake' : 'openai',
+    baseUrl: normalizeBaseUrl(process.env.LLM_BASE_URL),
+    model: process.env.LLM_MODEL?.trim() || DEFAULT_LLM_MODEL,
+    apiKey: process.env.LLM_API_KEY?.trim() || process.env.OPENAI_API_KEY?.trim() || null,
+    temperature: parseOptionalNumber(process.env.LLM_TEMPERATURE),
+    maxTokens: parseOptionalNumber(process.env.LLM_MAX_TOKENS),
+    promptTokenBudget: parseOptionalNumber(process.env.LLM_PROMPT_TOKEN_BUDGET),
+  };
+}
+
+// parseProjectLlmSettings / parserParametresLlmProjet : sécurise le JSON stocké
+// Safely reads the stored JSON
+export function parseProjectLlmSettings(raw: unknown): ProjectLlmSettings {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+
+  const value = raw as Record<string, unknown>;
+  const settings: ProjectLlmSettings = {};
+
+  if (value.provider === 'openai' || value.provider === 'fake') {
+    settings.provider = value.provider;
+  }
+  if (typeof value.baseUrl === 'string' && value.baseUrl.trim()) {
+    settings.baseUrl = normalizeBaseUrl(value.baseUrl);
+  }
+  if (typeof value.model === 'string' && value.model.trim()) {
+    settings.model = value.model.trim();
+  }
+  if (typeof value.apiKey === 'string' && value.apiKey.trim()) {
+    settings.apiKey = value.apiKey.trim();
+  }
+  if (typeof value.temperature === 'number' && Number.isFinite(value.temperature)) {
+    settings.temperature = value.temperature;
+  }
+  if (typeof value.maxTokens === 'number' && Number.isFinite(value.maxTokens)) {
+    settings.maxTokens = value.maxTokens;
+  }
+  if (typeof value.promptTokenBudget === 'number' && Number.isFinite(value.promptTokenBudget)) {
+    settings.promptTokenBudget = value.promptTokenBudget;
+  }
+
+  return settings;
+}
+
+// resolveLlmSettings / resoudreParametresLlm : surcharge projet au-dessus de l'env
+// Project override on top of the env.
+// La clé globale n'est jamais envoyée à une baseUrl propre au projet (données confidentielles)
+// The global key is never sent to a project-specific base URL
+export function resolveLlmSettings(projectRaw: unknown): LlmSettings {
+  const global = getGlobalLlmSettings();
+  const project = parseProjectLlmSettings(projectRaw);
+
+  const baseUrl = project.baseUrl !== undefined ? project.baseUrl : global.baseUrl;
+  const sameServer = baseUrl === global.baseUrl;
+
+  return {
+    provider: project.provider ?? global.provider,
+    baseUrl,
+    model: project.model ?? global.model,
+    apiKey: project.apiKey ?? (sameServer ? global.apiKey : null),
+    temperature: project.temperature ?? global.temperature,
+    maxTokens: project.maxTokens ?? global.maxTokens,
+    promptTokenBudget: project.promptTokenBudget ?? global.promptTokenBudget,
+  };
+}
+
+// toPublicLlmSettings / versParametresLlmPublics : retire la clé API
+// Strips the API key
+export function toPublicLlmSettings(raw: unknown): PublicLlmSettings {
+  const { apiKey, ...rest } = parseProjectLlmSettings(raw);
+  return { ...rest, hasApiKey: Boolean(apiKey) };
+}
+
+// parseLlmSettingsUpdate / parserMajParametresLlm : validation du PATCH projet
+// Validates the project PATCH (the object replaces the whole override). null = supprimer la surcharge / remove the override.
+// apiKey absent = clé existante conservée ; chaîne vide = clé supprimée
+// Missing apiKey = existing key kept; empty string = key removed
+export function parseLlmSettingsUpdate(
+  raw: unknown,
+  existingRaw: unknown,
+):
+  | { settings: ProjectLlmSettings | null; error: null }
+  | { settings: null; error: string } {
+  if (raw === null) return { settings: null, error: null };
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return {
+      settings: null,
+      error: 'llmSettings doit être un objet ou null. / llmSettings must be an object or null.',
+    };
+  }
+
+  const value = raw as Record<string, unknown>;
+  const existing = parseProjectLlmSettings(existingRaw);
+  const settings: ProjectLlmSettings = {};
+
+  if (value.provider !== undefined && value.provider !== null && value.provider !== '') {
+    if (!LLM_PROVIDER_KINDS.includes(value.provider as LlmProviderKind)) {
+      return {
+        settings: null,
+        error: 'Fournisseur invalide (openai ou fake). / Invalid provider (openai or fake).',
+      };
+    }
+    settings.provider = value.provider as LlmProviderKind;
+  }
+
+  if (typeof value.baseUrl === 'string' && value.baseUrl.trim()) {
+    let protocol = '';
+    try {
+      protocol = new URL(value.baseUrl.trim()).protocol;
+    } catch {
+      protocol = '';
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      return {
+        settings: null,
+        error: 'baseUrl doit être une URL http(s). / baseUrl must be an http(s) URL.',
+      };
+    }
+    settings.baseUrl = normalizeBaseUrl(value.baseUrl);
+  }
+
+  if (typeof value.model === 'string' && value.model.trim()) {
+    if (value.model.trim().length > MAX_MODEL_LENGTH) {
+      return {
+        settings: null,
+        error: 'Nom de modèle trop long. / Model name too long.',
+      };
+    }
+    settings.model = value.model.trim();
+  }
+
+  if (value.temperature !== undefined && value.temperature !== null && value.temperature !== '') {
+    const temperature = Number(value.temperature);
+    if (!Number.isFinite(temperature) || temperature < 0 || temperature > MAX_TEMPERATURE) {
+      return {
+        settings: null,
+        error: `temperature doit être entre 0 et ${MAX_TEMPERATURE}. / temperature must be between 0 and ${MAX_TEMPERATURE}.`,
+      };
+    }
+    settings.temperature = temperature;
+  }
+
+  if (value.maxTokens !== undefined && value.maxTokens !== null && value.maxTokens !== '') {
+    const maxTokens = Number(value.maxTokens);
+    if (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > MAX_MAX_TOKENS) {
+      return {
+        settings: null,
+        error: `maxTokens doit être un entier entre 1 et ${MAX_MAX_TOKENS}. / maxTokens must be an integer between 1 and ${MAX_MAX_TOKENS}.`,
+      };
+    }
+    settings.maxTokens = maxTokens;
+  }
+
+  if (
+    value.promptTokenBudget !== undefined &&
+    value.promptTokenBudget !== null &&
+    value.promptTokenBudget !== ''
+  ) {
+    const promptTokenBudget = Number(value.promptTokenBudget);
+    if (
+      !Number.isInteger(promptTokenBudget) ||
+      promptTokenBudget < MIN_PROMPT_TOKEN_BUDGET ||
+      promptTokenBudget > MAX_PROMPT_TOKEN_BUDGET
+    ) {
+      return {
+        settings: null,
+        error: `promptTokenBudget doit être un entier entre ${MIN_PROMPT_TOKEN_BUDGET} et ${MAX_PROMPT_TOKEN_BUDGET}. / promptTokenBudget must be an integer between ${MIN_PROMPT_TOKEN_BUDGET} and ${MAX_PROMPT_TOKEN_BUDGET}.`,
+      };
+    }
+    settings.promptTokenBudget = promptTokenBudget;
+  }
+
+  if (value.apiKey === undefined) {
+    if (existing.apiKey) settings.apiKey = existing.apiKey;
+  } else if (typeof value.apiKey === 'string' && value.apiKey.trim()) {
+    settings.apiKey = value.apiKey.trim();
+  }
+
+  return { settings, error: null };
+}
+
+// createOpenAiCompatibleProvider / creerFournisseurCompatibleOpenAi : SDK OpenAI + baseURL
+// OpenAI SDK pointed at baseURL (OpenAI, Ollama, vLLM, LiteLLM…)
+export function createOpenAiCompatibleProvider(settings: LlmSettings): LlmProvider {
+  const client = new OpenAI({
+    // selfHostedWithoutKey / autoHebergeSansCle : le SDK exige une clé non vide
+    // The SDK requires a non-empty key; self-hosted servers usually ignore it
+    apiKey: settings.apiKey ?? 'not-needed',
+    baseURL: settings.baseUrl ?? undefined,
+  });
+
+  return {
+    kind: 'openai',
+    model: settings.model,
+    async complete(request) {
+      const completion = await client.chat.completions.create({
+        model: settings.model,
+        ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+        ...(settings.temperature !== null ? { temperature: settings.temperature } : {}),
+        ...(settings.maxTokens !== null ? { max_tokens: settings.maxTokens } : {}),
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.user },
+        ],
+      });
+
+      return completion.choices[0]?.message?.content ?? null;
+    },
+  };
+}
+
+// fakeFields / champsFactices : Competitor="…" et ChangeType="…" d'une ligne de prompt
+// Competitor="…" and ChangeType="…" of one prompt line
+function fakeField(line: string, name: string): string {
+  return line.match(new RegExp(`${name}="([^"]*)"`))?.[1] ?? '';
+}
+
+// defaultFakeResponse / reponseFactice : JSON déterministe dérivé du prompt
+// Deterministic JSON derived from the prompt: one highlight per change line (max 3), citing it
+function defaultFakeResponse(request: LlmRequest): string {
+  const changeLines = request.user
+    .split('\n')
+    .filter((line) => /^\[[^\]]+\] ChangeId=\d+ \| Competitor="/.test(line));
+
+  return JSON.stringify({
+    summary: `[fake] ${changeLines.length} changement(s) analysé(s). / ${changeLines.length} change(s) analyzed.`,
+    highlights: changeLines.slice(0, 3).map((line, index) => ({
+      title: `Fait marquant factice ${index + 1}`,
+      detail: fakeField(line, 'Summary') || 'Réponse du fournisseur factice. / Fake provider answer.',
+      competitor: fakeField(line, 'Competitor'),
+      changeType: fakeField(line, 'ChangeType') || 'OTHER',
+      impact: index === 0 ? 'HIGH' : 'MEDIUM',
+      sourceChangeIds: [Number(line.match(/ChangeId=(\d+)/)?.[1])],
+    })),
+  });
+}
+
+// createFakeLlmProvider / creerFournisseurLlmFactice : sans réseau, pour les tests / la CI
+// No network, for tests / CI; `respond` replaces the default deterministic answer
+// (JSON invalide, sources inconnues… / invalid JSON, unknown sources…), `calls` logs each request
+export function createFakeLlmProvider(
+  respond: (request: LlmRequest) => string | null = defaultFakeResponse,
+): LlmProvider & { calls: LlmRequest[] } {
+  const calls: LlmRequest[] = [];
+
+  return {
+    kind: 'fake',
+    model: 'fake',
+    calls,
+    async complete(request) {
+      calls.push(request);
+      return respond(request);
+    },
+  };
+}
+
+// getLlmProvider / obtenirFournisseurLlm : null si aucun fournisseur utilisable
+// null when no usable provider (OpenAI API without key)
+export function getLlmProvider(settings: LlmSettings): LlmProvider | null {
+  if (settings.provider === 'fake') {
+    return createFakeLlmProvider();
+  }
+
+  if (!settings.baseUrl && !settings.apiKey) {
+    return null;
+  }
+
+  return createOpenAiCompatibleProvider(settings);
+}
@@ -0,0 +1,96 @@
+// mailer / envoiEmail : transport SMTP (nodemailer) configuré par variables d'environnement
+// SMTP transport (nodemailer) configured from environment variables.
+// En local : MailHog / Mailpit (SMTP_HOST=localhost, SMTP_PORT=1025, sans authentification)
+// Locally: MailHog / Mailpit (SMTP_HOST=localhost, SMTP_PORT=1025, no authentication)
+
+import nodemailer, { type Transporter } from 'nodemailer';
+
+// MailerConfig / configEmail : lue à chaque appel (pas de redémarrage pour tester un autre serveur)
+// Read on every call
+export type MailerConfig = {
+  host: string;
+  port: number;
+  secure: boolean; // TLS implicite (465) ; sinon STARTTLS si proposé / implicit TLS (465), otherwise STARTTLS when offered
+  user: string | null;
+  password: string | null;
+  from: string;
+};
+
+// MailMessage / messageEmail : version HTML + texte brut
+// HTML + plain-text versions
+export type MailMessage = {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+};
+
+// MailerNotConfiguredError / erreurEmailNonConfigure : SMTP_HOST absent
+// SMTP_HOST is missing
+export class MailerNotConfiguredError extends Error {
+  constructor() {
+    super("SMTP non configuré (SMTP_HOST). / SMTP is not configured (SMTP_HOST).");
+    this.name = 'MailerNotConfiguredError';
+  }
+}
+
+const SMTP_TIMEOUT_MS = 15 * 1000;
+
+// getMailerConfig / lireConfigEmail : null si SMTP_HOST n'est pas défini
+// null when SMTP_HOST is not set
+export function getMailerConfig(): MailerConfig | null {
+  const host = process.env.SMTP_HOST?.trim();
+  if (!host) return null;
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  const port = Number(process.env.SMTP_PORT) || (secure ? 465 : 587);
+
+  return {
+    host,
+    port,
+    secure,
+    user: process.env.SMTP_USER?.trim() || null,
+    password: process.env.SMTP_PASSWORD ?? null,
+    from: process.env.MAIL_FROM?.trim() || 'Competitive Watch <no-reply@localhost>',
+  };
+}
+
+// transportCache / cacheTransport : un transport par configuration
+// One transport per configuration
+let cachedTransport: { key: string; transporter: Transporter } | null = null;
+
+function getTransporter(config: MailerConfig): Transporter {
+  const key = JSON.stringify([config.host, config.port, config.secure, config.user, config.password]);
+  if (cachedTransport?.key === key) return cachedTransport.transporter;
+
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password ?? '' } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+  cachedTransport = { key, transporter };
+  return transporter;
+}
+
+// sendMail / envoyerEmail : lève MailerNotConfiguredError sans SMTP_HOST, ou l'erreur SMTP
+// Throws MailerNotConfiguredError without SMTP_HOST, or the SMTP error
+export async function sendMail(message: MailMessage): Promise<void> {
+  const config = getMailerConfig();
+  if (!config) {
+    throw new MailerNotConfiguredError();
+  }
+
+  await getTransporter(config).sendMail({
+    from: config.from,
+    to: message.to,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+    headers: message.headers,
+  });
+}
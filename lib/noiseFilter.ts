@@ -0,0 +1,296 @@
+// noiseFilter / filtreBruit : motifs ignorés lors de la comparaison de texte
+// Ignore patterns normalized out of extractedText before comparison only;
+// the stored snapshot text is never modified
+
+import { prisma } from '@/lib/db';
+import { computeTextDiff, hasMeaningfulDiff } from '@/lib/textDiff';
+
+// BuiltinNoiseKey / cleBruitIntegre : bibliothèque de motifs prêts à l'emploi
+// Built-in pattern library keys
+export type BuiltinNoiseKey = 'dates' | 'times' | 'uuids' | 'hexHashes' | 'viewerCounters';
+
+// NoiseRules / reglesBruit : règles projet ou page (fusionnées au moment du scrape)
+// Project or page rules (merged at scrape time)
+export type NoiseRules = {
+  ignorePatterns: string[];  // customRegexes / regexPersonnalisees
+  ignoreBuiltins: string[];  // builtinKeys / clesIntegrees
+};
+
+// noisePlaceholder / marqueurBruit : remplace chaque occurrence pour garder l'alignement des lignes
+// Replaces each match so lines stay aligned in the diff
+export const NOISE_PLACEHOLDER = '[…]';
+
+const MONTHS =
+  'janv(?:ier)?|f[ée]vr(?:ier)?|mars|avr(?:il)?|mai|juin|juil(?:let)?|ao[uû]t|sept(?:embre)?|oct(?:obre)?|nov(?:embre)?|d[ée]c(?:embre)?|' +
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:tember)?|october|november|december';
+
+// noisePatternLibrary / bibliothequeMotifs : libellé bilingue + regex
+// Bilingual label + regex
+export const NOISE_PATTERN_LIBRARY: Record<
+  BuiltinNoiseKey,
+  { label: string; pattern: RegExp }
+> = {
+  dates: {
+    label: 'Dates (2025-11-15, 15/11/2025, 15 novembre 2025…)',
+    pattern: new RegExp(
+      `\\b\\d{4}-\\d{2}-\\d{2}(?:T[\\d:.]+Z?)?\\b|\\b\\d{1,2}[/.]\\d{1,2}[/.]\\d{2,4}\\b|\\b\\d{1,2}(?:er)?\\s+(?:${MONTHS})\\.?\\s+\\d{4}\\b|\\b(?:${MONTHS})\\.?\\s+\\d{1,2},?\\s+\\d{4}\\b`,
+      'gi',
+    ),
+  },
+  times: {
+    label: 'Heures / Times (14:05, 14:05:59, 14h05)',
+    pattern: /\b\d{1,2}(?::\d{2}(?::\d{2})?|h\d{2})(?:[ \t]?(?:am|pm))?\b/gi,
+  },
+  uuids: {
+    label: 'UUID',
+    pattern: /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+  },
+  hexHashes: {
+    label: 'Hashs hexadécimaux / Hex hashes (16+ caractères)',
+    // atLeastOneLetter / auMoinsUneLettre : évite d'avaler de simples longs nombres
+    pattern: /\b(?=[0-9a-f]*[a-f])[0-9a-f]{16,}\b/gi,
+  },
+  viewerCounters: {
+    label: 'Compteurs de visiteurs / Viewer counters ("12 personnes consultent…")',
+    pattern:
+      /\b\d[\d \u00a0.,]*[ \u00a0]+(?:people|visitors|users|personnes|visiteurs|utilisateurs)\b[^.\n]*/gi,
+  },
+};
+
+export const BUILTIN_NOISE_KEYS = Object.keys(NOISE_PATTERN_LIBRARY) as BuiltinNoiseKey[];
+
+// patternLimits / limitesMotifs : garde-fous sur la saisie
+// Input guards
+const MAX_PATTERNS = 30;
+const MAX_PATTERN_LENGTH = 300;
+
+// isBuiltinNoiseKey / estCleIntegree
+export function isBuiltinNoiseKey(value: string): value is BuiltinNoiseKey {
+  return (BUILTIN_NOISE_KEYS as string[]).includes(value);
+}
+
+// hasNestedQuantifier / aQuantificateurImbrique : groupe répété contenant un quantificateur ou une
+// alternative, ex : (\w+\s?)+ ou (a|ab)* — retour arrière catastrophique sur le texte d'une page
+// Repeated group containing a quantifier or an alternation, e.g. (\w+\s?)+ or (a|ab)*:
+// catastrophic backtracking over a page's text would block the scheduler or the server
+export function hasNestedQuantifier(pattern: string): boolean {
+  const groups: { quantified: boolean; alternation: boolean }[] = [];
+  let current = { quantified: false, alternation: false };
+
+  // repeatAt / repetitionEn : *, + ou {n,} / {n,m} (m > 1) à la position i ; ? ne répète pas
+  // *, + or {n,} / {n,m} (m > 1) at index i; ? does not repeat
+  const repeatAt = (i: number): boolean => {
+    const char = pattern[i];
+    if (char === '*' || char === '+') return true;
+    if (char !== '{') return false;
+    const bounds = pattern.slice(i).match(/^\{(\d+)(,(\d*))?\}/);
+    if (!bounds) return false;
+    if (bounds[2] === undefined) return Number(bounds[1]) > 1;
+    return bounds[3] === '' || Number(bounds[3]) > 1;
+  };
+
+  for (let i = 0; i < pattern.length; i += 1) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      i += 1;
+    } else if (char === '[') {
+      // characterClass / classeCaracteres : jusqu'au ] non échappé
+      // Up to the unescaped ]
+      for (i += 1; i < pattern.length && pattern[i] !== ']'; i += 1) {
+        if (pattern[i] === '\\') i += 1;
+      }
+    } else if (char === '(') {
+      groups.push(current);
+      current = { quantified: false, alternation: false };
+      // groupPrefix / prefixeGroupe : (?: (?= (?! (?<= (?<! (?<nom>
+      if (pattern[i + 1] === '?') i += pattern[i + 2] === '<' ? 2 : 1;
+    } else if (char === ')') {
+      const inner = current;
+      current = groups.pop() ?? { quantified: false, alternation: false };
+      const repeated = repeatAt(i + 1);
+      if (repeated && (inner.quantified || inner.alternation)) return true;
+      current.quantified ||= inner.quantified || repeated;
+    } else if (char === '|') {
+      current.alternation = true;
+    } else if (repeatAt(i)) {
+      current.quantified = true;
+    }
+  }
+
+  return false;
+}
+
+// parsePatternList / parserListeMotifs : tableau de chaînes ou texte multi-lignes
+// Accepts a string array or a newline-separated string; null when the shape is invalid
+export function parsePatternList(raw: unknown): string[] | null {
+  if (raw === undefined || raw === null) return [];
+
+  let values: unknown[];
+  if (typeof raw === 'string') {
+    values = raw.split(/\r?\n/);
+  } else if (Array.isArray(raw)) {
+    values = raw;
+  } else {
+    return null;
+  }
+
+  const patterns: string[] = [];
+  for (const value of values) {
+    if (typeof value !== 'string') return null;
+    const trimmed = value.trim();
+    if (trimmed && !patterns.includes(trimmed)) patterns.push(trimmed);
+  }
+
+  return patterns;
+}
+
+// validateNoiseRules / validerReglesBruit : message bilingue si une règle est invalide
+// Returns a bilingual error message when a rule is invalid, null otherwise
+export function validateNoiseRules(rules: NoiseRules): string | null {
+  if (rules.ignorePatterns.length > MAX_PATTERNS) {
+    return `${MAX_PATTERNS} motifs maximum. / At most ${MAX_PATTERNS} patterns.`;
+  }
+
+  for (const pattern of rules.ignorePatterns) {
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      return `Motif trop long : "${pattern.slice(0, 40)}…". / Pattern too long.`;
+    }
+    try {
+      new RegExp(pattern, 'gi');
+    } catch {
+      return `Expression régulière invalide : "${pattern}". / Invalid regular expression: "${pattern}".`;
+    }
+    if (hasNestedQuantifier(pattern)) {
+      return `Motif trop coûteux (groupe répété contenant un quantificateur ou une alternative) : "${pattern}". / Pattern too expensive (repeated group containing a quantifier or an alternation): "${pattern}".`;
+    }
+  }
+
+  const unknown = rules.ignoreBuiltins.find((key) => !isBuiltinNoiseKey(key));
+  if (unknown) {
+    return `Motif intégré inconnu : "${unknown}". Valeurs possibles : ${BUILTIN_NOISE_KEYS.join(', ')}. / Unknown built-in pattern.`;
+  }
+
+  return null;
+}
+
+// parseNoiseRules / parserReglesBruit : lecture + validation d'un corps de requête
+// Reads and validates a request body; returns the bilingual error message when invalid
+export function parseNoiseRules(input: {
+  ignorePatterns?: unknown;
+  ignoreBuiltins?: unknown;
+}): { rules: NoiseRules; error: null } | { rules: null; error: string } {
+  const ignorePatterns = parsePatternList(input.ignorePatterns);
+  const ignoreBuiltins = parsePatternList(input.ignoreBuiltins);
+
+  if (!ignorePatterns || !ignoreBuiltins) {
+    return {
+      rules: null,
+      error:
+        'Les motifs ignorés doivent être une liste de chaînes. / Ignore patterns must be a list of strings.',
+    };
+  }
+
+  const rules = { ignorePatterns, ignoreBuiltins };
+  const error = validateNoiseRules(rules);
+  return error ? { rules: null, error } : { rules, error: null };
+}
+
+// mergeNoiseRules / fusionnerReglesBruit : projet + page, sans doublons
+// Project + page rules, without duplicates
+export function mergeNoiseRules(...sources: NoiseRules[]): NoiseRules {
+  const ignorePatterns = new Set<string>();
+  const ignoreBuiltins = new Set<string>();
+
+  for (const source of sources) {
+    source.ignorePatterns.forEach((pattern) => ignorePatterns.add(pattern));
+    source.ignoreBuiltins.forEach((key) => ignoreBuiltins.add(key));
+  }
+
+  return {
+    ignorePatterns: [...ignorePatterns],
+    ignoreBuiltins: [...ignoreBuiltins],
+  };
+}
+
+// compileNoiseRules / compilerReglesBruit : motifs intégrés puis personnalisés
+// Built-in then custom patterns; invalid or too expensive stored patterns are skipped
+export function compileNoiseRules(rules: NoiseRules): RegExp[] {
+  const compiled: RegExp[] = [];
+
+  for (const key of rules.ignoreBuiltins) {
+    if (isBuiltinNoiseKey(key)) {
+      compiled.push(NOISE_PATTERN_LIBRARY[key].pattern);
+    }
+  }
+
+  for (const pattern of rules.ignorePatterns) {
+    // legacyPatterns / motifsAnciens : enregistrés avant le contrôle des quantificateurs imbriqués
+    // Saved before the nested quantifier check
+    if (hasNestedQuantifier(pattern)) {
+      console.warn(
+        `[noiseFilter] Motif ignoré (trop coûteux) : ${pattern} / Skipping expensive pattern: ${pattern}`,
+      );
+      continue;
+    }
+    try {
+      compiled.push(new RegExp(pattern, 'gi'));
+    } catch {
+      console.warn(
+        `[noiseFilter] Motif ignoré (invalide) : ${pattern} / Skipping invalid pattern: ${pattern}`,
+      );
+    }
+  }
+
+  return compiled;
+}
+
+// normalizeForComparison / normaliserPourComparaison : texte utilisé par le diff uniquement
+// Text used by the diff only
+export function normalizeForComparison(text: string, patterns: RegExp[]): string {
+  let output = text;
+  for (const pattern of patterns) {
+    output = output.replace(pattern, NOISE_PLACEHOLDER);
+  }
+  return output;
+}
+
+// loadNoiseRulesForPage / chargerReglesBruitPage : règles du projet + de la page
+// Project rules merged with page rules
+export async function loadNoiseRulesForPage(
+  monitoredPageId: number,
+): Promise<NoiseRules> {
+  const page = await prisma.monitoredPage.findUnique({
+    where: { id: monitoredPageId },
+    select: {
+      ignorePatterns: true,
+      ignoreBuiltins: true,
+      competitor: {
+        select: {
+          project: {
+            select: { ignorePatterns: true, ignoreBuiltins: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!page) return { ignorePatterns: [], ignoreBuiltins: [] };
+
+  return mergeNoiseRules(page.competitor.project, page);
+}
+
+// isSuppressedByRules / estSupprimeParRegles : le diff TEXT disparaît-il avec ces règles ?
+// Would the TEXT diff vanish with these rules?
+export function isSuppressedByRules(
+  oldText: string,
+  newText: string,
+  rules: NoiseRules,
+): boolean {
+  const patterns = compileNoiseRules(rules);
+  const diff = computeTextDiff(
+    normalizeForComparison(oldText, patterns),
+    normalizeForComparison(newText, patterns),
+  );
+  return !hasMeaningfulDiff(diff);
+}
@@ -0,0 +1,220 @@
+// notifications / notifications : centre de notifications de l'application (cloche + /notifications)
+// In-app notification center. Créées par lib/scrapePipeline.ts (route de scrape et planificateur)
+// et lib/reportGeneration.ts (route des rapports et rapports planifiés)
+// Created by lib/scrapePipeline.ts (scrape route and scheduler) and lib/reportGeneration.ts
+// (reports route and scheduled reports). Ne lèvent jamais d'erreur / Never throw.
+// État lu / non lu propre à chaque utilisateur (NotificationRead) / Per-user read state
+
+import { prisma } from '@/lib/db';
+import type { Change, Notification, Prisma, Report } from '@prisma/client';
+
+// maxLinkedIds / nbMaxIdsLien : limite du paramètre ids de la page des changements (lib/changeQueries.ts)
+// Limit of the changes page ids parameter (lib/changeQueries.ts)
+const MAX_LINKED_IDS = 50;
+const MAX_BODY_LENGTH = 500;
+
+// NotificationView / vueNotification : forme renvoyée par l'API (dates ISO)
+// Shape returned by the API (ISO dates)
+export type NotificationView = {
+  id: number;
+  projectId: number;
+  projectName: string;
+  type: Notification['type'];
+  title: string;
+  body: string | null;
+  link: string;
+  readAt: string | null;
+  createdAt: string;
+};
+
+// notificationViewInclude / inclusionVueNotification : nom du projet + lecture de l'utilisateur
+// Project name + the user's read row
+export function notificationViewInclude(userId: number) {
+  return {
+    project: { select: { name: true } },
+    reads: { where: { userId }, select: { readAt: true } },
+  } satisfies Prisma.NotificationInclude;
+}
+
+// unreadNotificationWhere / filtreNotificationsNonLues : aucune lecture de cet utilisateur
+// No read row for this user
+export function unreadNotificationWhere(userId: number): Prisma.NotificationWhereInput {
+  return { reads: { none: { userId } } };
+}
+
+// toNotificationView / versVueNotification : readAt = lecture de l'utilisateur (notificationViewInclude)
+// readAt = the user's read (notificationViewInclude)
+export function toNotificationView(
+  notification: Notification & { project: { name: string }; reads: { readAt: Date }[] },
+): NotificationView {
+  return {
+    id: notification.id,
+    projectId: notification.projectId,
+    projectName: notification.project.name,
+    type: notification.type,
+    title: notification.title,
+    body: notification.body,
+    link: notification.link,
+    readAt: notification.reads[0]?.readAt.toISOString() ?? null,
+    createdAt: notification.createdAt.toISOString(),
+  };
+}
+
+// countUnreadNotifications / compterNotificationsNonLues : badge de la cloche (espace courant, utilisateur)
+// Bell badge (current workspace, current user)
+export function countUnreadNotifications(workspaceId: number, userId: number): Promise<number> {
+  return prisma.notification.count({
+    where: { project: { workspaceId }, ...unreadNotificationWhere(userId) },
+  });
+}
+
+// markNotificationsRead / marquerNotificationsLues : lignes de lecture manquantes (déjà lues : inchangées)
+// Missing read rows (already read ones keep their readAt); returns the number newly marked
+export async function markNotificationsRead(
+  userId: number,
+  where: Prisma.NotificationWhereInput,
+): Promise<number> {
+  const unread = await prisma.notification.findMany({
+    where: { ...where, ...unreadNotificationWhere(userId) },
+    select: { id: true },
+  });
+
+  const { count } = await prisma.notificationRead.createMany({
+    data: unread.map((notification) => ({ notificationId: notification.id, userId })),
+    skipDuplicates: true,
+  });
+  return count;
+}
+
+// truncate / tronquer
+function truncate(value: string): string {
+  return value.length > MAX_BODY_LENGTH ? `${value.slice(0, MAX_BODY_LENGTH - 1)}…` : value;
+}
+
+// loadPage / chargerPage : page + concurrent (projet, nom) pour le titre et le lien
+// Page + competitor (project, name) for the title and the link
+function loadPage(pageId: number) {
+  return prisma.monitoredPage.findUnique({
+    where: { id: pageId },
+    select: {
+      id: true,
+      url: true,
+      pageType: true,
+      competitor: { select: { id: true, name: true, projectId: true } },
+    },
+  });
+}
+
+// notifyNewChanges / notifierNouveauxChangements : une notification par scrape avec changements
+// One notification per scrape with changes; links to those changes (or to the competitor when too many)
+export async function notifyNewChanges(pageId: number, changes: Change[]): Promise<void> {
+  if (changes.length === 0) return;
+
+  try {
+    const page = await loadPage(pageId);
+    if (!page) return;
+
+    const projectId = page.competitor.projectId;
+    const link =
+      changes.length <= MAX_LINKED_IDS
+        ? `/projects/${projectId}/changes?ids=${changes.map((change) => change.id).join(',')}`
+        : `/projects/${projectId}/changes?competitorId=${page.competitor.id}`;
+
+    const summaries = changes
+      .map((change) => change.changeSummary ?? change.field ?? change.changeType)
+      .slice(0, 3);
+
+    await prisma.notification.create({
+      data: {
+        projectId,
+        type: 'CHANGES_DETECTED',
+        title: `${changes.length} changement(s) / change(s) – ${page.competitor.name} (${page.pageType})`,
+        body: truncate(
+          [...summaries, ...(changes.length > 3 ? [`… +${changes.length - 3}`] : [])].join('\n'),
+        ),
+        link,
+        monitoredPageId: page.id,
+      },
+    });
+  } catch (error) {
+    console.error('notificationError / erreurNotification', error);
+  }
+}
+
+// notifyScrapeFailed / notifierEchecScraping : échec d'une page (série déjà incrémentée)
+// Failed page scrape (streak already incremented). Tant que personne n'a lu la notification d'échec
+// de la page, elle est mise à jour et remontée au lieu d'en créer une nouvelle à chaque échec
+// While nobody has read the page's failure notification, it is updated and bumped instead of
+// creating a new one on every failed run
+export async function notifyScrapeFailed(
+  pageId: number,
+  consecutiveFailures: number,
+  errorMessage: string | null,
+): Promise<void> {
+  try {
+    const page = await loadPage(pageId);
+    if (!page) return;
+
+    const data = {
+      title: `Échec du scrape / Scrape failed – ${page.competitor.name} (${page.pageType})`,
+      body: truncate(
+        `${consecutiveFailures} échec(s) consécutif(s) sur ${page.url} / ${consecutiveFailures} consecutive failure(s) on ${page.url}${
+          errorMessage ? `\n${errorMessage}` : ''
+        }`,
+      ),
+      link: `/competitors/${page.competitor.id}`,
+    };
+
+    const unread = await prisma.notification.findFirst({
+      where: { type: 'SCRAPE_FAILED', monitoredPageId: page.id, reads: { none: {} } },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    });
+
+    if (unread) {
+      await prisma.notification.update({
+        where: { id: unread.id },
+        data: { ...data, createdAt: new Date() },
+      });
+      return;
+    }
+
+    await prisma.notification.create({
+      data: {
+        ...data,
+        projectId: page.competitor.projectId,
+        type: 'SCRAPE_FAILED',
+        monitoredPageId: page.id,
+      },
+    });
+  } catch (error) {
+    console.error('notificationError / erreurNotification', error);
+  }
+}
+
+// notifyReportReady / notifierRapportPret : rapport généré (manuel ou planifié)
+// Generated report (manual or scheduled); links to the report card of the reports page
+export async function notifyReportReady(report: Report): Promise<void> {
+  try {
+    const start = report.periodStart?.toISOString().slice(0, 10);
+    const end = report.periodEnd?.toISOString().slice(0, 10);
+    const scheduled = report.trigger === 'SCHEDULED';
+
+    await prisma.notification.create({
+      data: {
+        projectId: report.projectId,
+        type: 'REPORT_READY',
+        title: `Rapport prêt${scheduled ? ' (planifié)' : ''}${
+          start && end ? ` du ${start} au ${end}` : ''
+        } / Report ready${scheduled ? ' (scheduled)' : ''}${
+          start && end ? ` from ${start} to ${end}` : ''
+        }`,
+        body: report.aiSummary ? truncate(report.aiSummary) : null,
+        link: `/projects/${report.projectId}/reports#report-${report.id}`,
+        reportId: report.id,
+      },
+    });
+  } catch (error) {
+    console.error('notificationError / erreurNotification', error);
+  }
+}
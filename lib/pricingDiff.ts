@@ -0,0 +1,231 @@
+// pricingDiff / diffTarifs : comparaison produit par produit de deux extractions de prix
+// Item-level comparison of two pricing extractions (by SKU or normalized label)
+
+import { parseExtractedPricing } from '@/lib/pricingExtraction';
+import type { PriceChangeKind } from '@prisma/client';
+
+// ComparablePriceItem / elementPrixComparable : forme commune aux deux extracteurs
+// Common shape for both extractors (structured SKU items and the text heuristic)
+export type ComparablePriceItem = {
+  itemKey: string;          // matchKey / cleRapprochement : "sku:…" ou "label:…"
+  label: string;            // displayLabel / libelleAffiche
+  price: number;            // numericPrice / prixNumerique
+  currency: string | null;  // currency / devise (EUR, USD…)
+};
+
+// PriceItemChange / changementPrixElement : un produit dont le prix a bougé, apparu ou disparu
+// One item whose price moved, or that was newly listed / delisted
+export type PriceItemChange = {
+  kind: PriceChangeKind;
+  itemKey: string;
+  label: string;
+  oldPrice: number | null;
+  newPrice: number | null;
+  priceDelta: number | null;     // newPrice - oldPrice
+  priceDeltaPct: number | null;  // variation en % / percent change (null si ancien prix = 0)
+  currency: string | null;       // devise du nouveau prix (de l'ancien si retiré) / new price currency (old one when delisted)
+  oldCurrency: string | null;    // devise de l'ancien prix / old price currency
+};
+
+// priceEpsilon / epsilonPrix : en dessous, on considère les prix égaux (arrondis flottants)
+// Below this, prices are considered equal (float rounding)
+const PRICE_EPSILON = 0.005;
+
+// roundTo / arrondirA : arrondi pour stocker des deltas lisibles
+// Rounding to store readable deltas
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// normalizeLabel / normaliserLibelle : retire prix, devises, accents et ponctuation
+// Strips prices, currencies, accents and punctuation so "Pro — 49 €/mois" and
+// "Pro — 59 €/mois" share the same key
+export function normalizeLabel(label: string): string {
+  return label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\d+(?:[.,\s]\d+)*/g, ' ')
+    .replace(/€|\$|£|\b(?:eur|euros?|usd|gbp|ht|ttc)\b/g, ' ')
+    .replace(/[^a-z]+/g, ' ')
+    .trim();
+}
+
+// toComparableItems / versElementsComparables : clés de rapprochement des éléments stockés
+// dans Snapshot.extractedPricing (schéma versionné ou anciens tableaux)
+// Matching keys for items stored in Snapshot.extractedPricing (versioned or legacy arrays)
+export function toComparableItems(raw: unknown): ComparablePriceItem[] {
+  const pricing = parseExtractedPricing(raw);
+  if (!pricing) return [];
+
+  const items: ComparablePriceItem[] = [];
+  const occurrences = new Map<string, number>();
+
+  for (const item of pricing.items) {
+    // skuOrLabel / skuOuLibelle : SKU si connu, sinon libellé normalisé sans prix
+    // SKU when known, otherwise the normalized label without prices
+    const baseKey = item.sku
+      ? `sku:${item.sku.trim()}`
+      : `label:${normalizeLabel(item.name) || 'item'}`;
+
+    // duplicateKeys / clesEnDouble : plusieurs lignes "Pro" → "label:pro", "label:pro#2"
+    const seen = (occurrences.get(baseKey) ?? 0) + 1;
+    occurrences.set(baseKey, seen);
+
+    items.push({
+      itemKey: seen > 1 ? `${baseKey}#${seen}` : baseKey,
+      label: item.name.trim() || item.sku || baseKey,
+      price: item.price,
+      currency: item.currency,
+    });
+  }
+
+  return items;
+}
+
+// diffPricing / comparerTarifs : hausses / baisses, nouveaux produits, produits retirés
+// Price moves, newly listed and delisted items, in new-snapshot order
+export function diffPricing(
+  oldRaw: unknown,
+  newRaw: unknown,
+): PriceItemChange[] {
+  // extractorSwitch / changementExtracteur : si la source change (ex : texte → JSON-LD),
+  // les clés ne sont pas comparables ; le nouveau snapshot sert de nouvelle référence
+  // When the source changes (e.g. text → JSON-LD) keys are not comparable;
+  // the new snapshot becomes the new baseline
+  const oldSource = parseExtractedPricing(oldRaw)?.extractor;
+  const newSource = parseExtractedPricing(newRaw)?.extractor;
+  if (oldSource && newSource && oldSource !== newSource) return [];
+
+  const oldItems = toComparableItems(oldRaw);
+  const newItems = toComparableItems(newRaw);
+
+  const oldByKey = new Map(oldItems.map((item) => [item.itemKey, item]));
+  const newKeys = new Set(newItems.map((item) => item.itemKey));
+
+  const changes: PriceItemChange[] = [];
+
+  for (const item of newItems) {
+    const previous = oldByKey.get(item.itemKey);
+
+    if (!previous) {
+      changes.push({
+        kind: 'ITEM_ADDED',
+        itemKey: item.itemKey,
+        label: item.label,
+        oldPrice: null,
+        newPrice: item.price,
+        priceDelta: null,
+        priceDeltaPct: null,
+        currency: item.currency,
+        oldCurrency: null,
+      });
+      continue;
+    }
+
+    const sameCurrency = previous.currency === item.currency;
+    if (sameCurrency && Math.abs(item.price - previous.price) < PRICE_EPSILON) {
+      continue;
+    }
+
+    // currencySwitch / changementDevise : un delta entre devises n'a pas de sens
+    // A delta across currencies is meaningless
+    const priceDelta = sameCurrency ? roundTo(item.price - previous.price, 2) : null;
+    const priceDeltaPct =
+      sameCurrency && previous.price !== 0
+        ? roundTo(((item.price - previous.price) / previous.price) * 100, 2)
+        : null;
+
+    changes.push({
+      kind: 'PRICE_UPDATED',
+      itemKey: item.itemKey,
+      label: item.label,
+      oldPrice: previous.price,
+      newPrice: item.price,
+      priceDelta,
+      priceDeltaPct,
+      currency: item.currency,
+      oldCurrency: previous.currency,
+    });
+  }
+
+  for (const item of oldItems) {
+    if (newKeys.has(item.itemKey)) continue;
+
+    changes.push({
+      kind: 'ITEM_REMOVED',
+      itemKey: item.itemKey,
+      label: item.label,
+      oldPrice: item.price,
+      newPrice: null,
+      priceDelta: null,
+      priceDeltaPct: null,
+      currency: item.currency,
+      oldCurrency: item.currency,
+    });
+  }
+
+  return changes;
+}
+
+// formatPrice / formaterPrix : "49.9 EUR", "—" si absent
+// "49.9 EUR", "—" when missing
+export function formatPrice(
+  amount: number | null | undefined,
+  currency: string | null | undefined,
+): string {
+  if (amount === null || amount === undefined) return '—';
+  return currency ? `${amount} ${currency}` : String(amount);
+}
+
+// formatPriceDelta / formaterDeltaPrix : "+10 EUR (+20.41 %)"
+// Signed delta with optional percentage
+export function formatPriceDelta(
+  priceDelta: number | null | undefined,
+  priceDeltaPct: number | null | undefined,
+  currency: string | null | undefined,
+): string | null {
+  if (priceDelta === null || priceDelta === undefined) return null;
+
+  const sign = priceDelta > 0 ? '+' : '';
+  const base = `${sign}${formatPrice(priceDelta, currency)}`;
+
+  if (priceDeltaPct === null || priceDeltaPct === undefined) return base;
+  return `${base} (${priceDeltaPct > 0 ? '+' : ''}${priceDeltaPct} %)`;
+}
+
+// summarizePriceChange / resumerChangementPrix : résumé bilingue d'un changement d'élément
+// Bilingual summary of one item change
+export function summarizePriceChange(change: PriceItemChange): string {
+  const label = change.label.slice(0, 120);
+
+  if (change.kind === 'ITEM_ADDED') {
+    const price = formatPrice(change.newPrice, change.currency);
+    return `Nouveau produit « ${label} » à ${price}. / Newly listed "${label}" at ${price}.`;
+  }
+
+  if (change.kind === 'ITEM_REMOVED') {
+    const price = formatPrice(change.oldPrice, change.oldCurrency);
+    return `Produit retiré « ${label} » (était à ${price}). / Delisted "${label}" (was ${price}).`;
+  }
+
+  // oldCurrency / deviseAncienne : l'ancien prix garde sa devise ("49 EUR → 55 USD", sans écart)
+  // The old price keeps its own currency ("49 EUR → 55 USD", no delta)
+  const oldPrice = formatPrice(change.oldPrice, change.oldCurrency);
+  const newPrice = formatPrice(change.newPrice, change.currency);
+  const delta = formatPriceDelta(
+    change.priceDelta,
+    change.priceDeltaPct,
+    change.currency,
+  );
+  if (!delta) {
+    return `Prix modifié « ${label} » : ${oldPrice} → ${newPrice}. / Price changed "${label}": ${oldPrice} → ${newPrice}.`;
+  }
+
+  const suffix = ` ${delta}`;
+
+  return (change.priceDelta ?? 0) > 0
+    ? `Hausse de prix « ${label} » : ${oldPrice} → ${newPrice}${suffix}. / Price increase "${label}": ${oldPrice} → ${newPrice}${suffix}.`
+    : `Baisse de prix « ${label} » : ${oldPrice} → ${newPrice}${suffix}. / Price decrease "${label}": ${oldPrice} → ${newPrice}${suffix}.`;
+}
@@ -0,0 +1,408 @@
+// pricingExtraction / extractionTarifs : chaîne unique d'extracteurs de prix
+// Single pricing extraction pipeline: structured extractors first (data attributes,
+// JSON-LD, microdata), text heuristic as a fallback; one canonical versioned schema
+
+// PricingSource / sourceTarifs : extracteur ayant produit les éléments
+// Extractor that produced the items
+export type PricingSource = 'data-attributes' | 'json-ld' | 'microdata' | 'text';
+
+// PricingItem / elementTarifaire : produit ou plan tarifaire, forme canonique
+// Canonical product / pricing plan
+export type PricingItem = {
+  sku: string | null;            // identifiant produit / product identifier (ex: "ST-HEAD-X100")
+  name: string;                  // nom du produit ou ligne / product name or text line
+  price: number;                 // prix en valeur numérique / numeric price (ex: 79.9)
+  currency: string | null;       // devise normalisée / normalized currency (EUR, USD…)
+  availability: string | null;   // disponibilité / availability (ex: "En stock", "InStock")
+  rawLine: string | null;        // ligne brute (heuristique texte) / raw line (text heuristic)
+};
+
+// ExtractedPricing / tarifsExtraits : contenu de Snapshot.extractedPricing
+// Content of Snapshot.extractedPricing
+export type ExtractedPricing = {
+  version: 1;
+  extractor: PricingSource;
+  items: PricingItem[];
+};
+
+// PricingExtractionInput / entreeExtraction : HTML brut + texte nettoyé
+// Raw HTML + cleaned text
+export type PricingExtractionInput = {
+  rawHtml: string;
+  extractedText: string;
+};
+
+// PricingExtractor / extracteurTarifs : point d'extension, un extracteur = une source
+// Extension point: one extractor per source
+export type PricingExtractor = {
+  source: PricingSource;
+  extract: (input: PricingExtractionInput) => PricingItem[];
+};
+
+export const PRICING_SCHEMA_VERSION = 1;
+
+// maxItems / nbMaxElements : limite de sécurité par extracteur
+// Safety limit per extractor
+const MAX_ITEMS = 50;
+
+// detectCurrency / detecterDevise : "€", "EUR", "$", "USD", "£", "GBP"
+// Normalizes a currency symbol or code found in a string
+function detectCurrency(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  if (/€|\beur(?:o|os)?\b/i.test(raw)) return 'EUR';
+  if (/£|\bgbp\b/i.test(raw)) return 'GBP';
+  if (/\$|\busd\b/i.test(raw)) return 'USD';
+  const code = /^\s*([A-Z]{3})\s*$/.exec(raw);
+  return code ? code[1] : null;
+}
+
+// parseAmount / parserMontant : "79,90 €", "1 299,00", "1,299.00" → nombre
+// Parses a price string; the last "," or "." is the decimal separator
+function parseAmount(raw: unknown): number | null {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== 'string') return null;
+
+  let cleaned = raw.replace(/\s/g, '').replace(/[^\d.,]/g, '');
+  if (!cleaned) return null;
+
+  const lastSeparator = Math.max(cleaned.lastIndexOf(','), cleaned.lastIndexOf('.'));
+  if (lastSeparator >= 0) {
+    const decimals = cleaned.slice(lastSeparator + 1);
+    const integer = cleaned.slice(0, lastSeparator).replace(/[.,]/g, '');
+    // thousandsOnly / milliersSeuls : "1.299" ou "1,299" sans décimales
+    cleaned = decimals.length === 3 && integer.length > 0 && integer !== '0'
+      ? `${integer}${decimals}`
+      : `${integer}.${decimals}`;
+  }
+
+  const value = Number(cleaned);
+  return Number.isFinite(value) ? value : null;
+}
+
+// stripTags / retirerBalises : texte d'un fragment HTML
+// Text of an HTML fragment
+function stripTags(fragment: string): string {
+  return fragment
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// lastPathSegment / dernierSegment : "https://schema.org/InStock" → "InStock"
+function lastPathSegment(value: string): string {
+  const parts = value.split('/');
+  return parts[parts.length - 1] || value;
+}
+
+// --- data attributes / attributs data ---
+
+// extractFromDataAttributes / extraireDepuisAttributsData : blocs <article data-sku="…">
+// Targets <article ... data-sku="..."> blocks with product-name / product-price classes
+function extractFromDataAttributes({ rawHtml }: PricingExtractionInput): PricingItem[] {
+  const items: PricingItem[] = [];
+
+  const articleRegex =
+    /<article\b[^>]*data-sku="([^"]+)"[^>]*>([\s\S]*?)<\/article>/gi;
+
+  let articleMatch: RegExpExecArray | null;
+
+  while ((articleMatch = articleRegex.exec(rawHtml)) !== null) {
+    if (items.length >= MAX_ITEMS) break;
+
+    const sku = articleMatch[1];
+    const articleHtml = articleMatch[2];
+
+    // productName / nomProduit
+    const nameMatch =
+      /class="[^"]*product-name[^"]*"[^>]*>([^<]+)<\/h[1-6]>/i.exec(articleHtml);
+
+    // productPrice / prixProduit : priorité à data-price, sinon texte
+    const priceDataMatch =
+      /class="[^"]*product-price[^"]*"[^>]*data-price="([^"]+)"/i.exec(articleHtml);
+    const priceTextMatch =
+      /class="[^"]*product-price[^"]*"[^>]*>([^<]+)<\/p>/i.exec(articleHtml);
+
+    // productAvailability / disponibiliteProduit
+    const availabilityMatch =
+      /class="[^"]*product-availability[^"]*"[^>]*>([^<]+)<\/p>/i.exec(articleHtml);
+
+    if (!nameMatch || (!priceDataMatch && !priceTextMatch)) {
+      // si on n'a ni nom ni prix, on ignore ce bloc
+      // if we don't have name and price, skip this block
+      continue;
+    }
+
+    const price = parseAmount(priceDataMatch?.[1] ?? priceTextMatch?.[1] ?? '');
+    if (price === null) continue;
+
+    items.push({
+      sku,
+      name: nameMatch[1].trim(),
+      price,
+      // displayedCurrency / deviseAffichee : EUR par défaut (comportement historique)
+      // EUR by default (historical behaviour)
+      currency: detectCurrency(priceTextMatch?.[1]) ?? 'EUR',
+      availability: availabilityMatch ? availabilityMatch[1].trim() : null,
+      rawLine: null,
+    });
+  }
+
+  return items;
+}
+
+// --- JSON-LD ---
+
+// readOffer / lireOffre : Offer ou AggregateOffer (premier élément si tableau)
+// Offer or AggregateOffer (first element when an array)
+function readOffer(offers: unknown): Record<string, unknown> | null {
+  const offer = Array.isArray(offers) ? offers[0] : offers;
+  return offer && typeof offer === 'object' ? (offer as Record<string, unknown>) : null;
+}
+
+// collectJsonLdProducts / collecterProduitsJsonLd : parcours récursif (@graph, tableaux…)
+// Recursive walk: any node with a name and offers is a product or plan
+function collectJsonLdProducts(node: unknown, items: PricingItem[]): void {
+  if (items.length >= MAX_ITEMS || !node || typeof node !== 'object') return;
+
+  if (Array.isArray(node)) {
+    for (const child of node) collectJsonLdProducts(child, items);
+    return;
+  }
+
+  const record = node as Record<string, unknown>;
+  const offer = readOffer(record.offers);
+
+  if (offer && typeof record.name === 'string') {
+    const price = parseAmount(offer.price ?? offer.lowPrice);
+
+    if (price !== null) {
+      const sku = record.sku ?? record.productID ?? record.gtin13 ?? offer.sku;
+      items.push({
+        sku: typeof sku === 'string' || typeof sku === 'number' ? String(sku) : null,
+        name: record.name.trim(),
+        price,
+        currency:
+          typeof offer.priceCurrency === 'string'
+            ? offer.priceCurrency.toUpperCase()
+            : null,
+        availability:
+          typeof offer.availability === 'string'
+            ? lastPathSegment(offer.availability)
+            : null,
+        rawLine: null,
+      });
+      return;
+    }
+  }
+
+  for (const value of Object.values(record)) {
+    if (value && typeof value === 'object') collectJsonLdProducts(value, items);
+  }
+}
+
+// extractFromJsonLd / extraireDepuisJsonLd : <script type="application/ld+json">
+function extractFromJsonLd({ rawHtml }: PricingExtractionInput): PricingItem[] {
+  const items: PricingItem[] = [];
+  const scriptRegex =
+    /<script\b[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+  let match: RegExpExecArray | null;
+
+  while ((match = scriptRegex.exec(rawHtml)) !== null) {
+    try {
+      collectJsonLdProducts(JSON.parse(match[1]), items);
+    } catch {
+      // invalidJsonLd / jsonLdInvalide : bloc ignoré, fréquent sur des sites réels
+      // Invalid block skipped, common on real-world sites
+    }
+  }
+
+  return items.slice(0, MAX_ITEMS);
+}
+
+// --- microdata / microdonnées ---
+
+// readItemprop / lireItemprop : attribut content / href, sinon texte de l'élément
+// content / href attribute, otherwise the element text
+function readItemprop(chunk: string, prop: string): string | null {
+  const attrRegex = new RegExp(
+    `<([a-z0-9]+)\\b[^>]*itemprop=["']${prop}["'][^>]*>`,
+    'i',
+  );
+  const tagMatch = attrRegex.exec(chunk);
+  if (!tagMatch) return null;
+
+  const attrs = tagMatch[0];
+  const valueAttr = /\b(?:content|href)=["']([^"']*)["']/i.exec(attrs);
+  if (valueAttr) return valueAttr[1].trim();
+
+  const closeIndex = chunk.indexOf(`</${tagMatch[1]}`, tagMatch.index);
+  if (closeIndex < 0) return null;
+
+  const text = stripTags(chunk.slice(tagMatch.index + attrs.length, closeIndex));
+  return text || null;
+}
+
+// extractFromMicrodata / extraireDepuisMicrodonnees : itemtype schema.org/Product
+// One chunk per Product itemscope, up to the next one
+function extractFromMicrodata({ rawHtml }: PricingExtractionInput): PricingItem[] {
+  const items: PricingItem[] = [];
+  const productRegex = /itemtype=["']https?:\/\/schema\.org\/Product["']/gi;
+
+  const starts: number[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = productRegex.exec(rawHtml)) !== null) {
+    starts.push(match.index);
+  }
+
+  for (let index = 0; index < starts.length && items.length < MAX_ITEMS; index += 1) {
+    const chunk = rawHtml.slice(starts[index], starts[index + 1] ?? rawHtml.length);
+
+    const name = readItemprop(chunk, 'name');
+    const price = parseAmount(readItemprop(chunk, 'price') ?? readItemprop(chunk, 'lowPrice'));
+    if (!name || price === null) continue;
+
+    const availability = readItemprop(chunk, 'availability');
+
+    items.push({
+      sku: readItemprop(chunk, 'sku') ?? readItemprop(chunk, 'productID'),
+      name,
+      price,
+      currency: detectCurrency(readItemprop(chunk, 'priceCurrency')),
+      availability: availability ? lastPathSegment(availability) : null,
+      rawLine: null,
+    });
+  }
+
+  return items;
+}
+
+// --- text heuristic / heuristique texte ---
+
+// extractFromText / extraireDepuisTexte :
+// Heuristique simple pour détecter des lignes contenant des prix dans le texte extrait.
+// Simple heuristic to detect lines containing prices in the extracted text.
+function extractFromText({ extractedText }: PricingExtractionInput): PricingItem[] {
+  if (!extractedText) return [];
+
+  const lines = extractedText
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  const items: PricingItem[] = [];
+
+  // priceRegex / regexPrix : cherche "49 €", "49€", "49 EUR", "$49", "49$"…, avec séparateurs de
+  // milliers ("1 299,00 €", "1.299,00 €", "$1,299.00") ; le montant est lu par parseAmount
+  // Looks for "49 €", "49€", "49 EUR", "$49", "49$", etc., with thousands separators
+  // ("1 299,00 €", "1.299,00 €", "$1,299.00"); the amount is read by parseAmount
+  const amount = String.raw`\d{1,3}(?:[\s.,]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?`;
+  const priceRegex = new RegExp(
+    String.raw`(?:(${amount})\s*(€|eur|euro|\$|usd)|(\$)\s*(${amount}))`,
+    'i',
+  );
+
+  for (const line of lines) {
+    if (items.length >= MAX_ITEMS) break;
+
+    const match = line.match(priceRegex);
+    if (!match) continue;
+
+    const amountStr = match[1] && match[2] ? match[1] : match[4];
+    const currency = detectCurrency(match[2] ?? match[3]);
+
+    if (!amountStr) continue;
+
+    const price = parseAmount(amountStr);
+    if (price === null) continue;
+
+    items.push({
+      sku: null,
+      name: line.slice(0, 120),
+      price,
+      currency,
+      availability: null,
+      rawLine: line,
+    });
+  }
+
+  return items;
+}
+
+// pricingExtractors / extracteursTarifs : ordre = priorité, le texte reste le dernier recours
+// Order = priority; the text heuristic is the last resort
+export const PRICING_EXTRACTORS: PricingExtractor[] = [
+  { source: 'data-attributes', extract: extractFromDataAttributes },
+  { source: 'json-ld', extract: extractFromJsonLd },
+  { source: 'microdata', extract: extractFromMicrodata },
+  { source: 'text', extract: extractFromText },
+];
+
+// extractPricing / extraireTarifs : premier extracteur qui trouve des éléments, null sinon
+// First extractor returning items wins; null when nothing was found
+export function extractPricing(
+  input: PricingExtractionInput,
+  extractors: PricingExtractor[] = PRICING_EXTRACTORS,
+): ExtractedPricing | null {
+  for (const extractor of extractors) {
+    const items = extractor.extract(input);
+    if (items.length > 0) {
+      return { version: PRICING_SCHEMA_VERSION, extractor: extractor.source, items };
+    }
+  }
+  return null;
+}
+
+// parseExtractedPricing / lireTarifsExtraits : lit Snapshot.extractedPricing, y compris
+// les anciens tableaux ({ sku, name, price } et { label, amount, rawLine })
+// Reads Snapshot.extractedPricing, including legacy array shapes
+export function parseExtractedPricing(raw: unknown): ExtractedPricing | null {
+  if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+    const record = raw as Record<string, unknown>;
+    if (record.version === PRICING_SCHEMA_VERSION && Array.isArray(record.items)) {
+      return raw as ExtractedPricing;
+    }
+    return null;
+  }
+
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+
+  const items: PricingItem[] = [];
+  let extractor: PricingSource = 'text';
+
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue;
+    const record = entry as Record<string, unknown>;
+
+    if (typeof record.sku === 'string' && typeof record.price === 'number') {
+      // legacySku / ancienSku : forme historique de lib/scraping.ts
+      extractor = 'data-attributes';
+      items.push({
+        sku: record.sku,
+        name: typeof record.name === 'string' ? record.name : record.sku,
+        price: record.price,
+        currency: typeof record.currency === 'string' ? record.currency : null,
+        availability:
+          typeof record.availability === 'string' ? record.availability : null,
+        rawLine: null,
+      });
+    } else if (typeof record.amount === 'number') {
+      // legacyText / ancienTexte : heuristique de l'ancienne route de scraping
+      const rawLine = typeof record.rawLine === 'string' ? record.rawLine : null;
+      items.push({
+        sku: null,
+        name: typeof record.label === 'string' ? record.label : (rawLine ?? ''),
+        price: record.amount,
+        currency: typeof record.currency === 'string' ? record.currency : null,
+        availability: null,
+        rawLine,
+      });
+    }
+  }
+
+  return items.length > 0
+    ? { version: PRICING_SCHEMA_VERSION, extractor, items }
+    : null;
+}
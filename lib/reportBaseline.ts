@@ -0,0 +1,429 @@
+// reportBaseline / baseRapport : rapport déterministe (sans IA) calculé à partir des changements
+// Deterministic, rule-based report built from the period's changes; stored in Report.baseline
+// and used as-is offline / in CI, or as ground truth that the AI summary enriches
+
+import { formatPrice, formatPriceDelta } from '@/lib/pricingDiff';
+import type { ReportHighlight } from '@/lib/reportHighlights';
+
+// BaselineChangeInput / entreeChangementBase : champs lus sur chaque Change
+// Fields read from each Change
+export type BaselineChangeInput = {
+  id: number;
+  changeType: string;
+  field: string | null;
+  changeSummary: string | null;
+  priceChangeKind: string | null;
+  oldPrice: number | null;
+  newPrice: number | null;
+  priceDelta: number | null;
+  priceDeltaPct: number | null;
+  currency: string | null;
+  oldCurrency: string | null;
+  triageStatus: string;
+  createdAt: Date;
+  monitoredPage: {
+    url: string;
+    pageType: string;
+    competitor: {
+      name: string;
+    };
+  };
+};
+
+// BaselineFailedRunInput / entreeEchecBase : ScrapeRun FAILED de la période
+// FAILED scrape runs of the period
+export type BaselineFailedRunInput = {
+  startedAt: Date;
+  httpStatus: number | null;
+  errorMessage: string | null;
+  monitoredPage: {
+    id: number;
+    url: string;
+    health: string;
+    competitor: {
+      name: string;
+    };
+  };
+};
+
+// BaselinePriceMove / mouvementPrixBase : un changement PRICE (produit ou ancien format)
+// One PRICE change (item-level, or legacy whole-page)
+export type BaselinePriceMove = {
+  changeId: number;
+  competitor: string;
+  url: string;
+  item: string;
+  kind: string | null; // PRICE_UPDATED | ITEM_ADDED | ITEM_REMOVED, null = ancien format / legacy
+  oldPrice: number | null;
+  newPrice: number | null;
+  priceDelta: number | null;
+  priceDeltaPct: number | null;
+  currency: string | null;
+  oldCurrency: string | null;
+};
+
+// BaselineSectionChange / changementSectionBase : section ajoutée ou supprimée
+// Added or removed section
+export type BaselineSectionChange = {
+  changeId: number;
+  competitor: string;
+  url: string;
+  changeType: string; // SECTION_ADDED | SECTION_REMOVED
+  section: string;
+};
+
+// BaselineFailedPage / pageEchecBase : page en échec de scraping sur la période
+// Page that failed to scrape during the period
+export type BaselineFailedPage = {
+  pageId: number;
+  competitor: string;
+  url: string;
+  failures: number;
+  lastFailedAt: string; // ISO
+  lastError: string | null;
+  health: string;
+};
+
+// ReportBaseline / baseRapport : forme stockée dans Report.baseline (JSON)
+// Shape stored in Report.baseline (JSON)
+export type ReportBaseline = {
+  summary: string;
+  totalChanges: number;
+  importantChanges: number;
+  byCompetitor: { competitor: string; count: number }[];
+  byChangeType: Record<string, number>;
+  byPageType: Record<string, number>;
+  priceMoves: BaselinePriceMove[];
+  sectionChanges: BaselineSectionChange[];
+  failedPages: BaselineFailedPage[];
+};
+
+// maxBaselineItems / nbMaxElementsBase : borne des listes stockées (les compteurs restent exacts)
+// Cap of stored lists (counters stay exact)
+export const MAX_BASELINE_ITEMS = 100;
+
+// maxBaselineHighlights / nbMaxFaitsMarquantsBase
+const MAX_BASELINE_HIGHLIGHTS = 10;
+
+// changeTypeLabels / libellesTypesChangement : libellés du résumé
+// Summary labels
+export const BASELINE_CHANGE_TYPE_LABELS: Record<string, string> = {
+  TEXT: 'texte',
+  PRICE: 'prix',
+  SECTION_ADDED: 'sections ajoutées',
+  SECTION_REMOVED: 'sections supprimées',
+  OTHER: 'autres',
+};
+
+// increment / incrementer
+function increment(counts: Record<string, number>, key: string) {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+// buildReportBaseline / construireBaseRapport : statistiques, mouvements de prix, sections, pages en échec
+// Statistics, price moves, section changes and failing pages
+export function buildReportBaseline(
+  changes: BaselineChangeInput[],
+  failedRuns: BaselineFailedRunInput[],
+): ReportBaseline {
+  const competitorCounts: Record<string, number> = {};
+  const byChangeType: Record<string, number> = {};
+  const byPageType: Record<string, number> = {};
+  const priceMoves: BaselinePriceMove[] = [];
+  const sectionChanges: BaselineSectionChange[] = [];
+  let importantChanges = 0;
+
+  for (const change of changes) {
+    const competitor = change.monitoredPage.competitor.name;
+
+    increment(competitorCounts, competitor);
+    increment(byChangeType, change.changeType);
+    increment(byPageType, change.monitoredPage.pageType);
+    if (change.triageStatus === 'IMPORTANT') importantChanges += 1;
+
+    if (change.changeType === 'PRICE') {
+      priceMoves.push({
+        changeId: change.id,
+        competitor,
+        url: change.monitoredPage.url,
+        item: change.field ?? change.changeSummary ?? 'pricing',
+        kind: change.priceChangeKind,
+        oldPrice: change.oldPrice,
+        newPrice: change.newPrice,
+        priceDelta: change.priceDelta,
+        priceDeltaPct: change.priceDeltaPct,
+        currency: change.currency,
+        oldCurrency: change.oldCurrency,
+      });
+    } else if (
+      change.changeType === 'SECTION_ADDED' ||
+      change.changeType === 'SECTION_REMOVED'
+    ) {
+      sectionChanges.push({
+        changeId: change.id,
+        competitor,
+        url: change.monitoredPage.url,
+        changeType: change.changeType,
+        section: change.field ?? change.changeSummary ?? '',
+      });
+    }
+  }
+
+  // failedPages / pagesEnEchec : une entrée par page, dernier échec en premier
+  // One entry per page, most recent failure first
+  const failedByPage = new Map<number, BaselineFailedPage>();
+  for (const run of failedRuns) {
+    const page = run.monitoredPage;
+    const existing = failedByPage.get(page.id);
+    const error =
+      run.errorMessage ?? (run.httpStatus ? `HTTP ${run.httpStatus}` : null);
+
+    if (!existing) {
+      failedByPage.set(page.id, {
+        pageId: page.id,
+        competitor: page.competitor.name,
+        url: page.url,
+        failures: 1,
+        lastFailedAt: run.startedAt.toISOString(),
+        lastError: error,
+        health: page.health,
+      });
+      continue;
+    }
+
+    existing.failures += 1;
+    if (run.startedAt.toISOString() > existing.lastFailedAt) {
+      existing.lastFailedAt = run.startedAt.toISOString();
+      existing.lastError = error;
+    }
+  }
+
+  const baseline: Omit<ReportBaseline, 'summary'> = {
+    totalChanges: changes.length,
+    importantChanges,
+    byCompetitor: Object.entries(competitorCounts)
+      .map(([competitor, count]) => ({ competitor, count }))
+      .sort((a, b) => b.count - a.count || a.competitor.localeCompare(b.competitor)),
+    byChangeType,
+    byPageType,
+    // biggestMovesFirst / plusGrosMouvementsDabord : |écart %| décroissant, ajouts / retraits ensuite
+    // Largest |delta %| first, then added / removed items
+    priceMoves: priceMoves
+      .sort(
+        (a, b) =>
+          Math.abs(b.priceDeltaPct ?? 0) - Math.abs(a.priceDeltaPct ?? 0) ||
+          a.changeId - b.changeId,
+      )
+      .slice(0, MAX_BASELINE_ITEMS),
+    sectionChanges: sectionChanges.slice(0, MAX_BASELINE_ITEMS),
+    failedPages: [...failedByPage.values()]
+      .sort((a, b) => b.failures - a.failures || b.lastFailedAt.localeCompare(a.lastFailedAt))
+      .slice(0, MAX_BASELINE_ITEMS),
+  };
+
+  return { summary: summarizeBaseline(baseline), ...baseline };
+}
+
+// formatCounts / formaterCompteurs : "4 prix, 2 texte"
+function formatCounts(counts: Record<string, number>, labels: Record<string, string>): string {
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([key, count]) => `${count} ${labels[key] ?? key.toLowerCase()}`)
+    .join(', ');
+}
+
+// summarizeBaseline / resumerBase : résumé texte déterministe (français)
+// Deterministic text summary (French, like the AI summary)
+function summarizeBaseline(baseline: Omit<ReportBaseline, 'summary'>): string {
+  if (baseline.totalChanges === 0 && baseline.failedPages.length === 0) {
+    return 'Aucun changement détecté sur les pages surveillées pendant cette période.';
+  }
+
+  const sentences: string[] = [];
+
+  const competitors = baseline.byCompetitor
+    .map((entry) => `${entry.competitor} : ${entry.count}`)
+    .join(', ');
+  sentences.push(
+    baseline.totalChanges === 0
+      ? 'Aucun changement détecté sur la période.'
+      : `${baseline.totalChanges} changement${baseline.totalChanges > 1 ? 's' : ''} détecté${baseline.totalChanges > 1 ? 's' : ''} chez ${baseline.byCompetitor.length} concurrent${baseline.byCompetitor.length > 1 ? 's' : ''} (${competitors}).`,
+  );
+
+  if (baseline.totalChanges > 0) {
+    sentences.push(
+      `Par type : ${formatCounts(baseline.byChangeType, BASELINE_CHANGE_TYPE_LABELS)}.`,
+    );
+  }
+
+  if (baseline.importantChanges > 0) {
+    sentences.push(
+      `${baseline.importantChanges} changement${baseline.importantChanges > 1 ? 's' : ''} signalé${baseline.importantChanges > 1 ? 's' : ''} comme important${baseline.importantChanges > 1 ? 's' : ''} par les analystes.`,
+    );
+  }
+
+  const increases = baseline.priceMoves.filter(
+    (move) => move.kind === 'PRICE_UPDATED' && (move.priceDelta ?? 0) > 0,
+  ).length;
+  const decreases = baseline.priceMoves.filter(
+    (move) => move.kind === 'PRICE_UPDATED' && (move.priceDelta ?? 0) < 0,
+  ).length;
+  const added = baseline.priceMoves.filter((move) => move.kind === 'ITEM_ADDED').length;
+  const removed = baseline.priceMoves.filter((move) => move.kind === 'ITEM_REMOVED').length;
+  const priceParts = [
+    increases > 0 ? `${increases} hausse${increases > 1 ? 's' : ''}` : null,
+    decreases > 0 ? `${decreases} baisse${decreases > 1 ? 's' : ''}` : null,
+    added > 0 ? `${added} nouveau${added > 1 ? 'x' : ''} produit${added > 1 ? 's' : ''}` : null,
+    removed > 0 ? `${removed} produit${removed > 1 ? 's' : ''} retiré${removed > 1 ? 's' : ''}` : null,
+  ].filter((part): part is string => part !== null);
+  if (priceParts.length > 0) {
+    sentences.push(`Prix : ${priceParts.join(', ')}.`);
+  }
+
+  if (baseline.failedPages.length > 0) {
+    sentences.push(
+      `${baseline.failedPages.length} page${baseline.failedPages.length > 1 ? 's' : ''} en échec de scraping sur la période.`,
+    );
+  }
+
+  return sentences.join(' ');
+}
+
+// priceImpact / impactPrix : |écart| >= 10 % => HIGH, >= 3 % => MEDIUM
+// |delta| >= 10 % => HIGH, >= 3 % => MEDIUM
+function priceImpact(move: BaselinePriceMove): string {
+  if (move.kind !== 'PRICE_UPDATED') return 'MEDIUM';
+  const pct = Math.abs(move.priceDeltaPct ?? 0);
+  if (pct >= 10) return 'HIGH';
+  if (pct >= 3) return 'MEDIUM';
+  return 'LOW';
+}
+
+// baselineHighlights / faitsMarquantsBase : faits marquants déterministes (même forme que l'IA)
+// Deterministic highlights, same shape as the AI ones
+export function baselineHighlights(baseline: ReportBaseline): ReportHighlight[] {
+  const highlights: ReportHighlight[] = [];
+
+  for (const page of baseline.failedPages) {
+    highlights.push({
+      title: `Page en échec : ${page.url}`,
+      detail: `${page.failures} échec${page.failures > 1 ? 's' : ''} de scraping sur la période${page.lastError ? ` (dernière erreur : ${page.lastError.slice(0, 160)})` : ''}.`,
+      competitor: page.competitor,
+      changeType: 'OTHER',
+      impact: page.health === 'FAILING' ? 'HIGH' : 'MEDIUM',
+      sourceChangeIds: [],
+    });
+  }
+
+  for (const move of baseline.priceMoves) {
+    const title =
+      move.kind === 'ITEM_ADDED'
+        ? `Nouveau produit / plan : ${move.item}`
+        : move.kind === 'ITEM_REMOVED'
+          ? `Suppression d’un plan : ${move.item}`
+          : move.kind === 'PRICE_UPDATED'
+            ? `${(move.priceDelta ?? 0) > 0 ? 'Hausse' : 'Baisse'} de prix : ${move.item}`
+            : 'Changement de tarifs';
+    const detail =
+      move.kind === 'ITEM_ADDED'
+        ? `Proposé à ${formatPrice(move.newPrice, move.currency)}.`
+        : move.kind === 'ITEM_REMOVED'
+          ? `Était à ${formatPrice(move.oldPrice, move.oldCurrency ?? move.currency)}.`
+          : move.kind === 'PRICE_UPDATED'
+            ? `${describePriceMove(move)}.`
+            : `Les tarifs de ${move.url} ont changé.`;
+
+    highlights.push({
+      title,
+      detail,
+      competitor: move.competitor,
+      changeType: 'PRICE',
+      impact: priceImpact(move),
+      sourceChangeIds: [move.changeId],
+    });
+  }
+
+  // sectionsByCompetitor / sectionsParConcurrent : un fait marquant par concurrent et par sens
+  // One highlight per competitor and direction
+  const sectionGroups = new Map<string, BaselineSectionChange[]>();
+  for (const section of baseline.sectionChanges) {
+    const key = `${section.competitor}\u0000${section.changeType}`;
+    sectionGroups.set(key, [...(sectionGroups.get(key) ?? []), section]);
+  }
+  for (const group of sectionGroups.values()) {
+    const { competitor, changeType } = group[0];
+    const titles = group
+      .map((section) => section.section)
+      .filter(Boolean)
+      .slice(0, 5)
+      .map((title) => `« ${title} »`)
+      .join(', ');
+    highlights.push({
+      title:
+        changeType === 'SECTION_ADDED'
+          ? `${group.length} section${group.length > 1 ? 's' : ''} ajoutée${group.length > 1 ? 's' : ''}`
+          : `${group.length} section${group.length > 1 ? 's' : ''} supprimée${group.length > 1 ? 's' : ''}`,
+      detail: titles,
+      competitor,
+      changeType,
+      impact: 'LOW',
+      sourceChangeIds: group.map((section) => section.changeId),
+    });
+  }
+
+  const impactRank: Record<string, number> = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+  return highlights
+    .map((highlight, index) => ({ highlight, index }))
+    .sort(
+      (a, b) =>
+        impactRank[a.highlight.impact] - impactRank[b.highlight.impact] ||
+        a.index - b.index,
+    )
+    .slice(0, MAX_BASELINE_HIGHLIGHTS)
+    .map(({ highlight }) => highlight);
+}
+
+// parseReportBaseline / parserBaseRapport : sécurise le JSON stocké (null pour les anciens rapports)
+// Safely reads the stored JSON (null for reports created before the baseline)
+export function parseReportBaseline(raw: unknown): ReportBaseline | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const value = raw as Partial<ReportBaseline>;
+  if (typeof value.summary !== 'string' || typeof value.totalChanges !== 'number') {
+    return null;
+  }
+
+  const record = (input: unknown): Record<string, number> =>
+    input && typeof input === 'object' && !Array.isArray(input)
+      ? (input as Record<string, number>)
+      : {};
+
+  return {
+    summary: value.summary,
+    totalChanges: value.totalChanges,
+    importantChanges:
+      typeof value.importantChanges === 'number' ? value.importantChanges : 0,
+    byCompetitor: Array.isArray(value.byCompetitor) ? value.byCompetitor : [],
+    byChangeType: record(value.byChangeType),
+    byPageType: record(value.byPageType),
+    priceMoves: Array.isArray(value.priceMoves) ? value.priceMoves : [],
+    sectionChanges: Array.isArray(value.sectionChanges) ? value.sectionChanges : [],
+    failedPages: Array.isArray(value.failedPages) ? value.failedPages : [],
+  };
+}
+
+// describePriceMove / decrireMouvementPrix : ligne courte pour les exports
+// Short line for exports
+export function describePriceMove(move: BaselinePriceMove): string {
+  if (move.kind === 'ITEM_ADDED') {
+    return `Nouveau : ${formatPrice(move.newPrice, move.currency)}`;
+  }
+  if (move.kind === 'ITEM_REMOVED') {
+    return `Retiré (était ${formatPrice(move.oldPrice, move.oldCurrency ?? move.currency)})`;
+  }
+  if (move.kind === 'PRICE_UPDATED') {
+    const delta = formatPriceDelta(move.priceDelta, move.priceDeltaPct, move.currency);
+    return `${formatPrice(move.oldPrice, move.oldCurrency ?? move.currency)} → ${formatPrice(move.newPrice, move.currency)}${delta ? `, ${delta}` : ''}`;
+  }
+  return 'Tarifs modifiés';
+}
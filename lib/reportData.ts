@@ -0,0 +1,139 @@
+// reportData / donneesRapport : chargement normalisé d'un rapport pour les exports (PDF, Markdown, HTML)
+// Normalized report loading shared by every export format and future deliveries
+
+import { prisma } from '@/lib/db';
+import { parseReportBaseline, type ReportBaseline } from '@/lib/reportBaseline';
+import {
+  citedChangeIds,
+  parseHighlights,
+  type ReportHighlight,
+} from '@/lib/reportHighlights';
+
+// ReportChangeRef / referenceChangement : changement sous-jacent (annexe, sources)
+// Underlying change (appendix, sources)
+export type ReportChangeRef = {
+  id: number;
+  createdAt: Date;
+  competitorName: string;
+  changeType: string;
+  changeSummary: string | null;
+  url: string;
+};
+
+// ReportData / donneesRapport : tout ce dont un rendu a besoin, sans accès base
+// Everything a renderer needs, without database access
+export type ReportData = {
+  reportId: number;
+  project: {
+    id: number;
+    name: string;
+    description: string | null;
+  };
+  periodStart: Date;
+  periodEnd: Date;
+  generatedAt: Date;
+  aiSummary: string | null;
+  highlights: ReportHighlight[];
+  baseline: ReportBaseline | null; // ruleBasedReport / rapportDeterministe (null pour les anciens rapports)
+  changesConsidered: number | null; // aiCoverage / couvertureIA (null = rapport sans IA)
+  changesDropped: number | null;
+  changes: ReportChangeRef[];
+  citedChanges: ReportChangeRef[]; // citedOutsideList / citesHorsListe : sources absentes de changes (au-delà de la limite, écartés)
+  totalChanges: number; // totalChanges / totalChangements (liste tronquée au-delà)
+};
+
+// maxReportChanges / nbMaxChangementsRapport : changements chargés pour l'annexe
+// Changes loaded for the appendix
+export const MAX_REPORT_CHANGES = 300;
+
+// loadReportData / chargerDonneesRapport : rapport + projet + changements de la période (hors DISMISSED)
+// Report + project + period changes (dismissed ones excluded); null when not found
+export async function loadReportData(reportId: number): Promise<ReportData | null> {
+  const report = await prisma.report.findUnique({
+    where: { id: reportId },
+    include: {
+      project: {
+        select: { id: true, name: true, description: true },
+      },
+    },
+  });
+
+  if (!report) return null;
+
+  // defaultPeriod / periodeParDefaut : anciens rapports sans période => 7 jours avant la génération
+  // Older reports without a period => 7 days before generation
+  const periodEnd = report.periodEnd ?? report.generatedAt;
+  const periodStart =
+    report.periodStart ?? new Date(periodEnd.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+  const changesWhere = {
+    createdAt: { gte: periodStart, lte: periodEnd },
+    triageStatus: { not: 'DISMISSED' as const },
+    monitoredPage: {
+      competitor: { projectId: report.project.id },
+    },
+  };
+
+  const totalChanges = await prisma.change.count({ where: changesWhere });
+  const changeSelect = {
+    id: true,
+    createdAt: true,
+    changeType: true,
+    changeSummary: true,
+    monitoredPage: {
+      select: {
+        url: true,
+        competitor: { select: { name: true } },
+      },
+    },
+  } as const;
+
+  const changes = await prisma.change.findMany({
+    where: changesWhere,
+    select: changeSelect,
+    orderBy: { createdAt: 'asc' },
+    take: MAX_REPORT_CHANGES,
+  });
+
+  // citedChanges / changementsCites : sources des faits marquants hors annexe
+  // Highlight sources missing from the appendix list (still scoped to the project)
+  const highlights = parseHighlights(report.highlights);
+  const loadedIds = new Set(changes.map((change) => change.id));
+  const missingIds = citedChangeIds(highlights).filter((id) => !loadedIds.has(id));
+  const citedChanges =
+    missingIds.length > 0
+      ? await prisma.change.findMany({
+          where: {
+            id: { in: missingIds },
+            monitoredPage: { competitor: { projectId: report.project.id } },
+          },
+          select: changeSelect,
+          orderBy: { createdAt: 'asc' },
+        })
+      : [];
+
+  const toChangeRef = (change: (typeof changes)[number]): ReportChangeRef => ({
+    id: change.id,
+    createdAt: change.createdAt,
+    competitorName: change.monitoredPage.competitor.name,
+    changeType: change.changeType,
+    changeSummary: change.changeSummary,
+    url: change.monitoredPage.url,
+  });
+
+  return {
+    reportId: report.id,
+    project: report.project,
+    periodStart,
+    periodEnd,
+    generatedAt: report.generatedAt,
+    aiSummary: report.aiSummary,
+    highlights,
+    baseline: parseReportBaseline(report.baseline),
+    changesConsidered: report.changesConsidered,
+    changesDropped: report.changesDropped,
+    changes: changes.map(toChangeRef),
+    citedChanges: citedChanges.map(toChangeRef),
+    totalChanges,
+  };
+}
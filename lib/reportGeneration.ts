@@ -0,0 +1,266 @@
+// reportGeneration / generationRapport : période et génération d'un rapport (bouton ou planification)
+// Report period resolution and generation, shared by the reports API route and report schedules
+
+import { prisma } from '@/lib/db';
+import { generateAiReport } from '@/lib/aiReport';
+import { getLlmProvider, resolveLlmSettings } from '@/lib/llmProvider';
+import { generateReportPdf } from '@/lib/reportPdf';
+import { notifyReportReady } from '@/lib/notifications';
+import { notifyReportGenerated } from '@/lib/webhooks';
+import { baselineHighlights, buildReportBaseline } from '@/lib/reportBaseline';
+import { Prisma, type Report, type ReportTrigger } from '@prisma/client';
+
+// ReportPeriod / periodeRapport : bornes incluses
+// Inclusive bounds
+export type ReportPeriod = {
+  periodStart: Date;
+  periodEnd: Date;
+};
+
+// defaultPeriodDays / joursPeriodeParDefaut
+export const DEFAULT_REPORT_PERIOD_DAYS = 7;
+
+// resolveReportPeriod / resoudrePeriodeRapport : dates fournies, dérivées (±7 jours) ou 7 derniers jours
+// Given dates, derived ones (±7 days) or the last 7 days before `now`
+export function resolveReportPeriod(
+  input: { periodStart?: string | Date | null; periodEnd?: string | Date | null },
+  now: Date = new Date(),
+): { period: ReportPeriod; error: null } | { period: null; error: string } {
+  // parseDates / parserDates : on parse ou on applique la période par défaut (7 jours)
+  // parseDates: parse dates or apply default period (last 7 days)
+  let periodStart: Date | null = null;
+  let periodEnd: Date | null = null;
+
+  if (input.periodStart) {
+    const d = new Date(input.periodStart);
+    if (!Number.isFinite(d.getTime())) {
+      return { period: null, error: 'periodStart invalide. / Invalid periodStart.' };
+    }
+    periodStart = d;
+  }
+
+  if (input.periodEnd) {
+    const d = new Date(input.periodEnd);
+    if (!Number.isFinite(d.getTime())) {
+      return { period: null, error: 'periodEnd invalide. / Invalid periodEnd.' };
+    }
+    periodEnd = d;
+  }
+
+  // Si une seule date fournie, on dérive l'autre
+  // If only one date is provided, derive the other
+  if (periodStart && !periodEnd) {
+    periodEnd = new Date(periodStart);
+    periodEnd.setDate(periodEnd.getDate() + DEFAULT_REPORT_PERIOD_DAYS);
+  } else if (!periodStart && periodEnd) {
+    periodStart = new Date(periodEnd);
+    periodStart.setDate(periodStart.getDate() - DEFAULT_REPORT_PERIOD_DAYS);
+  }
+
+  // Si aucune date fournie, période par défaut = 7 derniers jours
+  // If no dates are provided, default period = last 7 days
+  if (!periodStart || !periodEnd) {
+    periodEnd = new Date(now);
+    periodStart = new Date(now);
+    periodStart.setDate(periodEnd.getDate() - DEFAULT_REPORT_PERIOD_DAYS);
+  }
+
+  // Normalisation ordre des dates
+  // Normalize date order
+  if (periodStart.getTime() > periodEnd.getTime()) {
+    const tmp = periodStart;
+    periodStart = periodEnd;
+    periodEnd = tmp;
+  }
+
+  return { period: { periodStart, periodEnd }, error: null };
+}
+
+// generateProjectReport / genererRapportProjet : base déterministe, enrichie par l'IA si possible, puis PDF
+// Deterministic baseline, enriched by AI when possible, then PDF; null when the project does not exist.
+// Les erreurs de base de données remontent à l'appelant (500 ou nouvel essai planifié)
+// Database errors propagate to the caller (500 response or scheduled retry)
+export async function generateProjectReport(params: {
+  projectId: number;
+  period: ReportPeriod;
+  useAi: boolean;
+  includeDismissed?: boolean;
+  trigger?: ReportTrigger;
+  scheduleId?: number | null;
+  userId?: number | null; // auteur d'un rapport manuel / author of a manual report
+}): Promise<Report | null> {
+  const {
+    projectId,
+    period: { periodStart, periodEnd },
+    useAi,
+    includeDismissed = false,
+    trigger = 'MANUAL',
+    scheduleId = null,
+    userId = null,
+  } = params;
+
+  // Vérifier que le projet existe
+  // Check that the project exists
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      llmSettings: true,
+    },
+  });
+
+  if (!project) return null;
+
+  // Récupérer les changements sur la période pour ce projet
+  // Fetch changes for this project in the given period
+  const changes = await prisma.change.findMany({
+    where: {
+      createdAt: {
+        gte: periodStart,
+        lte: periodEnd,
+      },
+      ...(includeDismissed ? {} : { triageStatus: { not: 'DISMISSED' } }),
+      monitoredPage: {
+        competitor: {
+          projectId,
+        },
+      },
+    },
+    include: {
+      monitoredPage: {
+        select: {
+          url: true,
+          pageType: true,
+          competitor: {
+            select: {
+              name: true,
+            },
+          },
+        },
+      },
+    },
+    orderBy: {
+      createdAt: 'asc',
+    },
+  });
+
+  // failedRuns / echecsScraping : tentatives en échec de la période (pages en échec du rapport)
+  // Failed attempts of the period (the report's failing pages)
+  const failedRuns = await prisma.scrapeRun.findMany({
+    where: {
+      status: 'FAILED',
+      startedAt: {
+        gte: periodStart,
+        lte: periodEnd,
+      },
+      monitoredPage: {
+        competitor: {
+          projectId,
+        },
+      },
+    },
+    select: {
+      startedAt: true,
+      httpStatus: true,
+      errorMessage: true,
+      monitoredPage: {
+        select: {
+          id: true,
+          url: true,
+          health: true,
+          competitor: {
+            select: {
+              name: true,
+            },
+          },
+        },
+      },
+    },
+    orderBy: {
+      startedAt: 'desc',
+    },
+  });
+
+  // baseline / baseRapport : toujours calculée, l'IA l'enrichit sans la remplacer
+  // Always computed; the AI enriches it rather than replacing it
+  const baseline = buildReportBaseline(changes, failedRuns);
+
+  let aiSummary: string | null = null;
+  let highlights: Prisma.InputJsonValue | undefined = undefined;
+
+  // aiCoverage / couvertureIA : changements réellement vus par l'IA vs ignorés
+  // Changes actually seen by the AI vs skipped
+  let changesConsidered: number | null = null;
+  let changesDropped: number | null = null;
+
+  if (useAi) {
+    // llmProvider / fournisseurLlm : config du projet, sinon variables LLM_* / OPENAI_API_KEY
+    // Project config, otherwise LLM_* / OPENAI_API_KEY variables
+    const llmSettings = resolveLlmSettings(project.llmSettings);
+    const provider = getLlmProvider(llmSettings);
+
+    const aiResult = await generateAiReport({
+      projectName: project.name,
+      projectDescription: project.description,
+      periodStart,
+      periodEnd,
+      baseline,
+      changes,
+      provider,
+      promptTokenBudget: llmSettings.promptTokenBudget,
+    });
+
+    if (aiResult) {
+      aiSummary = aiResult.aiSummary;
+      highlights = aiResult.highlights as unknown as Prisma.InputJsonValue;
+      changesConsidered = aiResult.changesConsidered;
+      changesDropped = aiResult.changesDropped;
+    }
+  }
+
+  // baselineFallback / repliBase : sans IA (ou sans faits marquants IA), faits marquants déterministes
+  // Without AI (or when the AI returned no highlights), use the deterministic highlights
+  if (!Array.isArray(highlights) || highlights.length === 0) {
+    highlights = baselineHighlights(baseline) as unknown as Prisma.InputJsonValue;
+  }
+
+  // Créer le rapport en base
+  // Create report in DB
+  const created = await prisma.report.create({
+    data: {
+      projectId,
+      periodStart,
+      periodEnd,
+      generatedAt: new Date(),
+      aiSummary,
+      highlights,
+      baseline: baseline as unknown as Prisma.InputJsonValue,
+      changesConsidered,
+      changesDropped,
+      trigger,
+      scheduleId,
+      createdById: userId,
+    },
+  });
+
+  // exportPdf / exportPdf : un échec n'empêche pas la création du rapport
+  // (le PDF sera regénéré au premier téléchargement)
+  // A PDF failure does not fail report creation (regenerated on first download)
+  try {
+    created.pdfUrl = await generateReportPdf(created.id);
+  } catch (pdfError) {
+    console.error('reportPdfError / erreurPdfRapport', pdfError);
+  }
+
+  // webhooks / webhooksSortants : report.generated (manuel ou planifié), erreurs journalisées
+  // report.generated (manual or scheduled); errors are only logged
+  await notifyReportGenerated(created);
+
+  // notifications / notifications : « rapport prêt » dans la cloche de l'en-tête
+  // "Report ready" in the header bell
+  await notifyReportReady(created);
+
+  return created;
+}
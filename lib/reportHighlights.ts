@@ -0,0 +1,153 @@
+// reportHighlights / faitsMarquantsRapport : schéma des faits marquants (IA ou déterministes)
+// Highlight schema shared by the AI, the baseline, the exports and the reports page.
+// Pure module (no database access), also imported by client components
+
+// highlightChangeTypes / typesChangementFaitMarquant
+export const HIGHLIGHT_CHANGE_TYPES = [
+  'TEXT',
+  'PRICE',
+  'SECTION_ADDED',
+  'SECTION_REMOVED',
+  'OTHER',
+] as const;
+
+// highlightImpacts / impactsFaitMarquant
+export const HIGHLIGHT_IMPACTS = ['HIGH', 'MEDIUM', 'LOW'] as const;
+
+export type HighlightChangeType = (typeof HIGHLIGHT_CHANGE_TYPES)[number];
+export type HighlightImpact = (typeof HIGHLIGHT_IMPACTS)[number];
+
+// ReportHighlight / faitMarquantRapport : forme normalisée des highlights JSON
+// Normalized shape of the stored highlights JSON.
+// sourceChangeIds : changements cités (vide pour les anciens rapports et les pages en échec)
+// sourceChangeIds: cited changes (empty for older reports and failing pages)
+export type ReportHighlight = {
+  title: string;
+  detail: string;
+  competitor: string;
+  changeType: string;
+  impact: string;
+  sourceChangeIds: number[];
+};
+
+// limits / limites : bornes de validation des réponses IA
+// Validation bounds for AI answers
+const MAX_TITLE_LENGTH = 200;
+const MAX_DETAIL_LENGTH = 2000;
+const MAX_SOURCE_IDS = 20;
+
+// isChangeId / estIdChangement
+function isChangeId(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+// validateHighlights / validerFaitsMarquants : validation stricte d'une réponse IA
+// Strict validation of an AI answer: each invalid highlight is rejected with a bilingual error,
+// including highlights citing change ids absent from the prompt (allowedChangeIds)
+export function validateHighlights(
+  raw: unknown,
+  allowedChangeIds: ReadonlySet<number>,
+): { highlights: ReportHighlight[]; errors: string[] } {
+  if (!Array.isArray(raw)) {
+    return {
+      highlights: [],
+      errors: ['highlights doit être un tableau. / highlights must be an array.'],
+    };
+  }
+
+  const highlights: ReportHighlight[] = [];
+  const errors: string[] = [];
+
+  raw.forEach((item, index) => {
+    const path = `highlights[${index}]`;
+
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push(`${path} doit être un objet. / ${path} must be an object.`);
+      return;
+    }
+
+    const value = item as Record<string, unknown>;
+    const itemErrors: string[] = [];
+
+    for (const key of ['title', 'detail', 'competitor'] as const) {
+      if (typeof value[key] !== 'string' || !(value[key] as string).trim()) {
+        itemErrors.push(`${path}.${key} : texte requis. / ${path}.${key}: text required.`);
+      }
+    }
+    if (typeof value.title === 'string' && value.title.length > MAX_TITLE_LENGTH) {
+      itemErrors.push(`${path}.title : trop long. / ${path}.title: too long.`);
+    }
+    if (typeof value.detail === 'string' && value.detail.length > MAX_DETAIL_LENGTH) {
+      itemErrors.push(`${path}.detail : trop long. / ${path}.detail: too long.`);
+    }
+
+    if (!HIGHLIGHT_CHANGE_TYPES.includes(value.changeType as HighlightChangeType)) {
+      itemErrors.push(
+        `${path}.changeType doit valoir ${HIGHLIGHT_CHANGE_TYPES.join(' | ')}. / ${path}.changeType must be one of ${HIGHLIGHT_CHANGE_TYPES.join(' | ')}.`,
+      );
+    }
+    if (!HIGHLIGHT_IMPACTS.includes(value.impact as HighlightImpact)) {
+      itemErrors.push(
+        `${path}.impact doit valoir ${HIGHLIGHT_IMPACTS.join(' | ')}. / ${path}.impact must be one of ${HIGHLIGHT_IMPACTS.join(' | ')}.`,
+      );
+    }
+
+    const ids = value.sourceChangeIds;
+    if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_SOURCE_IDS) {
+      itemErrors.push(
+        `${path}.sourceChangeIds : 1 à ${MAX_SOURCE_IDS} ChangeId requis. / ${path}.sourceChangeIds: 1 to ${MAX_SOURCE_IDS} ChangeId required.`,
+      );
+    } else {
+      const unknownIds = ids.filter((id) => !isChangeId(id) || !allowedChangeIds.has(id));
+      if (unknownIds.length > 0) {
+        itemErrors.push(
+          `${path}.sourceChangeIds cite des changements absents des données (${unknownIds.map(String).join(', ')}). / ${path}.sourceChangeIds cites changes not in the input.`,
+        );
+      }
+    }
+
+    if (itemErrors.length > 0) {
+      errors.push(...itemErrors);
+      return;
+    }
+
+    highlights.push({
+      title: (value.title as string).trim(),
+      detail: (value.detail as string).trim(),
+      competitor: (value.competitor as string).trim(),
+      changeType: value.changeType as HighlightChangeType,
+      impact: value.impact as HighlightImpact,
+      sourceChangeIds: [...new Set(ids as number[])],
+    });
+  });
+
+  return { highlights, errors };
+}
+
+// parseHighlights / parserFaitsMarquants : lecture tolérante du JSON stocké (anciens rapports)
+// Lenient read of the stored JSON (older reports have no sourceChangeIds)
+export function parseHighlights(raw: unknown): ReportHighlight[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter(
+      (item): item is Record<string, unknown> =>
+        !!item && typeof item === 'object' && !Array.isArray(item),
+    )
+    .map((item) => ({
+      title: typeof item.title === 'string' ? item.title : '',
+      detail: typeof item.detail === 'string' ? item.detail : '',
+      competitor: typeof item.competitor === 'string' ? item.competitor : '',
+      changeType: typeof item.changeType === 'string' ? item.changeType : '',
+      impact: typeof item.impact === 'string' ? item.impact : '',
+      sourceChangeIds: Array.isArray(item.sourceChangeIds)
+        ? item.sourceChangeIds.filter(isChangeId)
+        : [],
+    }));
+}
+
+// citedChangeIds / idsChangementsCites : ids cités par un ensemble de faits marquants
+// Ids cited by a set of highlights
+export function citedChangeIds(highlights: ReportHighlight[]): number[] {
+  return [...new Set(highlights.flatMap((highlight) => highlight.sourceChangeIds))];
+}
@@ -0,0 +1,368 @@
+// reportPdf / rapportPdf : export PDF d'un rapport de veille (pdfkit), stocké sur disque
+// PDF export of a watch report (pdfkit), stored on local disk and served by /api/reports/[reportId]/pdf
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import PDFDocument from 'pdfkit';
+import { prisma } from '@/lib/db';
+import {
+  loadReportData,
+  MAX_REPORT_CHANGES,
+  type ReportData,
+} from '@/lib/reportData';
+import {
+  BASELINE_CHANGE_TYPE_LABELS,
+  describePriceMove,
+} from '@/lib/reportBaseline';
+import { aiCoverageText, reportSummaryText } from '@/lib/reportRenderer';
+
+// impactColors / couleursImpact : badge par niveau d'impact
+// Badge colour per impact level
+const IMPACT_COLORS: Record<string, string> = {
+  HIGH: '#dc2626',
+  MEDIUM: '#d97706',
+  LOW: '#16a34a',
+};
+const DEFAULT_IMPACT_COLOR = '#64748b';
+
+// reportsStorageDir / dossierStockageRapports : REPORTS_STORAGE_DIR ou ./storage/reports
+// REPORTS_STORAGE_DIR or ./storage/reports
+export function getReportsStorageDir(): string {
+  return path.resolve(
+    process.env.REPORTS_STORAGE_DIR ?? path.join(process.cwd(), 'storage', 'reports'),
+  );
+}
+
+// reportPdfPath / cheminPdfRapport
+function reportPdfPath(reportId: number): string {
+  return path.join(getReportsStorageDir(), `report-${reportId}.pdf`);
+}
+
+// reportPdfUrl / urlPdfRapport : valeur stockée dans Report.pdfUrl
+// Value stored in Report.pdfUrl
+export function reportPdfUrl(reportId: number): string {
+  return `/api/reports/${reportId}/pdf`;
+}
+
+// pdfText / textePdf : les polices standard PDF ne couvrent que WinAnsi (cp1252)
+// Standard PDF fonts only cover WinAnsi (cp1252); other characters are replaced
+function pdfText(value: string): string {
+  return value
+    .replace(/→/g, '->')
+    .replace(/[\u2009\u202f]/g, ' ')
+    .replace(
+      /[^\t\n\r\x20-\x7e\xa0-\xff€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ]/g,
+      '?',
+    );
+}
+
+// formatDay / formaterJour
+function formatDay(date: Date): string {
+  return date.toLocaleDateString('fr-FR', { dateStyle: 'medium' });
+}
+
+// renderReportPdf / rendrePdfRapport : en-tête, résumé, faits marquants, annexe des changements
+// Header, summary, highlights with impact badges, appendix of underlying changes
+export function renderReportPdf(input: ReportData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 50,
+      bufferPages: true,
+      info: {
+        Title: pdfText(`Rapport de veille – ${input.project.name}`),
+        Author: 'Competitive Watch',
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const contentWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+    // header / enTete
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(20)
+      .fillColor('#0f172a')
+      .text(pdfText(input.project.name));
+    doc
+      .font('Helvetica')
+      .fontSize(11)
+      .fillColor('#475569')
+      .text('Rapport de veille concurrentielle / Competitive watch report')
+      .moveDown(0.3)
+      .text(
+        pdfText(
+          `Période : du ${formatDay(input.periodStart)} au ${formatDay(input.periodEnd)} · Généré le ${formatDay(input.generatedAt)}`,
+        ),
+      );
+    if (input.project.description) {
+      doc.moveDown(0.3).fontSize(10).text(pdfText(input.project.description));
+    }
+
+    // summary / resume
+    doc
+      .moveDown(1.2)
+      .font('Helvetica-Bold')
+      .fontSize(14)
+      .fillColor('#0f172a')
+      .text('Résumé / Summary');
+    doc
+      .moveDown(0.4)
+      .font('Helvetica')
+      .fontSize(11)
+      .fillColor('#1e293b')
+      .text(
+        pdfText(reportSummaryText(input)),
+        { align: 'justify' },
+      );
+    const coverage = aiCoverageText(input);
+    if (coverage) {
+      doc
+        .moveDown(0.3)
+        .fontSize(9)
+        .fillColor('#64748b')
+        .text(pdfText(coverage));
+    }
+
+    // highlights / faitsMarquants : badge d'impact coloré + titre + détail
+    // Coloured impact badge + title + detail
+    if (input.highlights.length > 0) {
+      doc
+        .moveDown(1.2)
+        .font('Helvetica-Bold')
+        .fontSize(14)
+        .fillColor('#0f172a')
+        .text('Faits marquants / Key highlights');
+      doc.moveDown(0.4);
+
+      for (const highlight of input.highlights) {
+        if (doc.y > doc.page.height - doc.page.margins.bottom - 80) {
+          doc.addPage();
+        }
+
+        const impact = highlight.impact.toUpperCase() || 'N/A';
+        const badgeWidth = 56;
+        const top = doc.y;
+
+        doc
+          .roundedRect(doc.page.margins.left, top, badgeWidth, 15, 3)
+          .fill(IMPACT_COLORS[impact] ?? DEFAULT_IMPACT_COLOR);
+        doc
+          .font('Helvetica-Bold')
+          .fontSize(8)
+          .fillColor('#ffffff')
+          .text(pdfText(impact), doc.page.margins.left, top + 4, {
+            width: badgeWidth,
+            align: 'center',
+          });
+
+        const textLeft = doc.page.margins.left + badgeWidth + 10;
+        const textWidth = contentWidth - badgeWidth - 10;
+
+        doc
+          .font('Helvetica-Bold')
+          .fontSize(11)
+          .fillColor('#0f172a')
+          .text(pdfText(highlight.title || 'Fait marquant'), textLeft, top + 1, {
+            width: textWidth,
+          });
+        if (highlight.detail) {
+          doc
+            .font('Helvetica')
+            .fontSize(10)
+            .fillColor('#1e293b')
+            .text(pdfText(highlight.detail), textLeft, doc.y + 2, { width: textWidth });
+        }
+        doc
+          .fontSize(8)
+          .fillColor('#64748b')
+          .text(
+            pdfText(
+              `Concurrent : ${highlight.competitor || 'N/A'} · Type : ${highlight.changeType || 'N/A'}`,
+            ),
+            textLeft,
+            doc.y + 2,
+            { width: textWidth },
+          );
+
+        doc.x = doc.page.margins.left;
+        doc.moveDown(0.8);
+      }
+    }
+
+    // baselineStats / statistiquesBase : compteurs, mouvements de prix, pages en échec
+    // Counters, price moves, failing pages
+    if (input.baseline) {
+      const baseline = input.baseline;
+      const counts = (values: Record<string, number>, labels: Record<string, string> = {}) =>
+        Object.entries(values)
+          .sort((a, b) => b[1] - a[1])
+          .map(([key, count]) => `${labels[key] ?? key} (${count})`)
+          .join(', ');
+
+      if (doc.y > doc.page.height - doc.page.margins.bottom - 120) {
+        doc.addPage();
+      }
+      doc
+        .moveDown(1.2)
+        .font('Helvetica-Bold')
+        .fontSize(14)
+        .fillColor('#0f172a')
+        .text('Statistiques / Statistics', doc.page.margins.left);
+      doc.moveDown(0.4).font('Helvetica').fontSize(10).fillColor('#1e293b');
+
+      if (baseline.byCompetitor.length > 0) {
+        doc.text(
+          pdfText(
+            `Par concurrent : ${baseline.byCompetitor.map((entry) => `${entry.competitor} (${entry.count})`).join(', ')}`,
+          ),
+        );
+      }
+      if (Object.keys(baseline.byChangeType).length > 0) {
+        doc.text(
+          pdfText(
+            `Par type de changement : ${counts(baseline.byChangeType, BASELINE_CHANGE_TYPE_LABELS)}`,
+          ),
+        );
+      }
+      if (Object.keys(baseline.byPageType).length > 0) {
+        doc.text(pdfText(`Par type de page : ${counts(baseline.byPageType)}`));
+      }
+
+      if (baseline.priceMoves.length > 0) {
+        doc.moveDown(0.6).font('Helvetica-Bold').fontSize(11).text('Mouvements de prix');
+        doc.font('Helvetica').fontSize(9);
+        for (const move of baseline.priceMoves) {
+          doc.text(
+            pdfText(
+              `#${move.changeId} · ${move.competitor} · ${move.item} : ${describePriceMove(move)}`,
+            ),
+          );
+        }
+      }
+
+      if (baseline.failedPages.length > 0) {
+        doc.moveDown(0.6).font('Helvetica-Bold').fontSize(11).text('Pages en échec de scraping');
+        doc.font('Helvetica').fontSize(9);
+        for (const page of baseline.failedPages) {
+          doc.text(
+            pdfText(
+              `${page.competitor} · ${page.url} : ${page.failures} échec(s), ${page.health}${page.lastError ? ` · ${page.lastError.slice(0, 200)}` : ''}`,
+            ),
+          );
+        }
+      }
+    }
+
+    // appendix / annexe : changements sous-jacents (hors changements écartés)
+    // Underlying changes (dismissed ones excluded)
+    doc.addPage();
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(14)
+      .fillColor('#0f172a')
+      .text('Annexe : changements détectés / Appendix: detected changes');
+    doc.moveDown(0.4);
+
+    if (input.changes.length === 0) {
+      doc
+        .font('Helvetica')
+        .fontSize(10)
+        .fillColor('#475569')
+        .text('Aucun changement sur la période. / No changes during the period.');
+    }
+
+    for (const change of input.changes.slice(0, MAX_REPORT_CHANGES)) {
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(9)
+        .fillColor('#0f172a')
+        .text(
+          pdfText(
+            `#${change.id} · ${formatDay(change.createdAt)} · ${change.competitorName} · ${change.changeType}`,
+          ),
+        );
+      if (change.changeSummary) {
+        doc
+          .font('Helvetica')
+          .fontSize(9)
+          .fillColor('#1e293b')
+          .text(pdfText(change.changeSummary));
+      }
+      doc.fontSize(8).fillColor('#64748b').text(pdfText(change.url));
+      doc.moveDown(0.5);
+    }
+
+    const omitted = input.totalChanges - Math.min(input.changes.length, MAX_REPORT_CHANGES);
+    if (omitted > 0) {
+      doc
+        .font('Helvetica-Oblique')
+        .fontSize(9)
+        .fillColor('#475569')
+        .text(
+          `… ${omitted} changements supplémentaires non listés. / ${omitted} more changes not listed.`,
+        );
+    }
+
+    // pageNumbers / numerosPages
+    const range = doc.bufferedPageRange();
+    for (let index = range.start; index < range.start + range.count; index += 1) {
+      doc.switchToPage(index);
+
+      // footerInMargin / piedDansMarge : sans marge basse, pdfkit ajouterait une page
+      // Without zeroing the bottom margin pdfkit would add a new page
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc
+        .font('Helvetica')
+        .fontSize(8)
+        .fillColor('#94a3b8')
+        .text(
+          `${index + 1} / ${range.count}`,
+          doc.page.margins.left,
+          doc.page.height - bottomMargin + 15,
+          { width: contentWidth, align: 'right', lineBreak: false },
+        );
+      doc.page.margins.bottom = bottomMargin;
+    }
+
+    doc.end();
+  });
+}
+
+// generateReportPdf / genererPdfRapport : charge le rapport, rend le PDF, l'écrit et renseigne pdfUrl
+// Loads the report, renders the PDF, writes it to disk and sets Report.pdfUrl
+export async function generateReportPdf(reportId: number): Promise<string> {
+  const data = await loadReportData(reportId);
+  if (!data) {
+    throw new Error(`Rapport ${reportId} introuvable. / Report ${reportId} not found.`);
+  }
+
+  const buffer = await renderReportPdf(data);
+
+  await mkdir(getReportsStorageDir(), { recursive: true });
+  await writeFile(reportPdfPath(reportId), buffer);
+
+  const pdfUrl = reportPdfUrl(reportId);
+  await prisma.report.update({
+    where: { id: reportId },
+    data: { pdfUrl },
+  });
+
+  return pdfUrl;
+}
+
+// readReportPdf / lirePdfRapport : null si le fichier n'existe pas (encore)
+// null when the file does not exist (yet)
+export async function readReportPdf(reportId: number): Promise<Buffer | null> {
+  try {
+    return await readFile(reportPdfPath(reportId));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
@@ -0,0 +1,549 @@
+// reportRenderer / rendusRapport : rendu Markdown / HTML autonome d'un rapport
+// Markdown / standalone HTML rendering of a report; pure functions (no database access)
+// so exports, emails and webhooks share the same output
+
+import type { ReportChangeRef, ReportData } from '@/lib/reportData';
+import type { ReportHighlight } from '@/lib/reportHighlights';
+import {
+  BASELINE_CHANGE_TYPE_LABELS,
+  describePriceMove,
+  type ReportBaseline,
+} from '@/lib/reportBaseline';
+
+// ReportFormat / formatRapport : formats texte disponibles
+// Available text formats
+export type ReportFormat = 'md' | 'html';
+
+export const REPORT_FORMATS: ReportFormat[] = ['md', 'html'];
+
+// impactOrder / ordreImpact : HIGH d'abord, impacts inconnus en dernier
+// HIGH first, unknown impacts last
+const IMPACT_ORDER: Record<string, number> = {
+  HIGH: 0,
+  MEDIUM: 1,
+  LOW: 2,
+};
+
+// impactColors / couleursImpact : badges HTML
+// HTML badge colours
+const IMPACT_COLORS: Record<string, string> = {
+  HIGH: '#dc2626',
+  MEDIUM: '#d97706',
+  LOW: '#16a34a',
+};
+const DEFAULT_IMPACT_COLOR = '#64748b';
+
+// maxHighlightSources / nbMaxSources : changements cités par fait marquant
+// Changes cited per highlight
+const MAX_HIGHLIGHT_SOURCES = 5;
+
+// HighlightGroup / groupeFaitsMarquants : faits marquants d'un concurrent, triés par impact
+// One competitor's highlights, sorted by impact
+export type HighlightGroup = {
+  competitor: string;
+  highlights: ReportHighlight[];
+};
+
+// isReportFormat / estFormatRapport
+export function isReportFormat(value: unknown): value is ReportFormat {
+  return typeof value === 'string' && (REPORT_FORMATS as string[]).includes(value);
+}
+
+function impactRank(impact: string): number {
+  return IMPACT_ORDER[impact.toUpperCase()] ?? 3;
+}
+
+// groupHighlights / grouperFaitsMarquants : par concurrent (ordre de première apparition), puis par impact
+// By competitor (first-seen order), then by impact
+export function groupHighlights(highlights: ReportHighlight[]): HighlightGroup[] {
+  const groups = new Map<string, ReportHighlight[]>();
+
+  for (const highlight of highlights) {
+    const competitor = highlight.competitor.trim() || 'Autres / Other';
+    const group = groups.get(competitor) ?? [];
+    group.push(highlight);
+    groups.set(competitor, group);
+  }
+
+  return [...groups.entries()].map(([competitor, items]) => ({
+    competitor,
+    highlights: [...items].sort(
+      (a, b) => impactRank(a.impact) - impactRank(b.impact),
+    ),
+  }));
+}
+
+// findHighlightSources / trouverSourcesFaitMarquant : changements cités (sourceChangeIds),
+// sinon (anciens rapports) changements du même concurrent (et type)
+// Cited changes (sourceChangeIds); older reports without citations fall back to changes
+// of the same competitor (and change type when given)
+export function findHighlightSources(
+  highlight: ReportHighlight,
+  changes: ReportChangeRef[],
+): ReportChangeRef[] {
+  if (highlight.sourceChangeIds.length > 0) {
+    return highlight.sourceChangeIds
+      .map((id) => changes.find((change) => change.id === id))
+      .filter((change): change is ReportChangeRef => change !== undefined);
+  }
+
+  const competitor = highlight.competitor.trim().toLowerCase();
+  if (!competitor) return [];
+
+  return changes
+    .filter(
+      (change) =>
+        change.competitorName.toLowerCase() === competitor &&
+        (!highlight.changeType || change.changeType === highlight.changeType),
+    )
+    .slice(0, MAX_HIGHLIGHT_SOURCES);
+}
+
+// reportSummaryText / texteResumeRapport : résumé IA, sinon résumé déterministe
+// AI summary, falling back to the deterministic baseline summary
+export function reportSummaryText(data: Pick<ReportData, 'aiSummary' | 'baseline'>): string {
+  return (
+    data.aiSummary?.trim() ||
+    data.baseline?.summary ||
+    'Résumé non disponible. / Summary not available.'
+  );
+}
+
+// aiCoverageText / texteCouvertureIA : changements analysés par l'IA (null si sans IA ou complet)
+// Changes analyzed by the AI (null without AI or when nothing was skipped)
+export function aiCoverageText(
+  data: Pick<ReportData, 'aiSummary' | 'changesConsidered' | 'changesDropped'>,
+): string | null {
+  if (!data.aiSummary || data.changesConsidered === null || !data.changesDropped) {
+    return null;
+  }
+  const total = data.changesConsidered + data.changesDropped;
+  return `Analyse IA partielle : ${data.changesConsidered} / ${total} changements (${data.changesDropped} ignorés, volume trop important).`;
+}
+
+// countEntries / entreesCompteurs : compteurs triés par volume décroissant
+// Counters sorted by decreasing volume
+function countEntries(counts: Record<string, number>): [string, number][] {
+  return Object.entries(counts).sort((a, b) => b[1] - a[1]);
+}
+
+// formatDay / formaterJour
+function formatDay(date: Date): string {
+  return date.toLocaleDateString('fr-FR', { dateStyle: 'medium' });
+}
+
+// periodText / textePeriode
+function periodText(data: ReportData): string {
+  return `du ${formatDay(data.periodStart)} au ${formatDay(data.periodEnd)} · généré le ${formatDay(data.generatedAt)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+// escapeMarkdown / echapperMarkdown : texte inline (pas de balisage involontaire)
+// Inline text, no accidental markup
+function escapeMarkdown(value: string): string {
+  return value.replace(/([\\`*_[\]<>|#])/g, '\\$1').replace(/\s*\n\s*/g, ' ');
+}
+
+// markdownLink / lienMarkdown : seuls http(s) deviennent des liens ; parenthèses et espaces encodés
+// Only http(s) URLs become links; parentheses and spaces are encoded
+function markdownLink(label: string, url: string): string {
+  if (!/^https?:\/\//i.test(url)) return label;
+  return `[${label}](${url.replace(/[()\s]/g, (char) => encodeURIComponent(char))})`;
+}
+
+// escapeMarkdownBlock / echapperBlocMarkdown : paragraphe (sauts de ligne conservés)
+// Paragraph, line breaks kept
+function escapeMarkdownBlock(value: string): string {
+  return value
+    .split(/\n+/)
+    .map((line) => escapeMarkdown(line.trim()))
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// renderBaselineMarkdown / rendreBaseMarkdown : statistiques, prix, sections, pages en échec
+// Statistics, price moves, sections, failing pages
+function renderBaselineMarkdown(baseline: ReportBaseline): string[] {
+  const lines: string[] = ['', '## Statistiques', ''];
+
+  if (baseline.byCompetitor.length > 0) {
+    lines.push(
+      `- Par concurrent : ${baseline.byCompetitor.map((entry) => `${escapeMarkdown(entry.competitor)} (${entry.count})`).join(', ')}`,
+    );
+  }
+  const byType = countEntries(baseline.byChangeType);
+  if (byType.length > 0) {
+    lines.push(
+      `- Par type de changement : ${byType.map(([key, count]) => `${BASELINE_CHANGE_TYPE_LABELS[key] ?? key} (${count})`).join(', ')}`,
+    );
+  }
+  const byPage = countEntries(baseline.byPageType);
+  if (byPage.length > 0) {
+    lines.push(
+      `- Par type de page : ${byPage.map(([key, count]) => `${key} (${count})`).join(', ')}`,
+    );
+  }
+  lines.push(`- Total : ${baseline.totalChanges} (dont ${baseline.importantChanges} importants)`);
+
+  if (baseline.priceMoves.length > 0) {
+    lines.push('', '### Mouvements de prix', '');
+    lines.push('| # | Concurrent | Produit / plan | Mouvement |');
+    lines.push('|---|---|---|---|');
+    for (const move of baseline.priceMoves) {
+      lines.push(
+        `| ${markdownLink(`#${move.changeId}`, move.url)} | ${escapeMarkdown(move.competitor)} | ${escapeMarkdown(move.item)} | ${escapeMarkdown(describePriceMove(move))} |`,
+      );
+    }
+  }
+
+  if (baseline.sectionChanges.length > 0) {
+    lines.push('', '### Sections ajoutées / supprimées', '');
+    for (const section of baseline.sectionChanges) {
+      const sign = section.changeType === 'SECTION_ADDED' ? '+' : '−';
+      lines.push(
+        `- ${sign} ${escapeMarkdown(section.competitor)} : ${escapeMarkdown(section.section || 'N/A')} (${markdownLink(`#${section.changeId}`, section.url)})`,
+      );
+    }
+  }
+
+  if (baseline.failedPages.length > 0) {
+    lines.push('', '### Pages en échec de scraping', '');
+    for (const page of baseline.failedPages) {
+      lines.push(
+        `- ${escapeMarkdown(page.competitor)} : ${markdownLink(escapeMarkdown(page.url), page.url)} — ${page.failures} échec(s), ${page.health}${page.lastError ? ` — ${escapeMarkdown(page.lastError.slice(0, 200))}` : ''}`,
+      );
+    }
+  }
+
+  return lines;
+}
+
+// renderReportMarkdown / rendreRapportMarkdown : collable dans Notion / Confluence
+// Pastes cleanly into Notion / Confluence
+export function renderReportMarkdown(data: ReportData): string {
+  const lines: string[] = [];
+
+  lines.push(`# Rapport de veille – ${escapeMarkdown(data.project.name)}`);
+  lines.push('');
+  lines.push(`_Période ${periodText(data)}_`);
+  if (data.project.description) {
+    lines.push('');
+    lines.push(`> ${escapeMarkdown(data.project.description)}`);
+  }
+
+  lines.push('');
+  lines.push('## Résumé');
+  lines.push('');
+  lines.push(escapeMarkdownBlock(reportSummaryText(data)));
+  const coverage = aiCoverageText(data);
+  if (coverage) {
+    lines.push('');
+    lines.push(`_${coverage}_`);
+  }
+
+  const groups = groupHighlights(data.highlights);
+  if (groups.length > 0) {
+    lines.push('');
+    lines.push('## Faits marquants');
+
+    for (const group of groups) {
+      lines.push('');
+      lines.push(`### ${escapeMarkdown(group.competitor)}`);
+      lines.push('');
+
+      for (const highlight of group.highlights) {
+        const impact = highlight.impact.toUpperCase() || 'N/A';
+        const title = escapeMarkdown(highlight.title || 'Fait marquant');
+        const detail = highlight.detail ? ` — ${escapeMarkdown(highlight.detail)}` : '';
+        lines.push(`- **[${impact}] ${title}**${detail}`);
+
+        const meta: string[] = [];
+        if (highlight.changeType) meta.push(`Type : ${highlight.changeType}`);
+        const sources = findHighlightSources(highlight, [...data.changes, ...data.citedChanges]);
+        if (sources.length > 0) {
+          meta.push(
+            `Sources : ${sources.map((change) => markdownLink(`#${change.id}`, change.url)).join(', ')}`,
+          );
+        }
+        if (meta.length > 0) lines.push(`  ${meta.join(' · ')}`);
+      }
+    }
+  }
+
+  if (data.baseline) {
+    lines.push(...renderBaselineMarkdown(data.baseline));
+  }
+
+  lines.push('');
+  lines.push('## Changements sources');
+  lines.push('');
+
+  if (data.changes.length === 0) {
+    lines.push('Aucun changement sur la période. / No changes during the period.');
+  } else {
+    lines.push('| # | Date | Concurrent | Type | Résumé | URL |');
+    lines.push('|---|---|---|---|---|---|');
+    for (const change of data.changes) {
+      lines.push(
+        `| ${change.id} | ${formatDay(change.createdAt)} | ${escapeMarkdown(change.competitorName)} | ${change.changeType} | ${escapeMarkdown(change.changeSummary ?? '')} | ${markdownLink('lien', change.url)} |`,
+      );
+    }
+    const omitted = data.totalChanges - data.changes.length;
+    if (omitted > 0) {
+      lines.push('');
+      lines.push(`_… ${omitted} changements supplémentaires non listés._`);
+    }
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+// escapeHtml / echapperHtml
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// safeHref / lienSur : seuls http(s) sont rendus cliquables
+// Only http(s) URLs become links
+function safeHref(url: string): string {
+  return /^https?:\/\//i.test(url) ? escapeHtml(url) : '#';
+}
+
+// htmlStyles / stylesHtml : CSS inline (les clients mail ignorent souvent <style>)
+// Inline CSS (mail clients often drop <style> blocks)
+const STYLE = {
+  body: 'margin:0;padding:24px;background:#f8fafc;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#0f172a;',
+  container: 'max-width:760px;margin:0 auto;background:#ffffff;border:1px solid #e2e8f0;border-radius:12px;padding:28px;',
+  h1: 'margin:0 0 4px;font-size:22px;',
+  h2: 'margin:28px 0 10px;font-size:16px;border-bottom:1px solid #e2e8f0;padding-bottom:6px;',
+  h3: 'margin:18px 0 8px;font-size:14px;color:#334155;',
+  muted: 'margin:0;font-size:12px;color:#64748b;',
+  summary: 'margin:0;font-size:14px;line-height:1.6;white-space:pre-line;',
+  item: 'margin:0 0 10px;padding:10px 12px;border:1px solid #e2e8f0;border-radius:8px;',
+  badge: 'display:inline-block;min-width:52px;padding:2px 6px;border-radius:4px;color:#ffffff;font-size:10px;font-weight:bold;text-align:center;margin-right:8px;',
+  title: 'font-size:14px;font-weight:bold;',
+  detail: 'margin:6px 0 0;font-size:13px;line-height:1.5;',
+  table: 'width:100%;border-collapse:collapse;font-size:12px;',
+  th: 'text-align:left;padding:6px;border-bottom:2px solid #e2e8f0;color:#475569;',
+  td: 'padding:6px;border-bottom:1px solid #f1f5f9;vertical-align:top;',
+  link: 'color:#0284c7;text-decoration:none;',
+};
+
+// renderBaselineHtml / rendreBaseHtml : statistiques, prix, sections, pages en échec
+// Statistics, price moves, sections, failing pages
+function renderBaselineHtml(baseline: ReportBaseline): string[] {
+  const parts: string[] = [`<h2 style="${STYLE.h2}">Statistiques</h2>`];
+  const statLines: string[] = [];
+
+  if (baseline.byCompetitor.length > 0) {
+    statLines.push(
+      `Par concurrent : ${baseline.byCompetitor.map((entry) => `${escapeHtml(entry.competitor)} (${entry.count})`).join(', ')}`,
+    );
+  }
+  const byType = countEntries(baseline.byChangeType);
+  if (byType.length > 0) {
+    statLines.push(
+      `Par type de changement : ${byType.map(([key, count]) => `${escapeHtml(BASELINE_CHANGE_TYPE_LABELS[key] ?? key)} (${count})`).join(', ')}`,
+    );
+  }
+  const byPage = countEntries(baseline.byPageType);
+  if (byPage.length > 0) {
+    statLines.push(
+      `Par type de page : ${byPage.map(([key, count]) => `${escapeHtml(key)} (${count})`).join(', ')}`,
+    );
+  }
+  statLines.push(`Total : ${baseline.totalChanges} (dont ${baseline.importantChanges} importants)`);
+  parts.push(
+    ...statLines.map((line) => `<p style="${STYLE.detail}">${line}</p>`),
+  );
+
+  if (baseline.priceMoves.length > 0) {
+    parts.push(
+      `<h3 style="${STYLE.h3}">Mouvements de prix</h3>`,
+      `<table style="${STYLE.table}">`,
+      '<thead><tr>',
+      ...['#', 'Concurrent', 'Produit / plan', 'Mouvement'].map(
+        (label) => `<th style="${STYLE.th}">${label}</th>`,
+      ),
+      '</tr></thead>',
+      '<tbody>',
+    );
+    for (const move of baseline.priceMoves) {
+      parts.push(
+        '<tr>',
+        `<td style="${STYLE.td}"><a href="${safeHref(move.url)}" style="${STYLE.link}">#${move.changeId}</a></td>`,
+        `<td style="${STYLE.td}">${escapeHtml(move.competitor)}</td>`,
+        `<td style="${STYLE.td}">${escapeHtml(move.item)}</td>`,
+        `<td style="${STYLE.td}">${escapeHtml(describePriceMove(move))}</td>`,
+        '</tr>',
+      );
+    }
+    parts.push('</tbody>', '</table>');
+  }
+
+  if (baseline.sectionChanges.length > 0) {
+    parts.push(`<h3 style="${STYLE.h3}">Sections ajoutées / supprimées</h3>`);
+    for (const section of baseline.sectionChanges) {
+      const sign = section.changeType === 'SECTION_ADDED' ? '+' : '−';
+      parts.push(
+        `<p style="${STYLE.detail}">${sign} ${escapeHtml(section.competitor)} : ${escapeHtml(section.section || 'N/A')} (<a href="${safeHref(section.url)}" style="${STYLE.link}">#${section.changeId}</a>)</p>`,
+      );
+    }
+  }
+
+  if (baseline.failedPages.length > 0) {
+    parts.push(`<h3 style="${STYLE.h3}">Pages en échec de scraping</h3>`);
+    for (const page of baseline.failedPages) {
+      parts.push(
+        `<p style="${STYLE.detail}">${escapeHtml(page.competitor)} : <a href="${safeHref(page.url)}" style="${STYLE.link}">${escapeHtml(page.url)}</a> — ${page.failures} échec(s), ${escapeHtml(page.health)}${page.lastError ? ` — ${escapeHtml(page.lastError.slice(0, 200))}` : ''}</p>`,
+      );
+    }
+  }
+
+  return parts;
+}
+
+// renderReportHtml / rendreRapportHtml : document HTML autonome
+// Standalone HTML document
+export function renderReportHtml(data: ReportData): string {
+  const parts: string[] = [];
+  const title = `Rapport de veille – ${data.project.name}`;
+
+  parts.push(
+    '<!DOCTYPE html>',
+    '<html lang="fr">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    '</head>',
+    `<body style="${STYLE.body}">`,
+    `<div style="${STYLE.container}">`,
+    `<h1 style="${STYLE.h1}">${escapeHtml(title)}</h1>`,
+    `<p style="${STYLE.muted}">Période ${escapeHtml(periodText(data))}</p>`,
+  );
+
+  if (data.project.description) {
+    parts.push(`<p style="${STYLE.muted}">${escapeHtml(data.project.description)}</p>`);
+  }
+
+  parts.push(
+    `<h2 style="${STYLE.h2}">Résumé</h2>`,
+    `<p style="${STYLE.summary}">${escapeHtml(reportSummaryText(data))}</p>`,
+  );
+  const coverage = aiCoverageText(data);
+  if (coverage) {
+    parts.push(`<p style="${STYLE.muted}">${escapeHtml(coverage)}</p>`);
+  }
+
+  const groups = groupHighlights(data.highlights);
+  if (groups.length > 0) {
+    parts.push(`<h2 style="${STYLE.h2}">Faits marquants</h2>`);
+
+    for (const group of groups) {
+      parts.push(`<h3 style="${STYLE.h3}">${escapeHtml(group.competitor)}</h3>`);
+
+      for (const highlight of group.highlights) {
+        const impact = highlight.impact.toUpperCase() || 'N/A';
+        const color = IMPACT_COLORS[impact] ?? DEFAULT_IMPACT_COLOR;
+        const sources = findHighlightSources(highlight, [...data.changes, ...data.citedChanges]);
+
+        parts.push(
+          `<div style="${STYLE.item}">`,
+          `<span style="${STYLE.badge}background:${color};">${escapeHtml(impact)}</span>`,
+          `<span style="${STYLE.title}">${escapeHtml(highlight.title || 'Fait marquant')}</span>`,
+        );
+        if (highlight.detail) {
+          parts.push(`<p style="${STYLE.detail}">${escapeHtml(highlight.detail)}</p>`);
+        }
+
+        const meta: string[] = [];
+        if (highlight.changeType) meta.push(`Type : ${escapeHtml(highlight.changeType)}`);
+        if (sources.length > 0) {
+          meta.push(
+            `Sources : ${sources
+              .map(
+                (change) =>
+                  `<a href="${safeHref(change.url)}" style="${STYLE.link}">#${change.id}</a>`,
+              )
+              .join(', ')}`,
+          );
+        }
+        if (meta.length > 0) {
+          parts.push(`<p style="${STYLE.muted}margin-top:6px;">${meta.join(' · ')}</p>`);
+        }
+        parts.push('</div>');
+      }
+    }
+  }
+
+  if (data.baseline) {
+    parts.push(...renderBaselineHtml(data.baseline));
+  }
+
+  parts.push(`<h2 style="${STYLE.h2}">Changements sources</h2>`);
+
+  if (data.changes.length === 0) {
+    parts.push(
+      `<p style="${STYLE.muted}">Aucun changement sur la période. / No changes during the period.</p>`,
+    );
+  } else {
+    parts.push(
+      `<table style="${STYLE.table}">`,
+      '<thead><tr>',
+      ...['#', 'Date', 'Concurrent', 'Type', 'Résumé'].map(
+        (label) => `<th style="${STYLE.th}">${label}</th>`,
+      ),
+      '</tr></thead>',
+      '<tbody>',
+    );
+    for (const change of data.changes) {
+      parts.push(
+        '<tr>',
+        `<td style="${STYLE.td}"><a href="${safeHref(change.url)}" style="${STYLE.link}">#${change.id}</a></td>`,
+        `<td style="${STYLE.td}white-space:nowrap;">${escapeHtml(formatDay(change.createdAt))}</td>`,
+        `<td style="${STYLE.td}">${escapeHtml(change.competitorName)}</td>`,
+        `<td style="${STYLE.td}">${escapeHtml(change.changeType)}</td>`,
+        `<td style="${STYLE.td}">${escapeHtml(change.changeSummary ?? '')}</td>`,
+        '</tr>',
+      );
+    }
+    parts.push('</tbody>', '</table>');
+
+    const omitted = data.totalChanges - data.changes.length;
+    if (omitted > 0) {
+      parts.push(
+        `<p style="${STYLE.muted}margin-top:8px;">… ${omitted} changements supplémentaires non listés.</p>`,
+      );
+    }
+  }
+
+  parts.push('</div>', '</body>', '</html>', '');
+  return parts.join('\n');
+}
+
+// renderReport / rendreRapport : point d'entrée par format
+// Entry point per format
+export function renderReport(data: ReportData, format: ReportFormat): string {
+  return format === 'html' ? renderReportHtml(data) : renderReportMarkdown(data);
+}
+
+// reportContentType / typeContenuRapport
+export function reportContentType(format: ReportFormat): string {
+  return format === 'html'
+    ? 'text/html; charset=utf-8'
+    : 'text/markdown; charset=utf-8';
+}
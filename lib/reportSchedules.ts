@@ -0,0 +1,277 @@
+// reportSchedules / planificationsRapports : génération récurrente des rapports (heures UTC)
+// Recurring report generation (UTC times), run by the scheduler worker after the scrapes
+
+import { prisma } from '@/lib/db';
+import {
+  generateProjectReport,
+  resolveReportPeriod,
+  type ReportPeriod,
+} from '@/lib/reportGeneration';
+import type {
+  ReportCadence,
+  ReportSchedule,
+  ReportScheduleStatus,
+} from '@prisma/client';
+
+const MINUTE_MS = 60 * 1000;
+
+// maxReportAttempts / nbMaxEssaisRapport : essais par échéance avant abandon
+// Attempts per occurrence before giving up (the next occurrence is still scheduled)
+export const MAX_REPORT_ATTEMPTS = 3;
+
+// retryDelays / delaisNouvelEssai : après le 1er échec, puis après le 2e
+// After the 1st failure, then after the 2nd
+const RETRY_DELAYS_MS = [15 * MINUTE_MS, 60 * MINUTE_MS];
+
+export const REPORT_CADENCES: ReportCadence[] = ['WEEKLY', 'MONTHLY'];
+
+// ScheduleTiming / horairePlanification : champs qui fixent les échéances
+// Fields that define the occurrences
+export type ScheduleTiming = Pick<
+  ReportSchedule,
+  'cadence' | 'dayOfWeek' | 'dayOfMonth' | 'hour' | 'minute'
+>;
+
+// ReportScheduleInput / entreePlanificationRapport : création ou mise à jour validée
+// Validated creation or update
+export type ReportScheduleInput = ScheduleTiming & {
+  useAi: boolean;
+  enabled: boolean;
+};
+
+// computeNextRunAt / calculerProchaineEcheance : première échéance strictement après `after`
+// First occurrence strictly after `after`
+export function computeNextRunAt(timing: ScheduleTiming, after: Date): Date {
+  if (timing.cadence === 'MONTHLY') {
+    const day = timing.dayOfMonth ?? 1;
+    let candidate = new Date(
+      Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), day, timing.hour, timing.minute),
+    );
+    if (candidate.getTime() <= after.getTime()) {
+      candidate = new Date(
+        Date.UTC(after.getUTCFullYear(), after.getUTCMonth() + 1, day, timing.hour, timing.minute),
+      );
+    }
+    return candidate;
+  }
+
+  // isoWeekday / jourIso : 1 = lundi … 7 = dimanche ; getUTCDay : 0 = dimanche
+  // 1 = Monday … 7 = Sunday; getUTCDay: 0 = Sunday
+  const targetDay = (timing.dayOfWeek ?? 1) % 7;
+  const candidate = new Date(
+    Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate(), timing.hour, timing.minute),
+  );
+  candidate.setUTCDate(candidate.getUTCDate() + ((targetDay - candidate.getUTCDay() + 7) % 7));
+  if (candidate.getTime() <= after.getTime()) {
+    candidate.setUTCDate(candidate.getUTCDate() + 7);
+  }
+  return candidate;
+}
+
+// schedulePeriod / periodePlanification : semaine ou mois écoulé(e) jusqu'à l'échéance
+// The week or month elapsed up to the occurrence (same period logic as the reports route)
+export function schedulePeriod(schedule: Pick<ReportSchedule, 'cadence'>, occurrence: Date): ReportPeriod {
+  if (schedule.cadence === 'MONTHLY') {
+    const periodStart = new Date(occurrence);
+    periodStart.setUTCMonth(periodStart.getUTCMonth() - 1);
+    return { periodStart, periodEnd: occurrence };
+  }
+
+  // weekly / hebdomadaire : periodEnd seul => 7 jours avant (resolveReportPeriod)
+  // periodEnd only => the 7 previous days (resolveReportPeriod)
+  const { period } = resolveReportPeriod({ periodEnd: occurrence });
+  return period ?? { periodStart: occurrence, periodEnd: occurrence };
+}
+
+// parseIntInRange / parserEntierBorne
+function parseIntInRange(value: unknown, min: number, max: number): number | null {
+  const parsed = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isInteger(parsed) && parsed >= min && parsed <= max
+    ? parsed
+    : null;
+}
+
+// parseReportScheduleInput / parserEntreePlanification : validation du POST / PATCH
+// Validates POST / PATCH bodies; `existing` supplies the fields missing from a PATCH
+export function parseReportScheduleInput(
+  raw: unknown,
+  existing: ReportScheduleInput | null,
+):
+  | { input: ReportScheduleInput; error: null }
+  | { input: null; error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { input: null, error: 'Corps de requête invalide. / Invalid request body.' };
+  }
+
+  const value = raw as Record<string, unknown>;
+
+  const cadence = value.cadence ?? existing?.cadence;
+  if (!REPORT_CADENCES.includes(cadence as ReportCadence)) {
+    return {
+      input: null,
+      error: 'cadence doit valoir WEEKLY ou MONTHLY. / cadence must be WEEKLY or MONTHLY.',
+    };
+  }
+
+  const hour = parseIntInRange(value.hour ?? existing?.hour ?? 8, 0, 23);
+  const minute = parseIntInRange(value.minute ?? existing?.minute ?? 0, 0, 59);
+  if (hour === null || minute === null) {
+    return {
+      input: null,
+      error: 'Heure invalide (0–23, minutes 0–59). / Invalid time (0–23, minutes 0–59).',
+    };
+  }
+
+  let dayOfWeek: number | null = null;
+  let dayOfMonth: number | null = null;
+
+  if (cadence === 'WEEKLY') {
+    dayOfWeek = parseIntInRange(value.dayOfWeek ?? existing?.dayOfWeek ?? 1, 1, 7);
+    if (dayOfWeek === null) {
+      return {
+        input: null,
+        error: 'dayOfWeek doit être entre 1 (lundi) et 7 (dimanche). / dayOfWeek must be between 1 (Monday) and 7 (Sunday).',
+      };
+    }
+  } else {
+    // day1To28 / jour1A28 : évite les mois sans 29, 30 ou 31
+    // Avoids months without a 29th, 30th or 31st
+    dayOfMonth = parseIntInRange(value.dayOfMonth ?? existing?.dayOfMonth ?? 1, 1, 28);
+    if (dayOfMonth === null) {
+      return {
+        input: null,
+        error: 'dayOfMonth doit être entre 1 et 28. / dayOfMonth must be between 1 and 28.',
+      };
+    }
+  }
+
+  return {
+    input: {
+      cadence: cadence as ReportCadence,
+      dayOfWeek,
+      dayOfMonth,
+      hour,
+      minute,
+      useAi: typeof value.useAi === 'boolean' ? value.useAi : (existing?.useAi ?? true),
+      enabled: typeof value.enabled === 'boolean' ? value.enabled : (existing?.enabled ?? true),
+    },
+    error: null,
+  };
+}
+
+// isSameTiming / memeHoraire : faux => échéance recalculée
+// False => the occurrence is recomputed
+export function isSameTiming(a: ScheduleTiming, b: ScheduleTiming): boolean {
+  return (
+    a.cadence === b.cadence &&
+    a.dayOfWeek === b.dayOfWeek &&
+    a.dayOfMonth === b.dayOfMonth &&
+    a.hour === b.hour &&
+    a.minute === b.minute
+  );
+}
+
+// findDueReportSchedules / trouverPlanificationsEcheance : échéance atteinte, ou nouvel essai dû
+// Occurrence reached, or retry due
+export async function findDueReportSchedules(now: Date = new Date()): Promise<ReportSchedule[]> {
+  return prisma.reportSchedule.findMany({
+    where: {
+      enabled: true,
+      OR: [
+        { retryAt: null, nextRunAt: { lte: now } },
+        { retryAt: { lte: now } },
+      ],
+    },
+    orderBy: { nextRunAt: 'asc' },
+  });
+}
+
+// runReportSchedule / executerPlanificationRapport : un essai pour l'échéance en cours
+// One attempt for the current occurrence.
+// Échec : nouvel essai (15 min, puis 1 h) ; après MAX_REPORT_ATTEMPTS, échéance abandonnée et suivante planifiée
+// Failure: retry (15 min, then 1 h); after MAX_REPORT_ATTEMPTS the occurrence is dropped and the next one scheduled
+export async function runReportSchedule(
+  schedule: ReportSchedule,
+  now: Date = new Date(),
+): Promise<ReportScheduleStatus> {
+  try {
+    const report = await generateProjectReport({
+      projectId: schedule.projectId,
+      period: schedulePeriod(schedule, schedule.nextRunAt),
+      useAi: schedule.useAi,
+      trigger: 'SCHEDULED',
+      scheduleId: schedule.id,
+    });
+    if (!report) {
+      throw new Error('Projet introuvable. / Project not found.');
+    }
+
+    // missedOccurrences / echeancesManquees : une seule génération de rattrapage après un arrêt du worker
+    // A single catch-up report after the worker was down
+    await prisma.reportSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        lastRunAt: now,
+        lastStatus: 'SUCCESS',
+        lastError: null,
+        lastReportId: report.id,
+        attempts: 0,
+        retryAt: null,
+        nextRunAt: computeNextRunAt(schedule, now),
+      },
+    });
+    return 'SUCCESS';
+  } catch (error) {
+    const attempts = schedule.attempts + 1;
+    const message = error instanceof Error ? error.message : String(error);
+    const willRetry = attempts < MAX_REPORT_ATTEMPTS;
+
+    console.error(
+      `[reportSchedules] Échec de la planification ${schedule.id} (essai ${attempts}/${MAX_REPORT_ATTEMPTS}). / ` +
+        `Schedule ${schedule.id} failed (attempt ${attempts}/${MAX_REPORT_ATTEMPTS}).`,
+      error,
+    );
+
+    await prisma.reportSchedule.update({
+      where: { id: schedule.id },
+      data: willRetry
+        ? {
+            lastRunAt: now,
+            lastStatus: 'RETRYING',
+            lastError: message,
+            attempts,
+            retryAt: new Date(now.getTime() + RETRY_DELAYS_MS[attempts - 1]),
+          }
+        : {
+            lastRunAt: now,
+            lastStatus: 'FAILED',
+            lastError: message,
+            attempts: 0,
+            retryAt: null,
+            nextRunAt: computeNextRunAt(schedule, now),
+          },
+    });
+    return willRetry ? 'RETRYING' : 'FAILED';
+  }
+}
+
+// runDueReportSchedules / executerPlanificationsEcheance : une planification à la fois
+// One schedule at a time; failures are counted (retries included)
+export async function runDueReportSchedules(
+  now: Date = new Date(),
+): Promise<{ generated: number; failed: number }> {
+  const schedules = await findDueReportSchedules(now);
+  let generated = 0;
+  let failed = 0;
+
+  for (const schedule of schedules) {
+    const status = await runReportSchedule(schedule, now);
+    if (status === 'SUCCESS') {
+      generated += 1;
+    } else {
+      failed += 1;
+    }
+  }
+
+  return { generated, failed };
+}
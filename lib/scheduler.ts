@@ -0,0 +1,197 @@
+// scheduler / planificateur : lance automatiquement les scrapes selon Project.frequency,
+// puis les rapports planifiés (ReportSchedule) et les nouveaux essais de webhooks
+// Automatically runs scrapes according to Project.frequency, then scheduled reports (ReportSchedule)
+// and webhook retries
+
+import { prisma } from '@/lib/db';
+import { runPageScrape } from '@/lib/scrapePipeline';
+import { runDueReportSchedules } from '@/lib/reportSchedules';
+import { sendDueDigests } from '@/lib/digests';
+import { retryDueWebhookDeliveries } from '@/lib/webhooks';
+import type { Frequency, SchedulerRun } from '@prisma/client';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// frequencyIntervals / intervallesFrequence : délai minimal entre deux tentatives de scrape
+// Minimum delay between two scrape attempts (MANUAL is never scheduled)
+export const FREQUENCY_INTERVALS_MS: Record<
+  Exclude<Frequency, 'MANUAL'>,
+  number
+> = {
+  DAILY: DAY_MS,
+  WEEKLY: 7 * DAY_MS,
+  MONTHLY: 30 * DAY_MS,
+};
+
+// scheduleGrace / toleranceEcheance : évite qu'un cron horaire décale l'échéance d'une heure
+// Avoid an hourly cron pushing the due date by one hour on every run
+const SCHEDULE_GRACE_MS = 5 * 60 * 1000;
+
+// DuePage / pageEcheance : page surveillée à scraper lors de ce passage
+// Monitored page to scrape during this pass
+export type DuePage = {
+  id: number;
+  url: string;
+  includeSelectors: string[];
+  excludeSelectors: string[];
+  frequency: Frequency;
+  lastAttemptAt: Date | null;
+};
+
+// isPageDue / pageEstEcheance : vrai si aucune tentative ou si l'intervalle est écoulé
+// True if the page was never attempted or if the interval has elapsed. Un échec compte comme
+// une tentative : une page en erreur attend l'échéance suivante au lieu d'être relancée à chaque passage
+// A failure counts as an attempt: a failing page waits for its next slot instead of being
+// retried on every pass
+export function isPageDue(
+  frequency: Frequency,
+  lastAttemptAt: Date | null,
+  now: Date,
+): boolean {
+  if (frequency === 'MANUAL') return false;
+  if (!lastAttemptAt) return true;
+
+  const elapsed = now.getTime() - lastAttemptAt.getTime();
+  return elapsed >= FREQUENCY_INTERVALS_MS[frequency] - SCHEDULE_GRACE_MS;
+}
+
+// findDuePages / trouverPagesEcheance : pages des concurrents actifs dont le projet est planifié
+// Pages of active competitors whose project has a non-manual frequency
+export async function findDuePages(now: Date = new Date()): Promise<DuePage[]> {
+  const pages = await prisma.monitoredPage.findMany({
+    where: {
+      competitor: {
+        // skipInactive / ignorerInactifs : PAUSED et ARCHIVED ne sont jamais scrapés
+        // PAUSED and ARCHIVED competitors are never scraped
+        status: 'ACTIVE',
+        project: {
+          frequency: { not: 'MANUAL' },
+        },
+      },
+    },
+    select: {
+      id: true,
+      url: true,
+      includeSelectors: true,
+      excludeSelectors: true,
+      lastScrapedAt: true,
+      competitor: {
+        select: {
+          project: {
+            select: { frequency: true },
+          },
+        },
+      },
+      snapshots: {
+        orderBy: { capturedAt: 'desc' },
+        take: 1,
+        select: { capturedAt: true },
+      },
+    },
+    orderBy: { id: 'asc' },
+  });
+
+  return pages
+    .map((page) => ({
+      id: page.id,
+      url: page.url,
+      includeSelectors: page.includeSelectors,
+      excludeSelectors: page.excludeSelectors,
+      frequency: page.competitor.project.frequency,
+      // lastAttempt / derniereTentative : lastScrapedAt (succès ou échec), sinon dernier snapshot
+      // lastScrapedAt (success or failure), else the latest snapshot (pages scraped before it existed)
+      lastAttemptAt: page.lastScrapedAt ?? page.snapshots[0]?.capturedAt ?? null,
+    }))
+    .filter((page) => isPageDue(page.frequency, page.lastAttemptAt, now));
+}
+
+// runSchedulerTick / executerPassagePlanificateur : scrape les pages échues, génère les rapports
+// planifiés (après les scrapes, pour inclure les derniers changements) et trace le passage
+// Scrapes due pages sequentially, then runs due report schedules (after the scrapes so reports
+// include the latest changes), and records the pass as a SchedulerRun
+export async function runSchedulerTick(
+  now: Date = new Date(),
+): Promise<SchedulerRun> {
+  const run = await prisma.schedulerRun.create({
+    data: { startedAt: now },
+  });
+
+  let pagesDue = 0;
+  let pagesScraped = 0;
+  let pagesFailed = 0;
+  let changesDetected = 0;
+  let reportsGenerated = 0;
+  let reportsFailed = 0;
+
+  try {
+    const duePages = await findDuePages(now);
+    pagesDue = duePages.length;
+
+    // sequentialScrape / scrapingSequentiel : une page à la fois pour ménager les sites cibles
+    // One page at a time to stay gentle with target sites
+    for (const page of duePages) {
+      try {
+        const outcome = await runPageScrape(page, {
+          trigger: 'SCHEDULED',
+          schedulerRunId: run.id,
+        });
+        pagesScraped += 1;
+        changesDetected += outcome.changes.length;
+      } catch (error) {
+        // pageFailure / echecPage : déjà tracé dans ScrapeRun, on continue
+        // Already recorded as a ScrapeRun, keep going with the next pages
+        pagesFailed += 1;
+        console.error(
+          `[scheduler] Échec du scraping de la page ${page.id}. / Failed to scrape page ${page.id}.`,
+          error,
+        );
+      }
+    }
+
+    // scheduledReports / rapportsPlanifies : échecs déjà tracés sur chaque ReportSchedule
+    // Failures are already recorded on each ReportSchedule
+    const reports = await runDueReportSchedules(now);
+    reportsGenerated = reports.generated;
+    reportsFailed = reports.failed;
+
+    // webhookRetries / nouveauxEssaisWebhooks : résultats tracés sur chaque WebhookDelivery
+    // Outcomes are recorded on each WebhookDelivery
+    await retryDueWebhookDeliveries(now);
+
+    // emailDigests / digestsEmail : erreurs SMTP tracées sur chaque DigestSubscriber
+    // SMTP errors are recorded on each DigestSubscriber
+    await sendDueDigests(now);
+
+    return await prisma.schedulerRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'COMPLETED',
+        finishedAt: new Date(),
+        pagesDue,
+        pagesScraped,
+        pagesFailed,
+        changesDetected,
+        reportsGenerated,
+        reportsFailed,
+      },
+    });
+  } catch (error) {
+    console.error('[scheduler] Passage interrompu. / Scheduler pass aborted.', error);
+
+    return prisma.schedulerRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'FAILED',
+        finishedAt: new Date(),
+        pagesDue,
+        pagesScraped,
+        pagesFailed,
+        changesDetected,
+        reportsGenerated,
+        reportsFailed,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      },
+    });
+  }
+}
@@ -0,0 +1,381 @@
+// scrapePipeline / chaineScraping : snapshot + détection de changements pour une page surveillée
+// Scrape pipeline: snapshot + change detection for a monitored page
+// Partagé entre la route API (bouton) et le planificateur (worker / cron).
+// Shared between the API route (button) and the scheduler (worker / cron).
+
+import { evaluateChangeAlerts, evaluateFailureAlerts } from '@/lib/alertRules';
+import { prisma } from '@/lib/db';
+import { applySelectorScope } from '@/lib/htmlScoping';
+import {
+  compileNoiseRules,
+  loadNoiseRulesForPage,
+  normalizeForComparison,
+} from '@/lib/noiseFilter';
+import { scrapePage, ScrapeError } from '@/lib/scraping';
+import { diffPricing, formatPrice, summarizePriceChange } from '@/lib/pricingDiff';
+import { diffSections, extractSections } from '@/lib/sections';
+import {
+  collectChangedText,
+  computeTextDiff,
+  hasMeaningfulDiff,
+  summarizeTextDiff,
+} from '@/lib/textDiff';
+import { notifyNewChanges, notifyScrapeFailed } from '@/lib/notifications';
+import { notifyChangesCreated } from '@/lib/webhooks';
+import { ChangeType } from '@prisma/client';
+import type {
+  Change,
+  PageHealth,
+  Prisma,
+  ScrapeRun,
+  ScrapeTrigger,
+  Snapshot,
+} from '@prisma/client';
+
+// ScrapeTarget / cibleScraping : page surveillée minimale à scraper
+// Minimal monitored page to scrape
+export type ScrapeTarget = {
+  id: number;
+  url: string;
+  includeSelectors?: string[]; // onlyWatch / surveillerSeulement
+  excludeSelectors?: string[]; // ignore / ignorer
+};
+
+// ScrapeRunOptions / optionsTentative : origine de la tentative (bouton ou planificateur)
+// Attempt origin (button or scheduler)
+export type ScrapeRunOptions = {
+  trigger?: ScrapeTrigger;
+  schedulerRunId?: number | null;
+  userId?: number | null; // auteur d'un scrape manuel / author of a manual scrape
+};
+
+// PageScrapeOutcome / resultatScrapingPage : snapshot créé + changements détectés
+// Created snapshot + detected changes
+export type PageScrapeOutcome = {
+  snapshot: Snapshot;
+  change: Change | null;   // premier changement créé / first created change
+  changes: Change[];       // tous les changements créés / all created changes
+  hasChange: boolean;
+  scrapeRun: ScrapeRun;    // tentative tracée / recorded attempt
+};
+
+// CaptureResult / resultatCapture : sortie brute de la capture avant traçage
+// Raw capture output before the attempt is recorded
+type CaptureResult = {
+  snapshot: Snapshot;
+  changes: Change[];
+  httpStatus: number;
+  bytes: number;
+};
+
+// failingThreshold / seuilEchec : à partir de 3 échecs consécutifs la page est FAILING
+// From 3 consecutive failures on, the page is FAILING
+export const FAILING_THRESHOLD = 3;
+
+// maxSectionChanges / maxChangementsSection : au-delà, c'est une refonte (le diff TEXT suffit)
+// Beyond this per direction it is a redesign; the TEXT diff already covers it
+const MAX_SECTION_CHANGES = 20;
+
+// computePageHealth / calculerSantePage : dérive la santé du nombre d'échecs consécutifs
+// Derives page health from the consecutive failure count
+export function computePageHealth(consecutiveFailures: number): PageHealth {
+  if (consecutiveFailures <= 0) return 'HEALTHY';
+  if (consecutiveFailures < FAILING_THRESHOLD) return 'DEGRADED';
+  return 'FAILING';
+}
+
+// captureAndCompare / capturerEtComparer : crée un snapshot + éventuels changements
+// Creates a snapshot and optional change records for a monitored page
+async function captureAndCompare(
+  monitoredPage: ScrapeTarget,
+): Promise<CaptureResult> {
+  const monitoredPageId = monitoredPage.id;
+
+  // previousSnapshot / snapshotPrecedent : dernier snapshot connu pour cette page
+  // Last known snapshot for this page
+  const previousSnapshot = await prisma.snapshot.findFirst({
+    where: { monitoredPageId },
+    orderBy: { capturedAt: 'desc' },
+  });
+
+  // scrapeRemotePage / scraperPageDistante
+  // Scrape the remote page
+  // pricing / tarifs : extracteurs structurés puis heuristique texte (lib/pricingExtraction.ts)
+  // Structured extractors first, then the text heuristic
+  const scope = {
+    includeSelectors: monitoredPage.includeSelectors,
+    excludeSelectors: monitoredPage.excludeSelectors,
+  };
+
+  const { rawHtml, scopedHtml, extractedText, pricing, httpStatus, bytes } =
+    await scrapePage(monitoredPage.url, scope);
+
+  // createNewSnapshot / creerNouveauSnapshot
+  // Create new snapshot
+  const newSnapshot = await prisma.snapshot.create({
+    data: {
+      monitoredPageId,
+      rawHtml,
+      extractedText,
+      capturedAt: new Date(),
+      extractedPricing: pricing
+        ? (pricing as unknown as Prisma.InputJsonValue)
+        : undefined,
+    },
+  });
+
+  const changes: Change[] = [];
+
+  // compareSnapshots / comparerSnapshots : on regarde si le texte a changé
+  // Compare snapshots: check whether text has changed
+  if (previousSnapshot) {
+    // noiseRules / reglesBruit : motifs projet + page retirés du texte comparé uniquement,
+    // le texte stocké dans le snapshot reste intact
+    // Project + page patterns are removed from the compared text only
+    const noisePatterns = compileNoiseRules(
+      await loadNoiseRulesForPage(monitoredPageId),
+    );
+
+    const oldText = normalizeForComparison(
+      previousSnapshot.extractedText ?? '',
+      noisePatterns,
+    );
+    const newText = normalizeForComparison(extractedText ?? '', noisePatterns);
+
+    const maxStoredLength = 2000;
+
+    // --- TEXT change detection / détection changements TEXTE ---
+    // lineWordDiff / diffLigneMot : toute ligne ajoutée / supprimée / modifiée compte,
+    // les variations d'espaces seules et les motifs ignorés ne comptent pas
+    // Any added / removed / modified line counts; whitespace-only edits and ignored patterns do not
+    const textDiff = computeTextDiff(oldText, newText);
+
+    if (hasMeaningfulDiff(textDiff)) {
+      const textChange = await prisma.change.create({
+        data: {
+          monitoredPageId,
+          oldSnapshotId: previousSnapshot.id,
+          newSnapshotId: newSnapshot.id,
+          changeType: ChangeType.TEXT,
+          field: 'content', // fieldName / nomChamp : contenu global
+          // changedLinesOnly / lignesModifieesSeules : uniquement les lignes touchées
+          // Only the touched lines, not the whole page
+          oldValue: collectChangedText(textDiff, 'old').slice(0, maxStoredLength),
+          newValue: collectChangedText(textDiff, 'new').slice(0, maxStoredLength),
+          changeSummary: summarizeTextDiff(textDiff.stats),
+          diff: textDiff as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      changes.push(textChange);
+    }
+
+    // --- SECTION change detection / détection sections ajoutées / supprimées ---
+    // headingAware / parTitres : une page sans aucune section (ancien snapshot vide,
+    // page d'erreur…) n'est pas comparée pour éviter une avalanche de changements
+    // A side without any section (empty snapshot, error page…) is skipped to avoid a flood
+    // sameScope / memePerimetre : l'ancien HTML brut est recadré avec les sélecteurs actuels
+    // The previous raw HTML is scoped with the current selectors
+    const oldSections = extractSections(
+      previousSnapshot.rawHtml
+        ? applySelectorScope(previousSnapshot.rawHtml, scope).html
+        : null,
+    );
+    const newSections = extractSections(scopedHtml);
+
+    if (oldSections.length > 0 && newSections.length > 0) {
+      const sectionDiff = diffSections(oldSections, newSections);
+
+      for (const section of sectionDiff.added.slice(0, MAX_SECTION_CHANGES)) {
+        const sectionChange = await prisma.change.create({
+          data: {
+            monitoredPageId,
+            oldSnapshotId: previousSnapshot.id,
+            newSnapshotId: newSnapshot.id,
+            changeType: ChangeType.SECTION_ADDED,
+            field: section.title.slice(0, 200),
+            newValue: section.preview || null,
+            changeSummary: `Nouvelle section « ${section.title} » (${section.tag}). / New section "${section.title}" (${section.tag}).`,
+          },
+        });
+
+        changes.push(sectionChange);
+      }
+
+      for (const section of sectionDiff.removed.slice(0, MAX_SECTION_CHANGES)) {
+        const sectionChange = await prisma.change.create({
+          data: {
+            monitoredPageId,
+            oldSnapshotId: previousSnapshot.id,
+            newSnapshotId: newSnapshot.id,
+            changeType: ChangeType.SECTION_REMOVED,
+            field: section.title.slice(0, 200),
+            oldValue: section.preview || null,
+            changeSummary: `Section « ${section.title} » supprimée (${section.tag}). / Section "${section.title}" removed (${section.tag}).`,
+          },
+        });
+
+        changes.push(sectionChange);
+      }
+    }
+
+    // --- PRICE change detection / détection changements de PRIX ---
+    // itemLevel / parProduit : un changement par produit (SKU ou libellé normalisé),
+    // avec ancien / nouveau prix et écarts absolu / en %
+    // One change per item (SKU or normalized label) with old / new price and deltas
+    const priceChanges = diffPricing(
+      previousSnapshot.extractedPricing,
+      newSnapshot.extractedPricing,
+    );
+
+    for (const item of priceChanges) {
+      const priceChange = await prisma.change.create({
+        data: {
+          monitoredPageId,
+          oldSnapshotId: previousSnapshot.id,
+          newSnapshotId: newSnapshot.id,
+          changeType: ChangeType.PRICE,
+          field: item.label.slice(0, 200),
+          oldValue:
+            item.oldPrice === null ? null : formatPrice(item.oldPrice, item.oldCurrency),
+          newValue:
+            item.newPrice === null ? null : formatPrice(item.newPrice, item.currency),
+          changeSummary: summarizePriceChange(item),
+          priceChangeKind: item.kind,
+          itemKey: item.itemKey,
+          oldPrice: item.oldPrice,
+          newPrice: item.newPrice,
+          priceDelta: item.priceDelta,
+          priceDeltaPct: item.priceDeltaPct,
+          currency: item.currency,
+          oldCurrency: item.oldCurrency,
+        },
+      });
+
+      changes.push(priceChange);
+    }
+  }
+
+  return {
+    snapshot: newSnapshot,
+    changes,
+    httpStatus,
+    bytes,
+  };
+}
+
+// runPageScrape / executerScrapingPage : capture + comparaison, tracée dans ScrapeRun
+// Capture + comparison, recorded as a ScrapeRun; page health is updated either way
+export async function runPageScrape(
+  monitoredPage: ScrapeTarget,
+  options: ScrapeRunOptions = {},
+): Promise<PageScrapeOutcome> {
+  const startedAt = new Date();
+
+  const run = await prisma.scrapeRun.create({
+    data: {
+      monitoredPageId: monitoredPage.id,
+      schedulerRunId: options.schedulerRunId ?? null,
+      createdById: options.userId ?? null,
+      trigger: options.trigger ?? 'MANUAL',
+      startedAt,
+    },
+  });
+
+  try {
+    const { snapshot, changes, httpStatus, bytes } =
+      await captureAndCompare(monitoredPage);
+
+    const finishedAt = new Date();
+
+    const scrapeRun = await prisma.scrapeRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'SUCCESS',
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        httpStatus,
+        bytes,
+        snapshotId: snapshot.id,
+        changeIds: changes.map((change) => change.id),
+      },
+    });
+
+    // resetHealth / reinitialiserSante : un succès remet le compteur à zéro
+    // A success resets the failure streak
+    await prisma.monitoredPage.update({
+      where: { id: monitoredPage.id },
+      data: {
+        health: 'HEALTHY',
+        consecutiveFailures: 0,
+        lastScrapedAt: finishedAt,
+      },
+    });
+
+    // webhooks / webhooksSortants : change.created, sans faire échouer la tentative
+    // change.created events; never fails the attempt
+    await notifyChangesCreated(changes);
+
+    // alertRules / reglesAlerte : prix, types de changement, taille du diff (jamais bloquant)
+    // Price, change type and diff size rules (never fails the attempt)
+    await evaluateChangeAlerts(monitoredPage.id, changes);
+
+    // notifications / notifications : cloche de l'en-tête (jamais bloquant)
+    // Header bell (never fails the attempt)
+    await notifyNewChanges(monitoredPage.id, changes);
+
+    return {
+      snapshot,
+      // on retourne au client le premier changement créé
+      // we return the first created change to the client
+      change: changes[0] ?? null,
+      changes,
+      hasChange: changes.length > 0,
+      scrapeRun,
+    };
+  } catch (error) {
+    const finishedAt = new Date();
+
+    await prisma.scrapeRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'FAILED',
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        httpStatus: error instanceof ScrapeError ? error.httpStatus : null,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    // failureStreak / serieEchecs : incrément puis recalcul de la santé
+    // Increment the streak, then recompute health
+    const page = await prisma.monitoredPage.update({
+      where: { id: monitoredPage.id },
+      data: {
+        consecutiveFailures: { increment: 1 },
+        lastScrapedAt: finishedAt,
+      },
+      select: { consecutiveFailures: true },
+    });
+
+    await prisma.monitoredPage.update({
+      where: { id: monitoredPage.id },
+      data: { health: computePageHealth(page.consecutiveFailures) },
+    });
+
+    // failureAlerts / alertesEchecs : règles FETCH_FAILURES sur la série mise à jour
+    // FETCH_FAILURES rules on the updated streak
+    await evaluateFailureAlerts(
+      monitoredPage.id,
+      page.consecutiveFailures,
+      error instanceof Error ? error.message : String(error),
+    );
+    await notifyScrapeFailed(
+      monitoredPage.id,
+      page.consecutiveFailures,
+      error instanceof Error ? error.message : String(error),
+    );
+
+    throw error;
+  }
+}
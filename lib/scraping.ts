@@ -1,24 +1,67 @@
 // scrapingUtils / utilitairesScraping : fonctions de base pour récupérer et nettoyer le HTML
 // Basic scraping utilities: fetch and clean HTML
 
-// PricingItem / elementTarifaire : structure pour un produit ou plan tarifaire détecté
-// Structured data for a product / pricing item detected on the page
-export type PricingItem = {
-  sku: string;              // identifiant produit / product identifier (ex: "ST-HEAD-X100")
-  name: string;             // nom du produit / product name
-  price: number;            // prix en valeur numérique / numeric price (ex: 79.9)
-  currency: string;         // devise (ex: "EUR")
-  availability?: string;    // disponibilité (ex: "En stock", "En promotion")
-};
+import { applySelectorScope, type SelectorScope } from '@/lib/htmlScoping';
+import { extractPricing, type ExtractedPricing } from '@/lib/pricingExtraction';
 
 // ScrapeResult / resultatScraping : résultat complet du scraping d'une page
 // Full scraping result for a page
 export type ScrapeResult = {
   rawHtml: string;          // rawHtml / htmlBrut : HTML complet récupéré
-  extractedText: string;    // extractedText / texteExtrait : texte nettoyé
-  pricingData: PricingItem[]; // pricingData / donneesTarifaires : produits/plans détectés
+  scopedHtml: string;       // scopedHtml / htmlCible : HTML après sélecteurs inclusion / exclusion
+  extractedText: string;    // extractedText / texteExtrait : texte nettoyé (du HTML ciblé)
+  pricing: ExtractedPricing | null; // pricing / tarifs : produits/plans détectés (cf. lib/pricingExtraction.ts)
+  httpStatus: number;       // httpStatus / statutHttp : code HTTP de la réponse
+  bytes: number;            // responseBytes / octetsRecus : taille du HTML en octets
 };
 
+// ScrapeError / erreurScraping : échec de récupération (HTTP non-2xx, DNS, timeout…)
+// Fetch failure (non-2xx HTTP, DNS, timeout…), keeps the HTTP status when known
+export class ScrapeError extends Error {
+  readonly httpStatus: number | null;
+
+  constructor(message: string, httpStatus: number | null = null) {
+    super(message);
+    this.name = 'ScrapeError';
+    this.httpStatus = httpStatus;
+  }
+}
+
+// fetchTimeout / delaiMaxRecuperation : SCRAPE_TIMEOUT_MS, 20 secondes par défaut
+// Fetch timeout from SCRAPE_TIMEOUT_MS, defaults to 20 seconds
+function readFetchTimeoutMs(): number {
+  const value = Number(process.env.SCRAPE_TIMEOUT_MS ?? 20000);
+  return Number.isFinite(value) && value > 0 ? value : 20000;
+}
+
+// describeFetchFailure / decrireEchecRecuperation : message lisible pour DNS / timeout / réseau
+// Readable message for DNS / timeout / network failures
+function describeFetchFailure(error: unknown, timeoutMs: number): string {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return `Délai dépassé après ${timeoutMs} ms. / Timed out after ${timeoutMs} ms.`;
+  }
+
+  const cause =
+    error instanceof Error && error.cause && typeof error.cause === 'object'
+      ? (error.cause as { code?: unknown; message?: unknown })
+      : null;
+
+  if (cause?.code === 'ENOTFOUND') {
+    return 'Nom de domaine introuvable (DNS). / Domain name not found (DNS).';
+  }
+
+  const detail =
+    typeof cause?.code === 'string'
+      ? cause.code
+      : typeof cause?.message === 'string'
+        ? cause.message
+        : error instanceof Error
+          ? error.message
+          : String(error);
+
+  return `Erreur réseau (${detail}). / Network error (${detail}).`;
+}
+
 // cleanHtmlToText / nettoyerHtmlEnTexte : transforme du HTML brut en texte lisible
 // Converts raw HTML into readable text
 function cleanHtmlToText(rawHtml: string): string {
@@ -63,125 +106,72 @@ function cleanHtmlToText(rawHtml: string): string {
   return output;
 }
 
-// parsePriceFromString / parserPrixDepuisChaine : convertit "79,90 €" ou "79.90" en 79.9
-// Converts "79,90 €" or "79.90" to 79.9
-function parsePriceFromString(raw: string): number | null {
-  // retire les espaces et la monnaie / strip spaces & currency symbols
-  const cleaned = raw
-    .replace(/\s/g, '')
-    .replace(/[^\d.,]/g, '') // garde seulement chiffres, . et ,
-    .replace(',', '.');
-
-  const value = Number(cleaned);
-  if (!Number.isFinite(value)) {
-    return null;
+// scrapePage / scraperPage : récupère la page, applique les sélecteurs puis nettoyage + extraction pricing
+// Fetches a page, applies the page selectors, then cleaning + pricing extraction
+export async function scrapePage(
+  url: string,
+  scope: SelectorScope = {},
+): Promise<ScrapeResult> {
+  // basicFetch / recuperationBasique : on utilise fetch côté serveur
+  // Use server-side fetch
+  const timeoutMs = readFetchTimeoutMs();
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        // userAgent / agentUtilisateur : simple UA pour le dev (à personnaliser en prod)
+        // Simple user agent for dev (should be customized in production)
+        'User-Agent':
+          'CompetitiveWatchBot/0.1 (dev; contact: change-me@example.com)',
+        Accept:
+          'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      },
+      cache: 'no-store', // noCache / pasDeCache : on veut du contenu frais
+      signal: AbortSignal.timeout(timeoutMs), // timeout / delaiMax
+    });
+  } catch (error) {
+    throw new ScrapeError(describeFetchFailure(error, timeoutMs));
   }
-  return value;
-}
 
-// extractPricingFromHtml / extraireTarifsDepuisHtml : détecte les produits/prix structurés
-// Detects structured products/pricing from HTML
-function extractPricingFromHtml(rawHtml: string): PricingItem[] {
-  const items: PricingItem[] = [];
-
-  // On cible les blocs <article ... data-sku="..."> ... </article>
-  // We target <article ... data-sku="..."> ... </article> blocks
-  const articleRegex =
-    /<article\b[^>]*data-sku="([^"]+)"[^>]*>([\s\S]*?)<\/article>/gi;
-
-  let articleMatch: RegExpExecArray | null;
-
-  while ((articleMatch = articleRegex.exec(rawHtml)) !== null) {
-    const sku = articleMatch[1];
-    const articleHtml = articleMatch[2];
-
-    // productName / nomProduit
-    const nameMatch =
-      /class="[^"]*product-name[^"]*"[^>]*>([^<]+)<\/h[1-6]>/i.exec(
-        articleHtml,
-      );
-
-    // productPrice / prixProduit : priorité à data-price, sinon texte
-    const priceDataMatch =
-      /class="[^"]*product-price[^"]*"[^>]*data-price="([^"]+)"/i.exec(
-        articleHtml,
-      );
-    const priceTextMatch =
-      /class="[^"]*product-price[^"]*"[^>]*>([^<]+)<\/p>/i.exec(
-        articleHtml,
-      );
-
-    // productAvailability / disponibiliteProduit
-    const availabilityMatch =
-      /class="[^"]*product-availability[^"]*"[^>]*>([^<]+)<\/p>/i.exec(
-        articleHtml,
-      );
-
-    if (!nameMatch || (!priceDataMatch && !priceTextMatch)) {
-      // si on n'a ni nom ni prix, on ignore ce bloc
-      // if we don't have name and price, skip this block
-      continue;
-    }
-
-    const name = nameMatch[1].trim();
-
-    const rawPrice =
-      (priceDataMatch && priceDataMatch[1]) ||
-      (priceTextMatch && priceTextMatch[1]) ||
-      '';
-
-    const price = parsePriceFromString(rawPrice);
-    if (price === null) {
-      continue;
-    }
-
-    const availability = availabilityMatch
-      ? availabilityMatch[1].trim()
-      : undefined;
-
-    items.push({
-      sku,
-      name,
-      price,
-      currency: 'EUR',
-      availability,
-    });
+  if (!response.ok) {
+    throw new ScrapeError(
+      `Impossible de récupérer la page (${response.status}). / Failed to fetch page (${response.status}).`,
+      response.status,
+    );
   }
 
-  return items;
-}
+  let rawHtml: string;
+  try {
+    rawHtml = await response.text();
+  } catch (error) {
+    throw new ScrapeError(
+      describeFetchFailure(error, timeoutMs),
+      response.status,
+    );
+  }
 
-// scrapePage / scraperPage : récupère la page et applique le nettoyage + extraction pricing
-// Fetches a page and applies cleaning + pricing extraction
-export async function scrapePage(url: string): Promise<ScrapeResult> {
-  // basicFetch / recuperationBasique : on utilise fetch côté serveur
-  // Use server-side fetch
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      // userAgent / agentUtilisateur : simple UA pour le dev (à personnaliser en prod)
-      // Simple user agent for dev (should be customized in production)
-      'User-Agent':
-        'CompetitiveWatchBot/0.1 (dev; contact: change-me@example.com)',
-      Accept:
-        'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-    },
-    cache: 'no-store', // noCache / pasDeCache : on veut du contenu frais
-  });
+  // selectorScope / perimetreSelecteurs : avant cleanHtmlToText pour écarter le bruit
+  // Applied before cleanHtmlToText so excluded noise never reaches the text
+  const scoped = applySelectorScope(rawHtml, scope);
 
-  if (!response.ok) {
-    throw new Error(
-      `Impossible de récupérer la page (${response.status}). / Failed to fetch page (${response.status}).`,
+  if (scoped.includeMatches === 0) {
+    throw new ScrapeError(
+      "Aucun élément ne correspond aux sélecteurs d'inclusion. / No element matches the include selectors.",
+      response.status,
     );
   }
 
-  const rawHtml = await response.text();
-  const extractedText = cleanHtmlToText(rawHtml);
-  const pricingData = extractPricingFromHtml(rawHtml);
+  const extractedText = cleanHtmlToText(scoped.html);
+  const pricing = extractPricing({ rawHtml: scoped.html, extractedText });
 
   return {
     rawHtml,
+    scopedHtml: scoped.html,
     extractedText,
-    pricingData,
+    pricing,
+    httpStatus: response.status,
+    bytes: Buffer.byteLength(rawHtml, 'utf8'),
   };
 }
@@ -0,0 +1,153 @@
+// sections / sections : découpage d'une page en sections (titres h1–h6, section/article avec id)
+// Splits a page into sections keyed by headings (h1–h6) and section/article ids
+
+// PageSection / sectionPage : section détectée dans le HTML
+// Section detected in the HTML
+export type PageSection = {
+  key: string;      // sectionKey / cleSection : "#id" ou titre normalisé / "#id" or normalized title
+  title: string;    // sectionTitle / titreSection : texte affiché / displayed text
+  tag: string;      // sourceTag / baliseSource : h1…h6, section, article
+  preview: string;  // contentPreview / apercuContenu : début du texte de la section
+};
+
+// SectionDiff / diffSections : sections apparues / disparues entre deux snapshots
+// Sections that appeared / disappeared between two snapshots
+export type SectionDiff = {
+  added: PageSection[];
+  removed: PageSection[];
+};
+
+const PREVIEW_LENGTH = 500;
+
+// decodeEntities / decoderEntites : entités HTML les plus courantes dans les titres
+// Most common HTML entities found in headings
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#0?39;|&apos;/gi, "'")
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)));
+}
+
+// htmlFragmentToText / fragmentHtmlEnTexte : texte sur une ligne, balises retirées
+// Single-line text with tags stripped
+function htmlFragmentToText(fragment: string): string {
+  return decodeEntities(fragment.replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// normalizeKey / normaliserCle : clé stable indépendante de la casse et des espaces
+// Stable key, case and whitespace insensitive
+function normalizeKey(title: string): string {
+  return title.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// SectionToken / jetonSection : titre ou conteneur repéré dans le HTML
+// Heading or container found in the HTML
+type SectionToken =
+  | { kind: 'heading'; tag: string; title: string; start: number; end: number }
+  | { kind: 'container'; tag: string; id: string; start: number; end: number };
+
+// extractSections / extraireSections : liste ordonnée des sections d'une page
+// Ordered list of the page sections
+export function extractSections(rawHtml: string | null | undefined): PageSection[] {
+  if (!rawHtml) return [];
+
+  // stripNonContent / retirerNonContenu : scripts, styles et commentaires
+  // Scripts, styles and comments
+  const html = rawHtml
+    .replace(/<script[\s\S]*?<\/script>/gi, ' ')
+    .replace(/<style[\s\S]*?<\/style>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ');
+
+  const tokenRegex =
+    /<(h[1-6])\b[^>]*>([\s\S]*?)<\/\1\s*>|<(section|article)\b([^>]*)>/gi;
+
+  const tokens: SectionToken[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenRegex.exec(html)) !== null) {
+    const start = match.index;
+    const end = start + match[0].length;
+
+    if (match[1]) {
+      const title = htmlFragmentToText(match[2]);
+      if (title) {
+        tokens.push({ kind: 'heading', tag: match[1].toLowerCase(), title, start, end });
+      }
+      continue;
+    }
+
+    const idMatch = /\bid\s*=\s*["']([^"']+)["']/i.exec(match[4] ?? '');
+    if (idMatch) {
+      tokens.push({
+        kind: 'container',
+        tag: match[3].toLowerCase(),
+        id: idMatch[1].trim(),
+        start,
+        end,
+      });
+    }
+  }
+
+  const sections: PageSection[] = [];
+  const occurrences = new Map<string, number>();
+
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    let title: string;
+    let key: string;
+    let contentStart = token.end;
+
+    if (token.kind === 'container') {
+      // containerTitle / titreConteneur : premier titre du conteneur s'il suit directement
+      // First heading of the container when it comes right after it
+      const next = tokens[index + 1];
+      if (next && next.kind === 'heading') {
+        title = next.title;
+        contentStart = next.end;
+        index += 1;
+      } else {
+        title = token.id;
+      }
+      key = `#${token.id}`;
+    } else {
+      title = token.title;
+      key = normalizeKey(token.title);
+    }
+
+    // duplicateTitles / titresEnDouble : "Features", "Features#2"…
+    const seen = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, seen);
+    if (seen > 1) key = `${key}#${seen}`;
+
+    const contentEnd = tokens[index + 1]?.start ?? html.length;
+    const preview = htmlFragmentToText(html.slice(contentStart, contentEnd)).slice(
+      0,
+      PREVIEW_LENGTH,
+    );
+
+    sections.push({ key, title, tag: token.tag, preview });
+  }
+
+  return sections;
+}
+
+// diffSections / comparerSections : sections ajoutées / supprimées (par clé)
+// Added / removed sections (by key)
+export function diffSections(
+  oldSections: PageSection[],
+  newSections: PageSection[],
+): SectionDiff {
+  const oldKeys = new Set(oldSections.map((section) => section.key));
+  const newKeys = new Set(newSections.map((section) => section.key));
+
+  return {
+    added: newSections.filter((section) => !oldKeys.has(section.key)),
+    removed: oldSections.filter((section) => !newKeys.has(section.key)),
+  };
+}
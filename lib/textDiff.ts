@@ -0,0 +1,481 @@
+// textDiff / diffTexte : diff ligne + mot (Myers) entre deux textes extraits
+// Line + word level diff (Myers) between two extracted texts
+
+// WordSegment / segmentMot : morceau d'une ligne modifiée (inchangé, ajouté ou supprimé)
+// Piece of a modified line (unchanged, added or removed)
+export type WordSegment = {
+  kind: 'equal' | 'added' | 'removed';
+  text: string;
+};
+
+// DiffLine / ligneDiff : ligne de contexte, ajoutée, supprimée ou modifiée (avec détail par mot)
+// Context, added, removed or modified line (with word-level detail)
+export type DiffLine =
+  | { kind: 'context'; text: string }
+  | { kind: 'added'; text: string }
+  | { kind: 'removed'; text: string }
+  | {
+      kind: 'modified';
+      oldText: string;
+      newText: string;
+      segments: WordSegment[];
+    };
+
+// DiffHunk / blocDiff : groupe de lignes modifiées entouré de contexte
+// Group of changed lines surrounded by context
+export type DiffHunk = {
+  oldStart: number; // premier numéro de ligne (ancien, 1-based) / first old line number
+  newStart: number; // premier numéro de ligne (nouveau, 1-based) / first new line number
+  lines: DiffLine[];
+};
+
+// TextDiffStats / statsDiffTexte : volumes ajoutés / supprimés
+// Added / removed volumes
+export type TextDiffStats = {
+  linesAdded: number;
+  linesRemoved: number;
+  linesModified: number;
+  wordsAdded: number;
+  wordsRemoved: number;
+};
+
+// TextDiff / diffTexte : structure stockée dans Change.diff
+// Structure stored in Change.diff
+export type TextDiff = {
+  version: 1;
+  stats: TextDiffStats;
+  hunks: DiffHunk[];
+  truncated: boolean; // hunks tronqués / hunks were capped
+};
+
+// EditOp / operationEdition : sortie brute de l'algorithme de Myers
+// Raw output of the Myers algorithm
+type EditOp =
+  | { kind: 'equal'; oldIndex: number; newIndex: number }
+  | { kind: 'delete'; oldIndex: number }
+  | { kind: 'insert'; newIndex: number };
+
+// limits / limites : bornent le coût CPU et la taille du JSON stocké
+// Bound CPU cost and stored JSON size
+const MAX_EDIT_DISTANCE = 1000;
+const CONTEXT_LINES = 2;
+const MAX_HUNKS = 40;
+const MAX_DIFF_LINES = 400;
+const MIN_PAIR_SIMILARITY = 0.3;
+
+// myersDiff / diffMyers : plus courte séquence d'édition entre a et b
+// Shortest edit script between a and b (Myers O(ND))
+function myersDiff(a: string[], b: string[]): EditOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const maxD = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = maxD + 1;
+  const v = new Int32Array(2 * maxD + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= maxD; d += 1) {
+    trace.push(v.slice());
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x += 1;
+        y += 1;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, d, n, m, offset);
+      }
+    }
+  }
+
+  // tooManyEdits / tropDEditions : l'appelant bascule sur un remplacement global
+  // The caller falls back to a global replacement
+  return null;
+}
+
+// backtrack / remonter : reconstruit les opérations depuis la trace des frontières
+// Rebuilds operations from the recorded frontiers
+function backtrack(
+  trace: Int32Array[],
+  finalD: number,
+  n: number,
+  m: number,
+  offset: number,
+): EditOp[] {
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = finalD; d > 0; d -= 1) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? k + 1
+        : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x -= 1;
+      y -= 1;
+      ops.push({ kind: 'equal', oldIndex: x, newIndex: y });
+    }
+
+    if (prevK === k + 1) {
+      ops.push({ kind: 'insert', newIndex: prevY });
+    } else {
+      ops.push({ kind: 'delete', oldIndex: prevX });
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    x -= 1;
+    y -= 1;
+    ops.push({ kind: 'equal', oldIndex: x, newIndex: y });
+  }
+
+  return ops.reverse();
+}
+
+// diffSequences / diffSequences : Myers avec préfixe/suffixe communs retirés
+// Myers with common prefix/suffix stripped first (cheap and very common)
+function diffSequences(a: string[], b: string[]): EditOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix += 1;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+
+  const middleOps: EditOp[] = myersDiff(middleA, middleB) ?? [
+    ...middleA.map((_, index) => ({ kind: 'delete' as const, oldIndex: index })),
+    ...middleB.map((_, index) => ({ kind: 'insert' as const, newIndex: index })),
+  ];
+
+  const ops: EditOp[] = [];
+  for (let i = 0; i < prefix; i += 1) {
+    ops.push({ kind: 'equal', oldIndex: i, newIndex: i });
+  }
+  for (const op of middleOps) {
+    if (op.kind === 'equal') {
+      ops.push({
+        kind: 'equal',
+        oldIndex: op.oldIndex + prefix,
+        newIndex: op.newIndex + prefix,
+      });
+    } else if (op.kind === 'delete') {
+      ops.push({ kind: 'delete', oldIndex: op.oldIndex + prefix });
+    } else {
+      ops.push({ kind: 'insert', newIndex: op.newIndex + prefix });
+    }
+  }
+  for (let i = 0; i < suffix; i += 1) {
+    ops.push({
+      kind: 'equal',
+      oldIndex: a.length - suffix + i,
+      newIndex: b.length - suffix + i,
+    });
+  }
+
+  return ops;
+}
+
+// splitLines / decouperLignes : lignes non vides, espaces normalisés
+// Non-empty lines with normalized whitespace
+function splitLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line.length > 0);
+}
+
+// tokenizeWords / decouperMots : mots + espaces (pour reconstruire la ligne à l'identique)
+// Words + whitespace tokens (so the line can be rebuilt as-is)
+function tokenizeWords(line: string): string[] {
+  return line.split(/(\s+)/).filter((token) => token.length > 0);
+}
+
+// countWords / compterMots
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+// diffWords / diffMots : segments mot à mot entre deux versions d'une ligne
+// Word-by-word segments between two versions of a line
+function diffWords(oldLine: string, newLine: string): WordSegment[] {
+  const a = tokenizeWords(oldLine);
+  const b = tokenizeWords(newLine);
+  const segments: WordSegment[] = [];
+
+  const push = (kind: WordSegment['kind'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind) {
+      last.text += text;
+    } else {
+      segments.push({ kind, text });
+    }
+  };
+
+  for (const op of diffSequences(a, b)) {
+    if (op.kind === 'equal') push('equal', a[op.oldIndex]);
+    else if (op.kind === 'delete') push('removed', a[op.oldIndex]);
+    else push('added', b[op.newIndex]);
+  }
+
+  return segments;
+}
+
+// lineSimilarity / similariteLignes : part de mots communs (Dice) pour apparier ancien / nouveau
+// Share of common words (Dice) used to pair old / new lines
+function lineSimilarity(oldLine: string, newLine: string): number {
+  const a = oldLine.toLowerCase().split(' ');
+  const b = newLine.toLowerCase().split(' ');
+  const counts = new Map<string, number>();
+  for (const word of a) counts.set(word, (counts.get(word) ?? 0) + 1);
+
+  let common = 0;
+  for (const word of b) {
+    const count = counts.get(word) ?? 0;
+    if (count > 0) {
+      common += 1;
+      counts.set(word, count - 1);
+    }
+  }
+
+  return (2 * common) / (a.length + b.length);
+}
+
+// NumberedLine / ligneNumerotee : ligne de diff + position dans chaque version
+// Diff line + position in each version
+type NumberedLine = {
+  line: DiffLine;
+  oldNumber: number; // numéro de ligne courant côté ancien / current old line number
+  newNumber: number; // numéro de ligne courant côté nouveau / current new line number
+};
+
+// pairChangeBlock / apparierBlocChangement : transforme suppressions + ajouts voisins en modifications
+// Turns neighbouring removals + additions into modified lines when they look alike
+function pairChangeBlock(removed: string[], added: string[]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  const pairs = Math.min(removed.length, added.length);
+  let i = 0;
+
+  for (; i < pairs; i += 1) {
+    if (lineSimilarity(removed[i], added[i]) < MIN_PAIR_SIMILARITY) break;
+    lines.push({
+      kind: 'modified',
+      oldText: removed[i],
+      newText: added[i],
+      segments: diffWords(removed[i], added[i]),
+    });
+  }
+
+  for (const text of removed.slice(i)) lines.push({ kind: 'removed', text });
+  for (const text of added.slice(i)) lines.push({ kind: 'added', text });
+
+  return lines;
+}
+
+// computeTextDiff / calculerDiffTexte : diff structuré (hunks + stats) entre deux textes
+// Structured diff (hunks + stats) between two texts
+export function computeTextDiff(oldText: string, newText: string): TextDiff {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+  const ops = diffSequences(a, b);
+
+  // numberedLines / lignesNumerotees : opérations → lignes typées, blocs appariés
+  // Operations → typed lines, change blocks paired
+  const numbered: NumberedLine[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+  let removedBlock: string[] = [];
+  let addedBlock: string[] = [];
+
+  const flushBlock = () => {
+    if (removedBlock.length === 0 && addedBlock.length === 0) return;
+    for (const line of pairChangeBlock(removedBlock, addedBlock)) {
+      numbered.push({ line, oldNumber, newNumber });
+      if (line.kind !== 'added') oldNumber += 1;
+      if (line.kind !== 'removed') newNumber += 1;
+    }
+    removedBlock = [];
+    addedBlock = [];
+  };
+
+  for (const op of ops) {
+    if (op.kind === 'equal') {
+      flushBlock();
+      numbered.push({
+        line: { kind: 'context', text: a[op.oldIndex] },
+        oldNumber,
+        newNumber,
+      });
+      oldNumber += 1;
+      newNumber += 1;
+    } else if (op.kind === 'delete') {
+      removedBlock.push(a[op.oldIndex]);
+    } else {
+      addedBlock.push(b[op.newIndex]);
+    }
+  }
+  flushBlock();
+
+  // stats / statistiques
+  const stats: TextDiffStats = {
+    linesAdded: 0,
+    linesRemoved: 0,
+    linesModified: 0,
+    wordsAdded: 0,
+    wordsRemoved: 0,
+  };
+
+  for (const { line } of numbered) {
+    if (line.kind === 'added') {
+      stats.linesAdded += 1;
+      stats.wordsAdded += countWords(line.text);
+    } else if (line.kind === 'removed') {
+      stats.linesRemoved += 1;
+      stats.wordsRemoved += countWords(line.text);
+    } else if (line.kind === 'modified') {
+      stats.linesModified += 1;
+      for (const segment of line.segments) {
+        if (segment.kind === 'added') stats.wordsAdded += countWords(segment.text);
+        if (segment.kind === 'removed') stats.wordsRemoved += countWords(segment.text);
+      }
+    }
+  }
+
+  // buildHunks / construireHunks : lignes changées + CONTEXT_LINES de contexte de chaque côté
+  // Changed lines + CONTEXT_LINES of context on each side
+  const hunks: DiffHunk[] = [];
+  let truncated = false;
+  let storedLines = 0;
+  let index = 0;
+
+  while (index < numbered.length) {
+    if (numbered[index].line.kind === 'context') {
+      index += 1;
+      continue;
+    }
+
+    if (hunks.length >= MAX_HUNKS || storedLines >= MAX_DIFF_LINES) {
+      truncated = true;
+      break;
+    }
+
+    const start = Math.max(0, index - CONTEXT_LINES);
+    let end = index;
+    let cursor = index;
+
+    // mergeNearby / fusionnerProches : deux changements séparés par peu de contexte = un seul hunk
+    // Two changes separated by little context end up in the same hunk
+    while (cursor < numbered.length) {
+      if (numbered[cursor].line.kind !== 'context') {
+        end = cursor;
+        cursor += 1;
+        continue;
+      }
+      if (cursor - end > 2 * CONTEXT_LINES) break;
+      cursor += 1;
+    }
+
+    let stop = Math.min(numbered.length, end + CONTEXT_LINES + 1);
+    if (storedLines + (stop - start) > MAX_DIFF_LINES) {
+      stop = start + (MAX_DIFF_LINES - storedLines);
+      truncated = true;
+    }
+
+    hunks.push({
+      oldStart: numbered[start].oldNumber,
+      newStart: numbered[start].newNumber,
+      lines: numbered.slice(start, stop).map((entry) => entry.line),
+    });
+    storedLines += stop - start;
+
+    index = stop;
+  }
+
+  return { version: 1, stats, hunks, truncated };
+}
+
+// hasMeaningfulDiff / diffSignificatif : au moins une ligne ajoutée, supprimée ou modifiée
+// At least one added, removed or modified line (whitespace-only edits are ignored)
+export function hasMeaningfulDiff(diff: TextDiff): boolean {
+  const { linesAdded, linesRemoved, linesModified } = diff.stats;
+  return linesAdded + linesRemoved + linesModified > 0;
+}
+
+// collectChangedText / collecterTexteModifie : texte ancien ou nouveau des lignes changées
+// Old or new text of the changed lines (context excluded)
+export function collectChangedText(
+  diff: TextDiff,
+  side: 'old' | 'new',
+): string {
+  const lines: string[] = [];
+
+  for (const hunk of diff.hunks) {
+    for (const line of hunk.lines) {
+      if (line.kind === 'modified') {
+        lines.push(side === 'old' ? line.oldText : line.newText);
+      } else if (
+        (side === 'old' && line.kind === 'removed') ||
+        (side === 'new' && line.kind === 'added')
+      ) {
+        lines.push(line.text);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// summarizeTextDiff / resumerDiffTexte : résumé bilingue pour Change.changeSummary
+// Bilingual summary for Change.changeSummary
+export function summarizeTextDiff(stats: TextDiffStats): string {
+  return (
+    `Contenu texte modifié : ${stats.linesAdded} ligne(s) ajoutée(s), ${stats.linesRemoved} supprimée(s), ` +
+    `${stats.linesModified} modifiée(s) (+${stats.wordsAdded} / -${stats.wordsRemoved} mots). / ` +
+    `Text content changed: ${stats.linesAdded} line(s) added, ${stats.linesRemoved} removed, ` +
+    `${stats.linesModified} modified (+${stats.wordsAdded} / -${stats.wordsRemoved} words).`
+  );
+}
+
+// parseTextDiff / parserDiffTexte : relit le JSON stocké (null si absent ou d'une autre forme)
+// Reads back stored JSON (null if missing or of another shape)
+export function parseTextDiff(raw: unknown): TextDiff | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const candidate = raw as Partial<TextDiff>;
+  if (
+    candidate.version !== 1 ||
+    !Array.isArray(candidate.hunks) ||
+    !candidate.stats ||
+    typeof candidate.stats !== 'object'
+  ) {
+    return null;
+  }
+
+  return candidate as TextDiff;
+}
@@ -0,0 +1,339 @@
+// webhookMessages / messagesWebhook : enveloppe des événements et mise en forme Slack / Teams
+// Event envelope shared by every webhook, and its Slack Block Kit / Teams MessageCard rendering.
+// Fonctions pures (sans accès base), appliquées au moment de l'envoi à partir du payload stocké
+// Pure functions (no database access), applied at send time to the stored payload
+
+import { formatPrice, formatPriceDelta } from '@/lib/pricingDiff';
+import type { ReportHighlight } from '@/lib/reportHighlights';
+import type { WebhookKind } from '@prisma/client';
+
+// ChangeEventData / donneesEvenementChangement : data de change.created
+// data of change.created
+export type ChangeEventData = {
+  change: {
+    id: number;
+    createdAt: string;
+    changeType: string;
+    changeSummary: string | null;
+    field: string | null;
+    priceChangeKind: string | null;
+    oldPrice: number | null;
+    newPrice: number | null;
+    priceDelta: number | null;
+    priceDeltaPct: number | null;
+    currency: string | null;
+    oldCurrency?: string | null; // absent des livraisons antérieures / missing from older deliveries
+  };
+  page: { id: number; url: string; pageType: string };
+  competitor: { id: number; name: string };
+  links?: { change: string }; // absent des livraisons antérieures / missing from older deliveries
+};
+
+// ReportEventData / donneesEvenementRapport : data de report.generated
+// data of report.generated
+export type ReportEventData = {
+  report: {
+    id: number;
+    trigger: string;
+    periodStart: string | null;
+    periodEnd: string | null;
+    generatedAt: string;
+    summary: string | null;
+    highlights: ReportHighlight[];
+    pdfUrl: string;
+  };
+  links?: { report: string; pdf: string };
+};
+
+// AlertEventData / donneesEvenementAlerte : data de alert.triggered (change null pour FETCH_FAILURES)
+// data of alert.triggered (change is null for FETCH_FAILURES)
+export type AlertEventData = {
+  alert: {
+    id: number;
+    ruleId: number;
+    ruleName: string;
+    kind: string;
+    message: string;
+    createdAt: string;
+  };
+  page: { id: number; url: string; pageType: string };
+  competitor: { id: number; name: string };
+  change: { id: number; changeType: string; priceDelta: number | null } | null;
+  links?: { alerts: string; change?: string };
+};
+
+// WebhookEnvelope / enveloppeWebhook : corps des webhooks GENERIC (JSON signé)
+// Body of GENERIC webhooks (signed JSON)
+export type WebhookEnvelope = {
+  event: string;
+  occurredAt: string;
+  project: { id: number; name: string };
+  data: Record<string, unknown>;
+};
+
+// labelsTypePage / libellesTypePage
+const PAGE_TYPE_LABELS: Record<string, string> = {
+  PRICING: 'Pricing / Tarifs',
+  LANDING: 'Landing / Page principale',
+  PRODUCT: 'Produit / Offre',
+  BLOG: 'Blog / Contenu',
+  OTHER: 'Autre',
+};
+
+// labelsTypeChangement / libellesTypeChangement
+const CHANGE_TYPE_LABELS: Record<string, string> = {
+  TEXT: 'Changement de texte',
+  PRICE: 'Changement de prix',
+  SECTION_ADDED: 'Section ajoutée',
+  SECTION_REMOVED: 'Section supprimée',
+  OTHER: 'Autre changement',
+};
+
+// teamsColors / couleursTeams : hausse de prix en rouge, baisse en vert, reste en bleu
+// Price increase in red, decrease in green, everything else in blue
+const TEAMS_COLOR_DEFAULT = '0EA5E9';
+const TEAMS_COLOR_UP = 'EF4444';
+const TEAMS_COLOR_DOWN = '10B981';
+const TEAMS_COLOR_ALERT = 'F59E0B';
+
+// limits / limites : bornes des blocs Slack (header 150, section 3000)
+// Slack block limits (header 150, section 3000)
+const MAX_HEADER_LENGTH = 150;
+const MAX_TEXT_LENGTH = 2900;
+const MAX_CHAT_HIGHLIGHTS = 5;
+
+// ChatMessage / messageChat : contenu commun avant mise en forme Slack / Teams
+// Common content before Slack / Teams formatting
+type ChatMessage = {
+  title: string;
+  subtitle: string;
+  text: string;
+  facts: { name: string; value: string }[];
+  links: { label: string; url: string }[];
+  color: string;
+};
+
+// truncate / tronquer
+function truncate(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value;
+}
+
+// escapeSlack / echapperSlack : &, < et > sont réservés dans le mrkdwn Slack
+// &, < and > are reserved in Slack mrkdwn
+function escapeSlack(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// formatDay / formaterJour : "2025-12-08"
+function formatDay(value: string | null): string {
+  return value ? value.slice(0, 10) : '…';
+}
+
+// changeMessage / messageChangement : concurrent, type de page, résumé, écart de prix, lien
+// Competitor, page type, summary, price delta, link
+function changeMessage(envelope: WebhookEnvelope, data: ChangeEventData): ChatMessage {
+  const { change, page, competitor } = data;
+  const facts = [
+    { name: 'Concurrent / Competitor', value: competitor.name },
+    { name: 'Type de page / Page type', value: PAGE_TYPE_LABELS[page.pageType] ?? page.pageType },
+    { name: 'Type / Change type', value: CHANGE_TYPE_LABELS[change.changeType] ?? change.changeType },
+  ];
+
+  const delta = formatPriceDelta(change.priceDelta, change.priceDeltaPct, change.currency);
+  if (change.changeType === 'PRICE' && (change.oldPrice !== null || change.newPrice !== null)) {
+    facts.push({
+      name: 'Prix / Price',
+      value: `${formatPrice(change.oldPrice, change.oldCurrency ?? change.currency)} → ${formatPrice(change.newPrice, change.currency)}${
+        delta ? ` (${delta})` : ''
+      }`,
+    });
+  }
+
+  const links = [{ label: 'Page surveillée / Monitored page', url: page.url }];
+  if (data.links?.change) {
+    links.unshift({ label: 'Voir le changement / View change', url: data.links.change });
+  }
+
+  return {
+    title: `${competitor.name} · ${PAGE_TYPE_LABELS[page.pageType] ?? page.pageType}`,
+    subtitle: `${envelope.project.name} · ${change.field ?? page.url}`,
+    text: change.changeSummary ?? CHANGE_TYPE_LABELS[change.changeType] ?? change.changeType,
+    facts,
+    links,
+    color:
+      change.priceDelta && change.priceDelta > 0
+        ? TEAMS_COLOR_UP
+        : change.priceDelta && change.priceDelta < 0
+          ? TEAMS_COLOR_DOWN
+          : TEAMS_COLOR_DEFAULT,
+  };
+}
+
+// reportMessage / messageRapport : résumé + 5 premiers faits marquants
+// Summary + first 5 highlights
+function reportMessage(envelope: WebhookEnvelope, data: ReportEventData): ChatMessage {
+  const { report } = data;
+  const highlights = report.highlights.slice(0, MAX_CHAT_HIGHLIGHTS);
+  const highlightLines = highlights.map(
+    (highlight) => `• [${highlight.impact}] ${highlight.competitor} : ${highlight.title}`,
+  );
+  if (report.highlights.length > highlights.length) {
+    highlightLines.push(`… +${report.highlights.length - highlights.length}`);
+  }
+
+  const links: ChatMessage['links'] = [];
+  if (data.links) {
+    links.push(
+      { label: 'Rapports / Reports', url: data.links.report },
+      { label: 'PDF', url: data.links.pdf },
+    );
+  }
+
+  return {
+    title: `Rapport de veille / Report – ${envelope.project.name}`,
+    subtitle: `${formatDay(report.periodStart)} → ${formatDay(report.periodEnd)}${
+      report.trigger === 'SCHEDULED' ? ' · Planifié / Scheduled' : ''
+    }`,
+    text: [report.summary ?? '', highlightLines.join('\n')].filter(Boolean).join('\n\n'),
+    facts: [{ name: 'Faits marquants / Highlights', value: String(report.highlights.length) }],
+    links,
+    color: TEAMS_COLOR_DEFAULT,
+  };
+}
+
+// alertMessage / messageAlerte : nom de la règle, message, concurrent et page
+// Rule name, message, competitor and page
+function alertMessage(envelope: WebhookEnvelope, data: AlertEventData): ChatMessage {
+  const { alert, page, competitor, change } = data;
+
+  const links = [{ label: 'Page surveillée / Monitored page', url: page.url }];
+  if (data.links?.change) {
+    links.unshift({ label: 'Voir le changement / View change', url: data.links.change });
+  }
+  if (data.links?.alerts) {
+    links.unshift({ label: 'Alertes / Alerts', url: data.links.alerts });
+  }
+
+  return {
+    title: `Alerte / Alert : ${alert.ruleName}`,
+    subtitle: `${envelope.project.name} · ${competitor.name} · ${
+      PAGE_TYPE_LABELS[page.pageType] ?? page.pageType
+    }`,
+    text: alert.message,
+    facts: [
+      { name: 'Concurrent / Competitor', value: competitor.name },
+      { name: 'Page', value: page.url },
+    ],
+    links,
+    color:
+      change?.priceDelta && change.priceDelta > 0
+        ? TEAMS_COLOR_UP
+        : change?.priceDelta && change.priceDelta < 0
+          ? TEAMS_COLOR_DOWN
+          : TEAMS_COLOR_ALERT,
+  };
+}
+
+// toChatMessage / versMessageChat : événement inconnu ou test → message simple
+// Unknown event or test → plain message
+function toChatMessage(envelope: WebhookEnvelope): ChatMessage {
+  if (envelope.event === 'change.created') {
+    return changeMessage(envelope, envelope.data as unknown as ChangeEventData);
+  }
+  if (envelope.event === 'report.generated') {
+    return reportMessage(envelope, envelope.data as unknown as ReportEventData);
+  }
+  if (envelope.event === 'alert.triggered') {
+    return alertMessage(envelope, envelope.data as unknown as AlertEventData);
+  }
+  return {
+    title: `Competitive Watch – ${envelope.project.name}`,
+    subtitle: envelope.event,
+    text:
+      typeof envelope.data.message === 'string'
+        ? envelope.data.message
+        : 'Événement de test. / Test event.',
+    facts: [],
+    links: [],
+    color: TEAMS_COLOR_DEFAULT,
+  };
+}
+
+// formatSlackMessage / formaterMessageSlack : Block Kit (header, section, champs, boutons)
+// Block Kit (header, section, fields, buttons); `text` is the notification fallback
+export function formatSlackMessage(envelope: WebhookEnvelope): Record<string, unknown> {
+  const message = toChatMessage(envelope);
+  const blocks: Record<string, unknown>[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: truncate(message.title, MAX_HEADER_LENGTH) },
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: escapeSlack(message.subtitle) }],
+    },
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: escapeSlack(truncate(message.text, MAX_TEXT_LENGTH)) },
+    },
+  ];
+
+  if (message.facts.length > 0) {
+    blocks.push({
+      type: 'section',
+      fields: message.facts.map((fact) => ({
+        type: 'mrkdwn',
+        text: `*${escapeSlack(fact.name)}*\n${escapeSlack(fact.value)}`,
+      })),
+    });
+  }
+
+  if (message.links.length > 0) {
+    blocks.push({
+      type: 'actions',
+      elements: message.links.map((link) => ({
+        type: 'button',
+        text: { type: 'plain_text', text: link.label },
+        url: link.url,
+      })),
+    });
+  }
+
+  return {
+    text: truncate(`${message.title} – ${message.text}`, MAX_TEXT_LENGTH),
+    blocks,
+  };
+}
+
+// formatTeamsMessage / formaterMessageTeams : MessageCard (faits + actions OpenUri)
+// MessageCard (facts + OpenUri actions)
+export function formatTeamsMessage(envelope: WebhookEnvelope): Record<string, unknown> {
+  const message = toChatMessage(envelope);
+  return {
+    '@type': 'MessageCard',
+    '@context': 'https://schema.org/extensions',
+    summary: truncate(message.title, MAX_HEADER_LENGTH),
+    themeColor: message.color,
+    title: message.title,
+    sections: [
+      {
+        activityTitle: message.subtitle,
+        text: truncate(message.text, MAX_TEXT_LENGTH).replace(/\n/g, '<br>'),
+        facts: message.facts,
+      },
+    ],
+    potentialAction: message.links.map((link) => ({
+      '@type': 'OpenUri',
+      name: link.label,
+      targets: [{ os: 'default', uri: link.url }],
+    })),
+  };
+}
+
+// formatWebhookBody / formaterCorpsWebhook : corps JSON envoyé selon le format du webhook
+// JSON body sent for the webhook format
+export function formatWebhookBody(kind: WebhookKind, envelope: WebhookEnvelope): string {
+  if (kind === 'SLACK') return JSON.stringify(formatSlackMessage(envelope));
+  if (kind === 'TEAMS') return JSON.stringify(formatTeamsMessage(envelope));
+  return JSON.stringify(envelope);
+}
@@ -0,0 +1,63 @@
+// webhookSignature / signatureWebhook : signature HMAC-SHA256 des webhooks sortants
+// HMAC-SHA256 signing of outgoing webhooks.
+// Sans accès base : partagé par lib/webhooks.ts et le récepteur local (scripts/webhook-echo.ts)
+// No database access: shared by lib/webhooks.ts and the local receiver (scripts/webhook-echo.ts)
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+// headers / entetes : envoyés avec chaque essai
+// Sent with every attempt
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature'; // sha256=<hex>
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp'; // secondes Unix / Unix seconds
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Webhook-Delivery';
+
+// maxClockSkew / decalageMax : au-delà, une signature valide est refusée (rejeu)
+// Beyond this, a valid signature is rejected (replay)
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+// generateWebhookSecret / genererSecretWebhook
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+// maskWebhookSecret / masquerSecretWebhook : "whsec_…9f3a" (le secret complet n'est affiché qu'une fois)
+// The full secret is only shown once
+export function maskWebhookSecret(secret: string): string {
+  return `whsec_…${secret.slice(-4)}`;
+}
+
+// signWebhookPayload / signerCorpsWebhook : HMAC-SHA256 de "<timestamp>.<corps>"
+// HMAC-SHA256 of "<timestamp>.<body>"; the timestamp is signed to prevent replays
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+// verifyWebhookSignature / verifierSignatureWebhook : comparaison à temps constant + fenêtre de 5 min
+// Constant-time comparison + 5 minute window
+export function verifyWebhookSignature(params: {
+  secret: string;
+  timestamp: string | null;
+  body: string;
+  signature: string | null;
+  now?: Date;
+}): boolean {
+  const { secret, body, signature, now = new Date() } = params;
+  const timestamp = Number(params.timestamp);
+
+  if (!signature || !Number.isInteger(timestamp)) return false;
+  if (Math.abs(now.getTime() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
@@ -0,0 +1,504 @@
+// webhooks / webhooksSortants : événements de projet envoyés en JSON signé (HMAC-SHA256),
+// ou mis en forme pour Slack / Teams (lib/webhookMessages.ts)
+// Project events sent as signed JSON (HMAC-SHA256) or formatted for Slack / Teams,
+// with a delivery log and exponential backoff.
+// Livraisons mises en file puis premier essai en arrière-plan (jamais sur le chemin de la requête) ;
+// les nouveaux essais sont faits par le planificateur (lib/scheduler.ts)
+// Deliveries are queued, then first attempted in the background (never on the request path);
+// retries are run by the scheduler (lib/scheduler.ts)
+
+import { appUrl } from '@/lib/appUrl';
+import { prisma } from '@/lib/db';
+import { parseReportBaseline } from '@/lib/reportBaseline';
+import { parseHighlights } from '@/lib/reportHighlights';
+import {
+  formatWebhookBody,
+  type AlertEventData,
+  type ChangeEventData,
+  type ReportEventData,
+  type WebhookEnvelope,
+} from '@/lib/webhookMessages';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  maskWebhookSecret,
+  signWebhookPayload,
+} from '@/lib/webhookSignature';
+import type {
+  Change,
+  Prisma,
+  Report,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEventType,
+  WebhookKind,
+} from '@prisma/client';
+
+const MINUTE_MS = 60 * 1000;
+
+// maxWebhookAttempts / nbMaxEssaisWebhook : 1 premier essai + 5 nouveaux essais
+// 1 first attempt + 5 retries, then FAILED
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+
+// backoff / attenteExponentielle : 1, 2, 4, 8 puis 16 min après les échecs successifs
+// 1, 2, 4, 8 then 16 min after successive failures (at least one scheduler interval in practice)
+const BASE_RETRY_DELAY_MS = MINUTE_MS;
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+// deliveryLease / reservationLivraison : une livraison en cours d'envoi n'est pas reprise par le planificateur
+// A delivery being sent is not picked up again by the scheduler
+const DELIVERY_LEASE_MS = 3 * REQUEST_TIMEOUT_MS;
+const MAX_RESPONSE_EXCERPT = 1000;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+export const WEBHOOK_KINDS: WebhookKind[] = ['GENERIC', 'SLACK', 'TEAMS'];
+
+// eventNames / nomsEvenements : valeur de "event" dans le JSON et de X-Webhook-Event
+// Value of "event" in the JSON body and of X-Webhook-Event
+export const WEBHOOK_EVENT_NAMES: Record<WebhookEventType, string> = {
+  CHANGE_CREATED: 'change.created',
+  REPORT_GENERATED: 'report.generated',
+  ALERT_TRIGGERED: 'alert.triggered',
+  TEST: 'webhook.test',
+};
+
+// subscribableEvents / evenementsAbonnables : TEST est toujours envoyé par le bouton
+// TEST is always sent by the button, regardless of subscriptions
+export const SUBSCRIBABLE_WEBHOOK_EVENTS: WebhookEventType[] = [
+  'CHANGE_CREATED',
+  'REPORT_GENERATED',
+  'ALERT_TRIGGERED',
+];
+
+// WebhookInput / entreeWebhook : création ou mise à jour validée
+// Validated creation or update
+export type WebhookInput = {
+  url: string;
+  kind: WebhookKind;
+  description: string | null;
+  events: WebhookEventType[];
+  enabled: boolean;
+};
+
+// DeliveryWithEndpoint / livraisonAvecWebhook
+type DeliveryWithEndpoint = WebhookDelivery & { endpoint: WebhookEndpoint };
+
+// retryDelayMs / delaiNouvelEssai : base × 2^(essais − 1)
+// base × 2^(attempts − 1)
+export function retryDelayMs(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+}
+
+// parseWebhookInput / parserEntreeWebhook : validation du POST / PATCH
+// Validates POST / PATCH bodies; `existing` supplies the fields missing from a PATCH
+export function parseWebhookInput(
+  raw: unknown,
+  existing: WebhookInput | null,
+):
+  | { input: WebhookInput; error: null }
+  | { input: null; error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { input: null, error: 'Corps de requête invalide. / Invalid request body.' };
+  }
+
+  const value = raw as Record<string, unknown>;
+
+  const url = typeof value.url === 'string' ? value.url.trim() : existing?.url;
+  let protocol = '';
+  try {
+    protocol = url ? new URL(url).protocol : '';
+  } catch {
+    protocol = '';
+  }
+  if (!url || (protocol !== 'http:' && protocol !== 'https:')) {
+    return {
+      input: null,
+      error: 'url doit être une URL http(s). / url must be an http(s) URL.',
+    };
+  }
+
+  const kind = value.kind ?? existing?.kind ?? 'GENERIC';
+  if (!WEBHOOK_KINDS.includes(kind as WebhookKind)) {
+    return {
+      input: null,
+      error: 'kind doit valoir GENERIC, SLACK ou TEAMS. / kind must be GENERIC, SLACK or TEAMS.',
+    };
+  }
+
+  let description = existing?.description ?? null;
+  if (value.description !== undefined) {
+    description =
+      typeof value.description === 'string' && value.description.trim()
+        ? value.description.trim()
+        : null;
+  }
+  if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+    return {
+      input: null,
+      error: 'Description trop longue. / Description too long.',
+    };
+  }
+
+  let events = existing?.events ?? SUBSCRIBABLE_WEBHOOK_EVENTS;
+  if (value.events !== undefined) {
+    if (
+      !Array.isArray(value.events) ||
+      value.events.length === 0 ||
+      value.events.some(
+        (event) => !SUBSCRIBABLE_WEBHOOK_EVENTS.includes(event as WebhookEventType),
+      )
+    ) {
+      return {
+        input: null,
+        error:
+          'events doit contenir CHANGE_CREATED, REPORT_GENERATED et/ou ALERT_TRIGGERED. / events must contain CHANGE_CREATED, REPORT_GENERATED and/or ALERT_TRIGGERED.',
+      };
+    }
+    events = [...new Set(value.events as WebhookEventType[])];
+  }
+
+  return {
+    input: {
+      url,
+      kind: kind as WebhookKind,
+      description,
+      events,
+      enabled: typeof value.enabled === 'boolean' ? value.enabled : (existing?.enabled ?? true),
+    },
+    error: null,
+  };
+}
+
+// toWebhookView / versVueWebhook : secret masqué, sauf à la création ou à la rotation
+// Secret masked, except right after creation or rotation
+export function toWebhookView(endpoint: WebhookEndpoint, revealSecret = false) {
+  const { secret, ...rest } = endpoint;
+  return {
+    ...rest,
+    secretPreview: maskWebhookSecret(secret),
+    secret: revealSecret ? secret : null,
+  };
+}
+
+// buildEnvelope / construireEnveloppe : même enveloppe pour tous les événements
+// Same envelope for every event
+function buildEnvelope(
+  event: WebhookEventType,
+  project: { id: number; name: string },
+  data: ChangeEventData | ReportEventData | AlertEventData | Record<string, unknown>,
+): Prisma.InputJsonValue {
+  const envelope: WebhookEnvelope = {
+    event: WEBHOOK_EVENT_NAMES[event],
+    occurredAt: new Date().toISOString(),
+    project: { id: project.id, name: project.name },
+    data,
+  };
+  return envelope as unknown as Prisma.InputJsonValue;
+}
+
+// attemptWebhookDelivery / tenterLivraisonWebhook : un essai, résultat tracé sur la livraison
+// One attempt, recorded on the delivery. 2xx = SUCCESS; otherwise retry with backoff, FAILED after
+// MAX_WEBHOOK_ATTEMPTS. Ne lève jamais d'erreur réseau / Never throws on network errors
+export async function attemptWebhookDelivery(
+  delivery: DeliveryWithEndpoint,
+  now: Date = new Date(),
+): Promise<WebhookDelivery> {
+  const body = formatWebhookBody(
+    delivery.endpoint.kind,
+    delivery.payload as unknown as WebhookEnvelope,
+  );
+  // signedAt / signeA : heure réelle de l'envoi (now peut dater du début du passage)
+  // Actual send time (now may be the start of the scheduler pass)
+  const startedAt = Date.now();
+  const timestamp = Math.floor(startedAt / 1000);
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let errorMessage: string | null = null;
+
+  try {
+    const response = await fetch(delivery.endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'competitive-watch-webhooks/1.0',
+        [WEBHOOK_EVENT_HEADER]: WEBHOOK_EVENT_NAMES[delivery.event],
+        [WEBHOOK_DELIVERY_HEADER]: String(delivery.id),
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+          delivery.endpoint.secret,
+          timestamp,
+          body,
+        ),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    responseStatus = response.status;
+    responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_EXCERPT) || null;
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : String(error);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const delivered = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+  const giveUp = !delivered && attempts >= MAX_WEBHOOK_ATTEMPTS;
+  const status: WebhookDeliveryStatus = delivered ? 'SUCCESS' : giveUp ? 'FAILED' : 'PENDING';
+
+  return prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status,
+      attempts,
+      lastAttemptAt: now,
+      nextAttemptAt: status === 'PENDING' ? new Date(now.getTime() + retryDelayMs(attempts)) : null,
+      responseStatus,
+      responseBody,
+      errorMessage:
+        errorMessage ??
+        (delivered ? null : `Réponse HTTP ${responseStatus}. / HTTP response ${responseStatus}.`),
+      durationMs: Date.now() - startedAt,
+    },
+  });
+}
+
+// claimWebhookDelivery / reserverLivraisonWebhook : false si un autre envoi l'a déjà prise ou si elle n'est plus due
+// false when another sender already took it or it is no longer due
+async function claimWebhookDelivery(deliveryId: number, now: Date): Promise<boolean> {
+  const { count } = await prisma.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: 'PENDING', nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) },
+  });
+  return count === 1;
+}
+
+// sendQueuedDeliveries / envoyerLivraisonsEnFile : webhooks en parallèle, livraisons d'un webhook dans l'ordre ;
+// après un échec, les suivantes restent dues pour le prochain passage du planificateur
+// Endpoints in parallel, one endpoint's deliveries in order; after a failure the remaining ones
+// stay due for the next scheduler pass
+async function sendQueuedDeliveries(deliveries: DeliveryWithEndpoint[]): Promise<void> {
+  const byEndpoint = new Map<number, DeliveryWithEndpoint[]>();
+  for (const delivery of deliveries) {
+    byEndpoint.set(delivery.endpointId, [...(byEndpoint.get(delivery.endpointId) ?? []), delivery]);
+  }
+
+  await Promise.all(
+    [...byEndpoint.values()].map(async (endpointDeliveries) => {
+      for (const delivery of endpointDeliveries) {
+        const now = new Date();
+        if (!(await claimWebhookDelivery(delivery.id, now))) continue;
+
+        const updated = await attemptWebhookDelivery(delivery, now);
+        if (updated.status !== 'SUCCESS') return;
+      }
+    }),
+  );
+}
+
+// deliverToEndpoints / livrerAuxWebhooks : une livraison par webhook, premiers essais en parallèle
+// One delivery per endpoint, first attempts in parallel (test button: the result is awaited)
+async function deliverToEndpoints(
+  endpoints: WebhookEndpoint[],
+  event: WebhookEventType,
+  payload: Prisma.InputJsonValue,
+): Promise<WebhookDelivery[]> {
+  const deliveries = await Promise.all(
+    endpoints.map((endpoint) =>
+      prisma.webhookDelivery.create({
+        data: { endpointId: endpoint.id, event, payload },
+        include: { endpoint: true },
+      }),
+    ),
+  );
+
+  return Promise.all(deliveries.map((delivery) => attemptWebhookDelivery(delivery)));
+}
+
+// dispatchWebhookEvent / diffuserEvenementWebhook : webhooks actifs abonnés à l'événement
+// Active endpoints subscribed to the event, one delivery per endpoint and payload. Seule la mise
+// en file est attendue ; l'envoi continue en arrière-plan et le planificateur reprend ce qui reste.
+// Only queueing is awaited; sending continues in the background and the scheduler picks up the rest.
+// Les erreurs sont journalisées, jamais propagées (un webhook ne fait pas échouer un scrape ou un
+// rapport) / Errors are logged, never propagated
+async function dispatchWebhookEvent(
+  projectId: number,
+  event: WebhookEventType,
+  buildPayloads: (project: { id: number; name: string }) => Prisma.InputJsonValue[],
+): Promise<void> {
+  try {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { projectId, enabled: true, events: { has: event } },
+      include: { project: { select: { id: true, name: true } } },
+    });
+    if (endpoints.length === 0) return;
+
+    const payloads = buildPayloads(endpoints[0].project);
+    const now = new Date();
+    const deliveries = await prisma.$transaction(
+      endpoints.flatMap((endpoint) =>
+        payloads.map((payload) =>
+          prisma.webhookDelivery.create({
+            data: { endpointId: endpoint.id, event, payload, nextAttemptAt: now },
+            include: { endpoint: true },
+          }),
+        ),
+      ),
+    );
+
+    void sendQueuedDeliveries(deliveries).catch((error: unknown) => {
+      console.error('webhookDispatchError / erreurDiffusionWebhook', error);
+    });
+  } catch (error) {
+    console.error('webhookDispatchError / erreurDiffusionWebhook', error);
+  }
+}
+
+// notifyChangesCreated / notifierChangementsCrees : un événement change.created par changement
+// One change.created event per change (scrape route and scheduler, via lib/scrapePipeline.ts),
+// queued in a single transaction
+export async function notifyChangesCreated(changes: Change[]): Promise<void> {
+  if (changes.length === 0) return;
+
+  const page = await prisma.monitoredPage
+    .findUnique({
+      where: { id: changes[0].monitoredPageId },
+      select: {
+        id: true,
+        url: true,
+        pageType: true,
+        competitor: { select: { id: true, name: true, projectId: true } },
+      },
+    })
+    .catch((error: unknown) => {
+      console.error('webhookDispatchError / erreurDiffusionWebhook', error);
+      return null;
+    });
+  if (!page) return;
+
+  await dispatchWebhookEvent(page.competitor.projectId, 'CHANGE_CREATED', (project) =>
+    changes.map((change) =>
+      buildEnvelope('CHANGE_CREATED', project, {
+        change: {
+          id: change.id,
+          createdAt: change.createdAt.toISOString(),
+          changeType: change.changeType,
+          changeSummary: change.changeSummary,
+          field: change.field,
+          priceChangeKind: change.priceChangeKind,
+          oldPrice: change.oldPrice,
+          newPrice: change.newPrice,
+          priceDelta: change.priceDelta,
+          priceDeltaPct: change.priceDeltaPct,
+          currency: change.currency,
+          oldCurrency: change.oldCurrency,
+        },
+        page: { id: page.id, url: page.url, pageType: page.pageType },
+        competitor: { id: page.competitor.id, name: page.competitor.name },
+        links: {
+          change: appUrl(`/projects/${project.id}/changes?ids=${change.id}`),
+        },
+      } satisfies ChangeEventData),
+    ),
+  );
+}
+
+// notifyReportGenerated / notifierRapportGenere : résumé (IA ou déterministe) + faits marquants
+// Summary (AI or deterministic) + highlights
+export async function notifyReportGenerated(report: Report): Promise<void> {
+  await dispatchWebhookEvent(report.projectId, 'REPORT_GENERATED', (project) => [
+    buildEnvelope('REPORT_GENERATED', project, {
+      report: {
+        id: report.id,
+        trigger: report.trigger,
+        periodStart: report.periodStart?.toISOString() ?? null,
+        periodEnd: report.periodEnd?.toISOString() ?? null,
+        generatedAt: report.generatedAt.toISOString(),
+        summary: report.aiSummary ?? parseReportBaseline(report.baseline)?.summary ?? null,
+        highlights: parseHighlights(report.highlights),
+        pdfUrl: report.pdfUrl ?? `/api/reports/${report.id}/pdf`,
+      },
+      links: {
+        report: appUrl(`/projects/${project.id}/reports`),
+        pdf: appUrl(`/api/reports/${report.id}/pdf`),
+      },
+    } satisfies ReportEventData),
+  ]);
+}
+
+// notifyAlertTriggered / notifierAlerteDeclenchee : règle avec notify (via lib/alertRules.ts)
+// Rule with notify enabled (via lib/alertRules.ts); change is null for failure streaks
+export async function notifyAlertTriggered(
+  projectId: number,
+  data: Omit<AlertEventData, 'links'>,
+): Promise<void> {
+  await dispatchWebhookEvent(projectId, 'ALERT_TRIGGERED', (project) => [
+    buildEnvelope('ALERT_TRIGGERED', project, {
+      ...data,
+      links: {
+        alerts: appUrl(`/projects/${project.id}/alerts`),
+        ...(data.change
+          ? { change: appUrl(`/projects/${project.id}/changes?ids=${data.change.id}`) }
+          : {}),
+      },
+    } satisfies AlertEventData),
+  ]);
+}
+
+// sendTestWebhook / envoyerTestWebhook : événement webhook.test, même si le webhook est désactivé
+// webhook.test event, even when the endpoint is disabled; null when the endpoint does not exist
+export async function sendTestWebhook(endpointId: number): Promise<WebhookDelivery | null> {
+  const endpoint = await prisma.webhookEndpoint.findUnique({
+    where: { id: endpointId },
+    include: { project: { select: { id: true, name: true } } },
+  });
+  if (!endpoint) return null;
+
+  const [delivery] = await deliverToEndpoints(
+    [endpoint],
+    'TEST',
+    buildEnvelope('TEST', endpoint.project, {
+      message: 'Événement de test. / Test event.',
+      endpoint: { id: endpoint.id, url: endpoint.url },
+    }),
+  );
+  return delivery;
+}
+
+// retryDueWebhookDeliveries / relancerLivraisonsEchues : livraisons dues (webhooks actifs)
+// Due deliveries for active endpoints, one at a time: retries, and queued first attempts whose
+// background send did not run (process stopped, endpoint failed earlier in the batch)
+export async function retryDueWebhookDeliveries(
+  now: Date = new Date(),
+): Promise<{ delivered: number; failed: number }> {
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: {
+      status: 'PENDING',
+      nextAttemptAt: { lte: now },
+      endpoint: { enabled: true },
+    },
+    include: { endpoint: true },
+    orderBy: { nextAttemptAt: 'asc' },
+  });
+
+  let delivered = 0;
+  let failed = 0;
+
+  for (const delivery of deliveries) {
+    if (!(await claimWebhookDelivery(delivery.id, now))) continue;
+
+    const updated = await attemptWebhookDelivery(delivery, now);
+    if (updated.status === 'SUCCESS') {
+      delivered += 1;
+    } else {
+      failed += 1;
+    }
+  }
+
+  return { delivered, failed };
+}
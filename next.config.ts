@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdfkit lit ses polices AFM depuis node_modules : ne pas le bundler
+  // pdfkit reads its AFM font files from node_modules at runtime: keep it external
+  serverExternalPackages: ["pdfkit"],
 };
 
 export default nextConfig;
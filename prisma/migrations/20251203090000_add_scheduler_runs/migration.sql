@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "SchedulerRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "SchedulerRun" (
+    "id" SERIAL NOT NULL,
+    "status" "SchedulerRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "pagesDue" INTEGER NOT NULL DEFAULT 0,
+    "pagesScraped" INTEGER NOT NULL DEFAULT 0,
+    "pagesFailed" INTEGER NOT NULL DEFAULT 0,
+    "changesDetected" INTEGER NOT NULL DEFAULT 0,
+    "errorMessage" TEXT,
+
+    CONSTRAINT "SchedulerRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_scheduler_run_started_at" ON "SchedulerRun"("startedAt");
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "ScrapeTrigger" AS ENUM ('MANUAL', 'SCHEDULED');
+
+-- CreateEnum
+CREATE TYPE "ScrapeRunStatus" AS ENUM ('RUNNING', 'SUCCESS', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "PageHealth" AS ENUM ('UNKNOWN', 'HEALTHY', 'DEGRADED', 'FAILING');
+
+-- AlterTable
+ALTER TABLE "MonitoredPage" ADD COLUMN     "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "health" "PageHealth" NOT NULL DEFAULT 'UNKNOWN',
+ADD COLUMN     "lastScrapedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ScrapeRun" (
+    "id" SERIAL NOT NULL,
+    "monitoredPageId" INTEGER NOT NULL,
+    "schedulerRunId" INTEGER,
+    "trigger" "ScrapeTrigger" NOT NULL DEFAULT 'MANUAL',
+    "status" "ScrapeRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+    "httpStatus" INTEGER,
+    "bytes" INTEGER,
+    "errorMessage" TEXT,
+    "snapshotId" INTEGER,
+    "changeIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+
+    CONSTRAINT "ScrapeRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_scrape_run_page_started" ON "ScrapeRun"("monitoredPageId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "idx_scrape_run_status" ON "ScrapeRun"("status");
+
+-- AddForeignKey
+ALTER TABLE "ScrapeRun" ADD CONSTRAINT "ScrapeRun_monitoredPageId_fkey" FOREIGN KEY ("monitoredPageId") REFERENCES "MonitoredPage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScrapeRun" ADD CONSTRAINT "ScrapeRun_schedulerRunId_fkey" FOREIGN KEY ("schedulerRunId") REFERENCES "SchedulerRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScrapeRun" ADD CONSTRAINT "ScrapeRun_snapshotId_fkey" FOREIGN KEY ("snapshotId") REFERENCES "Snapshot"("id") ON DELETE SET NULL ON UPDATE CASCADE;
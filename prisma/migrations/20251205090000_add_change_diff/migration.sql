@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Change" ADD COLUMN     "diff" JSONB;
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "PriceChangeKind" AS ENUM ('PRICE_UPDATED', 'ITEM_ADDED', 'ITEM_REMOVED');
+
+-- AlterTable
+ALTER TABLE "Change" ADD COLUMN     "currency" TEXT,
+ADD COLUMN     "itemKey" TEXT,
+ADD COLUMN     "newPrice" DOUBLE PRECISION,
+ADD COLUMN     "oldPrice" DOUBLE PRECISION,
+ADD COLUMN     "priceChangeKind" "PriceChangeKind",
+ADD COLUMN     "priceDelta" DOUBLE PRECISION,
+ADD COLUMN     "priceDeltaPct" DOUBLE PRECISION;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "MonitoredPage" ADD COLUMN     "excludeSelectors" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "includeSelectors" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "MonitoredPage" ADD COLUMN     "ignoreBuiltins" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "ignorePatterns" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "ignoreBuiltins" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "ignorePatterns" TEXT[] DEFAULT ARRAY[]::TEXT[];
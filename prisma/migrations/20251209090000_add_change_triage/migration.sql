@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "TriageStatus" AS ENUM ('NEW', 'REVIEWED', 'IMPORTANT', 'DISMISSED');
+
+-- AlterTable
+ALTER TABLE "Change" ADD COLUMN     "assignee" TEXT,
+ADD COLUMN     "notes" TEXT,
+ADD COLUMN     "triageStatus" "TriageStatus" NOT NULL DEFAULT 'NEW',
+ADD COLUMN     "triagedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "idx_change_triage_status" ON "Change"("triageStatus");
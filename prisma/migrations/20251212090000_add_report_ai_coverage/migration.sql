@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN     "changesConsidered" INTEGER,
+ADD COLUMN     "changesDropped" INTEGER;
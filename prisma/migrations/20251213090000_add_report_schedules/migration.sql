@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "ReportTrigger" AS ENUM ('MANUAL', 'SCHEDULED');
+
+-- CreateEnum
+CREATE TYPE "ReportCadence" AS ENUM ('WEEKLY', 'MONTHLY');
+
+-- CreateEnum
+CREATE TYPE "ReportScheduleStatus" AS ENUM ('SUCCESS', 'RETRYING', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN     "scheduleId" INTEGER,
+ADD COLUMN     "trigger" "ReportTrigger" NOT NULL DEFAULT 'MANUAL';
+
+-- AlterTable
+ALTER TABLE "SchedulerRun" ADD COLUMN     "reportsFailed" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "reportsGenerated" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ReportSchedule" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "cadence" "ReportCadence" NOT NULL,
+    "dayOfWeek" INTEGER,
+    "dayOfMonth" INTEGER,
+    "hour" INTEGER NOT NULL DEFAULT 8,
+    "minute" INTEGER NOT NULL DEFAULT 0,
+    "useAi" BOOLEAN NOT NULL DEFAULT true,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "nextRunAt" TIMESTAMP(3) NOT NULL,
+    "retryAt" TIMESTAMP(3),
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastRunAt" TIMESTAMP(3),
+    "lastStatus" "ReportScheduleStatus",
+    "lastError" TEXT,
+    "lastReportId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReportSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_report_schedule_project" ON "ReportSchedule"("projectId");
+
+-- CreateIndex
+CREATE INDEX "idx_report_schedule_due" ON "ReportSchedule"("enabled", "nextRunAt");
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "ReportSchedule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportSchedule" ADD CONSTRAINT "ReportSchedule_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "WebhookKind" AS ENUM ('GENERIC', 'SLACK', 'TEAMS');
+
+-- AlterTable
+ALTER TABLE "WebhookEndpoint" ADD COLUMN     "kind" "WebhookKind" NOT NULL DEFAULT 'GENERIC';
@@ -0,0 +1,69 @@
+-- AlterEnum
+ALTER TYPE "WebhookEventType" ADD VALUE 'ALERT_TRIGGERED';
+
+-- CreateEnum
+CREATE TYPE "AlertRuleKind" AS ENUM ('PRICE_MOVE', 'CHANGE_TYPE', 'FETCH_FAILURES', 'TEXT_DIFF_SIZE');
+
+-- CreateEnum
+CREATE TYPE "PriceDirection" AS ENUM ('DROP', 'RISE', 'ANY');
+
+-- CreateTable
+CREATE TABLE "AlertRule" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" "AlertRuleKind" NOT NULL,
+    "competitorId" INTEGER,
+    "pageTypes" "PageType"[] DEFAULT ARRAY[]::"PageType"[],
+    "changeTypes" "ChangeType"[] DEFAULT ARRAY[]::"ChangeType"[],
+    "priceDirection" "PriceDirection",
+    "minPriceDeltaPct" DOUBLE PRECISION,
+    "minConsecutiveFailures" INTEGER,
+    "minDiffWords" INTEGER,
+    "notify" BOOLEAN NOT NULL DEFAULT false,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AlertRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AlertEvent" (
+    "id" SERIAL NOT NULL,
+    "ruleId" INTEGER NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "monitoredPageId" INTEGER NOT NULL,
+    "changeId" INTEGER,
+    "message" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AlertEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_alert_rule_project" ON "AlertRule"("projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AlertEvent_ruleId_changeId_key" ON "AlertEvent"("ruleId", "changeId");
+
+-- CreateIndex
+CREATE INDEX "idx_alert_event_project" ON "AlertEvent"("projectId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AlertRule" ADD CONSTRAINT "AlertRule_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AlertRule" ADD CONSTRAINT "AlertRule_competitorId_fkey" FOREIGN KEY ("competitorId") REFERENCES "Competitor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AlertEvent" ADD CONSTRAINT "AlertEvent_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "AlertRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AlertEvent" ADD CONSTRAINT "AlertEvent_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AlertEvent" ADD CONSTRAINT "AlertEvent_monitoredPageId_fkey" FOREIGN KEY ("monitoredPageId") REFERENCES "MonitoredPage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AlertEvent" ADD CONSTRAINT "AlertEvent_changeId_fkey" FOREIGN KEY ("changeId") REFERENCES "Change"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "DigestFrequency" AS ENUM ('DAILY', 'WEEKLY');
+
+-- CreateTable
+CREATE TABLE "DigestSubscriber" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "frequency" "DigestFrequency" NOT NULL DEFAULT 'WEEKLY',
+    "unsubscribeToken" TEXT NOT NULL,
+    "unsubscribedAt" TIMESTAMP(3),
+    "lastSentAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DigestSubscriber_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DigestSubscriber_unsubscribeToken_key" ON "DigestSubscriber"("unsubscribeToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DigestSubscriber_projectId_email_key" ON "DigestSubscriber"("projectId", "email");
+
+-- CreateIndex
+CREATE INDEX "idx_digest_subscriber_project" ON "DigestSubscriber"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "DigestSubscriber" ADD CONSTRAINT "DigestSubscriber_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
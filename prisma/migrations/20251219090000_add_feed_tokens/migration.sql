@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN "feedToken" TEXT;
+
+-- AlterTable
+ALTER TABLE "Competitor" ADD COLUMN "feedToken" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Project_feedToken_key" ON "Project"("feedToken");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Competitor_feedToken_key" ON "Competitor"("feedToken");
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "NotificationRead" (
+    "id" SERIAL NOT NULL,
+    "notificationId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "readAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NotificationRead_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill : une notification déjà lue reste lue pour chaque membre de l'espace de son projet
+-- An already read notification stays read for every member of its project's workspace
+INSERT INTO "NotificationRead" ("notificationId", "userId", "readAt")
+SELECT n."id", m."userId", n."readAt"
+FROM "Notification" n
+JOIN "Project" p ON p."id" = n."projectId"
+JOIN "WorkspaceMember" m ON m."workspaceId" = p."workspaceId"
+WHERE n."readAt" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "idx_notification_read_at";
+
+-- AlterTable
+ALTER TABLE "Notification" DROP COLUMN "readAt";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationRead_notificationId_userId_key" ON "NotificationRead"("notificationId", "userId");
+
+-- CreateIndex
+CREATE INDEX "idx_notification_read_user" ON "NotificationRead"("userId");
+
+-- AddForeignKey
+ALTER TABLE "NotificationRead" ADD CONSTRAINT "NotificationRead_notificationId_fkey" FOREIGN KEY ("notificationId") REFERENCES "Notification"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NotificationRead" ADD CONSTRAINT "NotificationRead_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Change" ADD COLUMN     "oldCurrency" TEXT;
+
+-- Backfill : jusqu'ici l'ancien prix était affiché avec la devise du changement
+-- Until now the old price was shown with the change's currency
+UPDATE "Change" SET "oldCurrency" = "currency" WHERE "oldPrice" IS NOT NULL;
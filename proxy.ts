@@ -0,0 +1,56 @@
+// proxy / proxy : authentification de toutes les pages et routes API (Next 16, ex-middleware)
+// Authenticates every page and API route (Next 16, formerly middleware).
+// Sans session valide : 401 JSON pour /api/*, redirection vers /login pour les pages
+// Without a valid session: 401 JSON for /api/*, redirect to /login for pages
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { findSessionUser, SESSION_COOKIE } from '@/lib/auth';
+
+// publicPaths / cheminsPublics : connexion, premier compte, invitations (création du compte),
+// désinscription (lien d'email) et flux Atom (protégés par leur propre jeton)
+// Login, first account, invitations (account creation), unsubscribe (email link) and Atom
+// feeds (protected by their own token)
+const PUBLIC_PATHS: RegExp[] = [
+  /^\/login$/,
+  /^\/api\/auth\/(login|logout|setup)$/,
+  /^\/invite\/[^/]+$/,
+  /^\/api\/invitations\/[^/]+\/accept$/,
+  /^\/unsubscribe\/[^/]+$/,
+  /^\/api\/unsubscribe\/[^/]+$/,
+  /^\/api\/(projects|competitors)\/\d+\/changes\.atom$/,
+];
+
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (PUBLIC_PATHS.some((pattern) => pattern.test(pathname))) {
+    return NextResponse.next();
+  }
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  const user = token ? await findSessionUser(token).catch(() => null) : null;
+  if (user) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      {
+        message:
+          'Authentification requise. / Authentication required.',
+      },
+      { status: 401 },
+    );
+  }
+
+  const loginUrl = request.nextUrl.clone();
+  loginUrl.pathname = '/login';
+  loginUrl.search = pathname === '/' ? '' : `?next=${encodeURIComponent(`${pathname}${search}`)}`;
+  return NextResponse.redirect(loginUrl);
+}
+
+// matcher / filtre : tout sauf les fichiers statiques de Next et l'icône
+// Everything except Next static files and the favicon
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};
@@ -0,0 +1,85 @@
+// schedulerWorker / workerPlanificateur : point d'entrée du planificateur de scrapes et de rapports
+// Scrape and report scheduler entry point
+//
+// Utilisation / Usage :
+//   pnpm scheduler          → worker longue durée (boucle) / long-lived worker (loop)
+//   pnpm scheduler --once   → un seul passage, pour cron / single pass, for cron
+
+import { prisma } from '@/lib/db';
+import { runSchedulerTick } from '@/lib/scheduler';
+
+// tickInterval / intervallePassage : SCHEDULER_INTERVAL_MINUTES, 15 minutes par défaut
+// Tick interval from SCHEDULER_INTERVAL_MINUTES, defaults to 15 minutes
+function readIntervalMs(): number {
+  const minutes = Number(process.env.SCHEDULER_INTERVAL_MINUTES ?? 15);
+  return Number.isFinite(minutes) && minutes > 0
+    ? minutes * 60 * 1000
+    : 15 * 60 * 1000;
+}
+
+// runOnce / executerUneFois : un passage + résumé dans les logs
+// One pass + summary in the logs
+async function runOnce(): Promise<boolean> {
+  const run = await runSchedulerTick();
+  console.log(
+    `[scheduler] Passage #${run.id} ${run.status} : ${run.pagesScraped}/${run.pagesDue} pages, ` +
+      `${run.pagesFailed} échec(s), ${run.changesDetected} changement(s), ` +
+      `${run.reportsGenerated} rapport(s) planifié(s), ${run.reportsFailed} rapport(s) en échec. / ` +
+      `Run #${run.id} ${run.status}: ${run.pagesScraped}/${run.pagesDue} pages, ` +
+      `${run.pagesFailed} failure(s), ${run.changesDetected} change(s), ` +
+      `${run.reportsGenerated} scheduled report(s), ${run.reportsFailed} failed report(s).`,
+  );
+  return run.status === 'COMPLETED';
+}
+
+async function main() {
+  if (process.argv.includes('--once')) {
+    const ok = await runOnce();
+    await prisma.$disconnect();
+    process.exitCode = ok ? 0 : 1;
+    return;
+  }
+
+  const intervalMs = readIntervalMs();
+  let stopping = false;
+  let timer: NodeJS.Timeout | null = null;
+  let wakeUp: (() => void) | null = null;
+
+  // gracefulStop / arretPropre : on termine le passage en cours avant de quitter
+  // Finish the current pass before exiting
+  const stop = () => {
+    stopping = true;
+    if (timer) clearTimeout(timer);
+    wakeUp?.();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  console.log(
+    `[scheduler] Worker démarré (intervalle ${intervalMs / 60000} min). / Worker started (interval ${intervalMs / 60000} min).`,
+  );
+
+  while (!stopping) {
+    try {
+      await runOnce();
+    } catch (error) {
+      console.error('[scheduler] Erreur inattendue. / Unexpected error.', error);
+    }
+
+    if (stopping) break;
+
+    await new Promise<void>((resolve) => {
+      wakeUp = resolve;
+      timer = setTimeout(resolve, intervalMs);
+    });
+  }
+
+  await prisma.$disconnect();
+  console.log('[scheduler] Worker arrêté. / Worker stopped.');
+}
+
+main().catch(async (error) => {
+  console.error('[scheduler] Arrêt sur erreur fatale. / Stopping on fatal error.', error);
+  await prisma.$disconnect();
+  process.exit(1);
+});
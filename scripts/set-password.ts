@@ -0,0 +1,47 @@
+// setPassword / definirMotDePasse : création d'un compte ou réinitialisation d'un mot de passe
+// Creates an account or resets a password from the command line (recovery when nobody can log in)
+//
+// Utilisation / Usage :
+//   pnpm user:password <email> <motDePasse>   → crée le compte s'il n'existe pas, sinon remplace
+//                                               le mot de passe et ferme ses sessions
+//                                             / creates the account when missing, otherwise replaces
+//                                               the password and closes its sessions
+
+import { hashPassword, MIN_PASSWORD_LENGTH, normalizeEmail } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+
+async function main() {
+  const [, , rawEmail, password] = process.argv;
+  const email = normalizeEmail(rawEmail);
+
+  if (!email || !password || password.length < MIN_PASSWORD_LENGTH) {
+    console.error(
+      `Usage : pnpm user:password <email> <motDePasse> (${MIN_PASSWORD_LENGTH} caractères min. / min. characters)`,
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const passwordHash = await hashPassword(password);
+  const existing = await prisma.user.findUnique({ where: { email }, select: { id: true } });
+
+  if (existing) {
+    await prisma.$transaction([
+      prisma.user.update({ where: { id: existing.id }, data: { passwordHash } }),
+      prisma.session.deleteMany({ where: { userId: existing.id } }),
+    ]);
+    console.log(`Mot de passe remplacé pour ${email}. / Password reset for ${email}.`);
+  } else {
+    await prisma.user.create({ data: { email, passwordHash } });
+    console.log(
+      `Compte créé : ${email} (sans espace : invitez-le depuis /workspace ou il créera le sien). / Account created: ${email} (no workspace: invite it from /workspace or it will create its own).`,
+    );
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('setPasswordError / erreurDefinitionMotDePasse', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
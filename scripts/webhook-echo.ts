@@ -0,0 +1,94 @@
+// webhookEcho / recepteurWebhookLocal : récepteur local pour tester les webhooks hors ligne
+// Local receiver to test webhooks offline: prints each event and checks its signature
+//
+// Utilisation / Usage :
+//   pnpm webhook:echo                                → http://localhost:4000/webhook
+//   WEBHOOK_ECHO_SECRET=whsec_… pnpm webhook:echo    → vérifie X-Webhook-Signature / checks the signature (401 si invalide)
+//   WEBHOOK_ECHO_STATUS=500 pnpm webhook:echo        → répond toujours 500 (tester les nouveaux essais / test retries)
+//   WEBHOOK_ECHO_PORT=4001                           → autre port / other port
+//
+// Sert aussi de substitut local aux incoming webhooks Slack / Teams (format SLACK / TEAMS) :
+// le message Block Kit / MessageCard est affiché tel qu'il serait envoyé.
+// Also a local stand-in for Slack / Teams incoming webhooks (SLACK / TEAMS kinds):
+// the Block Kit / MessageCard message is printed as it would be sent.
+
+import { createServer } from 'node:http';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  verifyWebhookSignature,
+} from '@/lib/webhookSignature';
+
+const port = Number(process.env.WEBHOOK_ECHO_PORT ?? 4000);
+const secret = process.env.WEBHOOK_ECHO_SECRET?.trim() || null;
+const forcedStatus = Number(process.env.WEBHOOK_ECHO_STATUS) || null;
+
+// headerValue / valeurEntete : node met les en-têtes en minuscules
+// Node lower-cases header names
+function headerValue(
+  headers: NodeJS.Dict<string | string[]>,
+  name: string,
+): string | null {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? (value[0] ?? null) : (value ?? null);
+}
+
+const server = createServer((request, response) => {
+  if (request.method !== 'POST') {
+    response.writeHead(405).end();
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  request.on('data', (chunk: Buffer) => chunks.push(chunk));
+  request.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const event = headerValue(request.headers, WEBHOOK_EVENT_HEADER);
+    const deliveryId = headerValue(request.headers, WEBHOOK_DELIVERY_HEADER);
+
+    // signatureCheck / verificationSignature : seulement si WEBHOOK_ECHO_SECRET est fourni
+    // Only when WEBHOOK_ECHO_SECRET is set
+    let signatureText = 'non vérifiée / not checked';
+    let status = forcedStatus ?? 200;
+    if (secret) {
+      const valid = verifyWebhookSignature({
+        secret,
+        timestamp: headerValue(request.headers, WEBHOOK_TIMESTAMP_HEADER),
+        body,
+        signature: headerValue(request.headers, WEBHOOK_SIGNATURE_HEADER),
+      });
+      signatureText = valid ? 'valide / valid' : 'INVALIDE / INVALID';
+      if (!valid) status = 401;
+    }
+
+    let pretty = body;
+    try {
+      pretty = JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      // rawBody / corpsBrut : affiché tel quel / printed as-is
+    }
+
+    console.log(
+      `\n[webhook-echo] ${new Date().toISOString()} ${event ?? '?'} (livraison / delivery #${deliveryId ?? '?'}) ` +
+        `signature ${signatureText} → ${status}`,
+    );
+    console.log(pretty);
+
+    response
+      .writeHead(status, { 'Content-Type': 'application/json' })
+      .end(JSON.stringify({ received: status < 300 }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(
+    `[webhook-echo] Écoute sur http://localhost:${port}/webhook. / Listening on http://localhost:${port}/webhook.`,
+  );
+});
+
+// gracefulStop / arretPropre
+const stop = () => server.close(() => process.exit(0));
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);